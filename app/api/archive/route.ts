@@ -0,0 +1,128 @@
+/**
+ * app/api/archive/route.ts
+ * Saves a readable copy of a bookmarked page.
+ * POST { id } → { bookmark: Bookmark }
+ *
+ * The page is fetched server-side through safeFetch, its main content
+ * extracted and sanitised by lib/readability.ts, and stored in
+ * bookmark_archives (one snapshot per bookmark; re-archiving replaces
+ * it). Only this route writes archives: the copy is rendered as stored,
+ * so it goes in with the service-role client once the caller's edit
+ * rights have been checked here, and clients can't write it directly.
+ * Bookmarks in the Trash can't be archived.
+ */
+
+import { NextResponse } from "next/server";
+import { createServerSupabaseClient } from "@/lib/supabaseServer";
+import { createAdminSupabaseClient } from "@/lib/supabaseAdmin";
+import { isBookmarkId } from "@/lib/apiBookmarks";
+import { canEditBookmarks } from "@/lib/collections";
+import { findTags } from "@/lib/html";
+import { METADATA_LIMITS, decodeBody, parseMetadata } from "@/lib/metadata";
+import { extractArticle } from "@/lib/readability";
+import { SafeFetchError, safeFetch } from "@/lib/safeFetch";
+
+export const runtime = "nodejs";
+
+const ARCHIVE_MAX_BYTES = 3 * 1024 * 1024;
+const ARCHIVE_TIMEOUT_MS = 10_000;
+
+export async function POST(request: Request) {
+  const supabase = await createServerSupabaseClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const id: unknown = body?.id;
+  if (typeof id !== "string" || !isBookmarkId(id)) {
+    return NextResponse.json({ error: "id must be a bookmark id." }, { status: 400 });
+  }
+
+  const { data: bookmark } = await supabase
+    .from("bookmarks")
+    .select("id, url, user_id, collection_id")
+    .eq("id", id)
+    .is("deleted_at", null)
+    .maybeSingle();
+  if (!bookmark) {
+    return NextResponse.json({ error: "Bookmark not found" }, { status: 404 });
+  }
+
+  // The same rule the bookmark update policies apply
+  let canEdit = bookmark.collection_id === null && bookmark.user_id === user.id;
+  if (bookmark.collection_id !== null) {
+    const { data: role } = await supabase.rpc("collection_role", { target: bookmark.collection_id });
+    canEdit = role !== null && canEditBookmarks(role);
+  }
+  if (!canEdit) {
+    return NextResponse.json({ error: "You can't archive this bookmark." }, { status: 403 });
+  }
+
+  let html: string;
+  let pageUrl: string;
+  try {
+    const res = await safeFetch(bookmark.url, {
+      timeoutMs: ARCHIVE_TIMEOUT_MS,
+      maxBytes: ARCHIVE_MAX_BYTES,
+      truncate: true,
+    });
+    const contentType = String(res.headers["content-type"] ?? "");
+    if (res.status >= 400) {
+      return NextResponse.json({ error: `The page answered ${res.status} — nothing to archive.` }, { status: 502 });
+    }
+    if (!/html/i.test(contentType)) {
+      return NextResponse.json({ error: "Only web pages can be archived." }, { status: 415 });
+    }
+    html = decodeBody(res.body, contentType);
+    pageUrl = res.url;
+  } catch (err) {
+    if (err instanceof SafeFetchError) {
+      const status =
+        err.code === "blocked_host" || err.code === "invalid_url" ? 400 :
+        err.code === "timeout" ? 504 : 502;
+      return NextResponse.json({ error: err.message, code: err.code }, { status });
+    }
+    console.error("Archive fetch error:", err);
+    return NextResponse.json({ error: "Could not fetch page" }, { status: 502 });
+  }
+
+  const article = extractArticle(html, pageUrl);
+  if (!article.textContent) {
+    return NextResponse.json({ error: "Couldn't find any readable content on this page." }, { status: 422 });
+  }
+
+  const metadata = parseMetadata(html, pageUrl);
+  const author = findTags(html.slice(0, 200_000), "meta").find((m) => (m.name ?? "").toLowerCase() === "author");
+  const archivedAt = new Date().toISOString();
+
+  const { error: archiveError } = await createAdminSupabaseClient().from("bookmark_archives").upsert({
+    bookmark_id: bookmark.id,
+    user_id: user.id,
+    source_url: pageUrl.slice(0, METADATA_LIMITS.url),
+    title: metadata.title,
+    byline: author?.content?.trim().slice(0, 200) || null,
+    site_name: metadata.siteName,
+    content_html: article.contentHtml,
+    content_text: article.textContent,
+    word_count: article.wordCount,
+    archived_at: archivedAt,
+  });
+  if (archiveError) {
+    return NextResponse.json({ error: archiveError.message }, { status: 500 });
+  }
+
+  const { data: updated, error: updateError } = await supabase
+    .from("bookmarks")
+    .update({ archived_at: archivedAt })
+    .eq("id", bookmark.id)
+    .select()
+    .single();
+  if (updateError) {
+    return NextResponse.json({ error: updateError.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ bookmark: updated });
+}
@@ -0,0 +1,89 @@
+/**
+ * app/api/cli/login/route.ts
+ * Device-style login for the command-line client.
+ *
+ * POST /api/cli/login  { token_hash, token_prefix, client_name }
+ *      → CliLoginStart { user_code, verification_url, expires_at, interval }
+ * GET  /api/cli/login?token_hash=…
+ *      → { status: "pending" | "approved" | "expired" }
+ *
+ * Neither call needs a session: the CLI isn't signed in yet. The token
+ * itself never leaves the user's machine, only its SHA-256 hash; the
+ * database functions (schema section 11) do the rest.
+ */
+
+import { NextResponse } from "next/server";
+import { createServerSupabaseClient } from "@/lib/supabaseServer";
+import { readJson } from "@/lib/apiBookmarks";
+import { API_TOKEN_PREFIX } from "@/lib/apiTokens";
+import {
+  CLI_POLL_INTERVAL_SECONDS,
+  MAX_CLIENT_NAME_LENGTH,
+  cliLoginUrl,
+  type CliLoginStart,
+  type CliLoginStatus,
+} from "@/lib/cliLogin";
+
+export const runtime = "nodejs";
+
+const TOKEN_HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+export async function POST(request: Request) {
+  const body = await readJson(request);
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Expected a JSON object" }, { status: 400 });
+  }
+  const { token_hash, token_prefix, client_name } = body as Record<string, unknown>;
+
+  if (typeof token_hash !== "string" || !TOKEN_HASH_PATTERN.test(token_hash)) {
+    return NextResponse.json({ error: "token_hash must be a hex SHA-256 digest" }, { status: 400 });
+  }
+  if (
+    typeof token_prefix !== "string" ||
+    !token_prefix.startsWith(API_TOKEN_PREFIX) ||
+    token_prefix.length > 20
+  ) {
+    return NextResponse.json({ error: "token_prefix is invalid" }, { status: 400 });
+  }
+  const name = typeof client_name === "string" ? client_name.trim().slice(0, MAX_CLIENT_NAME_LENGTH) : "";
+  if (!name) {
+    return NextResponse.json({ error: "client_name is required" }, { status: 400 });
+  }
+
+  const supabase = await createServerSupabaseClient();
+  const { data, error } = await supabase.rpc("start_cli_login", {
+    token_hash,
+    token_prefix,
+    client_name: name,
+  });
+
+  const row = (data as { user_code: string; expires_at: string }[] | null)?.[0];
+  if (error || !row) {
+    // 23505: the same token was registered twice
+    const status = error?.code === "23505" ? 409 : 500;
+    return NextResponse.json({ error: error?.message ?? "Couldn't start login" }, { status });
+  }
+
+  const start: CliLoginStart = {
+    user_code: row.user_code,
+    verification_url: cliLoginUrl(new URL(request.url).origin, row.user_code),
+    expires_at: row.expires_at,
+    interval: CLI_POLL_INTERVAL_SECONDS,
+  };
+  return NextResponse.json(start);
+}
+
+export async function GET(request: Request) {
+  const tokenHash = new URL(request.url).searchParams.get("token_hash") ?? "";
+  if (!TOKEN_HASH_PATTERN.test(tokenHash)) {
+    return NextResponse.json({ error: "token_hash must be a hex SHA-256 digest" }, { status: 400 });
+  }
+
+  const supabase = await createServerSupabaseClient();
+  const { data, error } = await supabase.rpc("cli_login_status", { token_hash: tokenHash });
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ status: data as CliLoginStatus });
+}
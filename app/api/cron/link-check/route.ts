@@ -0,0 +1,55 @@
+/**
+ * app/api/cron/link-check/route.ts
+ * Scheduled dead-link sweep (see "crons" in vercel.json).
+ * GET with `Authorization: Bearer $CRON_SECRET` → health report
+ *
+ * Re-checks the least recently checked bookmarks across all users —
+ * never-checked rows first, then anything older than
+ * LINK_CHECK_STALE_DAYS — and returns counts per status.
+ */
+
+import { NextResponse } from "next/server";
+import { createAdminSupabaseClient } from "@/lib/supabaseAdmin";
+import { LINK_CHECK_STALE_DAYS, checkAndStoreLinks } from "@/lib/linkHealth";
+import type { LinkStatus } from "@/lib/types";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Sized to finish well inside a serverless function's time limit
+const CRON_BATCH_SIZE = 100;
+
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const staleBefore = new Date(Date.now() - LINK_CHECK_STALE_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  // Only ids and URLs are read, and each update targets one row by id
+  const supabase = createAdminSupabaseClient();
+  const { data: rows, error } = await supabase
+    .from("bookmarks")
+    .select("id, url")
+    .is("deleted_at", null)
+    .or(`link_checked_at.is.null,link_checked_at.lt.${staleBefore}`)
+    .order("link_checked_at", { ascending: true, nullsFirst: true })
+    .limit(CRON_BATCH_SIZE);
+
+  if (error) {
+    console.error("Link check sweep failed:", error.message);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  const checked = await checkAndStoreLinks(supabase, rows ?? []);
+
+  const counts: Record<LinkStatus, number> = { ok: 0, redirected: 0, broken: 0, unknown: 0 };
+  for (const bookmark of checked) {
+    if (bookmark.link_status) counts[bookmark.link_status]++;
+  }
+
+  const report = { checked: checked.length, ...counts, checked_at: new Date().toISOString() };
+  console.log("Link check sweep:", JSON.stringify(report));
+  return NextResponse.json(report);
+}
@@ -0,0 +1,38 @@
+/**
+ * app/api/cron/purge-trash/route.ts
+ * Scheduled Trash purge (see "crons" in vercel.json).
+ * GET with `Authorization: Bearer $CRON_SECRET` → { purged, purged_at }
+ *
+ * Deletes, across all users, every bookmark that has been in the Trash
+ * longer than TRASH_RETENTION_DAYS (lib/trash.ts). Tag links and archived
+ * copies go with them through their foreign keys.
+ */
+
+import { NextResponse } from "next/server";
+import { createAdminSupabaseClient } from "@/lib/supabaseAdmin";
+import { purgeCutoff } from "@/lib/trash";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const supabase = createAdminSupabaseClient();
+  const { count, error } = await supabase
+    .from("bookmarks")
+    .delete({ count: "exact" })
+    .lt("deleted_at", purgeCutoff());
+
+  if (error) {
+    console.error("Trash purge failed:", error.message);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  const report = { purged: count ?? 0, purged_at: new Date().toISOString() };
+  console.log("Trash purge:", JSON.stringify(report));
+  return NextResponse.json(report);
+}
@@ -0,0 +1,198 @@
+/**
+ * app/api/export/route.ts
+ * Streams the signed-in user's bookmarks as a downloadable file.
+ * GET /api/export?format=html|json|csv|md[&tag=work][&from=2024-01-01][&to=2024-12-31][&tracked=1]
+ * POST /api/export (form fields format, ids, [tracked=1]) — just the listed bookmarks
+ *
+ * Reads go through the cookie-bound server client, so RLS limits the
+ * export to rows the caller can see; shared-collection bookmarks are
+ * left out so the file is the caller's personal list, and so is the Trash. `tag` includes nested folder tags;
+ * `from`/`to` are inclusive calendar dates on created_at. `tracked=1`
+ * writes /go/<id> links on this site instead of the URLs, so opens from
+ * the file are counted (lib/visits.ts) — not for re-importing elsewhere.
+ * The POST form is the dashboard's "export selected" (lib/bulk.ts): ids
+ * is a comma-separated list from any view the caller can read, written
+ * in the order given. It's a form post so the browser still handles the
+ * download itself, and the ids don't have to fit in a URL.
+ * Each page of rows brings its highlights (lib/notes.ts) with it.
+ */
+
+import { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createServerSupabaseClient } from "@/lib/supabaseServer";
+import { isBookmarkId } from "@/lib/apiBookmarks";
+import { MAX_BULK_SELECTION } from "@/lib/bulk";
+import { exporters, isExportFormat, type ExportBookmark, type Exporter } from "@/lib/exporters";
+import { fetchHighlightsFor } from "@/lib/notes";
+import { normaliseTagName, tagMatches } from "@/lib/tags";
+import { visitPath } from "@/lib/visits";
+import type { Bookmark, BookmarkTag, Tag } from "@/lib/types";
+
+export const runtime = "nodejs";
+
+const PAGE_SIZE = 1000;
+// Ids per request when exporting a selection, to keep each URL short
+const ID_BATCH_SIZE = 200;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const FORMAT_ERROR = "format must be html, json, csv or md";
+
+// One page of rows to write; `done` once there are no more
+type PageReader = (page: number) => Promise<{ rows: Bookmark[]; done: boolean; error: string | null }>;
+
+export async function GET(request: Request) {
+  const supabase = await createServerSupabaseClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const format = searchParams.get("format") ?? "json";
+  const tagFilter = normaliseTagName(searchParams.get("tag") ?? "");
+  const from = searchParams.get("from") ?? "";
+  const to = searchParams.get("to") ?? "";
+  const origin = searchParams.get("tracked") === "1" ? new URL(request.url).origin : null;
+
+  if (!isExportFormat(format)) {
+    return NextResponse.json({ error: FORMAT_ERROR }, { status: 400 });
+  }
+  if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+    return NextResponse.json({ error: "from/to must be YYYY-MM-DD" }, { status: 400 });
+  }
+
+  const readPage: PageReader = async (page) => {
+    let query = supabase
+      .from("bookmarks")
+      .select("*")
+      .is("collection_id", null)
+      .is("deleted_at", null)
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false })
+      .order("id", { ascending: false })
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+    if (from) query = query.gte("created_at", `${from}T00:00:00Z`);
+    if (to) query = query.lte("created_at", `${to}T23:59:59.999Z`);
+
+    const { data, error } = await query;
+    if (error) return { rows: [], done: true, error: error.message };
+    const rows = (data ?? []) as Bookmark[];
+    return { rows, done: rows.length < PAGE_SIZE, error: null };
+  };
+
+  return exportResponse(supabase, exporters[format], readPage, { tagFilter, origin });
+}
+
+export async function POST(request: Request) {
+  const supabase = await createServerSupabaseClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const form = await request.formData().catch(() => null);
+  const format = String(form?.get("format") ?? "json");
+  const ids = String(form?.get("ids") ?? "").split(",").filter(Boolean);
+  const origin = form?.get("tracked") === "1" ? new URL(request.url).origin : null;
+
+  if (!isExportFormat(format)) {
+    return NextResponse.json({ error: FORMAT_ERROR }, { status: 400 });
+  }
+  if (ids.length === 0 || ids.length > MAX_BULK_SELECTION || !ids.every(isBookmarkId)) {
+    return NextResponse.json(
+      { error: `ids must list between 1 and ${MAX_BULK_SELECTION} bookmark ids` },
+      { status: 400 }
+    );
+  }
+
+  const readPage: PageReader = async (page) => {
+    const batch = ids.slice(page * ID_BATCH_SIZE, (page + 1) * ID_BATCH_SIZE);
+    const { data, error } = await supabase
+      .from("bookmarks")
+      .select("*")
+      .in("id", batch)
+      .is("deleted_at", null);
+    if (error) return { rows: [], done: true, error: error.message };
+    const order = new Map(batch.map((id, i) => [id, i]));
+    const rows = ((data ?? []) as Bookmark[]).sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+    return { rows, done: (page + 1) * ID_BATCH_SIZE >= ids.length, error: null };
+  };
+
+  return exportResponse(supabase, exporters[format], readPage, { tagFilter: "", origin });
+}
+
+async function exportResponse(
+  supabase: SupabaseClient,
+  exporter: Exporter,
+  readPage: PageReader,
+  { tagFilter, origin }: { tagFilter: string; origin: string | null }
+): Promise<Response> {
+  // Tags are small enough to load up front; bookmarks are paged below
+  const [{ data: tagRows, error: tagError }, { data: linkRows, error: linkError }] = await Promise.all([
+    supabase.from("tags").select("*"),
+    supabase.from("bookmark_tags").select("bookmark_id, tag_id, user_id"),
+  ]);
+  if (tagError || linkError) {
+    return NextResponse.json({ error: (tagError ?? linkError)!.message }, { status: 500 });
+  }
+
+  const tagNameById = new Map((tagRows as Tag[]).map((t) => [t.id, t.name]));
+  const tagsByBookmark = new Map<string, string[]>();
+  for (const link of linkRows as BookmarkTag[]) {
+    const name = tagNameById.get(link.tag_id);
+    if (!name) continue;
+    tagsByBookmark.set(link.bookmark_id, [...(tagsByBookmark.get(link.bookmark_id) ?? []), name]);
+  }
+
+  const encoder = new TextEncoder();
+  let page = 0;
+  let index = 0;
+  let done = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(exporter.header()));
+    },
+    async pull(controller) {
+      if (done) return;
+
+      const { rows, done: lastPage, error } = await readPage(page);
+      if (error) {
+        controller.error(new Error(error));
+        return;
+      }
+      const { highlights, error: highlightError } = await fetchHighlightsFor(supabase, rows);
+      if (highlightError) {
+        controller.error(new Error(highlightError));
+        return;
+      }
+
+      let chunk = "";
+      for (const bookmark of rows) {
+        const tags = (tagsByBookmark.get(bookmark.id) ?? []).sort();
+        if (tagFilter && !tags.some((t) => tagMatches(t, tagFilter))) continue;
+        const url = origin ? `${origin}${visitPath(bookmark.id)}` : bookmark.url;
+        const bookmarkHighlights = highlights.get(bookmark.id) ?? [];
+        chunk += exporter.row({ ...bookmark, url, tags, highlights: bookmarkHighlights } as ExportBookmark, index++);
+      }
+
+      page++;
+      if (lastPage) {
+        done = true;
+        chunk += exporter.footer();
+      }
+      if (chunk) controller.enqueue(encoder.encode(chunk));
+      if (done) controller.close();
+    },
+  });
+
+  const date = new Date().toISOString().slice(0, 10);
+  return new Response(stream, {
+    headers: {
+      "content-type": exporter.contentType,
+      "content-disposition": `attachment; filename="bookmarks-${date}.${exporter.extension}"`,
+      "cache-control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,223 @@
+/**
+ * app/api/import/route.ts
+ * Bulk import from a browser export, CSV or JSON file.
+ * POST multipart/form-data { file, collection_id? } → ImportReport
+ *
+ * Rows are validated with the same rules as BookmarkForm and
+ * de-duplicated against the user's personal bookmarks, or against the
+ * shared collection they are imported into. Inserts run in
+ * batches; if a batch is rejected it is retried row by row so one bad
+ * row is reported on its own instead of failing the whole file.
+ */
+
+import { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createServerSupabaseClient } from "@/lib/supabaseServer";
+import { isDuplicateUrlError, tryCanonicaliseUrl } from "@/lib/canonicalUrl";
+import { detectFormat, parseImportFile, prepareImport, type PreparedRow } from "@/lib/importers";
+import { ensureTags } from "@/lib/tags";
+import type { Bookmark, BookmarkTag, ImportIssue, ImportReport } from "@/lib/types";
+
+export const runtime = "nodejs";
+
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+const MAX_ROWS = 5000;
+const BATCH_SIZE = 500;
+// Rows per request when reading existing URLs; PostgREST caps responses at 1000
+const EXISTING_PAGE_SIZE = 1000;
+
+export async function POST(request: Request) {
+  const supabase = await createServerSupabaseClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const form = await request.formData().catch(() => null);
+  const file = form?.get("file");
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: "Choose a file to import." }, { status: 400 });
+  }
+  if (file.size > MAX_FILE_BYTES) {
+    return NextResponse.json({ error: "File is larger than 5 MB." }, { status: 413 });
+  }
+
+  const collectionId = form?.get("collection_id") || null;
+  if (collectionId !== null) {
+    if (typeof collectionId !== "string") {
+      return NextResponse.json({ error: "Invalid collection." }, { status: 400 });
+    }
+    const { data: role } = await supabase.rpc("collection_role", { target: collectionId });
+    if (role !== "owner" && role !== "editor") {
+      return NextResponse.json({ error: "You can't add bookmarks to this collection." }, { status: 403 });
+    }
+  }
+
+  const text = await file.text();
+  const format = detectFormat(file.name, text);
+  if (!format) {
+    return NextResponse.json(
+      { error: "Unrecognised file. Use a browser bookmarks .html, a .csv or a .json export." },
+      { status: 400 }
+    );
+  }
+
+  let rows;
+  try {
+    rows = parseImportFile(format, text);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Could not read file.";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  if (rows.length > MAX_ROWS) {
+    return NextResponse.json(
+      { error: `File has ${rows.length} bookmarks; the limit is ${MAX_ROWS} per import.` },
+      { status: 413 }
+    );
+  }
+
+  const { urls: existingUrls, error: existingError } = await loadExistingUrls(supabase, user.id, collectionId);
+  if (existingError) {
+    return NextResponse.json({ error: existingError }, { status: 500 });
+  }
+
+  const { ready, issues } = prepareImport(rows, existingUrls);
+
+  const inserted: { row: PreparedRow; bookmark: Bookmark }[] = [];
+  for (let i = 0; i < ready.length; i += BATCH_SIZE) {
+    const result = await insertBatch(supabase, user.id, collectionId, ready.slice(i, i + BATCH_SIZE));
+    inserted.push(...result.inserted);
+    issues.push(...result.issues);
+  }
+
+  // Tags: create what's missing once, then link in batches
+  const tagNames = Array.from(new Set(inserted.flatMap(({ row }) => row.tags)));
+  const { tags, error: tagError } = await ensureTags(supabase, user.id, tagNames);
+  const tagIdByName = new Map(tags.map((t) => [t.name, t.id]));
+
+  const links: BookmarkTag[] = tagError
+    ? []
+    : inserted.flatMap(({ row, bookmark }) =>
+        row.tags
+          .map((name) => tagIdByName.get(name))
+          .filter((id): id is string => !!id)
+          .map((tagId) => ({ bookmark_id: bookmark.id, tag_id: tagId, user_id: user.id }))
+      );
+
+  let linkError = tagError;
+  for (let i = 0; i < links.length && !linkError; i += BATCH_SIZE) {
+    const { error } = await supabase.from("bookmark_tags").insert(links.slice(i, i + BATCH_SIZE));
+    if (error) linkError = error.message;
+  }
+  if (linkError) console.error("Import tagging error:", linkError);
+
+  issues.sort((a, b) => a.line - b.line);
+
+  const report: ImportReport = {
+    format,
+    total: rows.length,
+    imported: inserted.length,
+    issues,
+    bookmarks: inserted.map(({ bookmark }) => bookmark),
+    tags: linkError ? [] : tags,
+    links: linkError ? [] : links,
+  };
+
+  return NextResponse.json(report);
+}
+
+/**
+ * Canonical URLs already saved where the import is going, read page by
+ * page so large libraries are checked in full. Trashed copies don't
+ * count: the same link can be saved again.
+ */
+async function loadExistingUrls(
+  supabase: SupabaseClient,
+  userId: string,
+  collectionId: string | null
+): Promise<{ urls: Set<string>; error: string | null }> {
+  const urls = new Set<string>();
+
+  for (let page = 0; ; page++) {
+    const query = supabase
+      .from("bookmarks")
+      .select("url, canonical_url")
+      .is("deleted_at", null)
+      .order("id")
+      .range(page * EXISTING_PAGE_SIZE, (page + 1) * EXISTING_PAGE_SIZE - 1);
+    const { data, error } = await (collectionId
+      ? query.eq("collection_id", collectionId)
+      : query.is("collection_id", null).eq("user_id", userId));
+    if (error) return { urls, error: error.message };
+
+    const rows = (data ?? []) as { url: string; canonical_url: string | null }[];
+    for (const row of rows) {
+      // Older rows may predate canonical_url — derive it for them here
+      const canonical = row.canonical_url ?? tryCanonicaliseUrl(row.url);
+      if (canonical) urls.add(canonical);
+    }
+    if (rows.length < EXISTING_PAGE_SIZE) return { urls, error: null };
+  }
+}
+
+async function insertBatch(
+  supabase: SupabaseClient,
+  userId: string,
+  collectionId: string | null,
+  batch: PreparedRow[]
+): Promise<{ inserted: { row: PreparedRow; bookmark: Bookmark }[]; issues: ImportIssue[] }> {
+  const toInsert = (row: PreparedRow) => ({
+    user_id: userId,
+    collection_id: collectionId,
+    title: row.title,
+    url: row.url,
+    canonical_url: row.canonical_url,
+    // An import is a backlog of past saves, not a reading queue
+    reading_status: "read",
+    ...(row.created_at ? { created_at: row.created_at } : {}),
+  });
+
+  // Rows without a created_at should get the column default, not NULL
+  const { data, error } = await supabase
+    .from("bookmarks")
+    .insert(batch.map(toInsert), { defaultToNull: false })
+    .select();
+
+  if (!error && data) {
+    // PostgREST returns inserted rows in input order
+    return {
+      inserted: (data as Bookmark[]).map((bookmark, i) => ({ row: batch[i], bookmark })),
+      issues: [],
+    };
+  }
+
+  // Batch rejected — retry one at a time to isolate the bad rows
+  const inserted: { row: PreparedRow; bookmark: Bookmark }[] = [];
+  const issues: ImportIssue[] = [];
+
+  for (const row of batch) {
+    const { data: single, error: rowError } = await supabase
+      .from("bookmarks")
+      .insert(toInsert(row))
+      .select()
+      .single();
+
+    if (isDuplicateUrlError(rowError)) {
+      // Saved from another tab while the import was running
+      issues.push({ line: row.line, url: row.url, status: "duplicate", message: "Already saved." });
+    } else if (rowError || !single) {
+      issues.push({
+        line: row.line,
+        url: row.url,
+        status: "failed",
+        message: rowError?.message ?? "Insert failed.",
+      });
+    } else {
+      inserted.push({ row, bookmark: single as Bookmark });
+    }
+  }
+
+  return { inserted, issues };
+}
@@ -0,0 +1,50 @@
+/**
+ * app/api/link-check/route.ts
+ * Checks bookmark URLs for dead links and stores the results.
+ * POST { ids: string[] } → { bookmarks: Bookmark[] }
+ *
+ * At most LINK_CHECK_BATCH_SIZE ids per request; the dashboard sends the
+ * list in chunks. Reads and updates go through the cookie-bound client,
+ * so RLS limits checks to bookmarks the caller may edit.
+ */
+
+import { NextResponse } from "next/server";
+import { createServerSupabaseClient } from "@/lib/supabaseServer";
+import { isBookmarkId } from "@/lib/apiBookmarks";
+import { checkAndStoreLinks } from "@/lib/linkHealth";
+import { LINK_CHECK_BATCH_SIZE } from "@/lib/linkStatus";
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request) {
+  const supabase = await createServerSupabaseClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const ids: unknown = body?.ids;
+  if (!Array.isArray(ids) || ids.length === 0 || !ids.every((id) => typeof id === "string" && isBookmarkId(id))) {
+    return NextResponse.json({ error: "ids must be a non-empty array of bookmark ids." }, { status: 400 });
+  }
+  if (ids.length > LINK_CHECK_BATCH_SIZE) {
+    return NextResponse.json(
+      { error: `Check at most ${LINK_CHECK_BATCH_SIZE} bookmarks per request.` },
+      { status: 400 }
+    );
+  }
+
+  const { data: rows, error } = await supabase
+    .from("bookmarks")
+    .select("id, url")
+    .in("id", ids)
+    .is("deleted_at", null);
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  const bookmarks = await checkAndStoreLinks(supabase, rows ?? []);
+  return NextResponse.json({ bookmarks });
+}
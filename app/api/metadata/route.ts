@@ -0,0 +1,49 @@
+/**
+ * app/api/metadata/route.ts
+ * Fetches a page server-side and returns its link-preview metadata.
+ * GET /api/metadata?url=https://example.com → PageMetadata
+ *
+ * Signed-in users only, so this can't be used as an open proxy.
+ * SSRF protection, timeouts and size limits live in lib/safeFetch.ts.
+ */
+
+import { NextResponse } from "next/server";
+import { createServerSupabaseClient } from "@/lib/supabaseServer";
+import { fetchPageMetadata } from "@/lib/metadata";
+import { SafeFetchError } from "@/lib/safeFetch";
+import { normaliseUrl, validateUrl } from "@/lib/validation";
+
+export const runtime = "nodejs";
+
+export async function GET(request: Request) {
+  const supabase = await createServerSupabaseClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const raw = searchParams.get("url") ?? "";
+
+  const validationError = validateUrl(raw);
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+
+  try {
+    const metadata = await fetchPageMetadata(normaliseUrl(raw));
+    return NextResponse.json(metadata, {
+      headers: { "cache-control": "private, max-age=300" },
+    });
+  } catch (err) {
+    if (err instanceof SafeFetchError) {
+      const status =
+        err.code === "blocked_host" || err.code === "invalid_url" ? 400 :
+        err.code === "timeout" ? 504 : 502;
+      return NextResponse.json({ error: err.message, code: err.code }, { status });
+    }
+    console.error("Metadata fetch error:", err);
+    return NextResponse.json({ error: "Could not fetch page" }, { status: 502 });
+  }
+}
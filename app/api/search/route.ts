@@ -0,0 +1,37 @@
+/**
+ * app/api/search/route.ts
+ * Full-text search over the signed-in user's bookmarks.
+ * GET /api/search?q=supabase+docs → { results: SearchResult[] }
+ */
+
+import { NextResponse } from "next/server";
+import { createServerSupabaseClient } from "@/lib/supabaseServer";
+import { buildPrefixQuery } from "@/lib/search";
+
+export async function GET(request: Request) {
+  const supabase = await createServerSupabaseClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const query = buildPrefixQuery(searchParams.get("q") ?? "");
+
+  if (!query) {
+    return NextResponse.json({ results: [] });
+  }
+
+  const { data, error } = await supabase.rpc("search_bookmarks", {
+    search_query: query,
+    max_results: 100,
+  });
+
+  if (error) {
+    console.error("Search error:", error.message);
+    return NextResponse.json({ error: "Search failed" }, { status: 500 });
+  }
+
+  return NextResponse.json({ results: data ?? [] });
+}
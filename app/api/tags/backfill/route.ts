@@ -0,0 +1,143 @@
+/**
+ * app/api/tags/backfill/route.ts
+ * Tag suggestions for bookmarks already saved without tags.
+ * GET /api/tags/backfill[?before=<created_at>&id=<id>] → TagBackfillResult
+ *
+ * Walks the caller's personal list (not the Trash), newest first, and
+ * runs the classifier in lib/autoTag.ts over the untagged bookmarks it
+ * finds — title, description, notes and, where there is one, the saved
+ * copy's text; pages aren't fetched again. Only bookmarks with at least
+ * one suggestion are returned. Nothing is tagged here: Settings shows
+ * the suggestions and applies the ones the user accepts. `next` is the
+ * cursor for the following batch.
+ */
+
+import { NextResponse } from "next/server";
+import { createServerSupabaseClient } from "@/lib/supabaseServer";
+import { isBookmarkId } from "@/lib/apiBookmarks";
+import { loadTagModel, suggestTags } from "@/lib/autoTag";
+import type { TagBackfillResult } from "@/lib/types";
+
+export const runtime = "nodejs";
+
+// Untagged bookmarks looked at per request
+const BACKFILL_LIMIT = 100;
+const SCAN_PAGE_SIZE = 500;
+// Rows read per request, tagged or not, so a well-tagged library still answers quickly
+const MAX_SCANNED = 5000;
+// Saved copies hold up to 200k characters each, so only a few per request
+const ARCHIVE_BATCH_SIZE = 20;
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+interface ScanRow {
+  id: string;
+  url: string;
+  title: string;
+  description: string | null;
+  site_name: string | null;
+  notes: string | null;
+  archived_at: string | null;
+  created_at: string;
+  bookmark_tags: { tag_id: string }[];
+}
+
+export async function GET(request: Request) {
+  const supabase = await createServerSupabaseClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const before = searchParams.get("before");
+  const beforeId = searchParams.get("id");
+  if ((before || beforeId) && !(before && TIMESTAMP_PATTERN.test(before) && beforeId && isBookmarkId(beforeId))) {
+    return NextResponse.json({ error: "before and id must come from a previous response's next" }, { status: 400 });
+  }
+
+  const { model, rules, error: modelError } = await loadTagModel(supabase, user.id);
+  if (modelError) {
+    return NextResponse.json({ error: modelError }, { status: 500 });
+  }
+
+  // ── Find untagged bookmarks after the cursor ───────────────────────────
+  let cursor = before && beforeId ? { before, id: beforeId } : null;
+  const untagged: ScanRow[] = [];
+  let read = 0;
+  let exhausted = false;
+
+  while (untagged.length < BACKFILL_LIMIT && read < MAX_SCANNED) {
+    let query = supabase
+      .from("bookmarks")
+      .select("id, url, title, description, site_name, notes, archived_at, created_at, bookmark_tags(tag_id)")
+      .is("collection_id", null)
+      .is("deleted_at", null)
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false })
+      .order("id", { ascending: false })
+      .limit(SCAN_PAGE_SIZE);
+    if (cursor) {
+      query = query.or(`created_at.lt."${cursor.before}",and(created_at.eq."${cursor.before}",id.lt.${cursor.id})`);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const rows = (data ?? []) as ScanRow[];
+    read += rows.length;
+    for (const row of rows) {
+      cursor = { before: row.created_at, id: row.id };
+      if (row.bookmark_tags.length === 0) untagged.push(row);
+      if (untagged.length === BACKFILL_LIMIT) break;
+    }
+    if (rows.length < SCAN_PAGE_SIZE) {
+      exhausted = true;
+      break;
+    }
+  }
+
+  // ── Saved copies' text, where there is one ─────────────────────────────
+  const archivedIds = untagged.filter((row) => row.archived_at).map((row) => row.id);
+  const archiveText = new Map<string, string>();
+  for (let start = 0; start < archivedIds.length; start += ARCHIVE_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from("bookmark_archives")
+      .select("bookmark_id, content_text")
+      .in("bookmark_id", archivedIds.slice(start, start + ARCHIVE_BATCH_SIZE));
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    for (const archive of (data ?? []) as { bookmark_id: string; content_text: string }[]) {
+      archiveText.set(archive.bookmark_id, archive.content_text);
+    }
+  }
+
+  const bookmarks = untagged
+    .map((row) => ({
+      id: row.id,
+      title: row.title,
+      url: row.url,
+      suggestions: suggestTags(
+        {
+          url: row.url,
+          title: row.title,
+          description: row.description,
+          siteName: row.site_name,
+          notes: row.notes,
+          text: archiveText.get(row.id),
+        },
+        { model, rules }
+      ),
+    }))
+    .filter((b) => b.suggestions.length > 0);
+
+  const result: TagBackfillResult = {
+    scanned: untagged.length,
+    bookmarks,
+    next: exhausted ? null : cursor,
+  };
+  return NextResponse.json(result, { headers: { "cache-control": "no-store" } });
+}
@@ -0,0 +1,72 @@
+/**
+ * app/api/tags/suggest/route.ts
+ * Suggests tags for a page that's about to be saved.
+ * GET /api/tags/suggest?url=https://example.com → { suggestions: TagSuggestion[] }
+ *
+ * The page is fetched through safeFetch and its title, description and
+ * main text (lib/readability.ts) go to the classifier in lib/autoTag.ts
+ * along with the caller's rules and tagged bookmarks. If the page can't
+ * be read, the URL alone still matches rules and keywords.
+ */
+
+import { NextResponse } from "next/server";
+import { createServerSupabaseClient } from "@/lib/supabaseServer";
+import { loadTagModel, suggestTags, type ClassifierInput } from "@/lib/autoTag";
+import { decodeBody, parseMetadata } from "@/lib/metadata";
+import { extractArticle } from "@/lib/readability";
+import { safeFetch } from "@/lib/safeFetch";
+import { normaliseUrl, validateUrl } from "@/lib/validation";
+
+export const runtime = "nodejs";
+
+const PAGE_MAX_BYTES = 1024 * 1024;
+const PAGE_TIMEOUT_MS = 6000;
+
+export async function GET(request: Request) {
+  const supabase = await createServerSupabaseClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const raw = searchParams.get("url") ?? "";
+
+  const validationError = validateUrl(raw);
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+
+  const url = normaliseUrl(raw);
+  const [page, { model, rules, error }] = await Promise.all([readPage(url), loadTagModel(supabase, user.id)]);
+  if (error) {
+    return NextResponse.json({ error }, { status: 500 });
+  }
+
+  return NextResponse.json(
+    { suggestions: suggestTags(page, { model, rules }) },
+    { headers: { "cache-control": "no-store" } }
+  );
+}
+
+// Whatever can be read of the page; just the URL if it can't be fetched
+async function readPage(url: string): Promise<ClassifierInput> {
+  try {
+    const res = await safeFetch(url, { timeoutMs: PAGE_TIMEOUT_MS, maxBytes: PAGE_MAX_BYTES, truncate: true });
+    const contentType = String(res.headers["content-type"] ?? "");
+    if (res.status >= 400 || !/html/i.test(contentType)) return { url };
+
+    const html = decodeBody(res.body, contentType);
+    const metadata = parseMetadata(html, res.url);
+    return {
+      url,
+      title: metadata.title,
+      description: metadata.description,
+      siteName: metadata.siteName,
+      text: extractArticle(html, res.url).textContent,
+    };
+  } catch {
+    return { url };
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * app/api/v1/bookmarks/[id]/route.ts
+ * REST API — read, update and delete a single bookmark.
+ *
+ * GET    /api/v1/bookmarks/:id → ApiBookmark
+ * PATCH  /api/v1/bookmarks/:id  { url?, title?, description?, notes?, tags? } → ApiBookmark
+ *        (`tags` replaces the bookmark's whole tag set)
+ * DELETE /api/v1/bookmarks/:id → 204 (moves it to the Trash, lib/trash.ts)
+ *
+ * Unknown ids, other users' bookmarks, shared-collection bookmarks and
+ * trashed ones all return 404 — the API covers the caller's personal
+ * list only.
+ */
+
+import { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { authenticateApiRequest } from "@/lib/apiAuth";
+import {
+  API_BOOKMARK_COLUMNS,
+  isBookmarkId,
+  parseBookmarkInput,
+  readJson,
+  toApiBookmark,
+} from "@/lib/apiBookmarks";
+import { canonicaliseUrl, isDuplicateUrlError } from "@/lib/canonicalUrl";
+import { syncBookmarkTags } from "@/lib/tags";
+import { trashChanges } from "@/lib/trash";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+const NOT_FOUND = { error: "Bookmark not found" };
+
+async function loadBookmark(supabase: SupabaseClient, userId: string, id: string) {
+  const { data, error } = await supabase
+    .from("bookmarks")
+    .select(API_BOOKMARK_COLUMNS)
+    .eq("id", id)
+    .eq("user_id", userId)
+    .is("collection_id", null)
+    .is("deleted_at", null)
+    .maybeSingle();
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+  if (!data) return NextResponse.json(NOT_FOUND, { status: 404 });
+  return NextResponse.json(toApiBookmark(data));
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const auth = await authenticateApiRequest(request, "read");
+  if (auth instanceof NextResponse) return auth;
+
+  if (!isBookmarkId(params.id)) {
+    return NextResponse.json(NOT_FOUND, { status: 404 });
+  }
+
+  return loadBookmark(auth.supabase, auth.userId, params.id);
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const auth = await authenticateApiRequest(request, "write");
+  if (auth instanceof NextResponse) return auth;
+  const { supabase, userId } = auth;
+
+  if (!isBookmarkId(params.id)) {
+    return NextResponse.json(NOT_FOUND, { status: 404 });
+  }
+
+  const { input, error: inputError } = parseBookmarkInput(await readJson(request), true);
+  if (inputError) {
+    return NextResponse.json({ error: inputError }, { status: 400 });
+  }
+
+  const { tags, ...fields } = input;
+  const changes = fields.url ? { ...fields, canonical_url: canonicaliseUrl(fields.url) } : fields;
+
+  // An empty update still confirms the bookmark exists before tagging it
+  const target = Object.keys(changes).length > 0
+    ? supabase.from("bookmarks").update(changes)
+    : supabase.from("bookmarks").select("id");
+  const { data: updated, error: updateError } = await target
+    .eq("id", params.id)
+    .eq("user_id", userId)
+    .is("collection_id", null)
+    .is("deleted_at", null)
+    .select("id");
+
+  if (isDuplicateUrlError(updateError)) {
+    return NextResponse.json({ error: "Another bookmark already has this URL" }, { status: 409 });
+  }
+  if (updateError) {
+    return NextResponse.json({ error: updateError.message }, { status: 500 });
+  }
+  if (!updated || updated.length === 0) {
+    return NextResponse.json(NOT_FOUND, { status: 404 });
+  }
+
+  if (tags) {
+    const { error: tagError } = await syncBookmarkTags(supabase, userId, params.id, tags);
+    if (tagError) {
+      return NextResponse.json({ error: tagError }, { status: 500 });
+    }
+  }
+
+  return loadBookmark(supabase, userId, params.id);
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const auth = await authenticateApiRequest(request, "write");
+  if (auth instanceof NextResponse) return auth;
+  const { supabase, userId } = auth;
+
+  if (!isBookmarkId(params.id)) {
+    return NextResponse.json(NOT_FOUND, { status: 404 });
+  }
+
+  const { data, error } = await supabase
+    .from("bookmarks")
+    .update(trashChanges())
+    .eq("id", params.id)
+    .eq("user_id", userId)
+    .is("collection_id", null)
+    .is("deleted_at", null)
+    .select("id");
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+  if (!data || data.length === 0) {
+    return NextResponse.json(NOT_FOUND, { status: 404 });
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,191 @@
+/**
+ * app/api/v1/bookmarks/route.ts
+ * REST API — list and create bookmarks.
+ *
+ * GET  /api/v1/bookmarks[?limit=50][&offset=0][&tag=work][&q=supabase]
+ *                       [&url=https://…][&from=2024-01-01][&to=2024-12-31]
+ *      → { data: ApiBookmark[], pagination: { limit, offset, total } }
+ * POST /api/v1/bookmarks  { url, title?, description?, notes?, tags? }
+ *      → 201 ApiBookmark, or 409 { error, id } if the URL is already saved
+ *
+ * Authenticated by session cookie or `Authorization: Bearer <token>`
+ * (see lib/apiAuth.ts). Creating needs a read & write token. A missing
+ * title is fetched from the page, like BookmarkForm does. Only the
+ * caller's personal bookmarks are listed; shared collections are not.
+ */
+
+import { NextResponse } from "next/server";
+import { authenticateApiRequest } from "@/lib/apiAuth";
+import {
+  API_BOOKMARK_COLUMNS,
+  API_DEFAULT_LIMIT,
+  API_MAX_LIMIT,
+  parseBookmarkInput,
+  type ApiBookmarkRow,
+  readJson,
+  toApiBookmark,
+} from "@/lib/apiBookmarks";
+import { canonicaliseUrl, isDuplicateUrlError, tryCanonicaliseUrl } from "@/lib/canonicalUrl";
+import { emptyMetadata, fetchPageMetadata } from "@/lib/metadata";
+import { buildPrefixQuery } from "@/lib/search";
+import { normaliseTagName, syncBookmarkTags, tagMatches } from "@/lib/tags";
+import type { PageMetadata, Tag } from "@/lib/types";
+
+export const runtime = "nodejs";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function GET(request: Request) {
+  const auth = await authenticateApiRequest(request, "read");
+  if (auth instanceof NextResponse) return auth;
+  const { supabase, userId } = auth;
+
+  const { searchParams } = new URL(request.url);
+  const limit = Number(searchParams.get("limit") ?? API_DEFAULT_LIMIT);
+  const offset = Number(searchParams.get("offset") ?? 0);
+  const tagFilter = normaliseTagName(searchParams.get("tag") ?? "");
+  const search = buildPrefixQuery(searchParams.get("q") ?? "");
+  const urlFilter = searchParams.get("url");
+  const from = searchParams.get("from") ?? "";
+  const to = searchParams.get("to") ?? "";
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > API_MAX_LIMIT) {
+    return NextResponse.json({ error: `limit must be between 1 and ${API_MAX_LIMIT}` }, { status: 400 });
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    return NextResponse.json({ error: "offset must be 0 or more" }, { status: 400 });
+  }
+  if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+    return NextResponse.json({ error: "from/to must be YYYY-MM-DD" }, { status: 400 });
+  }
+
+  // Folder-aware tag filter: resolve to tag ids, then inner-join on them
+  let tagIds: string[] | null = null;
+  if (tagFilter) {
+    const { data: tagRows, error: tagError } = await supabase
+      .from("tags")
+      .select("id, name")
+      .eq("user_id", userId);
+    if (tagError) {
+      return NextResponse.json({ error: tagError.message }, { status: 500 });
+    }
+    tagIds = (tagRows as Pick<Tag, "id" | "name">[])
+      .filter((t) => tagMatches(t.name, tagFilter))
+      .map((t) => t.id);
+    if (tagIds.length === 0) {
+      return NextResponse.json({ data: [], pagination: { limit, offset, total: 0 } });
+    }
+  }
+
+  const columns = tagIds ? `${API_BOOKMARK_COLUMNS}, bookmark_tags!inner(tag_id)` : API_BOOKMARK_COLUMNS;
+  let query = supabase
+    .from("bookmarks")
+    .select(columns, { count: "exact" })
+    .eq("user_id", userId)
+    .is("collection_id", null)
+    .is("deleted_at", null)
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (tagIds) query = query.in("bookmark_tags.tag_id", tagIds);
+  if (search) query = query.textSearch("search_vector", search, { config: "english" });
+  if (urlFilter) {
+    const canonical = tryCanonicaliseUrl(urlFilter);
+    if (!canonical) {
+      return NextResponse.json({ error: "url is not a valid URL" }, { status: 400 });
+    }
+    query = query.eq("canonical_url", canonical);
+  }
+  if (from) query = query.gte("created_at", `${from}T00:00:00Z`);
+  if (to) query = query.lte("created_at", `${to}T23:59:59.999Z`);
+
+  const { data, count, error } = await query;
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({
+    data: ((data ?? []) as unknown as ApiBookmarkRow[]).map(toApiBookmark),
+    pagination: { limit, offset, total: count ?? 0 },
+  });
+}
+
+export async function POST(request: Request) {
+  const auth = await authenticateApiRequest(request, "write");
+  if (auth instanceof NextResponse) return auth;
+  const { supabase, userId } = auth;
+
+  const { input, error: inputError } = parseBookmarkInput(await readJson(request), false);
+  if (inputError) {
+    return NextResponse.json({ error: inputError }, { status: 400 });
+  }
+
+  const url = input.url!;
+  const canonicalUrl = canonicaliseUrl(url);
+
+  const { data: existing } = await supabase
+    .from("bookmarks")
+    .select("id")
+    .eq("user_id", userId)
+    .is("collection_id", null)
+    .is("deleted_at", null)
+    .eq("canonical_url", canonicalUrl)
+    .maybeSingle();
+  if (existing) {
+    return NextResponse.json({ error: "Already saved", id: existing.id }, { status: 409 });
+  }
+
+  // Only fetch the page when there's something to fill in
+  let meta: PageMetadata = emptyMetadata(url);
+  if (!input.title || input.description === undefined) {
+    try {
+      meta = await fetchPageMetadata(url);
+    } catch {
+      // Unreachable pages still get saved, titled by hostname
+    }
+  }
+
+  const { data: inserted, error: insertError } = await supabase
+    .from("bookmarks")
+    .insert({
+      user_id: userId,
+      url,
+      canonical_url: canonicalUrl,
+      title: input.title ?? meta.title ?? new URL(url).hostname,
+      description: input.description !== undefined ? input.description : meta.description,
+      notes: input.notes ?? null,
+      image_url: meta.imageUrl,
+      site_name: meta.siteName,
+      favicon_url: meta.faviconUrl,
+    })
+    .select("id")
+    .single();
+
+  if (isDuplicateUrlError(insertError)) {
+    return NextResponse.json({ error: "Already saved" }, { status: 409 });
+  }
+  if (insertError || !inserted) {
+    return NextResponse.json({ error: insertError?.message ?? "Insert failed" }, { status: 500 });
+  }
+
+  if (input.tags && input.tags.length > 0) {
+    const { error: tagError } = await syncBookmarkTags(supabase, userId, inserted.id, input.tags);
+    if (tagError) {
+      return NextResponse.json({ error: `Bookmark saved, but tags failed: ${tagError}`, id: inserted.id }, { status: 500 });
+    }
+  }
+
+  const { data, error } = await supabase
+    .from("bookmarks")
+    .select(API_BOOKMARK_COLUMNS)
+    .eq("id", inserted.id)
+    .eq("user_id", userId)
+    .is("collection_id", null)
+    .single();
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json(toApiBookmark(data), { status: 201 });
+}
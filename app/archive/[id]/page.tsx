@@ -0,0 +1,104 @@
+/**
+ * app/archive/[id]/page.tsx
+ * Protected reader view of a bookmark's archived copy. The content is
+ * sanitised by /api/archive (lib/readability.ts), the only writer, so it
+ * is rendered as stored — it still works when the original page is gone.
+ * Passages selected here become the bookmark's highlights (lib/notes.ts)
+ * for anyone who can edit it; everyone else just sees the list.
+ */
+
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import { createServerSupabaseClient } from "@/lib/supabaseServer";
+import { canEditBookmarks } from "@/lib/collections";
+import { fetchHighlights } from "@/lib/notes";
+import ArchiveHighlights from "@/components/ArchiveHighlights";
+import Header from "@/components/Header";
+import type { Bookmark, BookmarkArchive, CollectionRole } from "@/lib/types";
+
+interface ArchivePageProps {
+  params: { id: string };
+}
+
+export default async function ArchivePage({ params }: ArchivePageProps) {
+  const supabase = await createServerSupabaseClient();
+  const { data: { user }, error } = await supabase.auth.getUser();
+
+  if (error || !user) {
+    redirect("/");
+  }
+
+  const [{ data }, { data: bookmarkRow }, { highlights }] = await Promise.all([
+    supabase
+      .from("bookmark_archives")
+      .select("*")
+      .eq("bookmark_id", params.id)
+      .maybeSingle(),
+    supabase
+      .from("bookmarks")
+      .select("user_id, collection_id, deleted_at")
+      .eq("id", params.id)
+      .maybeSingle(),
+    fetchHighlights(supabase, params.id),
+  ]);
+
+  if (!data) {
+    notFound();
+  }
+  const archive = data as BookmarkArchive;
+
+  // Same rule as the dashboard, and nothing is added to a trashed bookmark; RLS has the final say
+  const bookmark = bookmarkRow as Pick<Bookmark, "user_id" | "collection_id" | "deleted_at"> | null;
+  let canEdit = false;
+  if (bookmark && !bookmark.deleted_at) {
+    if (bookmark.collection_id === null) {
+      canEdit = bookmark.user_id === user.id;
+    } else {
+      const { data: member } = await supabase
+        .from("collection_members")
+        .select("role")
+        .eq("collection_id", bookmark.collection_id)
+        .eq("user_id", user.id)
+        .maybeSingle();
+      canEdit = member !== null && canEditBookmarks((member as { role: CollectionRole }).role);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Header user={user} />
+      <main className="max-w-2xl mx-auto px-4 py-8 space-y-6">
+        <div className="animate-fade-in">
+          <Link href="/dashboard" className="text-xs font-medium text-blue-600 hover:underline">
+            ← Back to bookmarks
+          </Link>
+          <p className="text-xs text-slate-400 mt-3">
+            Saved copy from {new Date(archive.archived_at).toLocaleString("en-GB", { dateStyle: "medium", timeStyle: "short" })}
+            {" · "}
+            {archive.word_count.toLocaleString()} words
+          </p>
+          <h2 className="text-xl font-semibold text-slate-800 mt-1">{archive.title ?? archive.source_url}</h2>
+          <p className="text-slate-500 text-sm mt-1">
+            {[archive.byline, archive.site_name].filter(Boolean).join(" · ")}
+            {(archive.byline || archive.site_name) && " · "}
+            <a
+              href={archive.source_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-blue-600 hover:underline break-all"
+            >
+              Open original
+            </a>
+          </p>
+        </div>
+
+        <ArchiveHighlights
+          bookmarkId={params.id}
+          contentHtml={archive.content_html}
+          initialHighlights={highlights}
+          canEdit={canEdit}
+        />
+      </main>
+    </div>
+  );
+}
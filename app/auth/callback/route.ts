@@ -1,16 +1,18 @@
 /**
  * app/auth/callback/route.ts
- * OAuth callback Route Handler - exchanges code for session after Google login
+ * OAuth callback Route Handler - exchanges code for session after Google login,
+ * then continues to `next` (a same-site path, see lib/redirects.ts)
  */
 
 import { NextResponse } from "next/server";
 import { createServerClient, type CookieOptions } from "@supabase/ssr";
 import { cookies } from "next/headers";
+import { safeNextPath } from "@/lib/redirects";
 
 export async function GET(request: Request) {
   const { searchParams, origin } = new URL(request.url);
   const code = searchParams.get("code");
-  const next = searchParams.get("next") ?? "/dashboard";
+  const next = safeNextPath(searchParams.get("next"));
 
   if (code) {
     const cookieStore = await cookies();
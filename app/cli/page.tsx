@@ -0,0 +1,44 @@
+/**
+ * app/cli/page.tsx
+ * Approves a command-line login — `bookmarks login` prints a code and
+ * opens /cli?code=XXXX-XXXX. Signed-out visitors go through login first
+ * (middleware) and come back here with the code intact.
+ */
+
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { createServerSupabaseClient } from "@/lib/supabaseServer";
+import Header from "@/components/Header";
+import CliLoginApproval from "@/components/CliLoginApproval";
+import { loginPath } from "@/lib/redirects";
+
+interface CliPageProps {
+  searchParams: { code?: string };
+}
+
+export default async function CliPage({ searchParams }: CliPageProps) {
+  const supabase = await createServerSupabaseClient();
+  const { data: { user }, error } = await supabase.auth.getUser();
+
+  if (error || !user) {
+    redirect(loginPath(`/cli?${new URLSearchParams(searchParams).toString()}`));
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Header user={user} />
+      <main className="max-w-2xl mx-auto px-4 py-8 space-y-6">
+        <div className="animate-fade-in">
+          <Link href="/dashboard" className="text-xs font-medium text-blue-600 hover:underline">
+            ← Back to bookmarks
+          </Link>
+          <h2 className="text-xl font-semibold text-slate-800 mt-2">Sign in the command line</h2>
+          <p className="text-slate-500 text-sm mt-1">
+            Only approve a code you just got from <code>bookmarks login</code> on your own machine.
+          </p>
+        </div>
+        <CliLoginApproval initialCode={searchParams.code ?? ""} />
+      </main>
+    </div>
+  );
+}
@@ -1,14 +1,27 @@
 /**
  * app/dashboard/page.tsx
  * Protected dashboard - passes bookmark state between form and list.
+ * `?collection=<id>` shows a shared collection instead of the personal list;
+ * `?reading=unread|read|archived` opens the reading list on that tab, and
+ * the other list options (sort, view, tag, domain, from, to) come from the
+ * query string too — or, when it has none, from the user's saved view.
+ * Only the first page of bookmarks is loaded here; the list fetches the
+ * rest as it scrolls (lib/bookmarkPages.ts).
  */
 
 import { redirect } from "next/navigation";
 import { createServerSupabaseClient } from "@/lib/supabaseServer";
 import Header from "@/components/Header";
 import Dashboard from "@/components/Dashboard";
+import { bookmarkQuery, fetchBookmarkCounts, fetchBookmarkPage, type BookmarkPage } from "@/lib/bookmarkPages";
+import { DEFAULT_LIST_VIEW, hasListParams, loadSavedListView, parseListView } from "@/lib/listView";
+import type { Collection, CollectionInvite, CollectionMembership, Tag } from "@/lib/types";
 
-export default async function DashboardPage() {
+interface DashboardPageProps {
+  searchParams: { collection?: string } & Record<string, string | string[] | undefined>;
+}
+
+export default async function DashboardPage({ searchParams }: DashboardPageProps) {
   const supabase = await createServerSupabaseClient();
   const { data: { user }, error } = await supabase.auth.getUser();
 
@@ -16,23 +29,81 @@ export default async function DashboardPage() {
     redirect("/");
   }
 
-  const { data: initialBookmarks } = await supabase
-    .from("bookmarks")
-    .select("*")
-    .order("created_at", { ascending: false });
+  const [{ data: membershipRows }, { data: inviteRows }, savedView, { data: tagRows }] = await Promise.all([
+    supabase
+      .from("collection_members")
+      .select("role, collection:collections(id, owner_id, name, created_at)")
+      .eq("user_id", user.id),
+    supabase
+      .from("collection_invites")
+      .select("id, collection_id, email, role, invited_by, created_at, collection:collections(name)")
+      .eq("email", (user.email ?? "").toLowerCase()),
+    hasListParams(searchParams) ? null : loadSavedListView(supabase, user.id),
+    supabase.from("tags").select("*").order("name"),
+  ]);
+
+  const memberships = ((membershipRows ?? []) as unknown as CollectionMembership[])
+    .filter((m) => m.collection)
+    .sort((a, b) => a.collection.name.localeCompare(b.collection.name));
+
+  const invites: CollectionInvite[] = ((inviteRows ?? []) as unknown as (CollectionInvite & {
+    collection: Pick<Collection, "name"> | null;
+  })[]).map(({ collection, ...invite }) => ({ ...invite, collection_name: collection?.name }));
+
+  // Unknown collection, or access was removed — fall back to the personal list
+  const active = searchParams.collection
+    ? memberships.find((m) => m.collection.id === searchParams.collection)
+    : undefined;
+  if (searchParams.collection && !active) {
+    redirect("/dashboard");
+  }
+
+  const view = { userId: user.id, collectionId: active?.collection.id ?? null };
+  const initialView = savedView ?? (hasListParams(searchParams) ? parseListView(searchParams) : DEFAULT_LIST_VIEW);
+  const initialTags = (tagRows ?? []) as Tag[];
+
+  const [{ page, error: pageError }, initialCounts] = await Promise.all([
+    fetchBookmarkPage(supabase, view, bookmarkQuery(initialView, initialTags), null),
+    fetchBookmarkCounts(supabase, view),
+  ]);
+
+  if (pageError) console.error("Couldn't load bookmarks:", pageError);
+  const initialPage: BookmarkPage = page ?? {
+    sort: initialView.sort,
+    bookmarks: [],
+    links: [],
+    cursor: null,
+    hasMore: false,
+  };
 
   return (
     <div className="min-h-screen bg-slate-50">
       <Header user={user} />
       <main className="max-w-2xl mx-auto px-4 py-8 space-y-6">
         <div className="animate-fade-in">
-          <h2 className="text-xl font-semibold text-slate-800">Your Bookmarks</h2>
+          <h2 className="text-xl font-semibold text-slate-800">
+            {active ? active.collection.name : "Your Bookmarks"}
+          </h2>
           <p className="text-slate-500 text-sm mt-1">
-            Add and manage your personal bookmarks. Changes sync in real time across all open tabs.
+            {active
+              ? "A shared collection. Changes from every member sync in real time."
+              : "Add and manage your personal bookmarks. Changes sync in real time across all open tabs."}
           </p>
         </div>
-        {/* Dashboard is a client component that manages shared bookmark state */}
-        <Dashboard initialBookmarks={initialBookmarks ?? []} />
+        {/* Dashboard is a client component that manages shared bookmark state.
+            Keyed by collection so switching resets its state from the new props. */}
+        <Dashboard
+          key={active?.collection.id ?? "personal"}
+          userId={user.id}
+          collection={active?.collection ?? null}
+          role={active?.role ?? null}
+          memberships={memberships}
+          invites={invites}
+          initialView={initialView}
+          initialPage={initialPage}
+          initialCounts={initialCounts}
+          initialTags={initialTags}
+        />
       </main>
     </div>
   );
@@ -0,0 +1,49 @@
+/**
+ * app/go/[id]/route.ts
+ * GET /go/<id>[?s=<share slug>] — counts a visit to the bookmark and
+ * redirects to its URL (lib/visits.ts). Signed-in users can open their
+ * own and their collections' bookmarks; a live share slug opens the
+ * bookmarks it publishes to anyone. A signed-out visitor without one is
+ * sent to log in and brought back here.
+ */
+
+import { NextResponse, type NextRequest } from "next/server";
+import { createServerSupabaseClient } from "@/lib/supabaseServer";
+import { isBookmarkId } from "@/lib/apiBookmarks";
+import { loginPath } from "@/lib/redirects";
+import { isRedirectableUrl } from "@/lib/visits";
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  if (!isBookmarkId(params.id)) {
+    return NextResponse.json({ error: "Bookmark not found" }, { status: 404 });
+  }
+
+  const shareSlug = request.nextUrl.searchParams.get("s");
+  const supabase = await createServerSupabaseClient();
+  const { data: url, error } = await supabase.rpc("open_bookmark", {
+    target: params.id,
+    share_slug: shareSlug,
+  });
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  if (typeof url !== "string" || !isRedirectableUrl(url)) {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user && !shareSlug) {
+      return NextResponse.redirect(new URL(loginPath(request.nextUrl.pathname), request.url));
+    }
+    return NextResponse.json({ error: "Bookmark not found" }, { status: 404 });
+  }
+
+  return NextResponse.redirect(url, {
+    status: 302,
+    headers: {
+      // Every click must reach the server to be counted
+      "Cache-Control": "no-store",
+      "Referrer-Policy": "no-referrer",
+      "X-Robots-Tag": "noindex",
+    },
+  });
+}
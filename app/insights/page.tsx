@@ -0,0 +1,196 @@
+/**
+ * app/insights/page.tsx
+ * Protected usage report for the personal list: what gets opened most,
+ * what has never been opened, the busiest domains and saves per week.
+ * Everything is counted by the insights_* SQL functions, which run under
+ * RLS; visits are the opens recorded through /go (lib/visits.ts).
+ */
+
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { createServerSupabaseClient } from "@/lib/supabaseServer";
+import Header from "@/components/Header";
+import { DEFAULT_LIST_VIEW, listViewHref } from "@/lib/listView";
+import { INSIGHTS_WEEKS, fetchInsights, visitPath } from "@/lib/visits";
+
+const DATE_FORMAT: Intl.DateTimeFormatOptions = { day: "numeric", month: "short", year: "numeric" };
+
+export default async function InsightsPage() {
+  const supabase = await createServerSupabaseClient();
+  const { data: { user }, error } = await supabase.auth.getUser();
+
+  if (error || !user) {
+    redirect("/");
+  }
+
+  const { insights, error: insightsError } = await fetchInsights(supabase);
+  const maxSaves = Math.max(1, ...(insights?.savesPerWeek ?? []).map((w) => w.saves));
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Header user={user} />
+      <main className="max-w-2xl mx-auto px-4 py-8 space-y-6">
+        <div className="animate-fade-in">
+          <Link href="/dashboard" className="text-xs font-medium text-blue-600 hover:underline">
+            ← Back to bookmarks
+          </Link>
+          <h2 className="text-xl font-semibold text-slate-800 mt-2">Insights</h2>
+          <p className="text-slate-500 text-sm mt-1">
+            How you use your personal bookmarks. A visit is counted each time a link is opened from
+            here, a share page or a tracked export.
+          </p>
+        </div>
+
+        {insightsError && (
+          <p className="text-xs text-red-600 bg-red-50 border border-red-100 rounded-lg px-3 py-2">
+            Couldn&apos;t load insights: {insightsError}
+          </p>
+        )}
+
+        {insights && (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 animate-fade-in">
+              {[
+                { label: "Bookmarks", value: insights.summary.total },
+                { label: "Opened", value: insights.summary.opened },
+                { label: "Never opened", value: insights.summary.never_opened },
+                { label: "Visits", value: insights.summary.visits },
+              ].map(({ label, value }) => (
+                <div key={label} className="bg-white rounded-2xl border border-slate-100 shadow-sm p-4">
+                  <p className="text-[11px] font-medium text-slate-400 uppercase tracking-wide">{label}</p>
+                  <p className="text-2xl font-semibold text-slate-800 mt-1">{value.toLocaleString()}</p>
+                </div>
+              ))}
+            </div>
+
+            <section className="bg-white rounded-2xl border border-slate-100 shadow-sm p-5 animate-fade-in">
+              <h3 className="text-sm font-semibold text-slate-700">Saves per week</h3>
+              <p className="text-xs text-slate-400 mt-0.5">The last {INSIGHTS_WEEKS} weeks, Monday to Sunday (UTC)</p>
+              <div className="flex items-end gap-1 h-32 mt-4" role="list">
+                {insights.savesPerWeek.map((week) => (
+                  <div
+                    key={week.week_start}
+                    role="listitem"
+                    className="flex-1 flex flex-col items-center justify-end h-full"
+                    title={`Week of ${formatDate(week.week_start)}: ${week.saves} saved`}
+                  >
+                    {week.saves > 0 && <span className="text-[10px] text-slate-400 mb-0.5">{week.saves}</span>}
+                    <div
+                      className="w-full rounded-t bg-blue-500/80"
+                      style={{ height: `${(week.saves / maxSaves) * 100}%`, minHeight: week.saves > 0 ? 2 : 0 }}
+                    />
+                  </div>
+                ))}
+              </div>
+              {insights.savesPerWeek.length > 0 && (
+                <div className="flex justify-between text-[10px] text-slate-400 mt-1">
+                  <span>{formatDate(insights.savesPerWeek[0].week_start)}</span>
+                  <span>{formatDate(insights.savesPerWeek[insights.savesPerWeek.length - 1].week_start)}</span>
+                </div>
+              )}
+            </section>
+
+            <section className="bg-white rounded-2xl border border-slate-100 shadow-sm p-5 animate-fade-in">
+              <h3 className="text-sm font-semibold text-slate-700">Most used</h3>
+              {insights.mostVisited.length === 0 ? (
+                <p className="text-xs text-slate-400 mt-2">Nothing has been opened yet.</p>
+              ) : (
+                <ol className="mt-3 space-y-2">
+                  {insights.mostVisited.map((bookmark) => (
+                    <li key={bookmark.id} className="flex items-baseline gap-3 text-sm">
+                      <a
+                        href={visitPath(bookmark.id)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex-1 min-w-0 truncate text-slate-800 hover:text-blue-600"
+                        title={bookmark.url}
+                      >
+                        {bookmark.title}
+                      </a>
+                      {bookmark.last_visited_at && (
+                        <span className="text-[11px] text-slate-400 hidden sm:inline">
+                          last {formatDate(bookmark.last_visited_at)}
+                        </span>
+                      )}
+                      <span className="text-xs font-medium text-slate-600 tabular-nums">
+                        {bookmark.visit_count}×
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </section>
+
+            <section className="bg-white rounded-2xl border border-slate-100 shadow-sm p-5 animate-fade-in">
+              <h3 className="text-sm font-semibold text-slate-700">Top domains</h3>
+              {insights.topDomains.length === 0 ? (
+                <p className="text-xs text-slate-400 mt-2">No bookmarks yet.</p>
+              ) : (
+                <table className="w-full mt-3 text-sm">
+                  <thead>
+                    <tr className="text-[11px] font-medium text-slate-400 uppercase tracking-wide text-left">
+                      <th className="font-medium pb-1">Domain</th>
+                      <th className="font-medium pb-1 text-right">Saved</th>
+                      <th className="font-medium pb-1 text-right">Visits</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {insights.topDomains.map((row) => (
+                      <tr key={row.domain} className="border-t border-slate-50">
+                        <td className="py-1.5 pr-3 max-w-0 w-full truncate">
+                          <Link
+                            href={domainHref(row.domain)}
+                            className="text-slate-800 hover:text-blue-600"
+                            title="Show these bookmarks"
+                          >
+                            {row.domain}
+                          </Link>
+                        </td>
+                        <td className="py-1.5 pl-3 text-right tabular-nums text-slate-600">{row.bookmarks}</td>
+                        <td className="py-1.5 pl-3 text-right tabular-nums text-slate-600">{row.visits}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </section>
+
+            <section className="bg-white rounded-2xl border border-slate-100 shadow-sm p-5 animate-fade-in">
+              <h3 className="text-sm font-semibold text-slate-700">Never opened</h3>
+              <p className="text-xs text-slate-400 mt-0.5">Oldest first — worth a look, or a tidy-up</p>
+              {insights.neverOpened.length === 0 ? (
+                <p className="text-xs text-slate-400 mt-2">Everything has been opened at least once.</p>
+              ) : (
+                <ul className="mt-3 space-y-2">
+                  {insights.neverOpened.map((bookmark) => (
+                    <li key={bookmark.id} className="flex items-baseline gap-3 text-sm">
+                      <a
+                        href={visitPath(bookmark.id)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex-1 min-w-0 truncate text-slate-800 hover:text-blue-600"
+                        title={bookmark.url}
+                      >
+                        {bookmark.title}
+                      </a>
+                      <span className="text-[11px] text-slate-400">saved {formatDate(bookmark.created_at)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString("en-GB", DATE_FORMAT);
+}
+
+// The dashboard filtered to one domain
+function domainHref(domain: string): string {
+  return listViewHref({ ...DEFAULT_LIST_VIEW, filters: { ...DEFAULT_LIST_VIEW.filters, domain } }, null);
+}
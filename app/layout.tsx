@@ -12,6 +12,8 @@ export const metadata: Metadata = {
   icons: {
     icon: "/favicon.ico",
   },
+  // Installable app with a Web Share Target that opens /save
+  manifest: "/manifest.webmanifest",
 };
 
 export default function RootLayout({
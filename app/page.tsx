@@ -4,11 +4,17 @@
  * Landing / Login page.
  * This is a Server Component — it checks the session on the server.
  * If the user is already logged in, middleware.ts redirects to /dashboard.
+ * `?next=` (set by middleware) is where to go after signing in.
  */
 
 import LoginButton from "@/components/LoginButton";
+import { safeNextPath } from "@/lib/redirects";
 
-export default function HomePage() {
+interface HomePageProps {
+  searchParams: { next?: string };
+}
+
+export default function HomePage({ searchParams }: HomePageProps) {
   return (
     <main className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 to-blue-50 px-4">
       <div className="w-full max-w-md">
@@ -61,7 +67,7 @@ export default function HomePage() {
           <hr className="border-slate-100" />
 
           {/* Login button (Client Component) */}
-          <LoginButton />
+          <LoginButton next={safeNextPath(searchParams.next)} />
 
           <p className="text-xs text-slate-400">
             By signing in, you agree to our Terms of Service.
@@ -0,0 +1,36 @@
+/**
+ * app/s/[slug]/feed/route.ts
+ * GET — Atom feed for a public share link; `?format=rss` returns RSS 2.0.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createServerSupabaseClient } from "@/lib/supabaseServer";
+import { buildAtomFeed, buildRssFeed } from "@/lib/feeds";
+import { latestUpdate, loadSharedList, shareFeedPath, sharePath } from "@/lib/shareLinks";
+
+export async function GET(request: NextRequest, { params }: { params: { slug: string } }) {
+  const supabase = await createServerSupabaseClient();
+  const shared = await loadSharedList(supabase, params.slug);
+
+  if (!shared) {
+    return NextResponse.json({ error: "Share link not found" }, { status: 404 });
+  }
+
+  const isRss = request.nextUrl.searchParams.get("format") === "rss";
+  const origin = request.nextUrl.origin;
+  const info = {
+    title: shared.title,
+    pageUrl: `${origin}${sharePath(params.slug)}`,
+    feedUrl: `${origin}${shareFeedPath(params.slug)}${isRss ? "?format=rss" : ""}`,
+    updated: latestUpdate(shared.bookmarks),
+  };
+
+  return new NextResponse(isRss ? buildRssFeed(info, shared.bookmarks) : buildAtomFeed(info, shared.bookmarks), {
+    headers: {
+      "Content-Type": isRss ? "application/rss+xml; charset=utf-8" : "application/atom+xml; charset=utf-8",
+      // Short cache: rotating or revoking a link should take effect quickly
+      "Cache-Control": "public, max-age=300",
+      "X-Robots-Tag": "noindex",
+    },
+  });
+}
@@ -0,0 +1,113 @@
+/**
+ * app/s/[slug]/page.tsx
+ * Public, read-only view of a shared tag or collection. Works signed out;
+ * unknown, revoked and expired links all 404. Links go through /go with
+ * the slug so the owner's visit counts include them; the feeds link
+ * straight to the pages, since feed readers fetch links on their own.
+ */
+
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { createServerSupabaseClient } from "@/lib/supabaseServer";
+import { loadSharedList, shareFeedPath } from "@/lib/shareLinks";
+import { visitPath } from "@/lib/visits";
+
+interface SharePageProps {
+  params: { slug: string };
+}
+
+export async function generateMetadata({ params }: SharePageProps): Promise<Metadata> {
+  const supabase = await createServerSupabaseClient();
+  const { data } = await supabase.rpc("get_share_link", { share_slug: params.slug });
+  const link = (data as { title: string }[] | null)?.[0];
+
+  return {
+    title: link ? `${link.title} · Smart Bookmarks` : "Shared bookmarks",
+    robots: { index: false, follow: false },
+    alternates: link
+      ? { types: { "application/atom+xml": shareFeedPath(params.slug) } }
+      : undefined,
+  };
+}
+
+export default async function SharePage({ params }: SharePageProps) {
+  const supabase = await createServerSupabaseClient();
+  const shared = await loadSharedList(supabase, params.slug);
+
+  if (!shared) {
+    notFound();
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <main className="max-w-2xl mx-auto px-4 py-8 space-y-6">
+        <div className="animate-fade-in">
+          <p className="text-xs font-medium text-slate-400 uppercase tracking-wide">
+            Shared {shared.kind === "tag" ? "tag" : "collection"}
+          </p>
+          <h1 className="text-xl font-semibold text-slate-800 mt-1">{shared.title}</h1>
+          <p className="text-slate-500 text-sm mt-1">
+            {shared.bookmarks.length} bookmark{shared.bookmarks.length === 1 ? "" : "s"}
+            {shared.expiresAt && <> · link expires {new Date(shared.expiresAt).toLocaleDateString()}</>}
+            {" · "}
+            <a href={shareFeedPath(params.slug)} className="text-blue-600 hover:underline">
+              Atom feed
+            </a>
+            {" / "}
+            <a href={`${shareFeedPath(params.slug)}?format=rss`} className="text-blue-600 hover:underline">
+              RSS
+            </a>
+          </p>
+        </div>
+
+        {shared.bookmarks.length === 0 ? (
+          <p className="text-sm text-slate-400 text-center py-12">Nothing here yet.</p>
+        ) : (
+          <ul className="space-y-3">
+            {shared.bookmarks.map((bookmark) => (
+              <li
+                key={bookmark.id}
+                className="bg-white rounded-xl border border-slate-100 shadow-sm p-4 flex items-start gap-3"
+              >
+                <img
+                  src={bookmark.favicon_url ?? `https://www.google.com/s2/favicons?domain=${encodeURIComponent(bookmark.url)}&sz=32`}
+                  alt=""
+                  className="w-6 h-6 rounded flex-shrink-0"
+                />
+                <div className="flex-1 min-w-0">
+                  {bookmark.site_name && (
+                    <p className="text-xs text-slate-400 truncate">{bookmark.site_name}</p>
+                  )}
+                  <a
+                    href={visitPath(bookmark.id, params.slug)}
+                    target="_blank"
+                    rel="noopener noreferrer nofollow"
+                    className="text-sm font-medium text-slate-800 hover:text-blue-600 break-words"
+                  >
+                    {bookmark.title}
+                  </a>
+                  {bookmark.description && (
+                    <p className="text-xs text-slate-500 mt-1 line-clamp-2">{bookmark.description}</p>
+                  )}
+                  {bookmark.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {bookmark.tags.map((tag) => (
+                        <span key={tag} className="px-2 py-0.5 rounded-full bg-slate-100 text-slate-500 text-xs">
+                          {tag}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <p className="text-xs text-slate-400 text-center">
+          Shared with <a href="/" className="hover:underline">Smart Bookmarks</a>
+        </p>
+      </main>
+    </div>
+  );
+}
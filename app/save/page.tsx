@@ -0,0 +1,66 @@
+/**
+ * app/save/page.tsx
+ * Quick capture — `/save?url=…&title=…` opens the add form pre-filled.
+ * Opened by the dashboard's bookmarklet and by the Web Share Target
+ * (which may send the link in `text`). Signed-out visitors are sent
+ * through login by middleware and land back here. Saves go to the
+ * personal list; a link that's already saved offers the usual update.
+ */
+
+import { redirect } from "next/navigation";
+import { createServerSupabaseClient } from "@/lib/supabaseServer";
+import Header from "@/components/Header";
+import type { DuplicateMatch } from "@/components/BookmarkForm";
+import QuickSave from "@/components/QuickSave";
+import { tryCanonicaliseUrl } from "@/lib/canonicalUrl";
+import { parseSharedParams } from "@/lib/quickCapture";
+import { loginPath } from "@/lib/redirects";
+import { validateUrl } from "@/lib/validation";
+import type { Bookmark, Tag } from "@/lib/types";
+
+interface SavePageProps {
+  searchParams: { url?: string; title?: string; text?: string; popup?: string };
+}
+
+export default async function SavePage({ searchParams }: SavePageProps) {
+  const supabase = await createServerSupabaseClient();
+  const { data: { user }, error } = await supabase.auth.getUser();
+
+  if (error || !user) {
+    redirect(loginPath(`/save?${new URLSearchParams(searchParams).toString()}`));
+  }
+
+  const shared = parseSharedParams(searchParams);
+
+  // Already saved? Looked up here so the form can offer to update it
+  const canonicalUrl = shared.url && !validateUrl(shared.url) ? tryCanonicaliseUrl(shared.url) : null;
+  const { data: row } = canonicalUrl
+    ? await supabase
+        .from("bookmarks")
+        .select("*, tags(*)")
+        .eq("user_id", user.id)
+        .is("collection_id", null)
+        .is("deleted_at", null)
+        .eq("canonical_url", canonicalUrl)
+        .maybeSingle()
+    : { data: null };
+
+  let existing: DuplicateMatch | null = null;
+  if (row) {
+    const { tags, ...bookmark } = row as Bookmark & { tags: Tag[] | null };
+    existing = { bookmark, tags: tags ?? [] };
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Header user={user} />
+      <main className="max-w-2xl mx-auto px-4 py-8 space-y-6">
+        <div className="animate-fade-in">
+          <h2 className="text-xl font-semibold text-slate-800">Save a bookmark</h2>
+          <p className="text-slate-500 text-sm mt-1">Check the details, add tags and save it to your bookmarks.</p>
+        </div>
+        <QuickSave userId={user.id} shared={shared} existing={existing} />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+/**
+ * app/settings/page.tsx
+ * Protected settings page — personal access tokens for the REST API,
+ * tag rules for suggestions and tag suggestions for untagged bookmarks.
+ */
+
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { createServerSupabaseClient } from "@/lib/supabaseServer";
+import { TAG_RULE_COLUMNS } from "@/lib/autoTag";
+import Header from "@/components/Header";
+import ApiTokenManager from "@/components/ApiTokenManager";
+import TagRuleManager from "@/components/TagRuleManager";
+import TagSuggestionReview from "@/components/TagSuggestionReview";
+import type { TagRule } from "@/lib/types";
+
+export default async function SettingsPage() {
+  const supabase = await createServerSupabaseClient();
+  const { data: { user }, error } = await supabase.auth.getUser();
+
+  if (error || !user) {
+    redirect("/");
+  }
+
+  // Never select token_hash into the browser
+  const [{ data: initialTokens }, { data: ruleRows }] = await Promise.all([
+    supabase
+      .from("api_tokens")
+      .select("id, user_id, name, token_prefix, scope, last_used_at, created_at")
+      .order("created_at", { ascending: false }),
+    supabase.from("tag_rules").select(TAG_RULE_COLUMNS).order("created_at"),
+  ]);
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Header user={user} />
+      <main className="max-w-2xl mx-auto px-4 py-8 space-y-6">
+        <div className="animate-fade-in">
+          <Link href="/dashboard" className="text-xs font-medium text-blue-600 hover:underline">
+            ← Back to bookmarks
+          </Link>
+          <h2 className="text-xl font-semibold text-slate-800 mt-2">Settings</h2>
+          <p className="text-slate-500 text-sm mt-1">
+            Create personal access tokens to use the REST API from scripts, bots and the command line,
+            and choose how tags are suggested.
+          </p>
+        </div>
+        <ApiTokenManager initialTokens={initialTokens ?? []} />
+        <TagRuleManager initialRules={(ruleRows ?? []) as TagRule[]} />
+        <TagSuggestionReview userId={user.id} />
+      </main>
+    </div>
+  );
+}
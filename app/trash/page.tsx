@@ -0,0 +1,48 @@
+/**
+ * app/trash/page.tsx
+ * Protected Trash page — deleted bookmarks waiting to be restored or
+ * purged (lib/trash.ts). Rows come from the trashed_bookmarks view, so RLS
+ * limits them to the caller's own and their collections' bookmarks.
+ */
+
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { createServerSupabaseClient } from "@/lib/supabaseServer";
+import Header from "@/components/Header";
+import TrashList from "@/components/TrashList";
+import { fetchTrash } from "@/lib/trash";
+
+export default async function TrashPage() {
+  const supabase = await createServerSupabaseClient();
+  const { data: { user }, error } = await supabase.auth.getUser();
+
+  if (error || !user) {
+    redirect("/");
+  }
+
+  const [{ bookmarks, error: trashError }, { data: collections }] = await Promise.all([
+    fetchTrash(supabase),
+    supabase.from("collections").select("id, name"),
+  ]);
+  const collectionNames = Object.fromEntries(
+    ((collections ?? []) as { id: string; name: string }[]).map((c) => [c.id, c.name])
+  );
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Header user={user} />
+      <main className="max-w-2xl mx-auto px-4 py-8 space-y-6">
+        <div className="animate-fade-in">
+          <Link href="/dashboard" className="text-xs font-medium text-blue-600 hover:underline">
+            ← Back to bookmarks
+          </Link>
+          <h2 className="text-xl font-semibold text-slate-800 mt-2">Trash</h2>
+          <p className="text-slate-500 text-sm mt-1">
+            Deleted bookmarks from your list and your collections. Restore one to put it back where it was.
+          </p>
+        </div>
+        <TrashList initialBookmarks={bookmarks} initialError={trashError} collectionNames={collectionNames} />
+      </main>
+    </div>
+  );
+}
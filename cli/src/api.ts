@@ -0,0 +1,158 @@
+/**
+ * cli/src/api.ts
+ *
+ * Thin client for the app's /api/v1/bookmarks endpoints — the same REST
+ * API the browser extension and scripts use — plus the /api/cli/login
+ * calls. Like the extension's client, every call resolves to
+ * `{ …, error }` rather than throwing.
+ */
+
+import type { ApiBookmark } from "@/lib/types";
+import type { CliLoginStart, CliLoginStatus } from "@/lib/cliLogin";
+import { loadConfig, type Config } from "./config";
+
+export interface SaveInput {
+  url: string;
+  title?: string;
+  description?: string | null;
+  tags: string[];
+}
+
+export interface ListQuery {
+  tag?: string;
+  q?: string;
+  url?: string;
+  from?: string;
+  to?: string;
+}
+
+interface ApiResult {
+  status: number;
+  body: Record<string, unknown> | null;
+  error: string | null;
+}
+
+const PAGE_SIZE = 100;
+
+export const NOT_LOGGED_IN = "Not logged in. Run `bookmarks login --url <app address>` first.";
+
+/**
+ * Lists bookmarks, newest first. Stops after `limit` results, or reads
+ * every page when `limit` is null.
+ */
+export async function listBookmarks(
+  query: ListQuery,
+  limit: number | null
+): Promise<{ bookmarks: ApiBookmark[]; total: number; error: string | null }> {
+  const bookmarks: ApiBookmark[] = [];
+  let total = 0;
+
+  for (let offset = 0; limit === null || bookmarks.length < limit; offset += PAGE_SIZE) {
+    const pageSize = limit === null ? PAGE_SIZE : Math.min(PAGE_SIZE, limit - bookmarks.length);
+    const params = new URLSearchParams({ limit: String(pageSize), offset: String(offset) });
+    for (const [key, value] of Object.entries(query)) {
+      if (value) params.set(key, value);
+    }
+
+    const { body, error } = await request(`/api/v1/bookmarks?${params}`);
+    if (error) return { bookmarks, total, error };
+
+    const page = (body?.data ?? []) as ApiBookmark[];
+    total = Number((body?.pagination as { total?: number } | undefined)?.total ?? 0);
+    bookmarks.push(...page);
+    if (page.length < pageSize) break;
+  }
+
+  return { bookmarks, total, error: null };
+}
+
+export async function getBookmark(id: string): Promise<{ bookmark: ApiBookmark | null; error: string | null }> {
+  const { status, body, error } = await request(`/api/v1/bookmarks/${encodeURIComponent(id)}`);
+  if (status === 404) return { bookmark: null, error: null };
+  if (error) return { bookmark: null, error };
+  return { bookmark: body as unknown as ApiBookmark, error: null };
+}
+
+/**
+ * Saves a bookmark. A 409 means the URL is already saved; that comes
+ * back as `alreadySaved` with the existing id, not as an error.
+ */
+export async function saveBookmark(
+  input: SaveInput
+): Promise<{ bookmark: ApiBookmark | null; alreadySaved: string | null; error: string | null }> {
+  const { status, body, error } = await request("/api/v1/bookmarks", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+
+  if (status === 409 && typeof body?.id === "string") {
+    return { bookmark: null, alreadySaved: body.id, error: null };
+  }
+  if (error) return { bookmark: null, alreadySaved: null, error };
+  return { bookmark: body as unknown as ApiBookmark, alreadySaved: null, error: null };
+}
+
+export async function deleteBookmark(id: string): Promise<{ error: string | null }> {
+  const { error } = await request(`/api/v1/bookmarks/${encodeURIComponent(id)}`, { method: "DELETE" });
+  return { error };
+}
+
+// ── Login ──────────────────────────────────────────────────────────────────
+
+export async function startLogin(
+  appUrl: string,
+  fields: { token_hash: string; token_prefix: string; client_name: string }
+): Promise<{ start: CliLoginStart | null; error: string | null }> {
+  const { body, error } = await request(
+    "/api/cli/login",
+    { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(fields) },
+    { appUrl, token: "" }
+  );
+  if (error) return { start: null, error };
+  return { start: body as unknown as CliLoginStart, error: null };
+}
+
+export async function loginStatus(
+  appUrl: string,
+  tokenHash: string
+): Promise<{ status: CliLoginStatus | null; error: string | null }> {
+  const { body, error } = await request(
+    `/api/cli/login?token_hash=${tokenHash}`,
+    {},
+    { appUrl, token: "" }
+  );
+  if (error) return { status: null, error };
+  return { status: body?.status as CliLoginStatus, error: null };
+}
+
+// Checks a token against the API before it's saved
+export async function verifyToken(config: Config): Promise<{ error: string | null }> {
+  const { error } = await request("/api/v1/bookmarks?limit=1", {}, config);
+  return { error };
+}
+
+async function request(path: string, init: RequestInit = {}, config?: Config): Promise<ApiResult> {
+  const { appUrl, token } = config ?? (await loadConfig());
+  const needsToken = !path.startsWith("/api/cli/");
+  if (!appUrl || (needsToken && !token)) return { status: 0, body: null, error: NOT_LOGGED_IN };
+
+  const headers = new Headers(init.headers);
+  if (needsToken) headers.set("Authorization", `Bearer ${token}`);
+
+  let res: Response;
+  try {
+    res = await fetch(`${appUrl}${path}`, { ...init, headers });
+  } catch {
+    return { status: 0, body: null, error: `Couldn't reach ${appUrl}.` };
+  }
+
+  const body = (await res.json().catch(() => null)) as Record<string, unknown> | null;
+  if (res.ok) return { status: res.status, body, error: null };
+
+  if (res.status === 401 && needsToken) {
+    return { status: res.status, body, error: "The saved token was rejected. Run `bookmarks login` again." };
+  }
+  const message = typeof body?.error === "string" ? body.error : `Request failed (${res.status})`;
+  return { status: res.status, body, error: message };
+}
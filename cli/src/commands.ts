@@ -0,0 +1,155 @@
+/**
+ * cli/src/commands.ts
+ *
+ * The bookmark commands: add, ls, search, rm, export and open. Input is
+ * checked with the web app's own rules (lib/validation, lib/tags) and
+ * export reuses lib/exporters, so files match the website's export.
+ */
+
+import { writeFile } from "node:fs/promises";
+import { exporters, isExportFormat, type ExportBookmark } from "@/lib/exporters";
+import { parseTagInput, validateTags } from "@/lib/tags";
+import { normaliseUrl, validateUrl } from "@/lib/validation";
+import type { ApiBookmark } from "@/lib/types";
+import { deleteBookmark, getBookmark, listBookmarks, saveBookmark, type ListQuery } from "./api";
+import { CliError, note, openInBrowser, printBookmarks, printJson, printLine } from "./output";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+interface OutputOptions {
+  json: boolean;
+}
+
+export async function add(
+  url: string,
+  options: OutputOptions & { title?: string; note?: string; tags: string[] }
+) {
+  const urlError = validateUrl(url);
+  if (urlError) throw new CliError(urlError);
+
+  const tags = parseTagInput(options.tags.join(","));
+  const tagError = validateTags(tags);
+  if (tagError) throw new CliError(tagError);
+
+  const { bookmark, alreadySaved, error } = await saveBookmark({
+    url: normaliseUrl(url),
+    title: options.title?.trim() || undefined,
+    description: options.note?.trim() || null,
+    tags,
+  });
+
+  if (alreadySaved) throw new CliError(`Already saved (${alreadySaved}).`, 2);
+  if (error || !bookmark) throw new CliError(error ?? "Couldn't save the bookmark.");
+
+  if (options.json) printJson(bookmark);
+  else printLine(`Saved "${bookmark.title}" (${bookmark.id})`);
+}
+
+export async function list(options: OutputOptions & ListQuery & { limit: number | null }) {
+  checkDates(options);
+  const { bookmarks, total, error } = await listBookmarks(
+    { tag: options.tag, q: options.q, from: options.from, to: options.to },
+    options.limit
+  );
+  if (error) throw new CliError(error);
+
+  if (options.json) {
+    printJson(bookmarks);
+    return;
+  }
+  if (bookmarks.length === 0) {
+    note(options.q ? "No bookmarks match." : "No bookmarks.");
+    return;
+  }
+  printBookmarks(bookmarks);
+  if (total > bookmarks.length) note(`Showing ${bookmarks.length} of ${total} — use --limit or --all for more.`);
+}
+
+/** Moves to the Trash by id or URL. Never by search: that's too easy to get wrong. */
+export async function remove(targets: string[], options: OutputOptions) {
+  const deleted: string[] = [];
+
+  for (const target of targets) {
+    const bookmark = await resolve(target, false);
+    const { error } = await deleteBookmark(bookmark.id);
+    if (error) throw new CliError(error);
+    deleted.push(bookmark.id);
+    if (!options.json) printLine(`Moved "${bookmark.title}" to the Trash`);
+  }
+
+  if (options.json) printJson({ deleted });
+}
+
+export async function exportBookmarks(
+  options: OutputOptions & ListQuery & { format: string; output?: string }
+) {
+  if (!isExportFormat(options.format)) throw new CliError("--format must be html, json, csv or md");
+  checkDates(options);
+
+  const { bookmarks, error } = await listBookmarks(
+    { tag: options.tag, from: options.from, to: options.to },
+    null
+  );
+  if (error) throw new CliError(error);
+
+  const exporter = exporters[options.format];
+  const file =
+    exporter.header() +
+    bookmarks.map((b, index) => exporter.row(toExportBookmark(b), index)).join("") +
+    exporter.footer();
+
+  if (!options.output) {
+    process.stdout.write(file);
+    return;
+  }
+  await writeFile(options.output, file);
+  if (options.json) printJson({ file: options.output, format: options.format, count: bookmarks.length });
+  else note(`Exported ${bookmarks.length} bookmarks to ${options.output}`);
+}
+
+/** Opens a bookmark by id, URL or — failing those — the best search match. */
+export async function open(target: string, options: OutputOptions) {
+  const bookmark = await resolve(target, true);
+
+  if (options.json) printJson(bookmark);
+  else note(`Opening ${bookmark.url}`);
+
+  if (!(await openInBrowser(bookmark.url))) {
+    throw new CliError(`Couldn't open a browser. The link is ${bookmark.url}`);
+  }
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────
+
+async function resolve(target: string, allowSearch: boolean): Promise<ApiBookmark> {
+  if (UUID_PATTERN.test(target)) {
+    const { bookmark, error } = await getBookmark(target);
+    if (error) throw new CliError(error);
+    if (!bookmark) throw new CliError(`No bookmark with id ${target}.`);
+    return bookmark;
+  }
+
+  const isUrl = !validateUrl(target);
+  if (!isUrl && !allowSearch) {
+    throw new CliError(`"${target}" isn't a bookmark id or URL.`);
+  }
+
+  // The API matches URLs by canonical form, so www./tracking variants count
+  const query: ListQuery = isUrl ? { url: target } : { q: target };
+  const { bookmarks, error } = await listBookmarks(query, 1);
+  if (error) throw new CliError(error);
+  if (!bookmarks[0]) throw new CliError(isUrl ? `${target} isn't saved.` : `Nothing matches "${target}".`);
+  return bookmarks[0];
+}
+
+function checkDates(options: { from?: string; to?: string }) {
+  for (const value of [options.from, options.to]) {
+    if (value && !DATE_PATTERN.test(value)) throw new CliError("--from/--to must be YYYY-MM-DD");
+  }
+}
+
+// The API leaves out the columns the exporters don't use anyway
+function toExportBookmark(bookmark: ApiBookmark): ExportBookmark {
+  return { ...bookmark, canonical_url: null, collection_id: null, deleted_at: null };
+}
@@ -0,0 +1,66 @@
+/**
+ * cli/src/config.ts
+ *
+ * Where the CLI keeps its app address and API token:
+ * $XDG_CONFIG_HOME/smart-bookmarks/config.json (~/.config by default,
+ * %APPDATA% on Windows), readable by the owner only.
+ * SMART_BOOKMARKS_URL and SMART_BOOKMARKS_TOKEN override the file, for
+ * scripts and CI.
+ */
+
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+
+export interface Config {
+  appUrl: string;
+  token: string;
+}
+
+export function configPath(): string {
+  const base =
+    process.env.XDG_CONFIG_HOME ||
+    (process.platform === "win32" && process.env.APPDATA) ||
+    join(homedir(), ".config");
+  return join(base, "smart-bookmarks", "config.json");
+}
+
+export async function loadConfig(): Promise<Config> {
+  let stored: Partial<Config> = {};
+  try {
+    stored = JSON.parse(await readFile(configPath(), "utf8")) as Partial<Config>;
+  } catch {
+    // Not logged in yet
+  }
+
+  return {
+    appUrl: process.env.SMART_BOOKMARKS_URL || stored.appUrl || "",
+    token: process.env.SMART_BOOKMARKS_TOKEN || stored.token || "",
+  };
+}
+
+export async function saveConfig(config: Config): Promise<void> {
+  const path = configPath();
+  await mkdir(dirname(path), { recursive: true, mode: 0o700 });
+  await writeFile(path, JSON.stringify(config, null, 2) + "\n", { mode: 0o600 });
+}
+
+export async function clearConfig(): Promise<void> {
+  await rm(configPath(), { force: true });
+}
+
+/**
+ * Accepts "bookmarks.example.com" or a full URL and returns the origin
+ * ("https://bookmarks.example.com"), or null if it isn't a web address.
+ */
+export function parseAppUrl(raw: string): string | null {
+  const trimmed = raw.trim();
+  if (!trimmed) return null;
+  try {
+    const url = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    if (url.protocol !== "https:" && url.protocol !== "http:") return null;
+    return url.origin;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * cli/src/index.ts
+ *
+ * Entry point for the `bookmarks` command: parses arguments, runs the
+ * command and turns a CliError into a message on stderr and an exit
+ * code (1 for errors, 2 for "already saved").
+ */
+
+import { parseArgs, type ParseArgsConfig } from "node:util";
+import { add, exportBookmarks, list, open, remove } from "./commands";
+import { login, logout } from "./login";
+import { CliError, printLine } from "./output";
+
+const USAGE = `Usage: bookmarks <command> [options]
+
+Commands:
+  login [--url <address>] [--token <token>] [--no-browser]
+                                 Sign in through the browser, or with a personal access token
+  logout                         Forget the saved token
+  add <url> [--title <t>] [--tag <tag>]… [--note <text>]
+                                 Save a bookmark
+  ls [--tag <tag>] [--from <date>] [--to <date>] [--limit <n> | --all]
+                                 List bookmarks, newest first
+  search <query> [--tag <tag>] [--limit <n> | --all]
+                                 Full-text search
+  rm <id|url>…                   Move bookmarks to the Trash
+  export [--format html|json|csv|md] [--tag <tag>] [--from <date>] [--to <date>] [-o <file>]
+                                 Export to stdout or a file (default format: json)
+  open <id|url|query>            Open a bookmark in the browser
+
+Options:
+  --json                         Print results as JSON, for piping
+  -h, --help                     Show this help
+
+Dates are YYYY-MM-DD. SMART_BOOKMARKS_URL and SMART_BOOKMARKS_TOKEN
+override the saved login.`;
+
+const DEFAULT_LIMIT = 50;
+
+const OPTIONS = {
+  json: { type: "boolean", default: false },
+  help: { type: "boolean", short: "h", default: false },
+  url: { type: "string" },
+  token: { type: "string" },
+  "no-browser": { type: "boolean", default: false },
+  title: { type: "string" },
+  note: { type: "string" },
+  tag: { type: "string", multiple: true, default: [] },
+  from: { type: "string" },
+  to: { type: "string" },
+  limit: { type: "string" },
+  all: { type: "boolean", default: false },
+  format: { type: "string", default: "json" },
+  output: { type: "string", short: "o" },
+} satisfies ParseArgsConfig["options"];
+
+async function main(argv: string[]) {
+  let parsed;
+  try {
+    parsed = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+  } catch (err) {
+    throw new CliError(`${err instanceof Error ? err.message : err}\n\n${USAGE}`);
+  }
+
+  const { values, positionals } = parsed;
+  const [command, ...args] = positionals;
+  const json = values.json;
+
+  if (!command || values.help) {
+    printLine(USAGE);
+    return;
+  }
+
+  switch (command) {
+    case "login":
+      return login({ url: values.url, token: values.token, browser: !values["no-browser"], json });
+
+    case "logout":
+      return logout({ json });
+
+    case "add":
+      if (args.length !== 1) throw new CliError("Usage: bookmarks add <url> [--title <t>] [--tag <tag>]… [--note <text>]");
+      return add(args[0], { json, title: values.title, note: values.note, tags: values.tag });
+
+    case "ls":
+    case "list":
+      return list({ json, tag: firstTag(values.tag), from: values.from, to: values.to, limit: readLimit(values) });
+
+    case "search":
+      if (args.length === 0) throw new CliError("Usage: bookmarks search <query>");
+      return list({ json, q: args.join(" "), tag: firstTag(values.tag), limit: readLimit(values) });
+
+    case "rm":
+      if (args.length === 0) throw new CliError("Usage: bookmarks rm <id|url>…");
+      return remove(args, { json });
+
+    case "export":
+      return exportBookmarks({
+        json,
+        format: values.format,
+        tag: firstTag(values.tag),
+        from: values.from,
+        to: values.to,
+        output: values.output,
+      });
+
+    case "open":
+      if (args.length === 0) throw new CliError("Usage: bookmarks open <id|url|query>");
+      return open(args.join(" "), { json });
+
+    default:
+      throw new CliError(`Unknown command "${command}".\n\n${USAGE}`);
+  }
+}
+
+// The API filters on one tag (folder-aware); more would be ambiguous
+function firstTag(tags: string[]): string | undefined {
+  if (tags.length > 1) throw new CliError("Filter by one --tag at a time.");
+  return tags[0];
+}
+
+function readLimit(values: { limit?: string; all: boolean }): number | null {
+  if (values.all) return null;
+  if (values.limit === undefined) return DEFAULT_LIMIT;
+  const limit = Number(values.limit);
+  if (!Number.isInteger(limit) || limit < 1) throw new CliError("--limit must be a positive whole number");
+  return limit;
+}
+
+main(process.argv.slice(2)).catch((err: unknown) => {
+  if (err instanceof CliError) {
+    process.stderr.write(`bookmarks: ${err.message}\n`);
+    process.exitCode = err.exitCode;
+    return;
+  }
+  process.stderr.write(`bookmarks: ${err instanceof Error ? err.stack ?? err.message : String(err)}\n`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,85 @@
+/**
+ * cli/src/login.ts
+ *
+ * `bookmarks login`. With --token, checks and stores an existing
+ * personal access token. Otherwise runs the device-style flow from
+ * lib/cliLogin.ts: make a token here, register its hash, have the user
+ * approve the code in a browser, then poll until the token is live.
+ */
+
+import { hostname } from "node:os";
+import { setTimeout as sleep } from "node:timers/promises";
+import { API_TOKEN_PREFIX, generateApiToken, hashApiToken, tokenDisplayPrefix } from "@/lib/apiTokens";
+import { loginStatus, startLogin, verifyToken } from "./api";
+import { clearConfig, configPath, loadConfig, parseAppUrl, saveConfig } from "./config";
+import { CliError, note, openInBrowser, printJson, printLine } from "./output";
+
+export async function login(options: { url?: string; token?: string; browser: boolean; json: boolean }) {
+  const current = await loadConfig();
+  const appUrl = options.url ? parseAppUrl(options.url) : current.appUrl;
+  if (!appUrl) {
+    throw new CliError(
+      options.url ? `"${options.url}" isn't a web address.` : "Pass the app's address: bookmarks login --url <address>"
+    );
+  }
+
+  const token = options.token
+    ? await checkExistingToken(appUrl, options.token.trim())
+    : await deviceLogin(appUrl, options.browser);
+
+  await saveConfig({ appUrl, token });
+
+  if (options.json) printJson({ app_url: appUrl, token_prefix: tokenDisplayPrefix(token) });
+  else printLine(`Logged in to ${appUrl}. Settings saved to ${configPath()}.`);
+}
+
+export async function logout(options: { json: boolean }) {
+  await clearConfig();
+  if (options.json) {
+    printJson({ logged_out: true });
+    return;
+  }
+  printLine("Logged out.");
+  note("The token still works until you revoke it in Settings on the website.");
+}
+
+async function checkExistingToken(appUrl: string, token: string): Promise<string> {
+  if (!token.startsWith(API_TOKEN_PREFIX)) {
+    throw new CliError(`Tokens start with "${API_TOKEN_PREFIX}" — create one in Settings on the website.`);
+  }
+  const { error } = await verifyToken({ appUrl, token });
+  if (error) throw new CliError(error);
+  return token;
+}
+
+async function deviceLogin(appUrl: string, browser: boolean): Promise<string> {
+  const token = generateApiToken();
+  const tokenHash = await hashApiToken(token);
+
+  const { start, error } = await startLogin(appUrl, {
+    token_hash: tokenHash,
+    token_prefix: tokenDisplayPrefix(token),
+    client_name: `CLI (${hostname()})`.slice(0, 100),
+  });
+  if (!start) throw new CliError(error ?? "Couldn't start login.");
+
+  note(`Your code: ${start.user_code}`);
+  note(`Approve it at ${start.verification_url}`);
+  if (browser && !(await openInBrowser(start.verification_url))) {
+    note("(Couldn't open a browser — open the link above yourself.)");
+  }
+  note("Waiting for approval…");
+
+  const deadline = new Date(start.expires_at).getTime();
+  while (Date.now() < deadline) {
+    await sleep(start.interval * 1000);
+
+    const { status, error: pollError } = await loginStatus(appUrl, tokenHash);
+    // A dropped connection is worth another try; anything else isn't
+    if (pollError && !pollError.startsWith("Couldn't reach")) throw new CliError(pollError);
+    if (status === "approved") return token;
+    if (status === "expired") break;
+  }
+
+  throw new CliError("The login code expired. Run `bookmarks login` again.");
+}
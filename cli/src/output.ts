@@ -0,0 +1,68 @@
+/**
+ * cli/src/output.ts
+ *
+ * Printing results. With --json every command writes exactly one JSON
+ * value to stdout, so it can be piped into jq and friends; otherwise the
+ * output is meant for reading. Errors and progress go to stderr either
+ * way, keeping stdout clean.
+ */
+
+import { spawn } from "node:child_process";
+import type { ApiBookmark } from "@/lib/types";
+
+export class CliError extends Error {
+  constructor(message: string, readonly exitCode = 1) {
+    super(message);
+    this.name = "CliError";
+  }
+}
+
+export function printJson(value: unknown) {
+  process.stdout.write(JSON.stringify(value, null, 2) + "\n");
+}
+
+export function printLine(text = "") {
+  process.stdout.write(text + "\n");
+}
+
+// Progress and prompts, kept off stdout
+export function note(text: string) {
+  process.stderr.write(text + "\n");
+}
+
+/**
+ * Two lines per bookmark:
+ *   Supabase docs
+ *     https://supabase.com/docs  #dev #db  · 3 Mar 2024  · <id>
+ */
+export function printBookmarks(bookmarks: ApiBookmark[]) {
+  for (const b of bookmarks) {
+    const tags = b.tags.map((t) => `#${t}`).join(" ");
+    const date = new Date(b.created_at).toLocaleDateString(undefined, {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    });
+    printLine(b.title);
+    printLine(`  ${[b.url, tags, date, b.id].filter(Boolean).join("  · ")}`);
+  }
+}
+
+// Opens a URL in the default browser; false if that isn't possible here
+export function openInBrowser(url: string): Promise<boolean> {
+  const [command, args] =
+    process.platform === "darwin"
+      ? ["open", [url]]
+      : process.platform === "win32"
+        ? ["cmd", ["/c", "start", '""', url.replace(/&/g, "^&")]]
+        : ["xdg-open", [url]];
+
+  return new Promise((resolve) => {
+    const child = spawn(command, args, { stdio: "ignore", detached: true });
+    child.once("error", () => resolve(false));
+    child.once("spawn", () => {
+      child.unref();
+      resolve(true);
+    });
+  });
+}
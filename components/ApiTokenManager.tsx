@@ -0,0 +1,209 @@
+/**
+ * components/ApiTokenManager.tsx
+ *
+ * Lists the user's personal access tokens and creates/revokes them.
+ * Tokens are generated and hashed in the browser; only the hash reaches
+ * the database, so the plain token is shown once and can't be recovered.
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import { createClient } from "@/lib/supabaseClient";
+import {
+  API_TOKEN_SCOPES,
+  MAX_TOKEN_NAME_LENGTH,
+  generateApiToken,
+  hashApiToken,
+  isApiTokenScope,
+  tokenDisplayPrefix,
+} from "@/lib/apiTokens";
+import type { ApiToken, ApiTokenScope } from "@/lib/types";
+
+interface ApiTokenManagerProps {
+  initialTokens: ApiToken[];
+}
+
+const TOKEN_COLUMNS = "id, user_id, name, token_prefix, scope, last_used_at, created_at";
+
+export default function ApiTokenManager({ initialTokens }: ApiTokenManagerProps) {
+  const [tokens, setTokens] = useState<ApiToken[]>(initialTokens);
+  const [name, setName] = useState("");
+  const [scope, setScope] = useState<ApiTokenScope>("read");
+  const [isCreating, setIsCreating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [origin, setOrigin] = useState("");
+
+  // Only known in the browser; used for the example command
+  useEffect(() => setOrigin(window.location.origin), []);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setNewToken(null);
+
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setError("Give the token a name so you can recognise it later.");
+      return;
+    }
+
+    setIsCreating(true);
+
+    const supabase = createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      setError("You must be logged in to create tokens.");
+      setIsCreating(false);
+      return;
+    }
+
+    const token = generateApiToken();
+    const { data, error: insertError } = await supabase
+      .from("api_tokens")
+      .insert({
+        user_id: user.id,
+        name: trimmed,
+        scope,
+        token_hash: await hashApiToken(token),
+        token_prefix: tokenDisplayPrefix(token),
+      })
+      .select(TOKEN_COLUMNS)
+      .single();
+
+    setIsCreating(false);
+
+    if (insertError) {
+      setError(insertError.message);
+      return;
+    }
+
+    setTokens((prev) => [data as ApiToken, ...prev]);
+    setNewToken(token);
+    setCopied(false);
+    setName("");
+  };
+
+  const handleRevoke = async (id: string) => {
+    setError(null);
+    setRevokingId(id);
+
+    const supabase = createClient();
+    const { error: deleteError } = await supabase.from("api_tokens").delete().eq("id", id);
+
+    setRevokingId(null);
+    if (deleteError) {
+      setError(deleteError.message);
+      return;
+    }
+    setTokens((prev) => prev.filter((t) => t.id !== id));
+  };
+
+  const handleCopy = async () => {
+    if (!newToken) return;
+    try {
+      await navigator.clipboard.writeText(newToken);
+      setCopied(true);
+    } catch {
+      // Clipboard blocked — the token is still selectable
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-100 shadow-sm p-5 space-y-4 animate-fade-in">
+      <h3 className="text-sm font-semibold text-slate-700">Personal access tokens</h3>
+
+      <form onSubmit={handleCreate} className="flex flex-col sm:flex-row gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Token name, e.g. CI bot"
+          maxLength={MAX_TOKEN_NAME_LENGTH}
+          disabled={isCreating}
+          className="input-field flex-1"
+          aria-label="Token name"
+        />
+        <select
+          value={scope}
+          onChange={(e) => isApiTokenScope(e.target.value) && setScope(e.target.value)}
+          disabled={isCreating}
+          className="input-field sm:w-40"
+          aria-label="Token scope"
+        >
+          {(Object.keys(API_TOKEN_SCOPES) as ApiTokenScope[]).map((value) => (
+            <option key={value} value={value}>
+              {API_TOKEN_SCOPES[value]}
+            </option>
+          ))}
+        </select>
+        <button type="submit" disabled={isCreating} className="btn-primary sm:w-auto">
+          {isCreating ? "Creating…" : "Create token"}
+        </button>
+      </form>
+
+      {error && (
+        <p className="text-xs text-red-600 bg-red-50 border border-red-100 rounded-lg px-3 py-2">{error}</p>
+      )}
+
+      {newToken && (
+        <div className="space-y-2 rounded-lg border border-green-100 bg-green-50 p-3 animate-fade-in">
+          <p className="text-xs font-medium text-green-700">
+            Copy your new token now — it won&apos;t be shown again.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 min-w-0 truncate rounded bg-white px-2 py-1 text-xs text-slate-700 border border-green-100 select-all">
+              {newToken}
+            </code>
+            <button type="button" onClick={handleCopy} className="btn-secondary">
+              {copied ? "Copied" : "Copy"}
+            </button>
+          </div>
+          <pre className="overflow-x-auto rounded bg-slate-900 px-3 py-2 text-[11px] text-slate-100">
+            {`curl -H "Authorization: Bearer ${newToken}" \\\n  ${origin}/api/v1/bookmarks`}
+          </pre>
+        </div>
+      )}
+
+      {tokens.length === 0 ? (
+        <p className="text-xs text-slate-400">No tokens yet.</p>
+      ) : (
+        <ul className="divide-y divide-slate-100 border border-slate-100 rounded-lg">
+          {tokens.map((token) => (
+            <li key={token.id} className="flex items-center gap-3 px-3 py-2">
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-medium text-slate-800 truncate">{token.name}</p>
+                <p className="text-xs text-slate-400">
+                  <code>{token.token_prefix}…</code> · {API_TOKEN_SCOPES[token.scope]} · created{" "}
+                  {formatDate(token.created_at)} ·{" "}
+                  {token.last_used_at ? `last used ${formatDate(token.last_used_at)}` : "never used"}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleRevoke(token.id)}
+                disabled={revokingId === token.id}
+                className="btn-danger"
+                aria-label={`Revoke token ${token.name}`}
+              >
+                {revokingId === token.id ? "Revoking…" : "Revoke"}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
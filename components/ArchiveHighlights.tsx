@@ -0,0 +1,206 @@
+/**
+ * components/ArchiveHighlights.tsx
+ *
+ * The saved copy's article plus its highlights (lib/notes.ts). Selecting
+ * text in the article offers "Highlight", optionally with a comment, for
+ * anyone who can edit the bookmark; the passage is stored with the time
+ * it was taken and listed under the article, where it can be removed.
+ * The article HTML is sanitised by lib/readability.ts in /api/archive,
+ * the only place archives are written.
+ */
+
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { createClient } from "@/lib/supabaseClient";
+import { addHighlight, deleteHighlight, formatHighlightTime, NOTES_LIMITS, normaliseQuote } from "@/lib/notes";
+import type { BookmarkHighlight } from "@/lib/types";
+
+interface ArchiveHighlightsProps {
+  bookmarkId: string;
+  contentHtml: string;
+  initialHighlights: BookmarkHighlight[];
+  canEdit: boolean;
+}
+
+// Where the popover sits, relative to the wrapper, and what it would save
+interface PendingSelection {
+  quote: string;
+  top: number;
+  left: number;
+}
+
+export default function ArchiveHighlights({ bookmarkId, contentHtml, initialHighlights, canEdit }: ArchiveHighlightsProps) {
+  const [highlights, setHighlights] = useState(initialHighlights);
+  const [selection, setSelection] = useState<PendingSelection | null>(null);
+  const [isCommenting, setIsCommenting] = useState(false);
+  const [comment, setComment] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const articleRef = useRef<HTMLElement>(null);
+
+  const dismiss = useCallback(() => {
+    setSelection(null);
+    setIsCommenting(false);
+    setComment("");
+  }, []);
+
+  // Reads the selection once the mouse or keyboard lets go of it
+  const captureSelection = useCallback(() => {
+    if (!canEdit || isCommenting) return;
+    const current = window.getSelection();
+    const article = articleRef.current;
+    const wrapper = wrapperRef.current;
+    if (!current || current.isCollapsed || current.rangeCount === 0 || !article || !wrapper) {
+      setSelection(null);
+      return;
+    }
+
+    const range = current.getRangeAt(0);
+    if (!article.contains(range.commonAncestorContainer)) {
+      setSelection(null);
+      return;
+    }
+    const quote = normaliseQuote(current.toString());
+    if (!quote) {
+      setSelection(null);
+      return;
+    }
+
+    const rect = range.getBoundingClientRect();
+    const box = wrapper.getBoundingClientRect();
+    setSelection({ quote, top: rect.top - box.top, left: rect.left - box.left + rect.width / 2 });
+  }, [canEdit, isCommenting]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") dismiss();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [dismiss]);
+
+  const handleSave = async () => {
+    if (!selection) return;
+    setError(null);
+    setIsSaving(true);
+    const { highlight, error: addError } = await addHighlight(createClient(), bookmarkId, selection.quote, comment);
+    setIsSaving(false);
+
+    if (addError || !highlight) {
+      setError(addError ?? "Couldn't save the highlight.");
+      return;
+    }
+    setHighlights((prev) => [...prev, highlight]);
+    window.getSelection()?.removeAllRanges();
+    dismiss();
+  };
+
+  const handleDelete = async (id: string) => {
+    setError(null);
+    const deleteError = await deleteHighlight(createClient(), id);
+    if (deleteError) {
+      setError(`Couldn't remove the highlight: ${deleteError}`);
+      return;
+    }
+    setHighlights((prev) => prev.filter((h) => h.id !== id));
+  };
+
+  return (
+    <div ref={wrapperRef} className="relative space-y-6">
+      <article
+        ref={articleRef}
+        className="archive-content bg-white rounded-2xl border border-slate-100 shadow-sm p-6"
+        onMouseUp={captureSelection}
+        onKeyUp={captureSelection}
+        dangerouslySetInnerHTML={{ __html: contentHtml }}
+      />
+
+      {selection && (
+        <div
+          className="absolute z-10 -translate-x-1/2 -translate-y-full -mt-2 flex items-center gap-1.5 bg-slate-800 text-white rounded-lg shadow-lg px-2 py-1.5 animate-fade-in"
+          style={{ top: selection.top, left: selection.left }}
+          // Keeps the text selected while the buttons are clicked
+          onMouseDown={(e) => { if (!(e.target instanceof HTMLInputElement)) e.preventDefault(); }}
+        >
+          {isCommenting ? (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleSave();
+              }}
+              className="flex items-center gap-1.5"
+            >
+              <input
+                type="text"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                maxLength={NOTES_LIMITS.comment}
+                className="w-56 rounded bg-slate-700 px-2 py-1 text-xs text-white placeholder-slate-400 focus:outline-none"
+                placeholder="Comment"
+                aria-label="Comment on this highlight"
+                autoFocus
+              />
+              <button type="submit" disabled={isSaving} className="text-xs font-medium hover:text-amber-300 disabled:opacity-50">
+                {isSaving ? "Saving…" : "Save"}
+              </button>
+            </form>
+          ) : (
+            <>
+              <button type="button" onClick={handleSave} disabled={isSaving} className="text-xs font-medium hover:text-amber-300 disabled:opacity-50">
+                {isSaving ? "Saving…" : "Highlight"}
+              </button>
+              <span className="text-slate-500" aria-hidden="true">|</span>
+              <button type="button" onClick={() => setIsCommenting(true)} className="text-xs hover:text-amber-300">
+                With comment…
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <p className="text-xs text-red-600 bg-red-50 border border-red-100 rounded-lg px-3 py-2">{error}</p>
+      )}
+
+      <section className="bg-white rounded-2xl border border-slate-100 shadow-sm p-6 space-y-3">
+        <h3 className="text-sm font-semibold text-slate-800">
+          Highlights{highlights.length > 0 && ` · ${highlights.length}`}
+        </h3>
+        {highlights.length === 0 ? (
+          <p className="text-xs text-slate-400">
+            {canEdit ? "Select a passage above to keep it here." : "Nothing has been highlighted yet."}
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {highlights.map((highlight) => (
+              <li key={highlight.id} className="group flex items-start gap-2">
+                <div className="flex-1 min-w-0 space-y-0.5">
+                  <blockquote className="border-l-2 border-amber-300 pl-3 text-sm text-slate-700 whitespace-pre-line break-words">
+                    {highlight.quote}
+                  </blockquote>
+                  {highlight.comment && <p className="pl-3.5 text-xs text-slate-500 break-words">{highlight.comment}</p>}
+                  <p className="pl-3.5 text-[11px] text-slate-400">{formatHighlightTime(highlight.created_at)}</p>
+                </div>
+                {canEdit && (
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(highlight.id)}
+                    className="flex-shrink-0 text-slate-300 hover:text-red-600 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                    aria-label="Remove highlight"
+                    title="Remove highlight"
+                  >
+                    <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
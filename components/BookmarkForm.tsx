@@ -1,91 +1,284 @@
 /**
  * components/BookmarkForm.tsx
  * Add bookmark form with strict URL validation.
+ * Pasting a URL fetches its page metadata (via /api/metadata) to pre-fill
+ * the title and attach a description, preview image and site name.
+ * URLs that canonicalise to an existing bookmark are not inserted again —
+ * the form offers to open or update the saved entry instead.
+ * Offline, new bookmarks are saved locally and queued for upload; tags
+ * and page metadata wait until the connection returns.
+ * /save pre-fills the URL and title from a bookmarklet or share sheet.
+ * Tags are suggested for the URL too (/api/tags/suggest, lib/autoTag.ts);
+ * clicking one adds it to the tag field.
  */
 
 "use client";
 
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect, useCallback, useMemo } from "react";
+import TagChip from "@/components/TagChip";
 import { createClient } from "@/lib/supabaseClient";
-import type { Bookmark } from "@/lib/types";
+import { canonicaliseUrl, isDuplicateUrlError } from "@/lib/canonicalUrl";
+import { draftBookmark, isOffline, queueInsert } from "@/lib/offlineQueue";
+import { normaliseUrl, validateUrl } from "@/lib/validation";
+import { parseTagInput, syncBookmarkTags, validateTags } from "@/lib/tags";
+import type { Bookmark, BookmarkTag, PageMetadata, Tag, TagSuggestion } from "@/lib/types";
+
+export interface DuplicateMatch {
+  bookmark: Bookmark;
+  tags: Tag[];
+}
 
 interface BookmarkFormProps {
+  userId: string;
+  collectionId: string | null;
+  initialUrl?: string;
+  initialTitle?: string;
+  findDuplicate: (url: string) => DuplicateMatch | null;
   onBookmarkAdded: (bookmark: Bookmark) => void;
+  onBookmarkUpdated: (bookmark: Bookmark) => void;
+  onTagsChanged: (bookmarkId: string, tags: Tag[], links: BookmarkTag[]) => void;
+  // After a save has fully finished, tags included
+  onSaved?: (bookmark: Bookmark, action: "added" | "updated") => void;
 }
 
-export default function BookmarkForm({ onBookmarkAdded }: BookmarkFormProps) {
-  const [title, setTitle] = useState("");
-  const [url, setUrl] = useState("");
+export default function BookmarkForm({
+  userId,
+  collectionId,
+  initialUrl = "",
+  initialTitle = "",
+  findDuplicate,
+  onBookmarkAdded,
+  onBookmarkUpdated,
+  onTagsChanged,
+  onSaved,
+}: BookmarkFormProps) {
+  const [title, setTitle] = useState(initialTitle);
+  const [url, setUrl] = useState(initialUrl);
+  const [tagInput, setTagInput] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [success, setSuccess] = useState(false);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [metadata, setMetadata] = useState<PageMetadata | null>(null);
+  const [isFetchingMetadata, setIsFetchingMetadata] = useState(false);
+  const [suggestions, setSuggestions] = useState<TagSuggestion[]>([]);
   const titleRef = useRef<HTMLInputElement>(null);
+  // Once the user types a title, fetched titles no longer overwrite it
+  const titleEditedRef = useRef(initialTitle.length > 0);
+  const metadataCache = useRef(new Map<string, PageMetadata | null>());
+  const suggestionCache = useRef(new Map<string, TagSuggestion[]>());
+
+  const duplicate = useMemo(
+    () => (url.trim() && !validateUrl(url) ? findDuplicate(url) : null),
+    [url, findDuplicate]
+  );
+
+  // Cached per normalised URL; null means the page couldn't be read
+  const loadMetadata = useCallback(async (rawUrl: string): Promise<PageMetadata | null> => {
+    const target = normaliseUrl(rawUrl);
+    const cache = metadataCache.current;
+    if (cache.has(target)) return cache.get(target) ?? null;
 
-  // Adds https:// if protocol is missing
-  const normaliseUrl = (raw: string): string => {
-    const trimmed = raw.trim();
-    if (!trimmed.startsWith("http://") && !trimmed.startsWith("https://")) {
-      return `https://${trimmed}`;
+    try {
+      const res = await fetch(`/api/metadata?url=${encodeURIComponent(target)}`);
+      const result = res.ok ? ((await res.json()) as PageMetadata) : null;
+      cache.set(target, result);
+      return result;
+    } catch {
+      return null;
     }
-    return trimmed;
-  };
+  }, []);
 
-  const validate = (): string | null => {
-    if (!title.trim()) return "Title is required.";
-    if (!url.trim()) return "URL is required.";
+  // Cached per normalised URL like metadata; failures just mean no suggestions
+  const loadSuggestions = useCallback(async (rawUrl: string): Promise<TagSuggestion[]> => {
+    const target = normaliseUrl(rawUrl);
+    const cache = suggestionCache.current;
+    const cached = cache.get(target);
+    if (cached) return cached;
 
     try {
-      const parsed = new URL(normaliseUrl(url));
+      const res = await fetch(`/api/tags/suggest?url=${encodeURIComponent(target)}`);
+      if (!res.ok) return [];
+      const result = ((await res.json()) as { suggestions: TagSuggestion[] }).suggestions;
+      cache.set(target, result);
+      return result;
+    } catch {
+      return [];
+    }
+  }, []);
 
-      // Only allow http and https protocols
-      if (!["http:", "https:"].includes(parsed.protocol)) {
-        return "URL must use http:// or https://.";
-      }
+  // ── Fetch metadata shortly after the URL stops changing ─────────────────
+  useEffect(() => {
+    if (!url.trim() || validateUrl(url)) {
+      setMetadata(null);
+      return;
+    }
 
-      const hostname = parsed.hostname;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsFetchingMetadata(true);
+      const result = await loadMetadata(url);
+      if (cancelled) return;
+      setIsFetchingMetadata(false);
+      setMetadata(result);
+      if (result?.title && !titleEditedRef.current) setTitle(result.title);
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      setIsFetchingMetadata(false);
+    };
+  }, [url, loadMetadata]);
+
+  // Separately, since suggestions read the whole page and take longer
+  useEffect(() => {
+    setSuggestions([]);
+    if (!url.trim() || validateUrl(url) || isOffline()) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const result = await loadSuggestions(url);
+      if (!cancelled) setSuggestions(result);
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [url, loadSuggestions]);
+
+  // Suggestions not already typed in, or already on the saved entry
+  const offeredSuggestions = useMemo(() => {
+    const chosen = new Set([...parseTagInput(tagInput), ...(duplicate?.tags.map((t) => t.name) ?? [])]);
+    return suggestions.filter((s) => !chosen.has(s.name));
+  }, [suggestions, tagInput, duplicate]);
+
+  const addSuggestedTag = (name: string) => {
+    setTagInput((prev) => [...parseTagInput(prev), name].join(", "));
+  };
 
-      // Must have a dot — rejects plain words like 'hello', 'test', 'random'
-      if (!hostname.includes(".")) {
-        return "Please enter a real URL with a domain (e.g. https://example.com).";
-      }
+  const resetForm = () => {
+    setTitle("");
+    setUrl("");
+    setTagInput("");
+    titleEditedRef.current = false;
+    titleRef.current?.focus();
+  };
 
-      // Split into parts: ['google', 'com'] or ['sub', 'google', 'com']
-      const parts = hostname.split(".");
+  const showSuccess = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(null), 2000);
+  };
 
-      // Each part must be non-empty
-      if (parts.some((p) => p.length === 0)) {
-        return "Please enter a valid URL (e.g. https://example.com).";
-      }
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (duplicate) return;
 
-      // TLD (last part like .com .io .in) must be 2-6 letters only
-      const tld = parts[parts.length - 1];
-      if (!/^[a-zA-Z]{2,6}$/.test(tld)) {
-        return "Please enter a valid URL (e.g. https://example.com).";
-      }
+    const tagNames = parseTagInput(tagInput);
+    const validationError = validateUrl(url) ?? validateTags(tagNames);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
 
-      // Domain name (second to last part) must be at least 1 char
-      const domain = parts[parts.length - 2];
-      if (!domain || domain.length < 1) {
-        return "Please enter a valid URL (e.g. https://example.com).";
-      }
+    setIsSubmitting(true);
+    const normalizedUrl = normaliseUrl(url);
 
-      // Only allow valid hostname characters
-      if (!/^[a-zA-Z0-9.-]+$/.test(hostname)) {
-        return "URL contains invalid characters.";
+    if (isOffline()) {
+      const draft = draftBookmark({
+        user_id: userId,
+        title: (title.trim() || new URL(normalizedUrl).hostname).slice(0, 200),
+        url: normalizedUrl,
+        canonical_url: canonicaliseUrl(normalizedUrl),
+        collection_id: collectionId,
+      });
+      const queued = await queueInsert(draft);
+      setIsSubmitting(false);
+      if (!queued) {
+        setError("You're offline and this browser can't store changes for later.");
+        return;
       }
+      onBookmarkAdded(draft);
+      onSaved?.(draft, "added");
+      resetForm();
+      showSuccess(tagNames.length > 0 ? "Saved offline. Add tags once you're back online." : "Saved offline. It will sync when you reconnect.");
+      return;
+    }
 
-    } catch {
-      return "Please enter a valid URL (e.g. https://example.com).";
+    const supabase = createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      setError("You must be logged in to add bookmarks.");
+      setIsSubmitting(false);
+      return;
+    }
+
+    // Usually already cached from the debounced fetch above
+    const meta = await loadMetadata(url);
+    const finalTitle = (title.trim() || meta?.title || new URL(normalizedUrl).hostname).slice(0, 200);
+
+    const { data, error: insertError } = await supabase
+      .from("bookmarks")
+      .insert({
+        title: finalTitle,
+        url: normalizedUrl,
+        canonical_url: canonicaliseUrl(normalizedUrl),
+        collection_id: collectionId,
+        description: meta?.description ?? null,
+        image_url: meta?.imageUrl ?? null,
+        site_name: meta?.siteName ?? null,
+        favicon_url: meta?.faviconUrl ?? null,
+        user_id: user.id,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      setIsSubmitting(false);
+      // Saved from another tab or device since the list was loaded
+      setError(isDuplicateUrlError(insertError) ? "You already saved this link." : insertError.message);
+      return;
+    }
+
+    const bookmark = data as Bookmark;
+    onBookmarkAdded(bookmark);
+
+    let tagError: string | null = null;
+    if (tagNames.length > 0) {
+      const result = await syncBookmarkTags(supabase, user.id, bookmark.id, tagNames);
+      tagError = result.error;
+      if (tagError) {
+        // The bookmark itself was saved — report the tag failure but still reset
+        setError(`Bookmark added, but tags could not be saved: ${tagError}`);
+      } else {
+        onTagsChanged(bookmark.id, result.tags, result.links);
+      }
     }
 
-    return null; // all good
+    setIsSubmitting(false);
+    resetForm();
+    if (tagError) return;
+    onSaved?.(bookmark, "added");
+    showSuccess("Bookmark added!");
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // ── Refresh the saved entry instead of adding a second copy ─────────────
+  // Typed title and fetched metadata replace the old values; tags are merged.
+  const handleUpdateExisting = async () => {
+    if (!duplicate) return;
     setError(null);
 
-    const validationError = validate();
+    if (isOffline()) {
+      setError("Updating the saved entry needs a connection.");
+      return;
+    }
+
+    const tagNames = Array.from(
+      new Set([...duplicate.tags.map((t) => t.name), ...parseTagInput(tagInput)])
+    );
+    const validationError = validateTags(tagNames);
     if (validationError) {
       setError(validationError);
       return;
@@ -97,33 +290,48 @@ export default function BookmarkForm({ onBookmarkAdded }: BookmarkFormProps) {
     const { data: { user } } = await supabase.auth.getUser();
 
     if (!user) {
-      setError("You must be logged in to add bookmarks.");
+      setError("You must be logged in to update bookmarks.");
       setIsSubmitting(false);
       return;
     }
 
-    const normalizedUrl = normaliseUrl(url);
+    const existing = duplicate.bookmark;
+    const meta = await loadMetadata(url);
 
-    const { data, error: insertError } = await supabase
+    const { data, error: updateError } = await supabase
       .from("bookmarks")
-      .insert({ title: title.trim(), url: normalizedUrl, user_id: user.id })
+      .update({
+        title: (title.trim() || meta?.title || existing.title).slice(0, 200),
+        description: meta?.description ?? existing.description,
+        image_url: meta?.imageUrl ?? existing.image_url,
+        site_name: meta?.siteName ?? existing.site_name,
+        favicon_url: meta?.faviconUrl ?? existing.favicon_url,
+        canonical_url: canonicaliseUrl(existing.url),
+      })
+      .eq("id", existing.id)
       .select()
       .single();
 
-    setIsSubmitting(false);
-
-    if (insertError) {
-      setError(insertError.message);
+    if (updateError) {
+      setIsSubmitting(false);
+      setError(updateError.message);
       return;
     }
 
-    if (data) onBookmarkAdded(data as Bookmark);
+    const updated = data as Bookmark;
+    onBookmarkUpdated(updated);
 
-    setTitle("");
-    setUrl("");
-    setSuccess(true);
-    titleRef.current?.focus();
-    setTimeout(() => setSuccess(false), 2000);
+    const result = await syncBookmarkTags(supabase, user.id, existing.id, tagNames);
+    setIsSubmitting(false);
+    if (result.error) {
+      setError(`Bookmark updated, but tags could not be saved: ${result.error}`);
+      return;
+    }
+    onTagsChanged(existing.id, result.tags, result.links);
+
+    resetForm();
+    onSaved?.(updated, "updated");
+    showSuccess("Existing bookmark updated!");
   };
 
   return (
@@ -138,15 +346,18 @@ export default function BookmarkForm({ onBookmarkAdded }: BookmarkFormProps) {
       <form onSubmit={handleSubmit} className="space-y-3" noValidate>
         <div>
           <label htmlFor="bookmark-title" className="block text-xs font-medium text-slate-600 mb-1">
-            Title
+            Title <span className="text-slate-400 font-normal">(optional — fetched from the page)</span>
           </label>
           <input
             ref={titleRef}
             id="bookmark-title"
             type="text"
-            placeholder="e.g. Supabase Docs"
+            placeholder={isFetchingMetadata ? "Fetching title…" : "e.g. Supabase Docs"}
             value={title}
-            onChange={(e) => setTitle(e.target.value)}
+            onChange={(e) => {
+              titleEditedRef.current = e.target.value.length > 0;
+              setTitle(e.target.value);
+            }}
             disabled={isSubmitting}
             className="input-field"
             maxLength={200}
@@ -174,6 +385,88 @@ export default function BookmarkForm({ onBookmarkAdded }: BookmarkFormProps) {
           </p>
         </div>
 
+        {duplicate && (
+          <div className="flex flex-wrap items-center gap-2 rounded-lg border border-amber-100 bg-amber-50 px-3 py-2 animate-fade-in">
+            <p className="text-xs text-amber-700 flex-1 min-w-0">
+              You already saved this on{" "}
+              <span className="font-medium">{formatSavedDate(duplicate.bookmark.created_at)}</span>
+              {" "}as <span className="font-medium">&ldquo;{duplicate.bookmark.title}&rdquo;</span>.
+            </p>
+            <a
+              href={duplicate.bookmark.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="btn-secondary"
+            >
+              Open
+            </a>
+            <button
+              type="button"
+              onClick={handleUpdateExisting}
+              disabled={isSubmitting}
+              className="btn-secondary"
+            >
+              Update existing
+            </button>
+          </div>
+        )}
+
+        {metadata && (metadata.description || metadata.imageUrl || metadata.siteName) && (
+          <div className="flex gap-3 rounded-lg border border-slate-100 bg-slate-50 p-3 animate-fade-in">
+            {metadata.imageUrl && (
+              <img
+                src={metadata.imageUrl}
+                alt=""
+                className="w-20 h-14 rounded object-cover flex-shrink-0"
+                onError={(e) => { (e.target as HTMLImageElement).style.display = "none"; }}
+              />
+            )}
+            <div className="min-w-0">
+              {metadata.siteName && (
+                <p className="text-[11px] font-medium text-slate-500 uppercase tracking-wide truncate">
+                  {metadata.siteName}
+                </p>
+              )}
+              {metadata.description && (
+                <p className="text-xs text-slate-600 line-clamp-2">{metadata.description}</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="bookmark-tags" className="block text-xs font-medium text-slate-600 mb-1">
+            Tags <span className="text-slate-400 font-normal">(optional)</span>
+          </label>
+          <input
+            id="bookmark-tags"
+            type="text"
+            placeholder="e.g. docs, work/clients"
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            disabled={isSubmitting}
+            className="input-field"
+            autoComplete="off"
+          />
+          <p className="text-xs text-slate-400 mt-1">
+            Separate tags with commas. Use / to file into folders.
+          </p>
+          {offeredSuggestions.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1.5 mt-2 animate-fade-in">
+              <span className="text-xs text-slate-400">Suggested:</span>
+              {offeredSuggestions.map((suggestion) => (
+                <span key={suggestion.name} title={suggestion.detail}>
+                  <TagChip
+                    name={suggestion.name}
+                    label={`+ ${suggestion.name}`}
+                    onClick={isSubmitting ? undefined : () => addSuggestedTag(suggestion.name)}
+                  />
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+
         {error && (
           <div className="flex items-start gap-2 bg-red-50 border border-red-100 rounded-lg px-3 py-2">
             <svg className="w-4 h-4 text-red-500 mt-0.5 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
@@ -188,11 +481,11 @@ export default function BookmarkForm({ onBookmarkAdded }: BookmarkFormProps) {
             <svg className="w-4 h-4 text-green-500 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
               <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
             </svg>
-            <p className="text-xs text-green-600 font-medium">Bookmark added!</p>
+            <p className="text-xs text-green-600 font-medium">{success}</p>
           </div>
         )}
 
-        <button type="submit" disabled={isSubmitting} className="btn-primary">
+        <button type="submit" disabled={isSubmitting || !!duplicate} className="btn-primary">
           {isSubmitting ? (
             <>
               <svg className="w-4 h-4 animate-spin" fill="none" viewBox="0 0 24 24">
@@ -214,3 +507,11 @@ export default function BookmarkForm({ onBookmarkAdded }: BookmarkFormProps) {
     </div>
   );
 }
+
+function formatSavedDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
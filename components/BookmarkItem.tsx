@@ -0,0 +1,591 @@
+/**
+ * components/BookmarkItem.tsx
+ *
+ * A single bookmark row with its tag chips. When the bookmark has page
+ * metadata it renders as a richer card with description and preview image. Toggles into an inline edit
+ * form for the title, URL and tags, validated with the same rules as
+ * BookmarkForm. Broken, redirected and uncheckable links get a badge;
+ * redirected ones can be switched to their new URL in one click.
+ * Editors can save a readable copy of the page ("Save copy"), opened
+ * from the "Saved copy" link even when the original is down.
+ * Unread items get a dot; following the link reports an open so the
+ * list can mark it read. Links go through /go/<id> to count visits; the
+ * URL itself is still what's shown.
+ * The checkbox selects the row for batch actions (BulkActionBar); it
+ * shows on hover until something is selected. Shift-click selects
+ * everything between this row and the last one clicked.
+ * "Notes" opens the notes panel (BookmarkNotes) under the row; rows that
+ * have notes or highlights say so with a badge that opens it too.
+ * Title and URL edits made offline are queued and applied on reconnect;
+ * tags need a connection.
+ * Layouts (lib/listView.ts): "list" is the row above, "compact" a single
+ * line of title and domain, and "card" / "grid" stack the preview image
+ * over the text with the actions underneath.
+ */
+
+"use client";
+
+import { useState, useRef, useEffect } from "react";
+import Link from "next/link";
+import { createClient } from "@/lib/supabaseClient";
+import { canonicaliseUrl, isDuplicateUrlError } from "@/lib/canonicalUrl";
+import { LINK_STATUS_LABELS, describeLinkHealth } from "@/lib/linkStatus";
+import { bookmarkDomain, type BookmarkLayout } from "@/lib/listView";
+import { isOffline, queueUpdate, writeOrQueue } from "@/lib/offlineQueue";
+import { visitPath } from "@/lib/visits";
+import BookmarkNotes from "@/components/BookmarkNotes";
+import Highlight from "@/components/Highlight";
+import TagChip from "@/components/TagChip";
+import { normaliseUrl, validateBookmark } from "@/lib/validation";
+import { parseTagInput, syncBookmarkTags, validateTags } from "@/lib/tags";
+import type { Bookmark, BookmarkTag, LinkStatus, ReadingStatus, SearchResult, Tag } from "@/lib/types";
+
+const LINK_BADGE_CLASSES: Partial<Record<LinkStatus, string>> = {
+  broken: "bg-red-50 text-red-600 border-red-100",
+  redirected: "bg-amber-50 text-amber-700 border-amber-100",
+  unknown: "bg-slate-50 text-slate-500 border-slate-200",
+};
+
+interface BookmarkItemProps {
+  bookmark: Bookmark;
+  tags: Tag[];
+  highlight?: SearchResult;
+  isActive: boolean;
+  isSelected: boolean;
+  isSelecting: boolean;          // anything in the list is selected
+  isDeleting: boolean;
+  isMounted: boolean;
+  canEdit: boolean;
+  onDelete: (id: string) => void;
+  onSelect: (id: string, extendRange: boolean) => void;
+  onOpen: (bookmark: Bookmark) => void;
+  onReadingStatusChange: (bookmark: Bookmark, status: ReadingStatus) => void;
+  onUpdated: (bookmark: Bookmark) => void;
+  onTagsChanged: (bookmarkId: string, tags: Tag[], links: BookmarkTag[]) => void;
+  onTagClick: (name: string) => void;
+  layout: BookmarkLayout;
+}
+
+export default function BookmarkItem({
+  bookmark,
+  tags,
+  highlight,
+  isActive,
+  isSelected,
+  isSelecting,
+  isDeleting,
+  isMounted,
+  canEdit,
+  onDelete,
+  onSelect,
+  onOpen,
+  onReadingStatusChange,
+  onUpdated,
+  onTagsChanged,
+  onTagClick,
+  layout,
+}: BookmarkItemProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [title, setTitle] = useState(bookmark.title);
+  const [url, setUrl] = useState(bookmark.url);
+  const [tagInput, setTagInput] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSavingCopy, setIsSavingCopy] = useState(false);
+  // "edit" when opened to write notes, "view" from the badge
+  const [notesPanel, setNotesPanel] = useState<"view" | "edit" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const titleRef = useRef<HTMLInputElement>(null);
+  const rowRef = useRef<HTMLLIElement>(null);
+
+  useEffect(() => {
+    if (isEditing) titleRef.current?.focus();
+  }, [isEditing]);
+
+  useEffect(() => {
+    if (isActive) rowRef.current?.scrollIntoView({ block: "nearest" });
+  }, [isActive]);
+
+  const startEditing = () => {
+    setTitle(bookmark.title);
+    setUrl(bookmark.url);
+    setTagInput(tags.map((t) => t.name).join(", "));
+    setError(null);
+    setIsEditing(true);
+  };
+
+  const cancelEditing = () => {
+    setIsEditing(false);
+    setError(null);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const tagNames = parseTagInput(tagInput);
+    const validationError = validateBookmark(title, url) ?? validateTags(tagNames);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    const changes = { title: title.trim(), url: normaliseUrl(url) };
+    const fieldsChanged = changes.title !== bookmark.title || changes.url !== bookmark.url;
+    const currentNames = tags.map((t) => t.name).sort().join(",");
+    const tagsChanged = [...tagNames].sort().join(",") !== currentNames;
+
+    // Nothing changed — skip the round trip
+    if (!fieldsChanged && !tagsChanged) {
+      setIsEditing(false);
+      return;
+    }
+
+    // Tag ids come from the server, so tag edits can't be queued
+    if (tagsChanged && isOffline()) {
+      setError("Tags can't be changed while offline.");
+      return;
+    }
+
+    setIsSaving(true);
+    const supabase = createClient();
+
+    if (fieldsChanged) {
+      const update = { ...changes, canonical_url: canonicaliseUrl(changes.url) };
+      const { data, error: updateError, queued } = await writeOrQueue(
+        () => supabase.from("bookmarks").update(update).eq("id", bookmark.id).select().single(),
+        () => queueUpdate(bookmark, update)
+      );
+
+      if (updateError) {
+        setIsSaving(false);
+        setError(isDuplicateUrlError(updateError) ? "Another bookmark already has this URL." : updateError.message);
+        return;
+      }
+
+      if (queued) onUpdated({ ...bookmark, ...update });
+      else if (data) onUpdated(data as Bookmark);
+    }
+
+    if (tagsChanged) {
+      // Tags belong to whoever edits — in a shared collection that may not
+      // be the person who added the bookmark
+      const { data: { user } } = await supabase.auth.getUser();
+      const result = await syncBookmarkTags(supabase, user?.id ?? bookmark.user_id, bookmark.id, tagNames);
+      if (result.error) {
+        setIsSaving(false);
+        setError(result.error);
+        return;
+      }
+      onTagsChanged(bookmark.id, result.tags, result.links);
+    }
+
+    setIsSaving(false);
+    setIsEditing(false);
+  };
+
+  // Switches to the URL the last link check landed on. Recording the check
+  // in the same update keeps the reset_link_health trigger from clearing it.
+  const handleUseRedirect = async () => {
+    const finalUrl = bookmark.link_final_url;
+    if (!finalUrl) return;
+
+    setError(null);
+    setIsSaving(true);
+
+    const update: Partial<Bookmark> = {
+      url: finalUrl,
+      canonical_url: canonicaliseUrl(finalUrl),
+      link_status: "ok",
+      link_final_url: null,
+      link_error: null,
+      link_checked_at: new Date().toISOString(),
+    };
+
+    const supabase = createClient();
+    const { data, error: updateError, queued } = await writeOrQueue(
+      () => supabase.from("bookmarks").update(update).eq("id", bookmark.id).select().single(),
+      () => queueUpdate(bookmark, update)
+    );
+
+    setIsSaving(false);
+
+    if (updateError) {
+      setError(isDuplicateUrlError(updateError) ? "Another bookmark already has the new URL." : updateError.message);
+      return;
+    }
+    if (queued) onUpdated({ ...bookmark, ...update });
+    else if (data) onUpdated(data as Bookmark);
+  };
+
+  const handleSaveCopy = async () => {
+    setError(null);
+    setIsSavingCopy(true);
+    try {
+      const res = await fetch("/api/archive", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: bookmark.id }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error ?? "Couldn't save a copy");
+      onUpdated(body.bookmark as Bookmark);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Couldn't save a copy");
+    }
+    setIsSavingCopy(false);
+  };
+
+  const toggleNotes = (mode: "view" | "edit") => setNotesPanel((current) => (current ? null : mode));
+
+  const linkBadgeClass = bookmark.link_status ? LINK_BADGE_CLASSES[bookmark.link_status] : undefined;
+  const hasAnnotations = !!bookmark.notes || bookmark.highlight_count > 0;
+
+  if (isEditing) {
+    return (
+      <li className="bg-white rounded-xl border border-blue-200 shadow-md animate-fade-in">
+        <form
+          onSubmit={handleSave}
+          onKeyDown={(e) => { if (e.key === "Escape") cancelEditing(); }}
+          className="p-4 space-y-2"
+          noValidate
+        >
+          <input
+            ref={titleRef}
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            disabled={isSaving}
+            className="input-field"
+            maxLength={200}
+            autoComplete="off"
+            aria-label="Title"
+          />
+          <input
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            disabled={isSaving}
+            className="input-field"
+            maxLength={2000}
+            autoComplete="off"
+            aria-label="URL"
+          />
+          <input
+            type="text"
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            disabled={isSaving}
+            className="input-field"
+            placeholder="Tags, comma separated"
+            autoComplete="off"
+            aria-label="Tags"
+          />
+
+          {error && <p className="text-xs text-red-600">{error}</p>}
+
+          <div className="flex items-center justify-end gap-2">
+            <button
+              type="button"
+              onClick={cancelEditing}
+              disabled={isSaving}
+              className="btn-secondary"
+            >
+              Cancel
+            </button>
+            <button type="submit" disabled={isSaving} className="btn-primary">
+              {isSaving ? "Saving…" : "Save"}
+            </button>
+          </div>
+        </form>
+      </li>
+    );
+  }
+
+  const isCompact = layout === "compact";
+  const isStacked = layout === "card" || layout === "grid";
+
+  const actions = canEdit && (
+    <>
+      <button
+        onClick={() => onReadingStatusChange(bookmark, bookmark.reading_status === "unread" ? "read" : "unread")}
+        disabled={isDeleting}
+        className="btn-secondary flex-shrink-0 opacity-0 group-hover:opacity-100 focus:opacity-100"
+        aria-label={`Mark ${bookmark.reading_status === "unread" ? "read" : "unread"}: ${bookmark.title}`}
+        title={bookmark.reading_status === "unread" ? "Mark read (r)" : "Mark unread (r)"}
+      >
+        <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+          {bookmark.reading_status === "unread" ? (
+            <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
+          ) : (
+            <path strokeLinecap="round" strokeLinejoin="round" d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+          )}
+        </svg>
+      </button>
+
+      <button
+        onClick={() => onReadingStatusChange(bookmark, bookmark.reading_status === "archived" ? "read" : "archived")}
+        disabled={isDeleting}
+        className="btn-secondary flex-shrink-0 opacity-0 group-hover:opacity-100 focus:opacity-100"
+        aria-label={`${bookmark.reading_status === "archived" ? "Unarchive" : "Archive"}: ${bookmark.title}`}
+        title={bookmark.reading_status === "archived" ? "Move back to the reading list (a)" : "Archive — done with it (a)"}
+      >
+        <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" />
+        </svg>
+      </button>
+
+      <button
+        onClick={handleSaveCopy}
+        disabled={isDeleting || isSavingCopy}
+        className="btn-secondary flex-shrink-0 opacity-0 group-hover:opacity-100 focus:opacity-100"
+        aria-label={`Save a readable copy of: ${bookmark.title}`}
+        title={bookmark.archived_at ? "Replace the saved copy with the page as it is now" : "Save a readable copy"}
+      >
+        <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+        </svg>
+        {!isStacked && <span>{isSavingCopy ? "Saving…" : bookmark.archived_at ? "Update copy" : "Save copy"}</span>}
+      </button>
+
+      <button
+        onClick={() => toggleNotes("edit")}
+        disabled={isDeleting}
+        className="btn-secondary flex-shrink-0 opacity-0 group-hover:opacity-100 focus:opacity-100"
+        aria-label={`Notes and highlights: ${bookmark.title}`}
+        aria-expanded={notesPanel !== null}
+      >
+        <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+        </svg>
+        {!isStacked && <span>Notes</span>}
+      </button>
+
+      <button
+        onClick={startEditing}
+        disabled={isDeleting}
+        className="btn-secondary flex-shrink-0 opacity-0 group-hover:opacity-100 focus:opacity-100"
+        aria-label={`Edit bookmark: ${bookmark.title}`}
+      >
+        <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+        </svg>
+        {!isStacked && <span>Edit</span>}
+      </button>
+
+      <button
+        onClick={() => onDelete(bookmark.id)}
+        disabled={isDeleting}
+        className="btn-danger flex-shrink-0 opacity-0 group-hover:opacity-100 focus:opacity-100"
+        aria-label={`Move to Trash: ${bookmark.title}`}
+        title="Move to Trash"
+      >
+        {isDeleting ? (
+          <svg className="w-3.5 h-3.5 animate-spin" fill="none" viewBox="0 0 24 24">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+          </svg>
+        ) : (
+          <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+          </svg>
+        )}
+        {!isStacked && <span>Delete</span>}
+      </button>
+    </>
+  );
+
+  const date = isMounted && (
+    <span
+      className={`text-xs text-slate-300 flex-shrink-0 ${isStacked ? "mr-auto" : "hidden sm:block"}`}
+      title={describeVisits(bookmark)}
+    >
+      {formatDate(bookmark.created_at)}
+    </span>
+  );
+
+  return (
+    <li
+      ref={rowRef}
+      className={`group bg-white rounded-xl border shadow-sm hover:border-blue-200 hover:shadow-md transition-all duration-200 animate-slide-up ${
+        isStacked ? "flex flex-col overflow-hidden" : ""
+      } ${
+        isActive ? "border-blue-300 ring-2 ring-blue-100" : isSelected ? "border-blue-300 bg-blue-50/40" : "border-slate-100"
+      } ${bookmark.reading_status === "archived" ? "opacity-60" : ""}`}
+    >
+      {isStacked && bookmark.image_url && (
+        <img
+          src={bookmark.image_url}
+          alt=""
+          className={`w-full object-cover bg-slate-50 ${layout === "grid" ? "h-28" : "h-40"}`}
+          loading="lazy"
+          onError={(e) => { (e.target as HTMLImageElement).style.display = "none"; }}
+        />
+      )}
+
+      <div className={`flex items-center gap-3 ${isCompact ? "px-4 py-2" : "p-4"} ${isStacked ? "flex-1 items-start" : ""}`}>
+        <input
+          type="checkbox"
+          checked={isSelected}
+          onChange={(e) => onSelect(bookmark.id, (e.nativeEvent as MouseEvent).shiftKey === true)}
+          className={`flex-shrink-0 w-4 h-4 rounded border-slate-300 text-blue-600 cursor-pointer ${
+            isSelected || isSelecting ? "" : "opacity-0 group-hover:opacity-100 focus:opacity-100"
+          } ${isStacked ? "mt-1" : ""}`}
+          aria-label={`Select: ${bookmark.title}`}
+        />
+        <div className="flex-shrink-0">
+          <img
+            src={bookmark.favicon_url ?? `https://www.google.com/s2/favicons?domain=${encodeURIComponent(bookmark.url)}&sz=32`}
+            alt=""
+            className={isCompact ? "w-4 h-4 rounded" : "w-6 h-6 rounded"}
+            onError={(e) => { (e.target as HTMLImageElement).style.display = "none"; }}
+          />
+        </div>
+
+        <div className={`flex-1 min-w-0 ${isCompact ? "flex items-baseline gap-2" : ""}`}>
+          {!isCompact && bookmark.site_name && (
+            <p className="text-[11px] font-medium text-slate-400 uppercase tracking-wide truncate">
+              {bookmark.site_name}
+            </p>
+          )}
+          <p className={`text-sm font-semibold text-slate-800 ${layout === "grid" ? "line-clamp-2" : "truncate"}`}>
+            {bookmark.reading_status === "unread" && (
+              <span className="inline-block w-2 h-2 rounded-full bg-blue-500 mr-1.5 align-middle" title="Unread" />
+            )}
+            {highlight ? <Highlight text={highlight.title_highlight} /> : bookmark.title}
+          </p>
+          <a
+            href={visitPath(bookmark.id)}
+            target="_blank"
+            rel="noopener noreferrer"
+            onClick={() => onOpen(bookmark)}
+            onAuxClick={(e) => { if (e.button === 1) onOpen(bookmark); }}
+            className={`text-xs text-blue-500 hover:text-blue-700 hover:underline truncate block transition-colors duration-150 ${
+              isCompact ? "flex-shrink-0 max-w-[40%]" : ""
+            }`}
+          >
+            {highlight ? <Highlight text={highlight.url_highlight} /> : isCompact ? bookmarkDomain(bookmark.url) : bookmark.url}
+          </a>
+          {!isCompact && ((bookmark.link_status && linkBadgeClass) || bookmark.archived_at || hasAnnotations) && (
+            <div className="flex flex-wrap items-center gap-2 mt-1">
+              {bookmark.link_status && linkBadgeClass && (
+                <span
+                  className={`px-1.5 py-0.5 rounded border text-[10px] font-medium ${linkBadgeClass}`}
+                  title={describeLinkHealth(bookmark)}
+                >
+                  {LINK_STATUS_LABELS[bookmark.link_status]}
+                  {bookmark.link_status_code && bookmark.link_status !== "redirected" ? ` · ${bookmark.link_status_code}` : ""}
+                </span>
+              )}
+              {bookmark.link_status === "redirected" && bookmark.link_final_url && canEdit && (
+                <button
+                  type="button"
+                  onClick={handleUseRedirect}
+                  disabled={isSaving}
+                  className="text-[11px] text-blue-600 hover:underline disabled:opacity-50"
+                  title={bookmark.link_final_url}
+                >
+                  Update to redirected URL
+                </button>
+              )}
+              {bookmark.archived_at && (
+                <Link
+                  href={`/archive/${bookmark.id}`}
+                  className="text-[11px] text-slate-500 hover:text-blue-600 hover:underline"
+                  title={`Archived ${new Date(bookmark.archived_at).toLocaleString()}`}
+                >
+                  Saved copy
+                </Link>
+              )}
+              {hasAnnotations && (
+                <button
+                  type="button"
+                  onClick={() => toggleNotes("view")}
+                  className="text-[11px] text-slate-500 hover:text-blue-600 hover:underline"
+                  aria-expanded={notesPanel !== null}
+                >
+                  {describeAnnotations(bookmark)}
+                </button>
+              )}
+            </div>
+          )}
+          {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+          {!isCompact && bookmark.description && (
+            <p className={`text-xs text-slate-500 mt-1 ${layout === "card" ? "line-clamp-3" : "line-clamp-2"}`}>
+              {bookmark.description}
+            </p>
+          )}
+          {!isCompact && tags.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-1.5">
+              {tags.map((tag) => (
+                <TagChip key={tag.id} name={tag.name} onClick={() => onTagClick(tag.name)} />
+              ))}
+            </div>
+          )}
+        </div>
+
+        {layout === "list" && bookmark.image_url && (
+          <img
+            src={bookmark.image_url}
+            alt=""
+            className="w-20 h-14 rounded-lg object-cover flex-shrink-0 hidden sm:block"
+            loading="lazy"
+            onError={(e) => { (e.target as HTMLImageElement).style.display = "none"; }}
+          />
+        )}
+
+        {!isStacked && (
+          <>
+            {date}
+            {actions}
+          </>
+        )}
+      </div>
+
+      {isStacked && (
+        <div className="flex flex-wrap items-center justify-end gap-1.5 px-4 pb-3">
+          {date}
+          {actions}
+        </div>
+      )}
+
+      {notesPanel && (
+        <div className={isCompact ? "px-4 pb-3" : "px-4 pb-4"}>
+          <BookmarkNotes
+            bookmark={bookmark}
+            canEdit={canEdit}
+            startEditing={notesPanel === "edit"}
+            onUpdated={onUpdated}
+          />
+        </div>
+      )}
+    </li>
+  );
+}
+
+function formatDate(isoString: string): string {
+  const date = new Date(isoString);
+  const now = new Date();
+  const diffMs = now.getTime() - date.getTime();
+  const diffSecs = Math.floor(diffMs / 1000);
+  const diffMins = Math.floor(diffSecs / 60);
+  const diffHours = Math.floor(diffMins / 60);
+  const diffDays = Math.floor(diffHours / 24);
+
+  if (diffSecs < 60) return "just now";
+  if (diffMins < 60) return `${diffMins}m ago`;
+  if (diffHours < 24) return `${diffHours}h ago`;
+  if (diffDays < 7) return `${diffDays}d ago`;
+  return date.toLocaleDateString("en-GB", { day: "numeric", month: "short" });
+}
+
+function describeAnnotations(bookmark: Bookmark): string {
+  const highlights = bookmark.highlight_count === 1 ? "1 highlight" : `${bookmark.highlight_count} highlights`;
+  if (!bookmark.notes) return highlights;
+  return bookmark.highlight_count > 0 ? `Notes · ${highlights}` : "Notes";
+}
+
+function describeVisits(bookmark: Bookmark): string {
+  if (bookmark.visit_count === 0 || !bookmark.last_visited_at) return "Not opened yet";
+  const times = bookmark.visit_count === 1 ? "once" : `${bookmark.visit_count} times`;
+  return `Opened ${times}, last ${new Date(bookmark.last_visited_at).toLocaleString()}`;
+}
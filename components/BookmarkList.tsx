@@ -3,31 +3,168 @@
  *
  * Fixed: Waits for SIGNED_IN auth event before starting Realtime subscription.
  * This ensures Tab 2 connects properly when navigated to dashboard via auth sync.
+ * In a shared collection the subscription is filtered to that collection,
+ * so members see each other's adds, edits and deletes live.
+ * Keyboard triage: j/k move through the list, o opens the active item,
+ * r toggles read/unread and a archives it. Opening an unread bookmark
+ * marks it read.
+ * Deleting moves a bookmark to the Trash (lib/trash.ts) and offers Undo
+ * for a few seconds; a bookmark trashed or restored in another tab
+ * arrives as an UPDATE of deleted_at and leaves or rejoins the list.
+ * Checkboxes select rows for batch actions (BulkActionBar, lib/bulk.ts):
+ * shift-click extends from the last row clicked, the header box selects
+ * every row shown and, while more of the view is unloaded, "Select all
+ * matching" fetches the ids of the rest. Each action is one server call;
+ * Dashboard applies what it changed and a summary says what was skipped.
+ * x toggles the active row's checkbox, g and G jump to the first and
+ * last loaded row. The selection's actions are also offered in the
+ * command palette (lib/commandPalette.ts).
+ * Deletes and reading-status changes made offline are queued (see
+ * lib/offlineQueue.ts) and the status pill shows how many are waiting.
+ * Rows are virtualised (VirtualList) and the next page is requested as
+ * the end of the list scrolls near; with a filter active that keeps
+ * pulling pages until the screen fills or everything is loaded.
+ * Four layouts — list, compact, cards and a two-column grid, which is
+ * virtualised a row of tiles at a time. Links open through /go/<id>,
+ * which counts the visit (lib/visits.ts).
  */
 
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { Fragment, useState, useEffect, useCallback, useMemo, useRef } from "react";
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import BookmarkItem from "@/components/BookmarkItem";
+import BulkActionBar from "@/components/BulkActionBar";
+import UndoToast from "@/components/UndoToast";
+import VirtualList from "@/components/VirtualList";
 import { createClient } from "@/lib/supabaseClient";
-import type { Bookmark } from "@/lib/types";
+import {
+  MAX_BULK_SELECTION,
+  describeBulkSummary,
+  exportBookmarks,
+  moveBookmarks,
+  restoreBookmarks,
+  tagBookmarks,
+  trashBookmarks,
+  untagBookmarks,
+  type BulkChange,
+  type MoveTarget,
+} from "@/lib/bulk";
+import { isTypingTarget, setPaletteItems, type PaletteCommand } from "@/lib/commandPalette";
+import { cancelQueuedDelete, queueDelete, queueUpdate, writeOrQueue } from "@/lib/offlineQueue";
+import { LAYOUT_OPTIONS, type BookmarkLayout } from "@/lib/listView";
+import { readingStatusChanges } from "@/lib/readingList";
+import { parseTagInput, validateTags } from "@/lib/tags";
+import { isTrashed, restoreBookmark, trashChanges } from "@/lib/trash";
+import { visitPath } from "@/lib/visits";
+import type { Bookmark, BookmarkTag, ExportFormat, ReadingStatus, SearchResult, Tag } from "@/lib/types";
 
 interface BookmarkListProps {
+  userId: string;
   bookmarks: Bookmark[];
+  tags: Tag[];
+  tagsByBookmark: Map<string, Tag[]>;
+  highlights: Map<string, SearchResult>;
+  collectionId: string | null;
+  canEdit: boolean;
+  moveTargets: MoveTarget[];
+  isFiltered: boolean;
+  viewKey: string;                 // changes when the sort, filters or search do; clears the selection
+  layout: BookmarkLayout;
+  total: number;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  loadMoreError: string | null;
+  isOnline: boolean;
+  isSyncing: boolean;
+  pendingChanges: number;
   onBookmarkDeleted: (id: string) => void;
+  onBookmarkUpdated: (bookmark: Bookmark) => void;
+  onBulkApplied: (change: BulkChange) => void;
+  // Ids of the whole view, for "Select all matching"; null when every match is already shown
+  onSelectAllMatching: (() => Promise<{ ids: string[]; truncated: boolean; error: string | null }>) | null;
+  onTagsChanged: (bookmarkId: string, tags: Tag[], links: BookmarkTag[]) => void;
+  onTagClick: (name: string) => void;
+  onLayoutChange: (layout: BookmarkLayout) => void;
+  onLoadMore: () => void;
   onRealtimeInsert: (bookmark: Bookmark) => void;
+  onRealtimeUpdate: (bookmark: Bookmark) => void;
   onRealtimeDelete: (id: string) => void;
+  onRealtimeTagUpsert: (tag: Tag) => void;
+  onRealtimeTagDelete: (id: string) => void;
+  onRealtimeLinkInsert: (link: BookmarkTag) => void;
+  onRealtimeLinkDelete: (link: BookmarkTag) => void;
 }
 
+// Bookmarks moved to the Trash by the last delete, while Undo is offered
+interface TrashedBatch {
+  ids: string[];
+  bookmarks: Bookmark[];       // the loaded ones, put straight back on Undo
+  queued: boolean;
+  message: string;
+}
+
+const NO_TAGS: Tag[] = [];
+// Start fetching the next page this far before the end comes into view
+const LOAD_AHEAD_PX = 1200;
+
+const LAYOUTS = Object.keys(LAYOUT_OPTIONS) as BookmarkLayout[];
+// First guess at a row's height before it's measured
+const ESTIMATED_HEIGHTS: Record<BookmarkLayout, number> = { list: 88, compact: 44, card: 240, grid: 260 };
+const GRID_COLUMNS = 2;
+
+const bookmarkKey = (bookmark: Bookmark) => bookmark.id;
+const gridRowKey = (row: Bookmark[]) => row.map((b) => b.id).join(",");
+
 export default function BookmarkList({
+  userId,
   bookmarks,
+  tags,
+  tagsByBookmark,
+  highlights,
+  collectionId,
+  canEdit,
+  moveTargets,
+  isFiltered,
+  viewKey,
+  layout,
+  total,
+  hasMore,
+  isLoadingMore,
+  loadMoreError,
+  isOnline,
+  isSyncing,
+  pendingChanges,
   onBookmarkDeleted,
+  onBookmarkUpdated,
+  onBulkApplied,
+  onSelectAllMatching,
+  onTagsChanged,
+  onTagClick,
+  onLayoutChange,
+  onLoadMore,
   onRealtimeInsert,
+  onRealtimeUpdate,
   onRealtimeDelete,
+  onRealtimeTagUpsert,
+  onRealtimeTagDelete,
+  onRealtimeLinkInsert,
+  onRealtimeLinkDelete,
 }: BookmarkListProps) {
   const [deletingIds, setDeletingIds] = useState<Set<string>>(new Set());
-  const [deleteError, setDeleteError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [trashed, setTrashed] = useState<TrashedBatch | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkProgress, setBulkProgress] = useState<string | null>(null);
+  const [bulkSummary, setBulkSummary] = useState<string | null>(null);
+  // Where the next shift-click range starts
+  const selectionAnchorRef = useRef<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
   const [realtimeStatus, setRealtimeStatus] = useState<"connecting" | "connected" | "error">("connecting");
   const [isMounted, setIsMounted] = useState(false);
+  const [sentinel, setSentinel] = useState<HTMLDivElement | null>(null);
+  // Live channel, kept so a move can tell the collection's other members
+  const channelRef = useRef<RealtimeChannel | null>(null);
 
   useEffect(() => {
     setIsMounted(true);
@@ -44,17 +181,42 @@ export default function BookmarkList({
       if (isSubscribed) return;
       isSubscribed = true;
 
+      // Personal list: own rows outside any collection. Collection: every
+      // member's rows (RLS decides who receives them). Realtime matches the
+      // filter against the new row, so in a collection updates go
+      // unfiltered: a row moved out no longer has this collection_id.
+      const filter = collectionId ? `collection_id=eq.${collectionId}` : `user_id=eq.${userId}`;
+      const updateFilter = collectionId ? undefined : filter;
+      const inView = (bookmark: Bookmark) =>
+        collectionId
+          ? bookmark.collection_id === collectionId
+          : bookmark.user_id === userId && !bookmark.collection_id;
+
       channel = supabase
-        .channel(`bookmarks_user_${userId}_v5`)
+        .channel(collectionId ? `bookmarks_collection_${collectionId}_v6` : `bookmarks_user_${userId}_v6`)
         .on(
           "postgres_changes",
-          { event: "INSERT", schema: "public", table: "bookmarks" },
+          { event: "INSERT", schema: "public", table: "bookmarks", filter },
           (payload) => {
             const newBookmark = payload.new as Bookmark;
-            if (newBookmark.user_id !== userId) return;
+            if (!inView(newBookmark)) return;
             onRealtimeInsert(newBookmark);
           }
         )
+        .on(
+          "postgres_changes",
+          { event: "UPDATE", schema: "public", table: "bookmarks", filter: updateFilter },
+          (payload) => {
+            const updatedBookmark = payload.new as Bookmark;
+            // Moved to another list, trashed elsewhere, or any other edit (including a restore)
+            if (!inView(updatedBookmark) || isTrashed(updatedBookmark)) onRealtimeDelete(updatedBookmark.id);
+            else onRealtimeUpdate(updatedBookmark);
+          }
+        )
+        // Moved somewhere this member can't read, so RLS withholds the UPDATE
+        .on("broadcast", { event: "moved_out" }, ({ payload }) => {
+          for (const id of (payload?.ids ?? []) as string[]) onRealtimeDelete(id);
+        })
         .on(
           "postgres_changes",
           { event: "DELETE", schema: "public", table: "bookmarks" },
@@ -63,6 +225,38 @@ export default function BookmarkList({
             onRealtimeDelete(deletedId);
           }
         )
+        // ── Tags and bookmark↔tag links ──
+        .on(
+          "postgres_changes",
+          { event: "*", schema: "public", table: "tags" },
+          (payload) => {
+            if (payload.eventType === "DELETE") {
+              onRealtimeTagDelete(payload.old.id as string);
+              return;
+            }
+            const tag = payload.new as Tag;
+            if (tag.user_id !== userId) return;
+            onRealtimeTagUpsert(tag);
+          }
+        )
+        .on(
+          "postgres_changes",
+          { event: "*", schema: "public", table: "bookmark_tags" },
+          async (payload) => {
+            if (payload.eventType === "INSERT") {
+              const link = payload.new as BookmarkTag;
+              // A collaborator's tag: its row only becomes readable once linked
+              if (link.user_id !== userId) {
+                const { data: tag } = await supabase.from("tags").select("*").eq("id", link.tag_id).maybeSingle();
+                if (tag) onRealtimeTagUpsert(tag as Tag);
+              }
+              onRealtimeLinkInsert(link);
+            } else if (payload.eventType === "DELETE") {
+              // Removing a link we don't have is a no-op, so no ownership check
+              onRealtimeLinkDelete(payload.old as BookmarkTag);
+            }
+          }
+        )
         .subscribe((status) => {
           console.log("Realtime status:", status);
           if (status === "SUBSCRIBED") setRealtimeStatus("connected");
@@ -70,6 +264,7 @@ export default function BookmarkList({
             setRealtimeStatus("error");
           }
         });
+      channelRef.current = channel;
     };
 
     // ✅ Step 1: Try to get existing session immediately
@@ -93,25 +288,38 @@ export default function BookmarkList({
       isSubscribed = false;
       authSubscription.unsubscribe();
       if (channel) supabase.removeChannel(channel);
+      channelRef.current = null;
     };
-  }, [onRealtimeInsert, onRealtimeDelete]);
+  }, [
+    collectionId,
+    onRealtimeInsert,
+    onRealtimeUpdate,
+    onRealtimeDelete,
+    onRealtimeTagUpsert,
+    onRealtimeTagDelete,
+    onRealtimeLinkInsert,
+    onRealtimeLinkDelete,
+  ]);
 
-  // ── Delete — optimistic (instant) ───────────────────────────────────────
+  // ── Delete — moves to the Trash, optimistic, queued while offline ───────
   const handleDelete = useCallback(async (id: string) => {
-    setDeleteError(null);
+    const bookmark = bookmarks.find((b) => b.id === id);
+    if (!bookmark) return;
+    setActionError(null);
     onBookmarkDeleted(id);
     setDeletingIds((prev) => new Set(prev).add(id));
 
-    const supabase = createClient();
-    const { error } = await supabase.from("bookmarks").delete().eq("id", id);
+    const { error, queued } = await writeOrQueue(
+      () => createClient().from("bookmarks").update(trashChanges()).eq("id", id).is("deleted_at", null),
+      () => queueDelete(bookmark)
+    );
 
     if (error) {
-      setDeleteError(`Failed to delete: ${error.message}`);
-      const { data } = await supabase
-        .from("bookmarks")
-        .select("*")
-        .order("created_at", { ascending: false });
-      if (data) data.forEach((b) => onRealtimeInsert(b as Bookmark));
+      setActionError(`Failed to delete: ${error.message}`);
+      // Nothing was trashed, so the copy we had is still current
+      onRealtimeInsert(bookmark);
+    } else {
+      setTrashed({ ids: [id], bookmarks: [bookmark], queued, message: `Moved "${bookmark.title}" to the Trash` });
     }
 
     setDeletingIds((prev) => {
@@ -119,19 +327,494 @@ export default function BookmarkList({
       next.delete(id);
       return next;
     });
-  }, [onBookmarkDeleted, onRealtimeInsert]);
+  }, [bookmarks, onBookmarkDeleted, onRealtimeInsert]);
+
+  // Puts the rows straight back, then takes out again any the restore fails for
+  const handleUndo = useCallback(async () => {
+    if (!trashed) return;
+    const { ids, bookmarks: removed, queued } = trashed;
+    setTrashed(null);
+    setActionError(null);
+    onBulkApplied({ restored: removed });
+
+    const [bookmark] = removed;
+    if (queued) {
+      if (await cancelQueuedDelete(bookmark)) return;
+      onBookmarkDeleted(bookmark.id);
+      setActionError(`Couldn't restore "${bookmark.title}": this browser can't store changes for later.`);
+      return;
+    }
+
+    if (ids.length === 1 && bookmark) {
+      const { bookmark: restored, error } = await restoreBookmark(createClient(), bookmark.id);
+      if (error) {
+        onBookmarkDeleted(bookmark.id);
+        setActionError(`Couldn't restore "${bookmark.title}": ${error}`);
+        return;
+      }
+      if (restored) onBookmarkUpdated(restored);
+      return;
+    }
+
+    const { bookmarks: restored, error } = await restoreBookmarks(createClient(), ids);
+    if (error) {
+      onBulkApplied({ removedIds: ids });
+      setActionError(`Couldn't restore: ${error}`);
+      return;
+    }
+    const restoredIds = new Set(restored.map((b) => b.id));
+    onBulkApplied({ restored, removedIds: ids.filter((id) => !restoredIds.has(id)) });
+    setBulkSummary(describeBulkSummary({ action: "restore", requested: ids.length, changed: restored.length }));
+  }, [trashed, onBookmarkDeleted, onBookmarkUpdated, onBulkApplied]);
+
+  const dismissUndo = useCallback(() => setTrashed(null), []);
+
+  // ── Selection ────────────────────────────────────────────────────────────
+  const handleSelect = useCallback((id: string, extendRange: boolean) => {
+    const anchor = extendRange ? selectionAnchorRef.current : null;
+    selectionAnchorRef.current = id;
+    setSelectedIds((prev) => {
+      const select = !prev.has(id);
+      const from = anchor ? bookmarks.findIndex((b) => b.id === anchor) : -1;
+      const to = bookmarks.findIndex((b) => b.id === id);
+      const range = from === -1 || to === -1
+        ? [id]
+        : bookmarks.slice(Math.min(from, to), Math.max(from, to) + 1).map((b) => b.id);
+      const next = new Set(prev);
+      for (const rangeId of range) {
+        if (select) next.add(rangeId);
+        else next.delete(rangeId);
+      }
+      return next;
+    });
+  }, [bookmarks]);
+
+  const deselect = useCallback((ids: string[]) => {
+    setSelectedIds((prev) => {
+      if (!ids.some((id) => prev.has(id))) return prev;
+      const next = new Set(prev);
+      ids.forEach((id) => next.delete(id));
+      return next;
+    });
+  }, []);
+
+  const clearSelection = useCallback(() => {
+    selectionAnchorRef.current = null;
+    setSelectedIds(new Set());
+  }, []);
+
+  // A new sort, filter or search starts a new selection
+  useEffect(() => {
+    clearSelection();
+  }, [viewKey, clearSelection]);
+
+  // Rows that leave the list (trashed or moved elsewhere, filtered out)
+  // leave the selection too. Ids from "Select all matching" that were
+  // never loaded stay selected.
+  const shownIdsRef = useRef<string[]>([]);
+  useEffect(() => {
+    const shown = new Set(bookmarks.map((b) => b.id));
+    deselect(shownIdsRef.current.filter((id) => !shown.has(id)));
+    shownIdsRef.current = bookmarks.map((b) => b.id);
+  }, [bookmarks, deselect]);
+
+  const allShownSelected = bookmarks.length > 0 && bookmarks.every((b) => selectedIds.has(b.id));
+
+  const toggleSelectShown = () => {
+    setBulkSummary(null);
+    if (allShownSelected) clearSelection();
+    else setSelectedIds(new Set(bookmarks.map((b) => b.id)));
+  };
+
+  // Shown rows in list order, then any selected further down the view
+  const selectionInOrder = useCallback((): string[] => {
+    const shown = bookmarks.filter((b) => selectedIds.has(b.id)).map((b) => b.id);
+    const shownSet = new Set(shown);
+    return [...shown, ...Array.from(selectedIds).filter((id) => !shownSet.has(id))];
+  }, [bookmarks, selectedIds]);
+
+  // ── Batch actions — one server call each, applied once it answers ───────
+  const startBulk = (progress: string) => {
+    setActionError(null);
+    setBulkSummary(null);
+    setBulkProgress(progress);
+  };
+
+  const handleSelectAllMatching = async () => {
+    if (!onSelectAllMatching) return;
+    startBulk("Selecting…");
+    const { ids, truncated, error } = await onSelectAllMatching();
+    setBulkProgress(null);
+    if (error) {
+      setActionError(`Couldn't select everything: ${error}`);
+      return;
+    }
+    setSelectedIds(new Set(ids));
+    if (truncated) setBulkSummary(`Selected the first ${MAX_BULK_SELECTION} matching bookmarks`);
+  };
+
+  const handleBulkTrash = async () => {
+    const ids = selectionInOrder();
+    startBulk(`Moving ${ids.length} to the Trash…`);
+    const { ids: trashedIds, error } = await trashBookmarks(createClient(), ids);
+    setBulkProgress(null);
+    if (error) {
+      setActionError(`Couldn't move to the Trash: ${error}`);
+      return;
+    }
+    const message = describeBulkSummary({ action: "trash", requested: ids.length, changed: trashedIds.length });
+    if (trashedIds.length === 0) {
+      setBulkSummary(message);
+      return;
+    }
+    const trashedSet = new Set(trashedIds);
+    onBulkApplied({ removedIds: trashedIds });
+    deselect(trashedIds);
+    setTrashed({
+      ids: trashedIds,
+      bookmarks: bookmarks.filter((b) => trashedSet.has(b.id)),
+      queued: false,
+      message,
+    });
+  };
+
+  const handleBulkTag = async (names: string[]) => {
+    const ids = selectionInOrder();
+    startBulk(`Tagging ${ids.length}…`);
+    const { tags: savedTags, links, error } = await tagBookmarks(createClient(), userId, ids, names);
+    setBulkProgress(null);
+    if (error) {
+      setActionError(`Couldn't add tags: ${error}`);
+      return;
+    }
+    onBulkApplied({ tags: savedTags, addedLinks: links });
+    const changed = new Set(links.map((l) => l.bookmark_id)).size;
+    setBulkSummary(describeBulkSummary({ action: "tag", requested: ids.length, changed, detail: `with ${names.join(", ")}` }));
+  };
+
+  // By name: in a collection each member's tag of that name is removed
+  const handleBulkUntag = async (names: string[]) => {
+    const ids = selectionInOrder();
+    const tagIds = tags.filter((t) => names.includes(t.name)).map((t) => t.id);
+    if (tagIds.length === 0) {
+      setBulkSummary(`No tags called ${names.join(", ")}`);
+      return;
+    }
+    startBulk(`Untagging ${ids.length}…`);
+    const { links, error } = await untagBookmarks(createClient(), ids, tagIds);
+    setBulkProgress(null);
+    if (error) {
+      setActionError(`Couldn't remove tags: ${error}`);
+      return;
+    }
+    onBulkApplied({ removedLinks: links });
+    const changed = new Set(links.map((l) => l.bookmark_id)).size;
+    setBulkSummary(describeBulkSummary({ action: "untag", requested: ids.length, changed, detail: `(${names.join(", ")})` }));
+  };
+
+  const handleBulkMove = async (targetCollection: string | null) => {
+    const ids = selectionInOrder();
+    const targetName = moveTargets.find((t) => t.collectionId === targetCollection)?.name ?? "another list";
+    startBulk(`Moving ${ids.length} to ${targetName}…`);
+    const { ids: movedIds, error } = await moveBookmarks(createClient(), ids, targetCollection);
+    setBulkProgress(null);
+    if (error) {
+      setActionError(`Couldn't move: ${error}`);
+      return;
+    }
+    onBulkApplied({ removedIds: movedIds });
+    if (collectionId && movedIds.length > 0) {
+      channelRef.current?.send({ type: "broadcast", event: "moved_out", payload: { ids: movedIds } });
+    }
+    deselect(movedIds);
+    setBulkSummary(describeBulkSummary({ action: "move", requested: ids.length, changed: movedIds.length, detail: `to ${targetName}` }));
+  };
+
+  const handleBulkExport = (format: ExportFormat) => {
+    const ids = selectionInOrder();
+    setActionError(null);
+    exportBookmarks(ids, format);
+    setBulkSummary(describeBulkSummary({ action: "export", requested: ids.length, changed: ids.length }));
+  };
+
+  // ── Reading list — optimistic, reverted on failure ──────────────────────
+  const handleReadingStatus = useCallback(async (bookmark: Bookmark, status: ReadingStatus) => {
+    if (!canEdit || bookmark.reading_status === status) return;
+    setActionError(null);
+    const changes = readingStatusChanges(status);
+    onBookmarkUpdated({ ...bookmark, ...changes });
+
+    const { data: saved, error } = await writeOrQueue(
+      () => createClient().from("bookmarks").update(changes).eq("id", bookmark.id).select().single(),
+      () => queueUpdate(bookmark, changes)
+    );
+    if (error) {
+      setActionError(`Failed to update: ${error.message}`);
+      onBookmarkUpdated(bookmark);
+      return;
+    }
+    if (saved) onBookmarkUpdated(saved as Bookmark);
+  }, [canEdit, onBookmarkUpdated]);
+
+  // Called when a bookmark's link is followed (click, middle-click or "o").
+  // /go counts the visit; the new count comes back over realtime.
+  const handleOpen = useCallback((bookmark: Bookmark) => {
+    if (bookmark.reading_status === "unread") handleReadingStatus(bookmark, "read");
+  }, [handleReadingStatus]);
+
+  // ── Keyboard triage ──────────────────────────────────────────────────────
+  // The active row keeps its position, so marking one item read in the
+  // Unread view moves the highlight onto the next item
+  useEffect(() => {
+    if (activeIndex !== null && activeIndex >= bookmarks.length) {
+      setActiveIndex(bookmarks.length > 0 ? bookmarks.length - 1 : null);
+    }
+  }, [activeIndex, bookmarks.length]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.metaKey || e.ctrlKey || e.altKey || isTypingTarget(e.target)) return;
+      if (bookmarks.length === 0) return;
+
+      const current = activeIndex !== null ? bookmarks[activeIndex] : undefined;
+
+      switch (e.key) {
+        case "j":
+          e.preventDefault();
+          setActiveIndex((i) => (i === null ? 0 : Math.min(i + 1, bookmarks.length - 1)));
+          break;
+        case "k":
+          e.preventDefault();
+          setActiveIndex((i) => (i === null ? 0 : Math.max(i - 1, 0)));
+          break;
+        case "g":
+          e.preventDefault();
+          setActiveIndex(0);
+          break;
+        case "G":
+          e.preventDefault();
+          setActiveIndex(bookmarks.length - 1);
+          break;
+        case "o":
+          if (!current) return;
+          e.preventDefault();
+          window.open(visitPath(current.id), "_blank", "noopener,noreferrer");
+          handleOpen(current);
+          break;
+        case "r":
+          if (!current) return;
+          handleReadingStatus(current, current.reading_status === "unread" ? "read" : "unread");
+          break;
+        case "a":
+          if (!current) return;
+          handleReadingStatus(current, current.reading_status === "archived" ? "read" : "archived");
+          break;
+        case "x":
+          if (!current) return;
+          handleSelect(current.id, e.shiftKey);
+          break;
+        case "Escape":
+          setActiveIndex(null);
+          break;
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [bookmarks, activeIndex, handleOpen, handleReadingStatus, handleSelect]);
+
+  // ── Command palette ──────────────────────────────────────────────────────
+  // Commands call through a ref so the palette sees the latest selection
+  // without being re-registered on every render
+  const paletteActionsRef = useRef({ handleDelete, handleBulkTrash, handleBulkTag, handleBulkUntag });
+  paletteActionsRef.current = { handleDelete, handleBulkTrash, handleBulkTag, handleBulkUntag };
+
+  const activeId = activeIndex !== null ? bookmarks[activeIndex]?.id : undefined;
+  const hasSelection = selectedIds.size > 0;
+  const canBulkEdit = canEdit && isOnline;
+
+  useEffect(() => {
+    const withTagNames = (raw: string, apply: (names: string[]) => void) => {
+      const names = parseTagInput(raw);
+      const validationError = names.length === 0 ? "Enter at least one tag." : validateTags(names);
+      if (validationError) setActionError(validationError);
+      else apply(names);
+    };
+
+    const commands: PaletteCommand[] = [];
+    if (hasSelection) {
+      if (canBulkEdit) {
+        commands.push(
+          {
+            id: "selection-trash",
+            label: "Move selected to the Trash",
+            group: "Selection",
+            keywords: "delete remove",
+            run: () => paletteActionsRef.current.handleBulkTrash(),
+          },
+          {
+            id: "selection-tag",
+            label: "Tag selected",
+            group: "Selection",
+            keywords: "add label",
+            input: { placeholder: "Tags to add, comma-separated" },
+            run: (input) => withTagNames(input, paletteActionsRef.current.handleBulkTag),
+          },
+          {
+            id: "selection-untag",
+            label: "Untag selected",
+            group: "Selection",
+            keywords: "remove label",
+            input: { placeholder: "Tags to remove, comma-separated" },
+            run: (input) => withTagNames(input, paletteActionsRef.current.handleBulkUntag),
+          }
+        );
+      }
+      commands.push({ id: "selection-clear", label: "Clear selection", group: "Selection", run: clearSelection });
+    } else if (activeId && canEdit) {
+      commands.push({
+        id: "active-trash",
+        label: "Move highlighted bookmark to the Trash",
+        group: "Selection",
+        keywords: "delete remove",
+        run: () => paletteActionsRef.current.handleDelete(activeId),
+      });
+    }
+    if (bookmarks.length > 0) {
+      commands.push({
+        id: "selection-all",
+        label: "Select all shown",
+        group: "Selection",
+        run: () => setSelectedIds(new Set(bookmarks.map((b) => b.id))),
+      });
+    }
+
+    setPaletteItems("bookmark-list", { commands });
+  }, [hasSelection, canBulkEdit, canEdit, activeId, bookmarks, clearSelection]);
+
+  useEffect(() => () => setPaletteItems("bookmark-list", null), []);
+
+  // ── Infinite scroll ──────────────────────────────────────────────────────
+  // Measured rather than trusting the observer's last answer, so a page
+  // that didn't fill the screen is followed straight away by the next
+  const loadMoreIfNearEnd = useCallback(() => {
+    if (!sentinel || !hasMore || isLoadingMore || loadMoreError) return;
+    if (sentinel.getBoundingClientRect().top < window.innerHeight + LOAD_AHEAD_PX) onLoadMore();
+  }, [sentinel, hasMore, isLoadingMore, loadMoreError, onLoadMore]);
+
+  useEffect(() => {
+    loadMoreIfNearEnd();
+    if (!sentinel) return;
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting) loadMoreIfNearEnd();
+      },
+      { rootMargin: `${LOAD_AHEAD_PX}px 0px` }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [sentinel, loadMoreIfNearEnd, bookmarks.length]);
+
+  const renderBookmark = useCallback(
+    (bookmark: Bookmark, index: number) => (
+      <BookmarkItem
+        bookmark={bookmark}
+        isActive={index === activeIndex}
+        isSelected={selectedIds.has(bookmark.id)}
+        isSelecting={selectedIds.size > 0}
+        tags={tagsByBookmark.get(bookmark.id) ?? NO_TAGS}
+        highlight={highlights.get(bookmark.id)}
+        isDeleting={deletingIds.has(bookmark.id)}
+        isMounted={isMounted}
+        canEdit={canEdit}
+        onDelete={handleDelete}
+        onSelect={handleSelect}
+        onOpen={handleOpen}
+        onReadingStatusChange={handleReadingStatus}
+        onUpdated={onBookmarkUpdated}
+        onTagsChanged={onTagsChanged}
+        onTagClick={onTagClick}
+        layout={layout}
+      />
+    ),
+    [
+      layout,
+      activeIndex,
+      selectedIds,
+      tagsByBookmark,
+      highlights,
+      deletingIds,
+      isMounted,
+      canEdit,
+      handleDelete,
+      handleSelect,
+      handleOpen,
+      handleReadingStatus,
+      onBookmarkUpdated,
+      onTagsChanged,
+      onTagClick,
+    ]
+  );
+
+  // The grid is virtualised by rows of tiles
+  const gridRows = useMemo(() => {
+    if (layout !== "grid") return [];
+    const rows: Bookmark[][] = [];
+    for (let i = 0; i < bookmarks.length; i += GRID_COLUMNS) rows.push(bookmarks.slice(i, i + GRID_COLUMNS));
+    return rows;
+  }, [layout, bookmarks]);
+
+  const renderGridRow = useCallback(
+    (row: Bookmark[], rowIndex: number) => (
+      <li>
+        <ul className="grid grid-cols-2 gap-2">
+          {row.map((bookmark, i) => (
+            <Fragment key={bookmark.id}>{renderBookmark(bookmark, rowIndex * GRID_COLUMNS + i)}</Fragment>
+          ))}
+        </ul>
+      </li>
+    ),
+    [renderBookmark]
+  );
 
   // ── Status colors ────────────────────────────────────────────────────────
+  // Offline and syncing states take precedence over the realtime channel's
   const statusColor =
+    !isOnline ? "#64748b" :
+    isSyncing ? "#f59e0b" :
     realtimeStatus === "connected" ? "#10b981" :
     realtimeStatus === "error" ? "#ef4444" : "#f59e0b";
 
+  const changes = `${pendingChanges} pending change${pendingChanges !== 1 ? "s" : ""}`;
   const statusLabel =
+    !isOnline ? (pendingChanges > 0 ? `Offline – ${changes}` : "Offline") :
+    isSyncing ? `Syncing ${changes}…` :
     realtimeStatus === "connected" ? "Live" :
     realtimeStatus === "error" ? "Disconnected" : "Connecting...";
 
+  // Keyed by the first bookmark so a second delete restarts the countdown
+  const undoToast = trashed && (
+    <UndoToast
+      key={trashed.ids[0]}
+      message={trashed.message}
+      onUndo={handleUndo}
+      onDismiss={dismissUndo}
+    />
+  );
+
   // ── Empty state ──────────────────────────────────────────────────────────
-  if (bookmarks.length === 0) {
+  // While older pages remain, a filter with no matches yet keeps looking
+  if (bookmarks.length === 0 && isFiltered && !hasMore) {
+    return (
+      <div className="text-center py-16 animate-fade-in">
+        <h3 className="text-slate-600 font-semibold text-sm">No matching bookmarks</h3>
+        <p className="text-slate-400 text-xs mt-1">Try a different search or tag.</p>
+        {undoToast}
+      </div>
+    );
+  }
+
+  if (bookmarks.length === 0 && !hasMore) {
     return (
       <div className="text-center py-16 animate-fade-in">
         <div className="inline-flex items-center justify-center w-16 h-16 bg-slate-100 rounded-2xl mb-4">
@@ -140,7 +823,10 @@ export default function BookmarkList({
           </svg>
         </div>
         <h3 className="text-slate-600 font-semibold text-sm">No bookmarks yet</h3>
-        <p className="text-slate-400 text-xs mt-1">Add your first bookmark using the form above.</p>
+        <p className="text-slate-400 text-xs mt-1">
+          {canEdit ? "Add your first bookmark using the form above." : "Nothing has been shared here yet."}
+        </p>
+        {undoToast}
       </div>
     );
   }
@@ -149,12 +835,38 @@ export default function BookmarkList({
   return (
     <div className="space-y-3 animate-fade-in">
       <div className="flex items-center justify-between">
+        <input
+          type="checkbox"
+          checked={allShownSelected}
+          onChange={toggleSelectShown}
+          disabled={bookmarks.length === 0}
+          className="w-4 h-4 mr-2 rounded border-slate-300 text-blue-600 cursor-pointer"
+          aria-label={allShownSelected ? "Clear selection" : "Select all shown"}
+          title={allShownSelected ? "Clear selection" : "Select all shown"}
+        />
         <span className="text-xs font-medium text-slate-400 uppercase tracking-wide">
-          {bookmarks.length} bookmark{bookmarks.length !== 1 ? "s" : ""}
+          {isFiltered
+            ? `${bookmarks.length} matching${hasMore ? " so far" : ""}`
+            : `${total} bookmark${total !== 1 ? "s" : ""}`}
         </span>
+        <div className="inline-flex rounded-lg border border-slate-200 bg-white p-0.5 ml-auto mr-3" role="group" aria-label="Layout">
+          {LAYOUTS.map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => onLayoutChange(option)}
+              aria-pressed={layout === option}
+              className={`px-2 py-0.5 rounded-md text-[11px] font-medium transition-colors duration-150 ${
+                layout === option ? "bg-slate-800 text-white" : "text-slate-500 hover:bg-slate-100"
+              }`}
+            >
+              {LAYOUT_OPTIONS[option]}
+            </button>
+          ))}
+        </div>
         <span className="flex items-center gap-1.5 text-xs font-medium" style={{ color: statusColor }}>
           <span className="relative flex h-2 w-2">
-            {realtimeStatus === "connected" && (
+            {isOnline && !isSyncing && realtimeStatus === "connected" && (
               <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-emerald-400 opacity-75" />
             )}
             <span className="relative inline-flex rounded-full h-2 w-2" style={{ backgroundColor: statusColor }} />
@@ -163,87 +875,84 @@ export default function BookmarkList({
         </span>
       </div>
 
-      {deleteError && (
+      {actionError && (
         <div className="flex items-start gap-2 bg-red-50 border border-red-100 rounded-lg px-3 py-2">
           <svg className="w-4 h-4 text-red-500 mt-0.5 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
             <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
           </svg>
-          <p className="text-xs text-red-600">{deleteError}</p>
+          <p className="text-xs text-red-600">{actionError}</p>
+        </div>
+      )}
+
+      {selectedIds.size > 0 && (
+        <BulkActionBar
+          count={selectedIds.size}
+          canEdit={canEdit && isOnline}
+          moveTargets={moveTargets}
+          busy={bulkProgress}
+          canSelectAllMatching={
+            onSelectAllMatching !== null && allShownSelected && selectedIds.size === bookmarks.length
+          }
+          onSelectAllMatching={handleSelectAllMatching}
+          onClear={clearSelection}
+          onTrash={handleBulkTrash}
+          onTag={handleBulkTag}
+          onUntag={handleBulkUntag}
+          onMove={handleBulkMove}
+          onExport={handleBulkExport}
+        />
+      )}
+
+      {bulkSummary && (
+        <div className="flex items-center gap-2 bg-green-50 border border-green-100 rounded-lg px-3 py-2 animate-fade-in">
+          <p className="flex-1 min-w-0 text-xs text-green-700" role="status">{bulkSummary}</p>
+          <button type="button" onClick={() => setBulkSummary(null)} className="btn-secondary">
+            Dismiss
+          </button>
         </div>
       )}
 
-      <ul className="space-y-2">
-        {bookmarks.map((bookmark) => (
-          <li
-            key={bookmark.id}
-            className="group bg-white rounded-xl border border-slate-100 shadow-sm hover:border-blue-200 hover:shadow-md transition-all duration-200 animate-slide-up"
-          >
-            <div className="flex items-center gap-3 p-4">
-              <div className="flex-shrink-0">
-                <img
-                  src={`https://www.google.com/s2/favicons?domain=${encodeURIComponent(bookmark.url)}&sz=32`}
-                  alt=""
-                  className="w-6 h-6 rounded"
-                  onError={(e) => { (e.target as HTMLImageElement).style.display = "none"; }}
-                />
-              </div>
-
-              <div className="flex-1 min-w-0">
-                <p className="text-sm font-semibold text-slate-800 truncate">{bookmark.title}</p>
-                <a
-                  href={bookmark.url}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="text-xs text-blue-500 hover:text-blue-700 hover:underline truncate block transition-colors duration-150"
-                >
-                  {bookmark.url}
-                </a>
-              </div>
-
-              {isMounted && (
-                <span className="text-xs text-slate-300 hidden sm:block flex-shrink-0">
-                  {formatDate(bookmark.created_at)}
-                </span>
-              )}
-
-              <button
-                onClick={() => handleDelete(bookmark.id)}
-                disabled={deletingIds.has(bookmark.id)}
-                className="btn-danger flex-shrink-0 opacity-0 group-hover:opacity-100 focus:opacity-100"
-                aria-label={`Delete bookmark: ${bookmark.title}`}
-              >
-                {deletingIds.has(bookmark.id) ? (
-                  <svg className="w-3.5 h-3.5 animate-spin" fill="none" viewBox="0 0 24 24">
-                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
-                  </svg>
-                ) : (
-                  <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                    <path strokeLinecap="round" strokeLinejoin="round" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                  </svg>
-                )}
-                <span>Delete</span>
+      {layout === "grid" ? (
+        <VirtualList
+          items={gridRows}
+          getKey={gridRowKey}
+          renderItem={renderGridRow}
+          activeIndex={activeIndex === null ? null : Math.floor(activeIndex / GRID_COLUMNS)}
+          estimatedHeight={ESTIMATED_HEIGHTS.grid}
+          gap={8}
+          className="space-y-2"
+        />
+      ) : (
+        <VirtualList
+          key={layout}
+          items={bookmarks}
+          getKey={bookmarkKey}
+          renderItem={renderBookmark}
+          activeIndex={activeIndex}
+          estimatedHeight={ESTIMATED_HEIGHTS[layout]}
+          gap={8}
+          className="space-y-2"
+        />
+      )}
+
+      {hasMore && (
+        <div ref={setSentinel} className="flex items-center justify-center gap-2 py-4 text-xs text-slate-400">
+          {loadMoreError ? (
+            <>
+              <span className="text-red-600">Couldn&apos;t load more: {loadMoreError}</span>
+              <button type="button" onClick={onLoadMore} className="btn-secondary">
+                Retry
               </button>
-            </div>
-          </li>
-        ))}
-      </ul>
+            </>
+          ) : isLoadingMore ? (
+            bookmarks.length > 0 ? "Loading more…" : "Loading…"
+          ) : (
+            isFiltered && "Looking through older bookmarks…"
+          )}
+        </div>
+      )}
+
+      {undoToast}
     </div>
   );
 }
-
-function formatDate(isoString: string): string {
-  const date = new Date(isoString);
-  const now = new Date();
-  const diffMs = now.getTime() - date.getTime();
-  const diffSecs = Math.floor(diffMs / 1000);
-  const diffMins = Math.floor(diffSecs / 60);
-  const diffHours = Math.floor(diffMins / 60);
-  const diffDays = Math.floor(diffHours / 24);
-
-  if (diffSecs < 60) return "just now";
-  if (diffMins < 60) return `${diffMins}m ago`;
-  if (diffHours < 24) return `${diffHours}h ago`;
-  if (diffDays < 7) return `${diffDays}d ago`;
-  return date.toLocaleDateString("en-GB", { day: "numeric", month: "short" });
-}
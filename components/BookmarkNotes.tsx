@@ -0,0 +1,339 @@
+/**
+ * components/BookmarkNotes.tsx
+ *
+ * The notes panel under a bookmark row (lib/notes.ts): its Markdown
+ * notes, with a write/preview editor for editors, and its highlights,
+ * oldest first, each with the time it was taken. Highlights are loaded
+ * when the panel opens and again whenever highlight_count changes, which
+ * realtime reports when another tab adds or removes one. Editors can
+ * paste a passage here; the saved copy (/archive/<id>) lets them select
+ * it on the page instead.
+ * Notes edits made offline are queued like title and URL edits;
+ * highlights need a connection.
+ */
+
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import Markdown from "@/components/Markdown";
+import { createClient } from "@/lib/supabaseClient";
+import {
+  NOTES_LIMITS,
+  addHighlight,
+  deleteHighlight,
+  fetchHighlights,
+  formatHighlightTime,
+  validateNotes,
+} from "@/lib/notes";
+import { isOffline, queueUpdate, writeOrQueue } from "@/lib/offlineQueue";
+import type { Bookmark, BookmarkHighlight } from "@/lib/types";
+
+interface BookmarkNotesProps {
+  bookmark: Bookmark;
+  canEdit: boolean;
+  startEditing: boolean;        // opened with "Notes" rather than the badge
+  onUpdated: (bookmark: Bookmark) => void;
+}
+
+export default function BookmarkNotes({ bookmark, canEdit, startEditing, onUpdated }: BookmarkNotesProps) {
+  const [isEditing, setIsEditing] = useState(canEdit && startEditing);
+  const [draft, setDraft] = useState(bookmark.notes ?? "");
+  const [isPreview, setIsPreview] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [highlights, setHighlights] = useState<BookmarkHighlight[] | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [quote, setQuote] = useState("");
+  const [comment, setComment] = useState("");
+  const [isSavingHighlight, setIsSavingHighlight] = useState(false);
+  const [deletingIds, setDeletingIds] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+  const notesRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    if (isEditing && !isPreview) notesRef.current?.focus();
+  }, [isEditing, isPreview]);
+
+  useEffect(() => {
+    if (bookmark.highlight_count === 0) {
+      setHighlights([]);
+      return;
+    }
+    let cancelled = false;
+    fetchHighlights(createClient(), bookmark.id).then((result) => {
+      if (cancelled) return;
+      if (result.error) setError(`Couldn't load highlights: ${result.error}`);
+      else setHighlights(result.highlights);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [bookmark.id, bookmark.highlight_count]);
+
+  // ── Notes ────────────────────────────────────────────────────────────────
+  const startEditingNotes = () => {
+    setDraft(bookmark.notes ?? "");
+    setIsPreview(false);
+    setError(null);
+    setIsEditing(true);
+  };
+
+  const handleSaveNotes = async () => {
+    const notes = draft.trim();
+    const validationError = validateNotes(notes);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    const changes = { notes: notes || null };
+    if (changes.notes === bookmark.notes) {
+      setIsEditing(false);
+      return;
+    }
+
+    setError(null);
+    setIsSaving(true);
+    const supabase = createClient();
+    const { data, error: updateError, queued } = await writeOrQueue(
+      () => supabase.from("bookmarks").update(changes).eq("id", bookmark.id).select().single(),
+      () => queueUpdate(bookmark, changes)
+    );
+    setIsSaving(false);
+
+    if (updateError) {
+      setError(updateError.message);
+      return;
+    }
+    if (queued) onUpdated({ ...bookmark, ...changes });
+    else if (data) onUpdated(data as Bookmark);
+    setIsEditing(false);
+  };
+
+  const handleNotesKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape") {
+      setIsEditing(false);
+      setError(null);
+    } else if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      handleSaveNotes();
+    }
+  };
+
+  // ── Highlights ───────────────────────────────────────────────────────────
+  const handleAddHighlight = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isOffline()) {
+      setError("Highlights can't be added while offline.");
+      return;
+    }
+
+    setError(null);
+    setIsSavingHighlight(true);
+    const { highlight, error: addError } = await addHighlight(createClient(), bookmark.id, quote, comment);
+    setIsSavingHighlight(false);
+
+    if (addError || !highlight) {
+      setError(addError ?? "Couldn't save the highlight.");
+      return;
+    }
+    setHighlights((prev) => [...(prev ?? []), highlight]);
+    setQuote("");
+    setComment("");
+    setIsAdding(false);
+  };
+
+  const handleDeleteHighlight = async (id: string) => {
+    setError(null);
+    setDeletingIds((prev) => new Set(prev).add(id));
+    const deleteError = await deleteHighlight(createClient(), id);
+    setDeletingIds((prev) => {
+      const next = new Set(prev);
+      next.delete(id);
+      return next;
+    });
+
+    if (deleteError) {
+      setError(`Couldn't remove the highlight: ${deleteError}`);
+      return;
+    }
+    setHighlights((prev) => (prev ?? []).filter((h) => h.id !== id));
+  };
+
+  const highlightCount = highlights?.length ?? bookmark.highlight_count;
+
+  return (
+    <div className="space-y-4 border-t border-slate-100 pt-3 animate-fade-in">
+      <section className="space-y-1.5">
+        <div className="flex items-center justify-between gap-2">
+          <h3 className="text-[11px] font-medium text-slate-400 uppercase tracking-wide">Notes</h3>
+          {canEdit && !isEditing && (
+            <button type="button" onClick={startEditingNotes} className="text-[11px] text-blue-600 hover:underline">
+              {bookmark.notes ? "Edit notes" : "Add notes"}
+            </button>
+          )}
+        </div>
+
+        {isEditing ? (
+          <div className="space-y-2" onKeyDown={handleNotesKeyDown}>
+            <div className="flex items-center gap-3 text-xs">
+              <button
+                type="button"
+                onClick={() => setIsPreview(false)}
+                className={isPreview ? "text-slate-400 hover:text-slate-600" : "font-medium text-slate-700"}
+              >
+                Write
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsPreview(true)}
+                className={isPreview ? "font-medium text-slate-700" : "text-slate-400 hover:text-slate-600"}
+              >
+                Preview
+              </button>
+              <span className={`ml-auto ${draft.length > NOTES_LIMITS.notes ? "text-red-600" : "text-slate-400"}`}>
+                {draft.length.toLocaleString()} / {NOTES_LIMITS.notes.toLocaleString()}
+              </span>
+            </div>
+
+            {isPreview ? (
+              <div className="min-h-[7.5rem] rounded-lg border border-slate-100 px-3 py-2">
+                {draft.trim() ? <Markdown source={draft} /> : <p className="text-xs text-slate-400">Nothing to preview.</p>}
+              </div>
+            ) : (
+              <textarea
+                ref={notesRef}
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                disabled={isSaving}
+                rows={5}
+                className="input-field font-mono text-xs resize-y"
+                placeholder="Why you saved it, what to remember… Markdown works: **bold**, *italic*, [links](https://…), lists and > quotes."
+                aria-label="Notes"
+              />
+            )}
+
+            <div className="flex items-center justify-end gap-2">
+              <span className="mr-auto text-[11px] text-slate-400">Ctrl+Enter to save</span>
+              <button type="button" onClick={() => setIsEditing(false)} disabled={isSaving} className="btn-secondary">
+                Cancel
+              </button>
+              <button type="button" onClick={handleSaveNotes} disabled={isSaving} className="btn-primary">
+                {isSaving ? "Saving…" : "Save notes"}
+              </button>
+            </div>
+          </div>
+        ) : bookmark.notes ? (
+          <Markdown source={bookmark.notes} />
+        ) : (
+          <p className="text-xs text-slate-400">No notes yet.</p>
+        )}
+      </section>
+
+      <section className="space-y-1.5">
+        <div className="flex items-center justify-between gap-2">
+          <h3 className="text-[11px] font-medium text-slate-400 uppercase tracking-wide">
+            Highlights{highlightCount > 0 && ` · ${highlightCount}`}
+          </h3>
+          {canEdit && !isAdding && (
+            <button type="button" onClick={() => setIsAdding(true)} className="text-[11px] text-blue-600 hover:underline">
+              Add highlight
+            </button>
+          )}
+        </div>
+
+        {highlights === null ? (
+          <p className="text-xs text-slate-400">Loading…</p>
+        ) : highlights.length === 0 ? (
+          !isAdding && (
+            <p className="text-xs text-slate-400">
+              No highlights yet.
+              {canEdit && bookmark.archived_at && (
+                <>
+                  {" "}
+                  Select a passage in the{" "}
+                  <Link href={`/archive/${bookmark.id}`} className="text-blue-600 hover:underline">
+                    saved copy
+                  </Link>{" "}
+                  to keep it.
+                </>
+              )}
+            </p>
+          )
+        ) : (
+          <ul className="space-y-2">
+            {highlights.map((highlight) => (
+              <li key={highlight.id} className="group/highlight flex items-start gap-2">
+                <div className="flex-1 min-w-0 space-y-0.5">
+                  <blockquote className="border-l-2 border-amber-300 pl-3 text-sm text-slate-700 whitespace-pre-line break-words">
+                    {highlight.quote}
+                  </blockquote>
+                  {highlight.comment && <p className="pl-3.5 text-xs text-slate-500 break-words">{highlight.comment}</p>}
+                  <p className="pl-3.5 text-[11px] text-slate-400">{formatHighlightTime(highlight.created_at)}</p>
+                </div>
+                {canEdit && (
+                  <button
+                    type="button"
+                    onClick={() => handleDeleteHighlight(highlight.id)}
+                    disabled={deletingIds.has(highlight.id)}
+                    className="flex-shrink-0 text-slate-300 hover:text-red-600 opacity-0 group-hover/highlight:opacity-100 focus:opacity-100 disabled:opacity-50"
+                    aria-label="Remove highlight"
+                    title="Remove highlight"
+                  >
+                    <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {isAdding && (
+          <form
+            onSubmit={handleAddHighlight}
+            onKeyDown={(e) => { if (e.key === "Escape") setIsAdding(false); }}
+            className="space-y-2"
+            noValidate
+          >
+            <textarea
+              value={quote}
+              onChange={(e) => setQuote(e.target.value)}
+              disabled={isSavingHighlight}
+              rows={3}
+              maxLength={NOTES_LIMITS.quote}
+              className="input-field text-sm resize-y"
+              placeholder="Paste the passage to keep"
+              aria-label="Highlighted passage"
+              autoFocus
+            />
+            <input
+              type="text"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              disabled={isSavingHighlight}
+              maxLength={NOTES_LIMITS.comment}
+              className="input-field"
+              placeholder="Comment (optional)"
+              autoComplete="off"
+              aria-label="Comment"
+            />
+            <div className="flex items-center justify-end gap-2">
+              <button type="button" onClick={() => setIsAdding(false)} disabled={isSavingHighlight} className="btn-secondary">
+                Cancel
+              </button>
+              <button type="submit" disabled={isSavingHighlight || !quote.trim()} className="btn-primary">
+                {isSavingHighlight ? "Saving…" : "Save highlight"}
+              </button>
+            </div>
+          </form>
+        )}
+      </section>
+
+      {error && (
+        <p className="text-xs text-red-600 bg-red-50 border border-red-100 rounded-lg px-3 py-2">{error}</p>
+      )}
+    </div>
+  );
+}
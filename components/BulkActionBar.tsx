@@ -0,0 +1,226 @@
+/**
+ * components/BulkActionBar.tsx
+ *
+ * Shown above the list while bookmarks are selected: the selection size,
+ * "select all matching" when more of the view is still unloaded, and the
+ * batch actions — tag or untag, move to another list, export and move to
+ * the Trash (lib/bulk.ts). Viewers of a collection can only export.
+ * BookmarkList runs the actions; this only collects their input and
+ * shows progress while one is running.
+ */
+
+"use client";
+
+import { useState } from "react";
+import { MAX_BULK_SELECTION, type MoveTarget } from "@/lib/bulk";
+import { EXPORT_FORMATS } from "@/lib/exporters";
+import { parseTagInput, validateTags } from "@/lib/tags";
+import type { ExportFormat } from "@/lib/types";
+
+interface BulkActionBarProps {
+  count: number;
+  canEdit: boolean;
+  moveTargets: MoveTarget[];
+  busy: string | null;           // progress message while an action runs
+  canSelectAllMatching: boolean;
+  onSelectAllMatching: () => void;
+  onClear: () => void;
+  onTrash: () => void;
+  onTag: (names: string[]) => void;
+  onUntag: (names: string[]) => void;
+  onMove: (collectionId: string | null) => void;
+  onExport: (format: ExportFormat) => void;
+}
+
+type Panel = "tag" | "move" | "export";
+
+const FORMAT_LABELS: Record<ExportFormat, string> = { html: "HTML", json: "JSON", csv: "CSV", md: "Markdown" };
+
+export default function BulkActionBar({
+  count,
+  canEdit,
+  moveTargets,
+  busy,
+  canSelectAllMatching,
+  onSelectAllMatching,
+  onClear,
+  onTrash,
+  onTag,
+  onUntag,
+  onMove,
+  onExport,
+}: BulkActionBarProps) {
+  const [panel, setPanel] = useState<Panel | null>(null);
+  const [tagInput, setTagInput] = useState("");
+  const [target, setTarget] = useState(moveTargets[0]?.collectionId ?? "");
+  const [error, setError] = useState<string | null>(null);
+
+  const tooMany = count > MAX_BULK_SELECTION;
+  const disabled = busy !== null || tooMany;
+
+  const togglePanel = (next: Panel) => {
+    setError(null);
+    setPanel((current) => (current === next ? null : next));
+  };
+
+  const submitTags = (remove: boolean) => {
+    const names = parseTagInput(tagInput);
+    const validationError = names.length === 0 ? "Enter at least one tag." : validateTags(names);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setError(null);
+    setPanel(null);
+    setTagInput("");
+    if (remove) onUntag(names);
+    else onTag(names);
+  };
+
+  const submitMove = () => {
+    setPanel(null);
+    onMove(target || null);
+  };
+
+  return (
+    <div className="sticky top-2 z-10 bg-slate-800 text-white rounded-xl shadow-lg px-3 py-2 space-y-2 animate-fade-in">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium">{count} selected</span>
+        {canSelectAllMatching && !busy && (
+          <button
+            type="button"
+            onClick={onSelectAllMatching}
+            className="text-xs font-medium text-blue-300 hover:text-blue-200"
+          >
+            Select all matching
+          </button>
+        )}
+
+        <div className="flex flex-wrap items-center gap-1.5 ml-auto">
+          {busy ? (
+            <span className="flex items-center gap-2 text-xs text-slate-300" role="status">
+              <svg className="w-3.5 h-3.5 animate-spin" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+              </svg>
+              {busy}
+            </span>
+          ) : (
+            <>
+              {canEdit && (
+                <button type="button" onClick={() => togglePanel("tag")} disabled={disabled} className={barButton(panel === "tag")}>
+                  Tags
+                </button>
+              )}
+              {canEdit && moveTargets.length > 0 && (
+                <button type="button" onClick={() => togglePanel("move")} disabled={disabled} className={barButton(panel === "move")}>
+                  Move
+                </button>
+              )}
+              <button type="button" onClick={() => togglePanel("export")} disabled={disabled} className={barButton(panel === "export")}>
+                Export
+              </button>
+              {canEdit && (
+                <button
+                  type="button"
+                  onClick={onTrash}
+                  disabled={disabled}
+                  className="px-2.5 py-1 rounded-lg text-xs font-medium text-red-200 hover:bg-red-500/20 disabled:opacity-50"
+                >
+                  Move to Trash
+                </button>
+              )}
+            </>
+          )}
+          <button
+            type="button"
+            onClick={onClear}
+            disabled={busy !== null}
+            className="text-slate-400 hover:text-white disabled:opacity-50"
+            aria-label="Clear selection"
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      {tooMany && (
+        <p className="text-xs text-amber-300">Actions work on up to {MAX_BULK_SELECTION} bookmarks at a time.</p>
+      )}
+
+      {panel === "tag" && !busy && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            submitTags(false);
+          }}
+          className="flex flex-wrap items-center gap-1.5"
+        >
+          <input
+            type="text"
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            placeholder="Tags, comma-separated"
+            className="input-field !py-1 !text-xs text-slate-800 flex-1 min-w-[10rem]"
+            aria-label="Tags to add or remove"
+            autoFocus
+          />
+          <button type="submit" className={barButton(false)}>
+            Add
+          </button>
+          <button type="button" onClick={() => submitTags(true)} className={barButton(false)}>
+            Remove
+          </button>
+        </form>
+      )}
+
+      {panel === "move" && !busy && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          <select
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            className="input-field !py-1 !text-xs text-slate-800 flex-1 min-w-[10rem]"
+            aria-label="Move to"
+          >
+            {moveTargets.map((t) => (
+              <option key={t.collectionId ?? ""} value={t.collectionId ?? ""}>
+                {t.name}
+              </option>
+            ))}
+          </select>
+          <button type="button" onClick={submitMove} className={barButton(false)}>
+            Move here
+          </button>
+        </div>
+      )}
+
+      {panel === "export" && !busy && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          {EXPORT_FORMATS.map((format) => (
+            <button
+              key={format}
+              type="button"
+              onClick={() => {
+                setPanel(null);
+                onExport(format);
+              }}
+              className={barButton(false)}
+            >
+              {FORMAT_LABELS[format]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-300">{error}</p>}
+    </div>
+  );
+}
+
+function barButton(isOpen: boolean): string {
+  return `px-2.5 py-1 rounded-lg text-xs font-medium disabled:opacity-50 ${
+    isOpen ? "bg-white text-slate-800" : "text-slate-200 hover:bg-white/10"
+  }`;
+}
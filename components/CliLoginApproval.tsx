@@ -0,0 +1,94 @@
+/**
+ * components/CliLoginApproval.tsx
+ *
+ * Confirms the code shown by `bookmarks login`. Approving creates a read
+ * & write API token for the CLI (listed in Settings, where it can be
+ * revoked like any other token).
+ */
+
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { createClient } from "@/lib/supabaseClient";
+import { normaliseUserCode } from "@/lib/cliLogin";
+
+interface CliLoginApprovalProps {
+  initialCode: string;
+}
+
+export default function CliLoginApproval({ initialCode }: CliLoginApprovalProps) {
+  const [code, setCode] = useState(initialCode);
+  const [isApproving, setIsApproving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [approvedClient, setApprovedClient] = useState<string | null>(null);
+
+  const handleApprove = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const userCode = normaliseUserCode(code);
+    if (!userCode) {
+      setError("Enter the 8-letter code shown in your terminal.");
+      return;
+    }
+
+    setIsApproving(true);
+    const supabase = createClient();
+    const { data, error: approveError } = await supabase.rpc("approve_cli_login", { code: userCode });
+    setIsApproving(false);
+
+    if (approveError) {
+      setError(approveError.message);
+      return;
+    }
+    setApprovedClient(data as string);
+  };
+
+  if (approvedClient) {
+    return (
+      <div className="bg-white rounded-2xl border border-slate-100 shadow-sm p-5 space-y-3 animate-fade-in">
+        <div className="flex items-center gap-2 bg-green-50 border border-green-100 rounded-lg px-3 py-2">
+          <svg className="w-4 h-4 text-green-500 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+          </svg>
+          <p className="text-xs text-green-600 font-medium">
+            Signed in &ldquo;{approvedClient}&rdquo;. You can close this tab and go back to the terminal.
+          </p>
+        </div>
+        <p className="text-xs text-slate-400">
+          Its token is listed under <Link href="/settings" className="text-blue-600 hover:underline">Settings</Link>;
+          revoke it there to sign the CLI out.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={handleApprove}
+      className="bg-white rounded-2xl border border-slate-100 shadow-sm p-5 space-y-3 animate-fade-in"
+    >
+      <label htmlFor="cli-code" className="block text-xs font-medium text-slate-600">
+        Code from your terminal
+      </label>
+      <input
+        id="cli-code"
+        type="text"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        placeholder="ABCD-EFGH"
+        autoComplete="off"
+        spellCheck={false}
+        className="input-field font-mono tracking-widest uppercase"
+        disabled={isApproving}
+      />
+      {error && (
+        <p className="text-xs text-red-600 bg-red-50 border border-red-100 rounded-lg px-3 py-2">{error}</p>
+      )}
+      <button type="submit" className="btn-primary" disabled={isApproving}>
+        {isApproving ? "Approving…" : "Approve"}
+      </button>
+    </form>
+  );
+}
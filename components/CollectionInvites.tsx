@@ -0,0 +1,93 @@
+/**
+ * components/CollectionInvites.tsx
+ *
+ * Banner listing pending invites to shared collections for the signed-in
+ * user's email address, with Accept and Decline buttons.
+ */
+
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { createClient } from "@/lib/supabaseClient";
+import { COLLECTION_ROLES, collectionHref } from "@/lib/collections";
+import type { CollectionInvite } from "@/lib/types";
+
+interface CollectionInvitesProps {
+  invites: CollectionInvite[];
+}
+
+export default function CollectionInvites({ invites: initialInvites }: CollectionInvitesProps) {
+  const [invites, setInvites] = useState(initialInvites);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+
+  if (invites.length === 0) return null;
+
+  const handleAccept = async (invite: CollectionInvite) => {
+    setError(null);
+    setBusyId(invite.id);
+
+    const supabase = createClient();
+    const { data, error: acceptError } = await supabase.rpc("accept_collection_invite", {
+      invite_id: invite.id,
+    });
+
+    setBusyId(null);
+    if (acceptError) {
+      setError(acceptError.message);
+      return;
+    }
+
+    setInvites((prev) => prev.filter((i) => i.id !== invite.id));
+    router.push(collectionHref((data as string | null) ?? invite.collection_id));
+    router.refresh();
+  };
+
+  const handleDecline = async (invite: CollectionInvite) => {
+    setError(null);
+    setBusyId(invite.id);
+
+    const supabase = createClient();
+    const { error: deleteError } = await supabase.from("collection_invites").delete().eq("id", invite.id);
+
+    setBusyId(null);
+    if (deleteError) {
+      setError(deleteError.message);
+      return;
+    }
+    setInvites((prev) => prev.filter((i) => i.id !== invite.id));
+  };
+
+  return (
+    <div className="bg-blue-50 border border-blue-100 rounded-2xl p-4 space-y-2 animate-fade-in">
+      {invites.map((invite) => (
+        <div key={invite.id} className="flex flex-wrap items-center gap-2">
+          <p className="text-xs text-blue-800 flex-1 min-w-0">
+            You&apos;ve been invited to{" "}
+            <span className="font-semibold">{invite.collection_name ?? "a shared collection"}</span> as{" "}
+            {COLLECTION_ROLES[invite.role].toLowerCase()}.
+          </p>
+          <button
+            type="button"
+            onClick={() => handleAccept(invite)}
+            disabled={busyId === invite.id}
+            className="btn-secondary !text-blue-700"
+          >
+            Accept
+          </button>
+          <button
+            type="button"
+            onClick={() => handleDecline(invite)}
+            disabled={busyId === invite.id}
+            className="btn-secondary"
+          >
+            Decline
+          </button>
+        </div>
+      ))}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
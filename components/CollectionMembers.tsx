@@ -0,0 +1,301 @@
+/**
+ * components/CollectionMembers.tsx
+ *
+ * Collapsible "Members" card for the active shared collection. Everyone
+ * sees who has access; the owner can invite by email, change roles,
+ * remove members, cancel invites and delete the collection. Other
+ * members can leave.
+ */
+
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { createClient } from "@/lib/supabaseClient";
+import {
+  COLLECTION_ROLES,
+  INVITE_ROLES,
+  collectionHref,
+  isInviteRole,
+  validateInviteEmail,
+} from "@/lib/collections";
+import type { Collection, CollectionInvite, CollectionMember, CollectionRole } from "@/lib/types";
+
+interface CollectionMembersProps {
+  collection: Collection;
+  role: CollectionRole;
+  userId: string;
+}
+
+type InviteRole = Exclude<CollectionRole, "owner">;
+
+export default function CollectionMembers({ collection, role, userId }: CollectionMembersProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [members, setMembers] = useState<CollectionMember[]>([]);
+  const [invites, setInvites] = useState<CollectionInvite[]>([]);
+  const [email, setEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<InviteRole>("editor");
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+  const isOwner = role === "owner";
+
+  const load = useCallback(async () => {
+    const supabase = createClient();
+    const [{ data: memberRows, error: memberError }, { data: inviteRows }] = await Promise.all([
+      supabase
+        .from("collection_members")
+        .select("*")
+        .eq("collection_id", collection.id)
+        .order("created_at"),
+      isOwner
+        ? supabase
+            .from("collection_invites")
+            .select("*")
+            .eq("collection_id", collection.id)
+            .order("created_at")
+        : Promise.resolve({ data: [] }),
+    ]);
+
+    if (memberError) {
+      setError(memberError.message);
+      return;
+    }
+    setMembers((memberRows ?? []) as CollectionMember[]);
+    setInvites((inviteRows ?? []) as CollectionInvite[]);
+  }, [collection.id, isOwner]);
+
+  useEffect(() => {
+    if (isOpen) load();
+  }, [isOpen, load]);
+
+  // Runs a mutation, shows its error, and reloads the lists on success
+  const run = async (action: () => PromiseLike<{ error: { message: string } | null }>) => {
+    setError(null);
+    setIsBusy(true);
+    const { error: actionError } = await action();
+    setIsBusy(false);
+    if (actionError) {
+      setError(actionError.message);
+      return false;
+    }
+    await load();
+    return true;
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationError = validateInviteEmail(email);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    const normalised = email.trim().toLowerCase();
+    if (members.some((m) => m.email === normalised)) {
+      setError("That person is already a member.");
+      return;
+    }
+
+    const supabase = createClient();
+    const ok = await run(() =>
+      supabase.from("collection_invites").insert({
+        collection_id: collection.id,
+        email: normalised,
+        role: inviteRole,
+        invited_by: userId,
+      })
+    );
+    if (ok) setEmail("");
+  };
+
+  const handleRoleChange = (member: CollectionMember, newRole: string) => {
+    if (!isInviteRole(newRole)) return;
+    const supabase = createClient();
+    run(() =>
+      supabase
+        .from("collection_members")
+        .update({ role: newRole })
+        .eq("collection_id", collection.id)
+        .eq("user_id", member.user_id)
+    );
+  };
+
+  const handleRemove = (member: CollectionMember) => {
+    const supabase = createClient();
+    run(() =>
+      supabase
+        .from("collection_members")
+        .delete()
+        .eq("collection_id", collection.id)
+        .eq("user_id", member.user_id)
+    );
+  };
+
+  const handleCancelInvite = (invite: CollectionInvite) => {
+    const supabase = createClient();
+    run(() => supabase.from("collection_invites").delete().eq("id", invite.id));
+  };
+
+  const handleLeave = async () => {
+    if (!window.confirm(`Leave "${collection.name}"? You'll need a new invite to rejoin.`)) return;
+    const supabase = createClient();
+    const { error: leaveError } = await supabase
+      .from("collection_members")
+      .delete()
+      .eq("collection_id", collection.id)
+      .eq("user_id", userId);
+    if (leaveError) {
+      setError(leaveError.message);
+      return;
+    }
+    router.push(collectionHref(null));
+    router.refresh();
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Delete "${collection.name}" and all of its bookmarks for every member?`)) return;
+    const supabase = createClient();
+    const { error: deleteError } = await supabase.from("collections").delete().eq("id", collection.id);
+    if (deleteError) {
+      setError(deleteError.message);
+      return;
+    }
+    router.push(collectionHref(null));
+    router.refresh();
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-100 shadow-sm animate-fade-in">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className="w-full flex items-center justify-between px-5 py-3 text-sm font-semibold text-slate-700"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center gap-2">
+          <svg className="w-4 h-4 text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" />
+          </svg>
+          Members
+          <span className="text-xs font-normal text-slate-400">· you are {COLLECTION_ROLES[role].toLowerCase()}</span>
+        </span>
+        <svg
+          className={`w-4 h-4 text-slate-400 transition-transform duration-200 ${isOpen ? "rotate-180" : ""}`}
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+          strokeWidth={2}
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="px-5 pb-5 space-y-3">
+          <ul className="divide-y divide-slate-100 border border-slate-100 rounded-lg">
+            {members.map((member) => (
+              <li key={member.user_id} className="flex items-center gap-2 px-3 py-2">
+                <span className="flex-1 min-w-0 truncate text-sm text-slate-700">
+                  {member.email ?? "Unknown member"}
+                  {member.user_id === userId && <span className="text-slate-400"> (you)</span>}
+                </span>
+                {isOwner && member.role !== "owner" ? (
+                  <>
+                    <select
+                      value={member.role}
+                      onChange={(e) => handleRoleChange(member, e.target.value)}
+                      disabled={isBusy}
+                      className="text-xs border border-slate-200 rounded-md px-1.5 py-1 text-slate-600"
+                      aria-label={`Role for ${member.email ?? "member"}`}
+                    >
+                      {INVITE_ROLES.map((r) => (
+                        <option key={r} value={r}>{COLLECTION_ROLES[r]}</option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => handleRemove(member)}
+                      disabled={isBusy}
+                      className="btn-secondary"
+                    >
+                      Remove
+                    </button>
+                  </>
+                ) : (
+                  <span className="text-xs text-slate-400">{COLLECTION_ROLES[member.role]}</span>
+                )}
+              </li>
+            ))}
+            {invites.map((invite) => (
+              <li key={invite.id} className="flex items-center gap-2 px-3 py-2">
+                <span className="flex-1 min-w-0 truncate text-sm text-slate-400">
+                  {invite.email} <span className="text-xs">(invited)</span>
+                </span>
+                <span className="text-xs text-slate-400">{COLLECTION_ROLES[invite.role]}</span>
+                <button
+                  type="button"
+                  onClick={() => handleCancelInvite(invite)}
+                  disabled={isBusy}
+                  className="btn-secondary"
+                >
+                  Cancel
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {isOwner && (
+            <form onSubmit={handleInvite} className="flex flex-col sm:flex-row gap-2">
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="colleague@example.com"
+                disabled={isBusy}
+                className="input-field flex-1"
+                aria-label="Invite by email"
+                autoComplete="off"
+              />
+              <select
+                value={inviteRole}
+                onChange={(e) => isInviteRole(e.target.value) && setInviteRole(e.target.value)}
+                disabled={isBusy}
+                className="input-field sm:w-32"
+                aria-label="Invite role"
+              >
+                {INVITE_ROLES.map((r) => (
+                  <option key={r} value={r}>{COLLECTION_ROLES[r]}</option>
+                ))}
+              </select>
+              <button type="submit" disabled={isBusy} className="btn-primary">
+                Invite
+              </button>
+            </form>
+          )}
+          {isOwner && (
+            <p className="text-xs text-slate-400">
+              Invitees see the invite on their dashboard after signing in with that email.
+            </p>
+          )}
+
+          {error && (
+            <p className="text-xs text-red-600 bg-red-50 border border-red-100 rounded-lg px-3 py-2">{error}</p>
+          )}
+
+          <div className="flex justify-end">
+            {isOwner ? (
+              <button type="button" onClick={handleDelete} className="btn-danger">
+                Delete collection
+              </button>
+            ) : (
+              <button type="button" onClick={handleLeave} className="btn-secondary">
+                Leave collection
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
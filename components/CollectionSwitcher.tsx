@@ -0,0 +1,144 @@
+/**
+ * components/CollectionSwitcher.tsx
+ *
+ * Row of pills above the dashboard for switching between the personal
+ * list and shared collections, plus an inline "New collection" form.
+ * Switching navigates to /dashboard?collection=<id> so the server page
+ * loads that collection's bookmarks.
+ */
+
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { createClient } from "@/lib/supabaseClient";
+import {
+  COLLECTION_ROLES,
+  MAX_COLLECTION_NAME_LENGTH,
+  collectionHref,
+  validateCollectionName,
+} from "@/lib/collections";
+import type { Collection, CollectionMembership } from "@/lib/types";
+
+interface CollectionSwitcherProps {
+  memberships: CollectionMembership[];
+  activeId: string | null;
+}
+
+export default function CollectionSwitcher({ memberships, activeId }: CollectionSwitcherProps) {
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const validationError = validateCollectionName(name);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setIsSaving(true);
+
+    const supabase = createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      setError("You must be logged in to create collections.");
+      setIsSaving(false);
+      return;
+    }
+
+    const { data, error: insertError } = await supabase
+      .from("collections")
+      .insert({ name: name.trim(), owner_id: user.id })
+      .select()
+      .single();
+
+    setIsSaving(false);
+
+    if (insertError) {
+      setError(insertError.message);
+      return;
+    }
+
+    setName("");
+    setIsCreating(false);
+    router.push(collectionHref((data as Collection).id));
+    router.refresh();
+  };
+
+  const pillClass = (active: boolean) =>
+    `px-3 py-1 rounded-full text-xs font-medium border transition-colors duration-150 ${
+      active
+        ? "bg-blue-600 border-blue-600 text-white"
+        : "bg-white border-slate-200 text-slate-600 hover:border-slate-300 hover:text-slate-800"
+    }`;
+
+  return (
+    <div className="space-y-2 animate-fade-in">
+      <div className="flex flex-wrap items-center gap-1.5">
+        <button type="button" onClick={() => router.push(collectionHref(null))} className={pillClass(activeId === null)}>
+          Personal
+        </button>
+        {memberships.map(({ collection, role }) => (
+          <button
+            key={collection.id}
+            type="button"
+            onClick={() => router.push(collectionHref(collection.id))}
+            className={pillClass(activeId === collection.id)}
+            title={`${collection.name} — ${COLLECTION_ROLES[role]}`}
+          >
+            {collection.name}
+            {role !== "owner" && <span className="ml-1 opacity-70">· {COLLECTION_ROLES[role]}</span>}
+          </button>
+        ))}
+        {!isCreating && (
+          <button
+            type="button"
+            onClick={() => setIsCreating(true)}
+            className="px-3 py-1 rounded-full text-xs font-medium text-blue-600 hover:bg-blue-50"
+          >
+            + New collection
+          </button>
+        )}
+      </div>
+
+      {isCreating && (
+        <form onSubmit={handleCreate} className="flex items-center gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Onboarding links"
+            maxLength={MAX_COLLECTION_NAME_LENGTH}
+            disabled={isSaving}
+            className="input-field !py-1.5 !text-xs flex-1"
+            aria-label="Collection name"
+            autoFocus
+          />
+          <button type="submit" disabled={isSaving} className="btn-secondary">
+            {isSaving ? "Creating…" : "Create"}
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setIsCreating(false);
+              setError(null);
+            }}
+            disabled={isSaving}
+            className="btn-secondary"
+          >
+            Cancel
+          </button>
+        </form>
+      )}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
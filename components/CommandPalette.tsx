@@ -0,0 +1,328 @@
+/**
+ * components/CommandPalette.tsx
+ *
+ * Cmd/Ctrl+K palette (lib/commandPalette.ts). Typing fuzzy-matches the
+ * bookmarks the current page has loaded, adds full-text matches from
+ * /api/search for the rest, and lists the commands on offer: the
+ * Header's own plus whatever the page has registered. Arrow keys move,
+ * Enter opens a bookmark (through /go, so the visit counts) or runs a
+ * command; commands that need a value, like tagging, ask for it in the
+ * same box. Also binds the commands' single-key shortcuts and "?" for
+ * the shortcut sheet. Rendered into document.body, clear of the sticky
+ * header's stacking context.
+ */
+
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
+import { createPortal } from "react-dom";
+import Highlight from "@/components/Highlight";
+import ShortcutHelp from "@/components/ShortcutHelp";
+import {
+  MAX_BOOKMARK_RESULTS,
+  getPaletteItems,
+  getServerPaletteItems,
+  isTypingTarget,
+  rankBookmarks,
+  rankCommands,
+  subscribePaletteItems,
+  type PaletteBookmark,
+  type PaletteCommand,
+} from "@/lib/commandPalette";
+import { visitPath } from "@/lib/visits";
+import type { SearchResult } from "@/lib/types";
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  commands: PaletteCommand[];
+}
+
+type Result =
+  | { kind: "bookmark"; bookmark: PaletteBookmark }
+  | { kind: "search"; hit: SearchResult }
+  | { kind: "command"; command: PaletteCommand };
+
+const SEARCH_MIN_LENGTH = 2;
+const SEARCH_DEBOUNCE_MS = 200;
+
+export default function CommandPalette({ isOpen, onOpenChange, commands: headerCommands }: CommandPaletteProps) {
+  const items = useSyncExternalStore(subscribePaletteItems, getPaletteItems, getServerPaletteItems);
+  const [query, setQuery] = useState("");
+  // A command waiting for its value; the box asks for that instead
+  const [pending, setPending] = useState<PaletteCommand | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [searchHits, setSearchHits] = useState<SearchResult[]>([]);
+  const [isHelpOpen, setIsHelpOpen] = useState(false);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const commands = useMemo<PaletteCommand[]>(
+    () => [
+      ...items.commands,
+      ...headerCommands,
+      {
+        id: "shortcuts",
+        label: "Keyboard shortcuts",
+        group: "Help",
+        keywords: "keys help",
+        shortcut: "?",
+        run: () => setIsHelpOpen(true),
+      },
+    ],
+    [items.commands, headerCommands]
+  );
+
+  const close = useCallback(() => {
+    onOpenChange(false);
+    setQuery("");
+    setPending(null);
+    setActiveIndex(0);
+    setSearchHits([]);
+  }, [onOpenChange]);
+
+  const results = useMemo<Result[]>(() => {
+    if (pending) return [];
+    const bookmarks = rankBookmarks(query, items.bookmarks);
+    const shown = new Set(bookmarks.map((b) => b.id));
+    const hits = searchHits.filter((h) => !shown.has(h.id)).slice(0, MAX_BOOKMARK_RESULTS - bookmarks.length);
+    return [
+      ...bookmarks.map((bookmark): Result => ({ kind: "bookmark", bookmark })),
+      ...hits.map((hit): Result => ({ kind: "search", hit })),
+      ...rankCommands(query, commands).map((command): Result => ({ kind: "command", command })),
+    ];
+  }, [pending, query, items.bookmarks, searchHits, commands]);
+
+  // ── Running things ───────────────────────────────────────────────────────
+  const runCommand = useCallback((command: PaletteCommand) => {
+    if (command.input) {
+      onOpenChange(true);
+      setPending(command);
+      setQuery("");
+      return;
+    }
+    close();
+    command.run("");
+  }, [close, onOpenChange]);
+
+  const choose = (result: Result | undefined) => {
+    if (!result) return;
+    if (result.kind === "command") {
+      runCommand(result.command);
+      return;
+    }
+    const id = result.kind === "bookmark" ? result.bookmark.id : result.hit.id;
+    window.open(visitPath(id), "_blank", "noopener,noreferrer");
+    close();
+  };
+
+  const submitPending = () => {
+    if (!pending || !query.trim()) return;
+    const command = pending;
+    const value = query;
+    close();
+    command.run(value);
+  };
+
+  // ── Keys ─────────────────────────────────────────────────────────────────
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && !e.altKey && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        if (isOpen) close();
+        else onOpenChange(true);
+        return;
+      }
+      if (isHelpOpen && (e.key === "Escape" || e.key === "?")) {
+        e.preventDefault();
+        setIsHelpOpen(false);
+        return;
+      }
+      if (isOpen || e.metaKey || e.ctrlKey || e.altKey || isTypingTarget(e.target)) return;
+
+      const command = commands.find((c) => c.shortcut === e.key);
+      if (!command) return;
+      e.preventDefault();
+      runCommand(command);
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isOpen, isHelpOpen, commands, close, onOpenChange, runCommand]);
+
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        setActiveIndex((i) => Math.min(i + 1, results.length - 1));
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        setActiveIndex((i) => Math.max(i - 1, 0));
+        break;
+      case "Enter":
+        e.preventDefault();
+        if (pending) submitPending();
+        else choose(results[activeIndex]);
+        break;
+      case "Escape":
+        e.preventDefault();
+        // Backs out of a command's question first
+        if (pending) {
+          setPending(null);
+          setQuery("");
+        } else {
+          close();
+        }
+        break;
+    }
+  };
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query, pending]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  // ── Full-text matches beyond the loaded rows ─────────────────────────────
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!isOpen || pending || trimmed.length < SEARCH_MIN_LENGTH) {
+      setSearchHits([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/search?q=${encodeURIComponent(trimmed)}`, { signal: controller.signal });
+        if (!res.ok) return;
+        const body = await res.json();
+        setSearchHits((body.results as SearchResult[]).slice(0, MAX_BOOKMARK_RESULTS));
+      } catch {
+        // Aborted or offline — the loaded matches are still listed
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [isOpen, pending, query]);
+
+  // ── Render ───────────────────────────────────────────────────────────────
+  const help = isHelpOpen && <ShortcutHelp onClose={() => setIsHelpOpen(false)} />;
+  if (!isOpen) return help ? createPortal(help, document.body) : null;
+
+  let lastGroup: string | null = null;
+
+  return createPortal(
+    <>
+      <div
+        className="fixed inset-0 z-30 flex items-start justify-center bg-slate-900/30 px-4 pt-[15vh] animate-fade-in"
+        onMouseDown={(e) => {
+          if (e.target === e.currentTarget) close();
+        }}
+      >
+        <div
+          role="dialog"
+          aria-modal="true"
+          aria-label="Command palette"
+          className="w-full max-w-lg bg-white rounded-xl border border-slate-100 shadow-2xl overflow-hidden"
+        >
+          {pending && (
+            <p className="px-4 pt-3 text-[11px] font-medium text-slate-400 uppercase tracking-wide">{pending.label}</p>
+          )}
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleInputKeyDown}
+            placeholder={pending?.input?.placeholder ?? "Search bookmarks or type a command…"}
+            className="w-full px-4 py-3 text-sm text-slate-800 placeholder-slate-400 border-b border-slate-100 focus:outline-none"
+            role="combobox"
+            aria-expanded={results.length > 0}
+            aria-controls="command-palette-results"
+            aria-activedescendant={results.length > 0 ? `command-palette-${activeIndex}` : undefined}
+            autoComplete="off"
+            autoFocus
+          />
+
+          {pending ? (
+            <p className="px-4 py-3 text-xs text-slate-400">Enter to confirm, Esc to go back.</p>
+          ) : results.length === 0 ? (
+            <p className="px-4 py-6 text-center text-xs text-slate-400">Nothing matches “{query.trim()}”.</p>
+          ) : (
+            <ul ref={listRef} id="command-palette-results" role="listbox" className="max-h-80 overflow-y-auto py-1">
+              {results.map((result, index) => {
+                const group = result.kind === "command" ? result.command.group : "Bookmarks";
+                const heading = group !== lastGroup ? group : null;
+                lastGroup = group;
+                return (
+                  <li key={resultKey(result)} role="presentation">
+                    {heading && (
+                      <p className="px-4 pt-2 pb-1 text-[11px] font-medium text-slate-400 uppercase tracking-wide">
+                        {heading}
+                      </p>
+                    )}
+                    <div
+                      id={`command-palette-${index}`}
+                      data-index={index}
+                      role="option"
+                      aria-selected={index === activeIndex}
+                      onMouseMove={() => setActiveIndex(index)}
+                      onClick={() => choose(result)}
+                      className={`mx-1 flex items-center gap-3 rounded-lg px-3 py-2 cursor-pointer ${
+                        index === activeIndex ? "bg-blue-50" : ""
+                      }`}
+                    >
+                      <ResultRow result={result} />
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+      {help}
+    </>,
+    document.body
+  );
+}
+
+function ResultRow({ result }: { result: Result }) {
+  if (result.kind === "command") {
+    const { label, shortcut, input } = result.command;
+    return (
+      <>
+        <span className="flex-1 min-w-0 text-sm text-slate-700 truncate">
+          {label}
+          {input && "…"}
+        </span>
+        {shortcut && (
+          <kbd className="px-1.5 py-0.5 rounded border border-slate-200 bg-slate-50 text-[11px] font-mono text-slate-500">
+            {shortcut}
+          </kbd>
+        )}
+      </>
+    );
+  }
+
+  return (
+    <span className="flex-1 min-w-0">
+      <span className="block text-sm font-medium text-slate-800 truncate">
+        {result.kind === "bookmark" ? result.bookmark.title : <Highlight text={result.hit.title_highlight} />}
+      </span>
+      <span className="block text-xs text-slate-400 truncate">
+        {result.kind === "bookmark" ? result.bookmark.url : <Highlight text={result.hit.url_highlight} />}
+      </span>
+    </span>
+  );
+}
+
+function resultKey(result: Result): string {
+  if (result.kind === "command") return `command:${result.command.id}`;
+  return `bookmark:${result.kind === "bookmark" ? result.bookmark.id : result.hit.id}`;
+}
@@ -1,27 +1,176 @@
 /**
  * components/Dashboard.tsx
  *
- * Client component that holds shared bookmark state.
+ * Client component that holds shared bookmark and tag state, the list
+ * view (sort, layout and filters — lib/listView.ts), the broken-links
+ * filter and the current search. The list view is mirrored into the URL
+ * and saved for the user whenever it changes; a new sort or filter starts
+ * again from the first page. In the personal view it also publishes the unread
+ * count for the Header badge. Search results come from
+ * /api/search and are re-fetched whenever the bookmark set changes, so
+ * realtime inserts and edits show up in (or drop out of) an active search.
+ * Bookmarks load a page at a time (lib/bookmarkPages.ts); realtime rows
+ * and imports are merged by id and in page order, and any older than the
+ * last loaded page wait for that page. Search hits that aren't loaded yet
+ * are fetched on their own, and the view's counts come from the server.
+ * Shows either the personal list or one shared collection; viewers of a
+ * collection get the list without the add/import/edit controls.
  * Also listens for auth state changes — if user signs out in another tab,
  * this tab automatically redirects to the login page.
+ * Offline support: the view's bookmarks, tags and links are mirrored to
+ * IndexedDB and restored when the page opens without a connection (the
+ * copy is of the unfiltered, newest-first list; the
+ * service worker in public/sw.js serves the page itself). Changes queued
+ * offline are replayed when the browser comes back online, after which
+ * the view reloads from the server; conflicts are listed above the list.
+ * Batch actions on selected rows (lib/bulk.ts) report back what they
+ * changed, which is applied here straight away; the realtime echoes that
+ * follow find the state already up to date.
+ * Registers the dashboard's commands with the command palette (add,
+ * search, layout, sort, reading filter, switch list) along with the
+ * loaded bookmarks for it to search.
  */
 
 "use client";
 
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from "react";
 import { useRouter } from "next/navigation";
-import BookmarkForm from "@/components/BookmarkForm";
+import BookmarkForm, { type DuplicateMatch } from "@/components/BookmarkForm";
 import BookmarkList from "@/components/BookmarkList";
+import CollectionInvites from "@/components/CollectionInvites";
+import CollectionMembers from "@/components/CollectionMembers";
+import CollectionSwitcher from "@/components/CollectionSwitcher";
+import ImportPanel from "@/components/ImportPanel";
+import LinkHealthBar from "@/components/LinkHealthBar";
+import ListControls from "@/components/ListControls";
+import QuickCapturePanel from "@/components/QuickCapturePanel";
+import ReadingListTabs from "@/components/ReadingListTabs";
+import SearchBar from "@/components/SearchBar";
+import SharePanel from "@/components/SharePanel";
+import TagFilter from "@/components/TagFilter";
 import { createClient } from "@/lib/supabaseClient";
-import type { Bookmark } from "@/lib/types";
+import { tryCanonicaliseUrl } from "@/lib/canonicalUrl";
+import { canEditBookmarks, collectionHref } from "@/lib/collections";
+import { setPaletteItems, type PaletteCommand } from "@/lib/commandPalette";
+import { MAX_BULK_SELECTION, type BulkChange, type MoveTarget } from "@/lib/bulk";
+import {
+  bookmarkQuery,
+  countLoaded,
+  fetchBookmarkCounts,
+  fetchBookmarkIds,
+  fetchBookmarkPage,
+  fetchBookmarksById,
+  mergeBookmarks,
+  mergeLinks,
+  pageCursor,
+  type BookmarkCounts,
+  type BookmarkPage,
+  type Paging,
+} from "@/lib/bookmarkPages";
+import {
+  DEFAULT_LIST_VIEW,
+  LAYOUT_OPTIONS,
+  SORT_OPTIONS,
+  isDefaultFilters,
+  listViewHref,
+  matchesListFilters,
+  saveListView,
+  type BookmarkLayout,
+  type BookmarkSort,
+  type ListFilters,
+  type ListView,
+} from "@/lib/listView";
+import { clearOfflineData, readSnapshot, snapshotKey, writeSnapshot } from "@/lib/offlineDb";
+import {
+  getPendingCount,
+  isOffline,
+  refreshPendingCount,
+  replayMutations,
+  subscribePendingCount,
+} from "@/lib/offlineQueue";
+import { READING_FILTERS, setUnreadCount, type ReadingFilter } from "@/lib/readingList";
+import { expandFolders, groupTagsByBookmark } from "@/lib/tags";
+import type {
+  Bookmark,
+  BookmarkTag,
+  Collection,
+  CollectionInvite,
+  CollectionMembership,
+  CollectionRole,
+  ImportReport,
+  SearchResult,
+  Tag,
+} from "@/lib/types";
 
 interface DashboardProps {
-  initialBookmarks: Bookmark[];
+  userId: string;
+  collection: Collection | null;
+  role: CollectionRole | null;
+  memberships: CollectionMembership[];
+  invites: CollectionInvite[];
+  initialView: ListView;
+  initialPage: BookmarkPage;
+  initialCounts: BookmarkCounts | null;
+  initialTags: Tag[];
 }
 
-export default function Dashboard({ initialBookmarks }: DashboardProps) {
-  const [bookmarks, setBookmarks] = useState<Bookmark[]>(initialBookmarks);
+export default function Dashboard({
+  userId,
+  collection,
+  role,
+  memberships,
+  invites,
+  initialView,
+  initialPage,
+  initialCounts,
+  initialTags,
+}: DashboardProps) {
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>(initialPage.bookmarks);
+  const [tags, setTags] = useState<Tag[]>(initialTags);
+  const [links, setLinks] = useState<BookmarkTag[]>(initialPage.links);
+  const [paging, setPaging] = useState<Paging>({
+    sort: initialPage.sort,
+    cursor: initialPage.cursor,
+    hasMore: initialPage.hasMore,
+  });
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState<string | null>(null);
+  const [counts, setCounts] = useState<BookmarkCounts | null>(initialCounts);
+  // Search hits older than the loaded pages, kept apart so the list stays unbroken
+  const [searchRows, setSearchRows] = useState<Bookmark[]>([]);
+  const [listView, setListView] = useState<ListView>(initialView);
+  const [brokenOnly, setBrokenOnly] = useState(false);
+  const [query, setQuery] = useState("");
+  const [searchResults, setSearchResults] = useState<SearchResult[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [isOnline, setIsOnline] = useState(true);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [syncConflicts, setSyncConflicts] = useState<string[]>([]);
+  const pendingChanges = useSyncExternalStore(subscribePendingCount, getPendingCount, () => 0);
+  // Snapshots are only written once any offline copy has been restored,
+  // so a stale cached page can't overwrite newer local data
+  const snapshotReadyRef = useRef(false);
+  // Read by the merge callbacks, which must stay stable for the realtime channel
+  const pagingRef = useRef(paging);
+  const isLoadingMoreRef = useRef(false);
+  const initialBookmarksRef = useRef(initialPage.bookmarks);
+  // Search hits already asked for — some belong to other views and never arrive
+  const requestedSearchIdsRef = useRef(new Set<string>());
+  // Bumped whenever the list restarts, so answers for an older query are dropped
+  const listGenerationRef = useRef(0);
   const router = useRouter();
+  const collectionId = collection?.id ?? null;
+
+  const pageQuery = useMemo(() => bookmarkQuery(listView, tags), [listView, tags]);
+  const pageQueryKey = JSON.stringify(pageQuery);
+  const pageQueryRef = useRef(pageQuery);
+  const loadedQueryKeyRef = useRef(pageQueryKey);
+  const isDefaultView = listView.sort === DEFAULT_LIST_VIEW.sort && isDefaultFilters(listView.filters);
+
+  useEffect(() => {
+    pagingRef.current = paging;
+  }, [paging]);
 
   // ── Listen for auth state changes across tabs ──────────────────────────
   useEffect(() => {
@@ -31,7 +180,9 @@ export default function Dashboard({ initialBookmarks }: DashboardProps) {
       console.log("Auth event:", event);
 
       if (event === "SIGNED_OUT") {
-        // User signed out (in this tab or another tab) — redirect to login
+        // User signed out (in this tab or another tab) — forget the offline
+        // copy and redirect to login
+        clearOfflineData().catch((err) => console.error("Couldn't clear offline data:", err));
         router.push("/");
         router.refresh();
       }
@@ -49,40 +200,680 @@ export default function Dashboard({ initialBookmarks }: DashboardProps) {
     };
   }, [router]);
 
-  // Called by BookmarkForm immediately after successful insert
-  const handleBookmarkAdded = useCallback((newBookmark: Bookmark) => {
-    setBookmarks((prev) => {
-      if (prev.some((b) => b.id === newBookmark.id)) return prev;
-      return [newBookmark, ...prev];
-    });
+  // Adds rows in page order, ignoring ones already shown (an insert can
+  // arrive both from the form and from realtime)
+  const addBookmarks = useCallback((added: Bookmark[]) => {
+    setBookmarks((prev) => mergeBookmarks(prev, added, pagingRef.current));
   }, []);
 
-  // Called by BookmarkList when a bookmark is deleted
-  const handleBookmarkDeleted = useCallback((id: string) => {
+  // Edits apply wherever the row is shown; rows not loaded are left alone
+  const replaceBookmarks = useCallback((updated: Bookmark[]) => {
+    const byId = new Map(updated.map((b) => [b.id, b]));
+    const replace = (prev: Bookmark[]) =>
+      prev.some((b) => byId.has(b.id)) ? prev.map((b) => byId.get(b.id) ?? b) : prev;
+    setBookmarks(replace);
+    setSearchRows(replace);
+  }, []);
+
+  const removeBookmark = useCallback((id: string) => {
     setBookmarks((prev) => prev.filter((b) => b.id !== id));
+    setSearchRows((prev) => prev.filter((b) => b.id !== id));
+  }, []);
+
+  // Called by BookmarkForm immediately after successful insert
+  const handleBookmarkAdded = useCallback((newBookmark: Bookmark) => addBookmarks([newBookmark]), [addBookmarks]);
+
+  // Called by BookmarkList when a bookmark is deleted
+  const handleBookmarkDeleted = removeBookmark;
+
+  // Called by BookmarkList after an inline edit is saved
+  const handleBookmarkUpdated = useCallback((updated: Bookmark) => replaceBookmarks([updated]), [replaceBookmarks]);
+
+  // Called by LinkHealthBar with each checked batch
+  const handleLinksChecked = replaceBookmarks;
+
+  // Called by BookmarkList when Realtime fires (cross-tab sync). An update
+  // can bring back a row restored from the Trash, so it's added if missing.
+  const handleRealtimeInsert = handleBookmarkAdded;
+  const handleRealtimeUpdate = useCallback((updated: Bookmark) => {
+    replaceBookmarks([updated]);
+    addBookmarks([updated]);
+  }, [replaceBookmarks, addBookmarks]);
+  const handleRealtimeDelete = removeBookmark;
+
+  // Called by BookmarkList after a batch action. Rows trashed or moved
+  // elsewhere leave; restored ones rejoin in page order.
+  const handleBulkApplied = useCallback((change: BulkChange) => {
+    if (change.removedIds && change.removedIds.length > 0) {
+      const removed = new Set(change.removedIds);
+      setBookmarks((prev) => prev.filter((b) => !removed.has(b.id)));
+      setSearchRows((prev) => prev.filter((b) => !removed.has(b.id)));
+    }
+    if (change.restored && change.restored.length > 0) addBookmarks(change.restored);
+    if (change.tags && change.tags.length > 0) setTags((prev) => mergeTags(prev, change.tags!));
+    if (change.addedLinks && change.addedLinks.length > 0) setLinks((prev) => mergeLinks(prev, change.addedLinks!));
+    if (change.removedLinks && change.removedLinks.length > 0) {
+      const removed = new Set(change.removedLinks.map((l) => `${l.bookmark_id}:${l.tag_id}`));
+      setLinks((prev) => prev.filter((l) => !removed.has(`${l.bookmark_id}:${l.tag_id}`)));
+    }
+  }, [addBookmarks]);
+
+  // Called by ImportPanel — imports can carry their original save dates,
+  // so rows older than the loaded pages turn up when those pages load
+  const handleImported = useCallback((report: ImportReport) => {
+    addBookmarks(report.bookmarks);
+    setTags((prev) => mergeTags(prev, report.tags));
+    setLinks((prev) => mergeLinks(prev, report.links));
+  }, [addBookmarks]);
+
+  // ── Pagination ──────────────────────────────────────────────────────────
+  // Called by BookmarkList as the end of the list scrolls near
+  const loadMore = useCallback(async () => {
+    const { cursor, hasMore } = pagingRef.current;
+    if (!hasMore || isLoadingMoreRef.current || isOffline()) return;
+    isLoadingMoreRef.current = true;
+    setIsLoadingMore(true);
+    setLoadMoreError(null);
+
+    const generation = listGenerationRef.current;
+    const { page, error } = await fetchBookmarkPage(
+      createClient(),
+      { userId, collectionId },
+      pageQueryRef.current,
+      cursor
+    );
+    isLoadingMoreRef.current = false;
+    setIsLoadingMore(false);
+    if (generation !== listGenerationRef.current) return;
+    if (!page) {
+      setLoadMoreError(error);
+      return;
+    }
+
+    // The ref is set here too: realtime rows merged before the next render
+    // must already be judged against the new cursor
+    const next = { sort: page.sort, cursor: page.cursor, hasMore: page.hasMore };
+    pagingRef.current = next;
+    setPaging(next);
+    setBookmarks((prev) => mergeBookmarks(prev, page.bookmarks, next));
+    setLinks((prev) => mergeLinks(prev, page.links));
+  }, [collectionId, userId]);
+
+  // A new sort or filter empties the list and loads its first page
+  useEffect(() => {
+    pageQueryRef.current = pageQuery;
+    if (pageQueryKey === loadedQueryKeyRef.current) return;
+    loadedQueryKeyRef.current = pageQueryKey;
+
+    listGenerationRef.current++;
+    const restart = { sort: pageQuery.sort, cursor: null, hasMore: true };
+    pagingRef.current = restart;
+    setPaging(restart);
+    setBookmarks([]);
+    setLoadMoreError(null);
+    loadMore();
+  }, [pageQuery, pageQueryKey, loadMore]);
+
+  // ── List view ───────────────────────────────────────────────────────────
+  const handleSortChange = useCallback((sort: BookmarkSort) => {
+    setListView((prev) => ({ ...prev, sort }));
+  }, []);
+
+  const handleLayoutChange = useCallback((layout: BookmarkLayout) => {
+    setListView((prev) => ({ ...prev, layout }));
+  }, []);
+
+  const handleFiltersChange = useCallback((changes: Partial<ListFilters>) => {
+    setListView((prev) => ({ ...prev, filters: { ...prev.filters, ...changes } }));
+  }, []);
+
+  const handleTagSelect = useCallback((tag: string | null) => handleFiltersChange({ tag }), [handleFiltersChange]);
+
+  const handleReadingFilterChange = useCallback(
+    (reading: ReadingFilter) => handleFiltersChange({ reading }),
+    [handleFiltersChange]
+  );
+
+  // Links into the dashboard (the Header's unread badge) re-render the
+  // page with a new view from the URL
+  useEffect(() => {
+    setListView(initialView);
+  }, [initialView]);
+
+  // The address bar always shows the current view, so it can be bookmarked
+  const listHref = listViewHref(listView, collectionId);
+  useEffect(() => {
+    if (window.location.pathname + window.location.search !== listHref) {
+      window.history.replaceState(null, "", listHref);
+    }
+  }, [listHref]);
+
+  // Saved once the user changes something — opening someone's link doesn't
+  // overwrite their own preferences
+  const savedViewHrefRef = useRef(listViewHref(initialView, null));
+  useEffect(() => {
+    const href = listViewHref(listView, null);
+    if (href === savedViewHrefRef.current || isOffline()) return;
+    const timer = setTimeout(async () => {
+      const error = await saveListView(createClient(), userId, listView);
+      if (error) console.error("Couldn't save list view:", error);
+      else savedViewHrefRef.current = href;
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [listView, userId]);
+
+  // ── Tags ────────────────────────────────────────────────────────────────
+  // Called by BookmarkForm / BookmarkItem after a bookmark's tags are saved
+  const handleTagsChanged = useCallback((bookmarkId: string, newTags: Tag[], newLinks: BookmarkTag[]) => {
+    setTags((prev) => mergeTags(prev, newTags));
+    setLinks((prev) => [...prev.filter((l) => l.bookmark_id !== bookmarkId), ...newLinks]);
+  }, []);
+
+  const handleRealtimeTagUpsert = useCallback((tag: Tag) => {
+    setTags((prev) => mergeTags(prev, [tag]));
   }, []);
 
-  // Called by BookmarkList when Realtime fires (cross-tab sync)
-  const handleRealtimeInsert = useCallback((newBookmark: Bookmark) => {
-    setBookmarks((prev) => {
-      if (prev.some((b) => b.id === newBookmark.id)) return prev;
-      return [newBookmark, ...prev];
+  const handleRealtimeTagDelete = useCallback((id: string) => {
+    setTags((prev) => prev.filter((t) => t.id !== id));
+    setLinks((prev) => prev.filter((l) => l.tag_id !== id));
+  }, []);
+
+  const handleRealtimeLinkInsert = useCallback((link: BookmarkTag) => {
+    setLinks((prev) => {
+      if (prev.some((l) => l.bookmark_id === link.bookmark_id && l.tag_id === link.tag_id)) return prev;
+      return [...prev, link];
     });
   }, []);
 
-  const handleRealtimeDelete = useCallback((id: string) => {
-    setBookmarks((prev) => prev.filter((b) => b.id !== id));
+  const handleRealtimeLinkDelete = useCallback((link: BookmarkTag) => {
+    setLinks((prev) =>
+      prev.filter((l) => !(l.bookmark_id === link.bookmark_id && l.tag_id === link.tag_id))
+    );
   }, []);
 
+  // ── Offline ─────────────────────────────────────────────────────────────
+  // Skipped in development, where cached assets would fight hot reloading
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+    navigator.serviceWorker.register("/sw.js").catch((err) => {
+      console.error("Service worker registration failed:", err);
+    });
+  }, []);
+
+  // Opened offline: the page came from the service worker's cache, so the
+  // local snapshot is the freshest copy there is
+  // Only the default view is mirrored, so only it can be restored
+  const isDefaultViewRef = useRef(isDefaultView);
+  useEffect(() => {
+    if (!isOffline() || !isDefaultViewRef.current) {
+      snapshotReadyRef.current = true;
+      return;
+    }
+    let cancelled = false;
+    readSnapshot(snapshotKey(collectionId))
+      .then((snapshot) => {
+        if (cancelled || !snapshot) return;
+        // Snapshots hold an unbroken run from the newest row, like the list
+        const last = snapshot.bookmarks[snapshot.bookmarks.length - 1];
+        const sort = DEFAULT_LIST_VIEW.sort;
+        const restored = { sort, cursor: last ? pageCursor(last, sort) : null, hasMore: true };
+        pagingRef.current = restored;
+        setPaging(restored);
+        setBookmarks(snapshot.bookmarks);
+        setTags(snapshot.tags);
+        setLinks(snapshot.links);
+      })
+      .catch((err) => console.error("Couldn't read offline copy:", err))
+      .finally(() => {
+        snapshotReadyRef.current = true;
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [collectionId]);
+
+  // Debounced so bursts of realtime events write once
+  useEffect(() => {
+    if (!snapshotReadyRef.current || !isDefaultView) return;
+    const timer = setTimeout(() => {
+      writeSnapshot({
+        view: snapshotKey(collectionId),
+        bookmarks,
+        tags,
+        links,
+        savedAt: new Date().toISOString(),
+      }).catch((err) => console.error("Couldn't save offline copy:", err));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [collectionId, isDefaultView, bookmarks, tags, links]);
+
+  // Replays queued changes, then reloads the view so it reflects what the
+  // server kept — including anything missed while offline
+  const syncQueuedChanges = useCallback(async () => {
+    if ((await refreshPendingCount()) === 0) return;
+    setIsSyncing(true);
+    const supabase = createClient();
+    const report = await replayMutations(supabase);
+    setIsSyncing(false);
+    if (report.conflicts.length > 0) setSyncConflicts((prev) => [...prev, ...report.conflicts]);
+
+    // Starts again from the first page; older pages reload as they're scrolled to
+    const generation = ++listGenerationRef.current;
+    const { page, error } = await fetchBookmarkPage(supabase, { userId, collectionId }, pageQueryRef.current, null);
+    if (generation !== listGenerationRef.current) return;
+    if (!page) {
+      console.error("Reload after sync failed:", error);
+      return;
+    }
+    const next = { sort: page.sort, cursor: page.cursor, hasMore: page.hasMore };
+    pagingRef.current = next;
+    setPaging(next);
+    setLoadMoreError(null);
+    setBookmarks(page.bookmarks);
+    setLinks((prev) => mergeLinks(prev, page.links));
+  }, [collectionId, userId]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncQueuedChanges();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    setIsOnline(navigator.onLine);
+    // Changes left over from an earlier visit
+    if (navigator.onLine) syncQueuedChanges();
+    else refreshPendingCount();
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [syncQueuedChanges]);
+
+  // ── Search ──────────────────────────────────────────────────────────────
+  // Debounced; also re-runs when `bookmarks` changes so realtime inserts,
+  // edits and deletes are reflected in the ranked results.
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setSearchResults(null);
+      setSearchError(null);
+      setIsSearching(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsSearching(true);
+
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/search?q=${encodeURIComponent(trimmed)}`, {
+          signal: controller.signal,
+        });
+        const body = await res.json();
+        if (!res.ok) throw new Error(body.error ?? "Search failed");
+        setSearchResults(body.results as SearchResult[]);
+        setSearchError(null);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setSearchError(err instanceof Error ? err.message : "Search failed");
+      }
+      setIsSearching(false);
+    }, 250);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, bookmarks]);
+
+  // Hits beyond the loaded pages are fetched so the results are complete
+  useEffect(() => {
+    if (!searchResults) {
+      requestedSearchIdsRef.current.clear();
+      setSearchRows((prev) => (prev.length === 0 ? prev : []));
+      return;
+    }
+    const shown = new Set([...bookmarks, ...searchRows].map((b) => b.id));
+    const requested = requestedSearchIdsRef.current;
+    const missing = searchResults.map((r) => r.id).filter((id) => !shown.has(id) && !requested.has(id));
+    if (missing.length === 0) return;
+    missing.forEach((id) => requested.add(id));
+
+    let cancelled = false;
+    let finished = false;
+    fetchBookmarksById(createClient(), { userId, collectionId }, missing).then(
+      ({ bookmarks: found, links: foundLinks, error }) => {
+        finished = true;
+        if (cancelled) return;
+        if (error) {
+          setSearchError(error);
+          return;
+        }
+        if (found.length === 0) return;
+        setSearchRows((prev) => [...prev.filter((b) => !missing.includes(b.id)), ...found]);
+        setLinks((prev) => mergeLinks(prev, foundLinks));
+      }
+    );
+    return () => {
+      cancelled = true;
+      // Dropped before it answered, so ask again next time
+      if (!finished) missing.forEach((id) => requested.delete(id));
+    };
+  }, [searchResults, bookmarks, searchRows, userId, collectionId]);
+
+  // Counts cover the whole view, so they're re-read after changes settle
+  // rather than counted from the loaded rows
+  useEffect(() => {
+    if (bookmarks === initialBookmarksRef.current || isOffline()) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const fresh = await fetchBookmarkCounts(createClient(), { userId, collectionId });
+      if (!cancelled && fresh) setCounts(fresh);
+    }, 1000);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [bookmarks, userId, collectionId]);
+
+  const viewCounts = useMemo(
+    () => (counts && isOnline ? counts : countLoaded(bookmarks)),
+    [counts, isOnline, bookmarks]
+  );
+
+  // The Header badge counts personal bookmarks only
+  useEffect(() => {
+    if (collection) return;
+    setUnreadCount(viewCounts.unread);
+  }, [collection, viewCounts.unread]);
+
+  const tagsByBookmark = useMemo(() => groupTagsByBookmark(tags, links), [tags, links]);
+
+  // Realtime delivers links for every bookmark the user can see, including
+  // other collections — the filter bar only counts this view's
+  const viewLinks = useMemo(() => {
+    const ids = new Set(bookmarks.map((b) => b.id));
+    return links.filter((l) => ids.has(l.bookmark_id));
+  }, [bookmarks, links]);
+
+  // Tags and their parent folders used in this view, for share links
+  const shareableTagNames = useMemo(() => {
+    const ids = new Set(viewLinks.map((l) => l.tag_id));
+    return expandFolders(tags.filter((t) => ids.has(t.id)).map((t) => t.name));
+  }, [tags, viewLinks]);
+
+  // Canonical URL → bookmark, for the form's "already saved" prompt.
+  // Rows saved before canonical_url existed are keyed on the fly.
+  const bookmarksByCanonicalUrl = useMemo(() => {
+    const byUrl = new Map<string, Bookmark>();
+    for (const b of bookmarks) {
+      const key = b.canonical_url ?? tryCanonicaliseUrl(b.url);
+      if (key && !byUrl.has(key)) byUrl.set(key, b);
+    }
+    return byUrl;
+  }, [bookmarks]);
+
+  const findDuplicate = useCallback(
+    (url: string): DuplicateMatch | null => {
+      const key = tryCanonicaliseUrl(url);
+      const bookmark = key ? bookmarksByCanonicalUrl.get(key) : undefined;
+      return bookmark ? { bookmark, tags: tagsByBookmark.get(bookmark.id) ?? [] } : null;
+    },
+    [bookmarksByCanonicalUrl, tagsByBookmark]
+  );
+
+  const highlights = useMemo(
+    () => new Map((searchResults ?? []).map((r) => [r.id, r])),
+    [searchResults]
+  );
+
+  // Pages arrive filtered; this catches rows that came by realtime, search
+  // or an edit (marking one read in the Unread view drops it)
+  const visibleBookmarks = useMemo(() => {
+    let visible = searchResults ? [...bookmarks, ...searchRows] : bookmarks;
+
+    if (!isDefaultFilters(listView.filters)) {
+      visible = visible.filter((b) =>
+        matchesListFilters(b, listView.filters, (tagsByBookmark.get(b.id) ?? []).map((t) => t.name))
+      );
+    }
+
+    if (brokenOnly) {
+      visible = visible.filter((b) => b.link_status === "broken");
+    }
+
+    if (searchResults) {
+      // Keep only matches, ordered by rank (results arrive best-first)
+      const order = new Map(searchResults.map((r, i) => [r.id, i]));
+      visible = visible
+        .filter((b) => order.has(b.id))
+        .sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+    }
+
+    return visible;
+  }, [bookmarks, searchRows, tagsByBookmark, listView.filters, brokenOnly, searchResults]);
+
+  const canEdit = canEditBookmarks(role);
+
+  // The other lists this user can add to
+  const moveTargets = useMemo<MoveTarget[]>(() => {
+    const targets: MoveTarget[] = collectionId ? [{ collectionId: null, name: "Personal" }] : [];
+    for (const { role: memberRole, collection: c } of memberships) {
+      if (c.id !== collectionId && canEditBookmarks(memberRole)) targets.push({ collectionId: c.id, name: c.name });
+    }
+    return targets;
+  }, [memberships, collectionId]);
+
+  // Search and the broken-links filter work on loaded rows only, so the
+  // server can't list their matches
+  const isServerFiltered = searchResults === null && !brokenOnly;
+  const selectAllMatching = useCallback(
+    () => fetchBookmarkIds(createClient(), { userId, collectionId }, pageQueryRef.current, MAX_BULK_SELECTION),
+    [userId, collectionId]
+  );
+
+  // ── Command palette ──────────────────────────────────────────────────────
+  useEffect(() => {
+    const focusField = (id: string) => {
+      const field = document.getElementById(id);
+      field?.scrollIntoView({ block: "center" });
+      field?.focus();
+    };
+
+    const commands: PaletteCommand[] = [];
+    if (canEdit) {
+      commands.push({
+        id: "add-bookmark",
+        label: "Add bookmark",
+        group: "Bookmarks",
+        keywords: "new save",
+        shortcut: "n",
+        run: () => focusField("bookmark-url"),
+      });
+    }
+    commands.push({
+      id: "search",
+      label: "Search bookmarks",
+      group: "Bookmarks",
+      keywords: "find",
+      shortcut: "/",
+      run: () => focusField("bookmark-search"),
+    });
+
+    for (const [layout, label] of Object.entries(LAYOUT_OPTIONS) as [BookmarkLayout, string][]) {
+      if (layout === listView.layout) continue;
+      commands.push({ id: `layout-${layout}`, label: `Layout: ${label}`, group: "View", run: () => handleLayoutChange(layout) });
+    }
+    for (const [sort, label] of Object.entries(SORT_OPTIONS) as [BookmarkSort, string][]) {
+      if (sort === listView.sort) continue;
+      commands.push({ id: `sort-${sort}`, label: `Sort: ${label}`, group: "View", run: () => handleSortChange(sort) });
+    }
+    for (const [reading, label] of Object.entries(READING_FILTERS) as [ReadingFilter, string][]) {
+      if (reading === listView.filters.reading) continue;
+      commands.push({
+        id: `reading-${reading}`,
+        label: `Show: ${label}`,
+        group: "View",
+        keywords: "reading filter",
+        run: () => handleReadingFilterChange(reading),
+      });
+    }
+    if (!isDefaultFilters(listView.filters) || brokenOnly) {
+      commands.push({
+        id: "clear-filters",
+        label: "Clear filters",
+        group: "View",
+        keywords: "reset",
+        run: () => {
+          handleFiltersChange(DEFAULT_LIST_VIEW.filters);
+          setBrokenOnly(false);
+        },
+      });
+    }
+
+    const lists = [
+      { id: null, name: "Personal" },
+      ...memberships.map(({ collection: c }) => ({ id: c.id, name: c.name })),
+    ];
+    for (const list of lists) {
+      if (list.id === collectionId) continue;
+      commands.push({
+        id: `collection-${list.id ?? "personal"}`,
+        label: `Switch to ${list.name}`,
+        group: "Lists",
+        keywords: "collection",
+        run: () => router.push(collectionHref(list.id)),
+      });
+    }
+
+    setPaletteItems("dashboard", {
+      commands,
+      bookmarks: [...bookmarks, ...searchRows].map((b) => ({
+        id: b.id,
+        title: b.title,
+        url: b.url,
+        tags: (tagsByBookmark.get(b.id) ?? []).map((t) => t.name),
+      })),
+    });
+  }, [
+    canEdit,
+    listView,
+    brokenOnly,
+    memberships,
+    collectionId,
+    bookmarks,
+    searchRows,
+    tagsByBookmark,
+    router,
+    handleLayoutChange,
+    handleSortChange,
+    handleReadingFilterChange,
+    handleFiltersChange,
+  ]);
+
+  useEffect(() => () => setPaletteItems("dashboard", null), []);
+
   return (
     <>
-      <BookmarkForm onBookmarkAdded={handleBookmarkAdded} />
-      <BookmarkList
+      <CollectionInvites invites={invites} />
+      <CollectionSwitcher memberships={memberships} activeId={collectionId} />
+      {collection && role && <CollectionMembers collection={collection} role={role} userId={userId} />}
+      {(collection === null || role === "owner") && (
+        <SharePanel userId={userId} collection={collection} tagNames={shareableTagNames} />
+      )}
+      {canEdit && (
+        <>
+          <BookmarkForm
+            userId={userId}
+            collectionId={collectionId}
+            findDuplicate={findDuplicate}
+            onBookmarkAdded={handleBookmarkAdded}
+            onBookmarkUpdated={handleBookmarkUpdated}
+            onTagsChanged={handleTagsChanged}
+          />
+          <ImportPanel collectionId={collectionId} onImported={handleImported} />
+        </>
+      )}
+      {collection === null && <QuickCapturePanel />}
+      <SearchBar value={query} isSearching={isSearching} onChange={setQuery} />
+      {searchError && (
+        <p className="text-xs text-red-600 bg-red-50 border border-red-100 rounded-lg px-3 py-2">
+          {searchError}
+        </p>
+      )}
+      <ReadingListTabs
+        counts={viewCounts}
+        selected={listView.filters.reading}
+        canEdit={canEdit}
+        onSelect={handleReadingFilterChange}
+      />
+      <TagFilter tags={tags} links={viewLinks} selected={listView.filters.tag} onSelect={handleTagSelect} />
+      <LinkHealthBar
         bookmarks={bookmarks}
+        counts={viewCounts}
+        canEdit={canEdit}
+        brokenOnly={brokenOnly}
+        onBrokenOnlyChange={setBrokenOnly}
+        onChecked={handleLinksChecked}
+      />
+      <ListControls view={listView} onSortChange={handleSortChange} onFiltersChange={handleFiltersChange} />
+      {syncConflicts.length > 0 && (
+        <div className="flex items-start gap-2 bg-amber-50 border border-amber-100 rounded-lg px-3 py-2 animate-fade-in">
+          <ul className="flex-1 min-w-0 space-y-1 text-xs text-amber-700">
+            {syncConflicts.map((message, i) => (
+              <li key={i}>{message}</li>
+            ))}
+          </ul>
+          <button type="button" onClick={() => setSyncConflicts([])} className="btn-secondary">
+            Dismiss
+          </button>
+        </div>
+      )}
+      <BookmarkList
+        userId={userId}
+        bookmarks={visibleBookmarks}
+        tags={tags}
+        tagsByBookmark={tagsByBookmark}
+        highlights={highlights}
+        collectionId={collectionId}
+        canEdit={canEdit}
+        moveTargets={moveTargets}
+        isFiltered={!isDefaultFilters(listView.filters) || brokenOnly || searchResults !== null}
+        viewKey={`${pageQueryKey}|${brokenOnly}|${query.trim()}`}
+        layout={listView.layout}
+        total={viewCounts.total}
+        hasMore={paging.hasMore && searchResults === null}
+        isLoadingMore={isLoadingMore}
+        loadMoreError={loadMoreError}
+        isOnline={isOnline}
+        isSyncing={isSyncing}
+        pendingChanges={pendingChanges}
         onBookmarkDeleted={handleBookmarkDeleted}
+        onBookmarkUpdated={handleBookmarkUpdated}
+        onBulkApplied={handleBulkApplied}
+        onSelectAllMatching={paging.hasMore && isServerFiltered ? selectAllMatching : null}
+        onTagsChanged={handleTagsChanged}
+        onTagClick={handleTagSelect}
+        onLayoutChange={handleLayoutChange}
+        onLoadMore={loadMore}
         onRealtimeInsert={handleRealtimeInsert}
+        onRealtimeUpdate={handleRealtimeUpdate}
         onRealtimeDelete={handleRealtimeDelete}
+        onRealtimeTagUpsert={handleRealtimeTagUpsert}
+        onRealtimeTagDelete={handleRealtimeTagDelete}
+        onRealtimeLinkInsert={handleRealtimeLinkInsert}
+        onRealtimeLinkDelete={handleRealtimeLinkDelete}
       />
     </>
   );
 }
+
+function mergeTags(existing: Tag[], incoming: Tag[]): Tag[] {
+  const byId = new Map(existing.map((t) => [t.id, t]));
+  incoming.forEach((t) => byId.set(t.id, t));
+  return Array.from(byId.values());
+}
@@ -0,0 +1,133 @@
+/**
+ * components/ExportMenu.tsx
+ *
+ * Header dropdown for downloading bookmarks. Each format is a plain link
+ * to /api/export, so the browser handles the streamed download itself.
+ * "Count clicks" exports /go links, so opens from the file show up in
+ * the visit counts.
+ */
+
+"use client";
+
+import { useState, useRef, useEffect } from "react";
+import type { ExportFormat } from "@/lib/types";
+
+const FORMATS: { format: ExportFormat; label: string; hint: string }[] = [
+  { format: "html", label: "Browser HTML", hint: "Import into Chrome, Firefox, Safari" },
+  { format: "json", label: "JSON", hint: "Full backup, re-importable" },
+  { format: "csv", label: "CSV", hint: "Spreadsheets" },
+  { format: "md", label: "Markdown", hint: "Paste into docs" },
+];
+
+export default function ExportMenu() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [tag, setTag] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [tracked, setTracked] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const exportHref = (format: ExportFormat) => {
+    const params = new URLSearchParams({ format });
+    if (tag.trim()) params.set("tag", tag.trim());
+    if (from) params.set("from", from);
+    if (to) params.set("to", to);
+    if (tracked) params.set("tracked", "1");
+    return `/api/export?${params.toString()}`;
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium
+                   text-slate-600 hover:bg-slate-100 hover:text-slate-900
+                   focus:outline-none focus:ring-2 focus:ring-slate-400 focus:ring-offset-1
+                   transition-all duration-150"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+        </svg>
+        <span className="hidden sm:inline">Export</span>
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 mt-2 w-72 bg-white rounded-xl border border-slate-100 shadow-lg p-3 space-y-3 animate-fade-in z-20"
+        >
+          <div className="space-y-2">
+            <input
+              type="text"
+              value={tag}
+              onChange={(e) => setTag(e.target.value)}
+              placeholder="Only tag or folder (optional)"
+              className="input-field !py-1.5 !text-xs"
+              aria-label="Tag filter"
+            />
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+                className="input-field !py-1.5 !px-2 !text-xs"
+                aria-label="From date"
+              />
+              <span className="text-xs text-slate-400">to</span>
+              <input
+                type="date"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+                className="input-field !py-1.5 !px-2 !text-xs"
+                aria-label="To date"
+              />
+            </div>
+            <label className="flex items-start gap-2 text-xs text-slate-600">
+              <input
+                type="checkbox"
+                checked={tracked}
+                onChange={(e) => setTracked(e.target.checked)}
+                className="mt-0.5"
+              />
+              <span>
+                Count clicks
+                <span className="block text-[11px] text-slate-400">Links go through this site — not for importing elsewhere</span>
+              </span>
+            </label>
+          </div>
+
+          <hr className="border-slate-100" />
+
+          <ul className="space-y-0.5">
+            {FORMATS.map(({ format, label, hint }) => (
+              <li key={format}>
+                <a
+                  href={exportHref(format)}
+                  download
+                  role="menuitem"
+                  onClick={() => setIsOpen(false)}
+                  className="flex items-center justify-between px-2 py-1.5 rounded-lg hover:bg-slate-50"
+                >
+                  <span className="text-sm font-medium text-slate-700">{label}</span>
+                  <span className="text-[11px] text-slate-400">{hint}</span>
+                </a>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
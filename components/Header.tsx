@@ -1,8 +1,13 @@
 /**
  * components/Header.tsx
  *
- * Dashboard header — shows the app name, logged-in user's avatar/name,
- * and a Logout button.
+ * Dashboard header — shows the app name, the reading list's unread
+ * count, an Export menu, Insights, Trash and Settings links, the logged-in user's
+ * avatar/name, and a Logout button. The unread count comes from the
+ * shared store in lib/readingList.ts, which the dashboard keeps live.
+ * Also hosts the Cmd/Ctrl+K command palette (and its search button),
+ * with commands for moving between pages and signing out; pages add
+ * their own through lib/commandPalette.ts.
  *
  * Receives the `user` object as a prop from the Server Component parent,
  * so it can be a Client Component that handles the logout action.
@@ -10,10 +15,15 @@
 
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect, useCallback, useMemo, useSyncExternalStore } from "react";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
 import type { User } from "@supabase/supabase-js";
 import { createClient } from "@/lib/supabaseClient";
+import type { PaletteCommand } from "@/lib/commandPalette";
+import { getUnreadCount, readingListHref, setUnreadCount, subscribeUnreadCount } from "@/lib/readingList";
+import CommandPalette from "@/components/CommandPalette";
+import ExportMenu from "@/components/ExportMenu";
 import Image from "next/image";
 
 interface HeaderProps {
@@ -22,15 +32,52 @@ interface HeaderProps {
 
 export default function Header({ user }: HeaderProps) {
   const [isLoggingOut, setIsLoggingOut] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
   const router = useRouter();
+  const unreadCount = useSyncExternalStore(subscribeUnreadCount, getUnreadCount, () => null);
 
-  const handleLogout = async () => {
+  // Pages other than the dashboard only need a one-off count
+  useEffect(() => {
+    if (getUnreadCount() !== null) return;
+    const supabase = createClient();
+    supabase
+      .from("bookmarks")
+      .select("id", { count: "exact", head: true })
+      .is("collection_id", null)
+      .is("deleted_at", null)
+      .eq("user_id", user.id)
+      .eq("reading_status", "unread")
+      .then(({ count }) => {
+        if (count !== null && getUnreadCount() === null) setUnreadCount(count);
+      });
+  }, [user.id]);
+
+  const handleLogout = useCallback(async () => {
     setIsLoggingOut(true);
     const supabase = createClient();
     await supabase.auth.signOut();
     router.push("/");
     router.refresh();
-  };
+  }, [router]);
+
+  // Available on every page; the dashboard adds its own
+  const paletteCommands = useMemo<PaletteCommand[]>(() => {
+    const goTo = (id: string, label: string, href: string, keywords: string): PaletteCommand => ({
+      id,
+      label,
+      group: "Go to",
+      keywords,
+      run: () => router.push(href),
+    });
+    return [
+      goTo("go-dashboard", "Bookmarks", "/dashboard", "dashboard home list"),
+      goTo("go-unread", "Reading list", readingListHref("unread"), "unread"),
+      goTo("go-insights", "Insights", "/insights", "stats visits"),
+      goTo("go-trash", "Trash", "/trash", "deleted restore"),
+      goTo("go-settings", "Settings", "/settings", "tokens api preferences"),
+      { id: "sign-out", label: "Sign out", group: "Account", keywords: "log out logout", run: handleLogout },
+    ];
+  }, [router, handleLogout]);
 
   // Extract user display info from Google OAuth metadata
   const displayName =
@@ -71,6 +118,77 @@ export default function Header({ user }: HeaderProps) {
 
         {/* User info + logout */}
         <div className="flex items-center gap-3">
+          {unreadCount !== null && unreadCount > 0 && (
+            <Link
+              href={readingListHref("unread")}
+              className="flex items-center gap-1.5 px-2.5 py-1 rounded-full bg-blue-50 text-blue-700 text-xs font-medium
+                         hover:bg-blue-100 transition-colors duration-150"
+              title="Reading list"
+            >
+              <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+              </svg>
+              {unreadCount} unread
+            </Link>
+          )}
+
+          <button
+            type="button"
+            onClick={() => setIsPaletteOpen(true)}
+            className="flex items-center gap-1.5 px-2 py-1.5 rounded-lg text-sm text-slate-500 hover:bg-slate-100 hover:text-slate-900
+                       focus:outline-none focus:ring-2 focus:ring-slate-400 focus:ring-offset-1
+                       transition-all duration-150"
+            aria-label="Open command palette"
+            title="Search and commands (⌘K / Ctrl+K)"
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M21 21l-4.35-4.35M17 11a6 6 0 11-12 0 6 6 0 0112 0z" />
+            </svg>
+            <kbd className="hidden sm:inline text-[11px] font-mono text-slate-400">⌘K</kbd>
+          </button>
+
+          <ExportMenu />
+
+          <Link
+            href="/insights"
+            className="flex items-center p-1.5 rounded-lg text-slate-600 hover:bg-slate-100 hover:text-slate-900
+                       focus:outline-none focus:ring-2 focus:ring-slate-400 focus:ring-offset-1
+                       transition-all duration-150"
+            aria-label="Insights"
+            title="Insights"
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+            </svg>
+          </Link>
+
+          <Link
+            href="/trash"
+            className="flex items-center p-1.5 rounded-lg text-slate-600 hover:bg-slate-100 hover:text-slate-900
+                       focus:outline-none focus:ring-2 focus:ring-slate-400 focus:ring-offset-1
+                       transition-all duration-150"
+            aria-label="Trash"
+            title="Trash"
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+            </svg>
+          </Link>
+
+          <Link
+            href="/settings"
+            className="flex items-center p-1.5 rounded-lg text-slate-600 hover:bg-slate-100 hover:text-slate-900
+                       focus:outline-none focus:ring-2 focus:ring-slate-400 focus:ring-offset-1
+                       transition-all duration-150"
+            aria-label="Settings"
+            title="Settings"
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+              <path strokeLinecap="round" strokeLinejoin="round" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+            </svg>
+          </Link>
+
           {/* Avatar + name */}
           <div className="flex items-center gap-2.5">
             {avatarUrl ? (
@@ -148,6 +266,7 @@ export default function Header({ user }: HeaderProps) {
           </button>
         </div>
       </div>
+      <CommandPalette isOpen={isPaletteOpen} onOpenChange={setIsPaletteOpen} commands={paletteCommands} />
     </header>
   );
 }
@@ -0,0 +1,26 @@
+/**
+ * components/Highlight.tsx
+ * Renders a search_bookmarks() headline with matched words in <mark>.
+ */
+
+import { splitHighlight } from "@/lib/search";
+
+interface HighlightProps {
+  text: string;
+}
+
+export default function Highlight({ text }: HighlightProps) {
+  return (
+    <>
+      {splitHighlight(text).map((segment, i) =>
+        segment.match ? (
+          <mark key={i} className="bg-amber-100 text-inherit rounded-sm px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={i}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,140 @@
+/**
+ * components/ImportPanel.tsx
+ *
+ * Collapsible "Import bookmarks" card. Uploads a browser export, CSV or
+ * JSON file to /api/import and shows a per-row report of anything that
+ * was skipped. Imports go into the collection being viewed, if any.
+ */
+
+"use client";
+
+import { useState, useRef } from "react";
+import type { ImportReport } from "@/lib/types";
+
+interface ImportPanelProps {
+  collectionId: string | null;
+  onImported: (report: ImportReport) => void;
+}
+
+const ISSUE_LABELS = {
+  invalid: "Invalid",
+  duplicate: "Duplicate",
+  failed: "Failed",
+};
+
+export default function ImportPanel({ collectionId, onImported }: ImportPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setReport(null);
+
+    const file = fileRef.current?.files?.[0];
+    if (!file) {
+      setError("Choose a file to import.");
+      return;
+    }
+
+    setIsImporting(true);
+
+    const body = new FormData();
+    body.append("file", file);
+    if (collectionId) body.append("collection_id", collectionId);
+
+    try {
+      const res = await fetch("/api/import", { method: "POST", body });
+      const result = await res.json();
+      if (!res.ok) throw new Error(result.error ?? "Import failed");
+
+      setReport(result as ImportReport);
+      onImported(result as ImportReport);
+      if (fileRef.current) fileRef.current.value = "";
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import failed");
+    }
+
+    setIsImporting(false);
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-100 shadow-sm animate-fade-in">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className="w-full flex items-center justify-between px-5 py-3 text-sm font-semibold text-slate-700"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center gap-2">
+          <svg className="w-4 h-4 text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+          </svg>
+          Import bookmarks
+        </span>
+        <svg
+          className={`w-4 h-4 text-slate-400 transition-transform duration-200 ${isOpen ? "rotate-180" : ""}`}
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+          strokeWidth={2}
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <form onSubmit={handleImport} className="px-5 pb-5 space-y-3">
+          <p className="text-xs text-slate-500">
+            Upload a bookmarks <strong>.html</strong> file exported from Chrome, Firefox, Safari or Edge,
+            a Pocket or Raindrop <strong>.csv</strong>, or a <strong>.json</strong> list. Folders become
+            tags and links you already have are skipped.
+          </p>
+
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".html,.htm,.csv,.json,.txt"
+            disabled={isImporting}
+            className="block w-full text-xs text-slate-600 file:mr-3 file:px-3 file:py-1.5 file:rounded-md
+                       file:border-0 file:bg-slate-100 file:text-slate-700 file:font-medium hover:file:bg-slate-200"
+          />
+
+          {error && (
+            <p className="text-xs text-red-600 bg-red-50 border border-red-100 rounded-lg px-3 py-2">{error}</p>
+          )}
+
+          {report && (
+            <div className="space-y-2">
+              <p className="text-xs text-green-700 bg-green-50 border border-green-100 rounded-lg px-3 py-2 font-medium">
+                Imported {report.imported} of {report.total} bookmark{report.total !== 1 ? "s" : ""}.
+              </p>
+              {report.issues.length > 0 && (
+                <ul className="max-h-48 overflow-y-auto text-xs divide-y divide-slate-100 border border-slate-100 rounded-lg">
+                  {report.issues.map((issue, i) => (
+                    <li key={`${issue.line}-${i}`} className="flex gap-2 px-3 py-1.5">
+                      <span className="text-slate-400 flex-shrink-0">Row {issue.line}</span>
+                      <span className={`flex-shrink-0 font-medium ${issue.status === "duplicate" ? "text-amber-600" : "text-red-600"}`}>
+                        {ISSUE_LABELS[issue.status]}
+                      </span>
+                      <span className="text-slate-600 truncate" title={`${issue.url} — ${issue.message}`}>
+                        {issue.url || "(no URL)"} — {issue.message}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <button type="submit" disabled={isImporting} className="btn-primary">
+            {isImporting ? "Importing…" : "Import"}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
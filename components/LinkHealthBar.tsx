@@ -0,0 +1,103 @@
+/**
+ * components/LinkHealthBar.tsx
+ *
+ * Link health summary above the list: counts of broken and redirected
+ * links, a "Broken links" filter toggle, and a "Check links" button that
+ * runs the dead-link checker over the loaded part of the view in batches.
+ * The counts are the whole view's (bookmark_counts()); the nightly job
+ * covers rows that haven't been scrolled to.
+ */
+
+"use client";
+
+import { useState } from "react";
+import type { BookmarkCounts } from "@/lib/bookmarkPages";
+import { LINK_CHECK_BATCH_SIZE } from "@/lib/linkStatus";
+import type { Bookmark } from "@/lib/types";
+
+interface LinkHealthBarProps {
+  bookmarks: Bookmark[];
+  counts: BookmarkCounts;
+  canEdit: boolean;
+  brokenOnly: boolean;
+  onBrokenOnlyChange: (brokenOnly: boolean) => void;
+  onChecked: (bookmarks: Bookmark[]) => void;
+}
+
+export default function LinkHealthBar({
+  bookmarks,
+  counts,
+  canEdit,
+  brokenOnly,
+  onBrokenOnlyChange,
+  onChecked,
+}: LinkHealthBarProps) {
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { broken, redirected, unchecked } = counts;
+
+  if (counts.total === 0) return null;
+
+  const handleCheck = async () => {
+    setError(null);
+
+    // Never-checked first, then the oldest results
+    const ids = [...bookmarks]
+      .sort((a, b) => (a.link_checked_at ?? "").localeCompare(b.link_checked_at ?? ""))
+      .map((b) => b.id);
+    setProgress({ done: 0, total: ids.length });
+
+    for (let i = 0; i < ids.length; i += LINK_CHECK_BATCH_SIZE) {
+      try {
+        const res = await fetch("/api/link-check", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ ids: ids.slice(i, i + LINK_CHECK_BATCH_SIZE) }),
+        });
+        const body = await res.json();
+        if (!res.ok) throw new Error(body.error ?? "Link check failed");
+        onChecked(body.bookmarks as Bookmark[]);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Link check failed");
+        break;
+      }
+      setProgress({ done: Math.min(i + LINK_CHECK_BATCH_SIZE, ids.length), total: ids.length });
+    }
+
+    setProgress(null);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs animate-fade-in">
+      <button
+        type="button"
+        onClick={() => onBrokenOnlyChange(!brokenOnly)}
+        disabled={broken === 0 && !brokenOnly}
+        className={`px-3 py-1 rounded-full font-medium border transition-colors duration-150 disabled:opacity-50 ${
+          brokenOnly
+            ? "bg-red-600 border-red-600 text-white"
+            : "bg-white border-slate-200 text-slate-600 hover:border-red-300 hover:text-red-600"
+        }`}
+        aria-pressed={brokenOnly}
+      >
+        Broken links · {broken}
+      </button>
+      {redirected > 0 && <span className="text-amber-600">{redirected} redirected</span>}
+      {unchecked > 0 && <span className="text-slate-400">{unchecked} not checked yet</span>}
+
+      {canEdit && (
+        <button
+          type="button"
+          onClick={handleCheck}
+          disabled={progress !== null}
+          className="btn-secondary ml-auto"
+        >
+          {progress ? `Checking ${progress.done}/${progress.total}…` : "Check links"}
+        </button>
+      )}
+
+      {error && <p className="w-full text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+/**
+ * components/ListControls.tsx
+ *
+ * Sort order and the domain / date range filters above the bookmark
+ * list. The tag and reading-list filters have their own bars (TagFilter,
+ * ReadingListTabs). The domain is applied on Enter or when the field
+ * loses focus, so typing doesn't fetch a page per keystroke.
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  normaliseDomain,
+  SORT_OPTIONS,
+  isBookmarkSort,
+  type BookmarkSort,
+  type ListFilters,
+  type ListView,
+} from "@/lib/listView";
+
+interface ListControlsProps {
+  view: ListView;
+  onSortChange: (sort: BookmarkSort) => void;
+  onFiltersChange: (changes: Partial<ListFilters>) => void;
+}
+
+const SORTS = Object.keys(SORT_OPTIONS) as BookmarkSort[];
+
+export default function ListControls({ view, onSortChange, onFiltersChange }: ListControlsProps) {
+  const { domain, from, to } = view.filters;
+  const [domainInput, setDomainInput] = useState(domain ?? "");
+
+  // Follows changes made elsewhere (URL, clearing the filters)
+  useEffect(() => {
+    setDomainInput(domain ?? "");
+  }, [domain]);
+
+  const applyDomain = () => {
+    const next = normaliseDomain(domainInput);
+    setDomainInput(next ?? "");
+    if (next !== domain) onFiltersChange({ domain: next });
+  };
+
+  const hasFilters = domain !== null || from !== null || to !== null;
+
+  return (
+    <div className="flex flex-wrap items-end gap-2 animate-fade-in">
+      <label className="flex flex-col gap-1 text-[11px] font-medium text-slate-400 uppercase tracking-wide">
+        Sort
+        <select
+          value={view.sort}
+          onChange={(e) => { if (isBookmarkSort(e.target.value)) onSortChange(e.target.value); }}
+          className="input-field py-1.5 text-xs normal-case tracking-normal"
+        >
+          {SORTS.map((sort) => (
+            <option key={sort} value={sort}>
+              {SORT_OPTIONS[sort]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex flex-col gap-1 text-[11px] font-medium text-slate-400 uppercase tracking-wide flex-1 min-w-[8rem]">
+        Domain
+        <input
+          type="text"
+          value={domainInput}
+          onChange={(e) => setDomainInput(e.target.value)}
+          onBlur={applyDomain}
+          onKeyDown={(e) => { if (e.key === "Enter") applyDomain(); }}
+          placeholder="example.com"
+          className="input-field py-1.5 text-xs normal-case tracking-normal"
+          autoComplete="off"
+          spellCheck={false}
+        />
+      </label>
+
+      <label className="flex flex-col gap-1 text-[11px] font-medium text-slate-400 uppercase tracking-wide">
+        Saved from
+        <input
+          type="date"
+          value={from ?? ""}
+          max={to ?? undefined}
+          onChange={(e) => onFiltersChange({ from: e.target.value || null })}
+          className="input-field py-1.5 text-xs normal-case tracking-normal"
+        />
+      </label>
+
+      <label className="flex flex-col gap-1 text-[11px] font-medium text-slate-400 uppercase tracking-wide">
+        To
+        <input
+          type="date"
+          value={to ?? ""}
+          min={from ?? undefined}
+          onChange={(e) => onFiltersChange({ to: e.target.value || null })}
+          className="input-field py-1.5 text-xs normal-case tracking-normal"
+        />
+      </label>
+
+      {hasFilters && (
+        <button
+          type="button"
+          onClick={() => onFiltersChange({ domain: null, from: null, to: null })}
+          className="btn-secondary"
+        >
+          Clear
+        </button>
+      )}
+    </div>
+  );
+}
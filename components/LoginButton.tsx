@@ -3,7 +3,8 @@
  *
  * Google OAuth login button.
  * Also listens for SIGNED_IN auth event so if user is already logged in
- * in another tab, this tab auto-redirects to dashboard.
+ * in another tab, this tab auto-redirects to dashboard — or to `next`,
+ * the page that sent the visitor here to sign in.
  */
 
 "use client";
@@ -12,7 +13,11 @@ import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { createClient } from "@/lib/supabaseClient";
 
-export default function LoginButton() {
+interface LoginButtonProps {
+  next: string;
+}
+
+export default function LoginButton({ next }: LoginButtonProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const router = useRouter();
@@ -24,7 +29,7 @@ export default function LoginButton() {
     const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
       if (event === "SIGNED_IN") {
         // Another tab signed in — redirect this tab to dashboard too
-        router.push("/dashboard");
+        router.push(next);
         router.refresh();
       }
     });
@@ -32,7 +37,7 @@ export default function LoginButton() {
     return () => {
       subscription.unsubscribe();
     };
-  }, [router]);
+  }, [router, next]);
 
   const handleGoogleLogin = async () => {
     setIsLoading(true);
@@ -43,7 +48,7 @@ export default function LoginButton() {
     const { error } = await supabase.auth.signInWithOAuth({
       provider: "google",
       options: {
-        redirectTo: `${window.location.origin}/auth/callback`,
+        redirectTo: `${window.location.origin}/auth/callback?next=${encodeURIComponent(next)}`,
         queryParams: {
           access_type: "offline",
           prompt: "consent",
@@ -0,0 +1,94 @@
+/**
+ * components/Markdown.tsx
+ * Renders bookmark notes (lib/markdown.ts) as React elements — never as
+ * HTML, so whatever was typed shows as text. Links open in a new tab.
+ */
+
+import { Fragment, useMemo, type ReactNode } from "react";
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from "@/lib/markdown";
+
+interface MarkdownProps {
+  source: string;
+  className?: string;
+}
+
+const HEADING_CLASSES = ["text-base", "text-sm", "text-sm", "text-xs", "text-xs", "text-xs"];
+
+export default function Markdown({ source, className = "" }: MarkdownProps) {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+  return <div className={`space-y-2 text-sm text-slate-700 break-words ${className}`}>{blocks.map(renderBlock)}</div>;
+}
+
+function renderBlock(block: MarkdownBlock, key: number): ReactNode {
+  switch (block.type) {
+    case "paragraph":
+      return <p key={key}>{renderInline(block.content)}</p>;
+    case "heading":
+      return (
+        <p key={key} className={`font-semibold text-slate-800 ${HEADING_CLASSES[block.level - 1]}`}>
+          {renderInline(block.content)}
+        </p>
+      );
+    case "list": {
+      const items = block.items.map((item, i) => <li key={i}>{renderInline(item)}</li>);
+      return block.ordered ? (
+        <ol key={key} start={block.start} className="list-decimal pl-5 space-y-0.5">
+          {items}
+        </ol>
+      ) : (
+        <ul key={key} className="list-disc pl-5 space-y-0.5">
+          {items}
+        </ul>
+      );
+    }
+    case "quote":
+      return (
+        <blockquote key={key} className="border-l-2 border-slate-200 pl-3 text-slate-500 space-y-2">
+          {block.blocks.map(renderBlock)}
+        </blockquote>
+      );
+    case "code":
+      return (
+        <pre key={key} className="bg-slate-50 border border-slate-100 rounded-lg px-3 py-2 text-xs font-mono overflow-x-auto">
+          {block.text}
+        </pre>
+      );
+    case "rule":
+      return <hr key={key} className="border-slate-100" />;
+  }
+}
+
+function renderInline(nodes: MarkdownInline[]): ReactNode {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case "text":
+        return <Fragment key={i}>{node.text}</Fragment>;
+      case "break":
+        return <br key={i} />;
+      case "code":
+        return (
+          <code key={i} className="bg-slate-100 rounded px-1 py-0.5 text-xs font-mono">
+            {node.text}
+          </code>
+        );
+      case "strong":
+        return <strong key={i} className="font-semibold">{renderInline(node.children)}</strong>;
+      case "em":
+        return <em key={i}>{renderInline(node.children)}</em>;
+      case "del":
+        return <del key={i}>{renderInline(node.children)}</del>;
+      case "link":
+        return (
+          <a
+            key={i}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="text-blue-600 hover:underline"
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+}
@@ -0,0 +1,77 @@
+/**
+ * components/QuickCapturePanel.tsx
+ *
+ * Collapsible "Save from anywhere" card on the personal dashboard. Offers
+ * the bookmarklet (drag to the bookmarks bar) for machines where the
+ * extension can't be installed, and explains the share-sheet route on
+ * phones. Both open /save, which pre-fills the add form.
+ */
+
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { bookmarkletHref } from "@/lib/quickCapture";
+
+export default function QuickCapturePanel() {
+  const [isOpen, setIsOpen] = useState(false);
+  const linkRef = useRef<HTMLAnchorElement>(null);
+
+  // Set outside React, which refuses to render javascript: URLs
+  useEffect(() => {
+    if (isOpen) linkRef.current?.setAttribute("href", bookmarkletHref(window.location.origin));
+  }, [isOpen]);
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-100 shadow-sm animate-fade-in">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className="w-full flex items-center justify-between px-5 py-3 text-sm font-semibold text-slate-700"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center gap-2">
+          <svg className="w-4 h-4 text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M13 10V3L4 14h7v7l9-11h-7z" />
+          </svg>
+          Save from anywhere
+        </span>
+        <svg
+          className={`w-4 h-4 text-slate-400 transition-transform duration-200 ${isOpen ? "rotate-180" : ""}`}
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+          strokeWidth={2}
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="px-5 pb-5 space-y-3">
+          <div className="space-y-2">
+            <p className="text-xs text-slate-500">
+              <strong>Bookmarklet</strong> — drag this button to your bookmarks bar. Clicking it on any
+              page opens a small window to save that page here.
+            </p>
+            <a
+              ref={linkRef}
+              onClick={(e) => e.preventDefault()}
+              className="btn-secondary cursor-grab"
+              title="Drag me to your bookmarks bar"
+            >
+              + Save to Smart Bookmarks
+            </a>
+          </div>
+          <p className="text-xs text-slate-500">
+            <strong>On your phone</strong> — open this site in Chrome or Edge, choose{" "}
+            <em>Install app</em> (or <em>Add to Home screen</em>) from the browser menu, and it will
+            appear in the share sheet of any app.
+          </p>
+          <p className="text-xs text-slate-400">
+            You can also link to <code>/save?url=…&amp;title=…</code> directly.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
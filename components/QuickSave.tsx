@@ -0,0 +1,94 @@
+/**
+ * components/QuickSave.tsx
+ *
+ * The /save page's form: BookmarkForm pre-filled with the shared URL and
+ * title, saving to the personal list. Once saved it confirms and — when
+ * the bookmarklet opened it in its own window — closes that window.
+ */
+
+"use client";
+
+import { useState, useCallback } from "react";
+import Link from "next/link";
+import BookmarkForm, { type DuplicateMatch } from "@/components/BookmarkForm";
+import { tryCanonicaliseUrl } from "@/lib/canonicalUrl";
+import type { SharedPage } from "@/lib/quickCapture";
+import type { Bookmark } from "@/lib/types";
+
+interface QuickSaveProps {
+  userId: string;
+  shared: SharedPage;
+  existing: DuplicateMatch | null;
+}
+
+const CLOSE_DELAY_MS = 1200;
+
+export default function QuickSave({ userId, shared, existing }: QuickSaveProps) {
+  const [saved, setSaved] = useState<{ bookmark: Bookmark; action: "added" | "updated" } | null>(null);
+
+  const findDuplicate = useCallback(
+    (url: string): DuplicateMatch | null => {
+      if (!existing) return null;
+      const key = existing.bookmark.canonical_url ?? tryCanonicaliseUrl(existing.bookmark.url);
+      return key && tryCanonicaliseUrl(url) === key ? existing : null;
+    },
+    [existing]
+  );
+
+  // Waits for tags too, so the popup never closes mid-save
+  const handleSaved = useCallback(
+    (bookmark: Bookmark, action: "added" | "updated") => {
+      setSaved({ bookmark, action });
+      if (shared.popup) setTimeout(() => window.close(), CLOSE_DELAY_MS);
+    },
+    [shared.popup]
+  );
+
+  // There's no list on this page to keep in sync
+  const ignore = useCallback(() => {}, []);
+
+  if (saved) {
+    return (
+      <div className="bg-white rounded-2xl border border-slate-100 shadow-sm p-5 space-y-3 animate-fade-in">
+        <div className="flex items-center gap-2 bg-green-50 border border-green-100 rounded-lg px-3 py-2">
+          <svg className="w-4 h-4 text-green-500 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+          </svg>
+          <p className="text-xs text-green-600 font-medium">
+            {saved.action === "added" ? "Saved" : "Updated"} &ldquo;{saved.bookmark.title}&rdquo;
+            {shared.popup && " — closing…"}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Link href="/dashboard" className="btn-primary">
+            Go to bookmarks
+          </Link>
+          <a href={saved.bookmark.url} className="btn-secondary">
+            Back to the page
+          </a>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {shared.url === "" && (
+        <p className="text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded-lg px-3 py-2">
+          No link was shared — paste one below.
+        </p>
+      )}
+      <BookmarkForm
+        userId={userId}
+        collectionId={null}
+        initialUrl={shared.url}
+        initialTitle={shared.title}
+        findDuplicate={findDuplicate}
+        onBookmarkAdded={ignore}
+        onBookmarkUpdated={ignore}
+        onTagsChanged={ignore}
+        onSaved={handleSaved}
+      />
+    </>
+  );
+}
@@ -0,0 +1,60 @@
+/**
+ * components/ReadingListTabs.tsx
+ *
+ * Reading list switcher above the bookmark list: All / Unread / Read /
+ * Archived with live counts for the whole view, plus a reminder of the
+ * triage shortcuts.
+ */
+
+"use client";
+
+import type { BookmarkCounts } from "@/lib/bookmarkPages";
+import { READING_FILTERS, type ReadingFilter } from "@/lib/readingList";
+
+interface ReadingListTabsProps {
+  counts: BookmarkCounts;
+  selected: ReadingFilter;
+  canEdit: boolean;
+  onSelect: (filter: ReadingFilter) => void;
+}
+
+const FILTERS = Object.keys(READING_FILTERS) as ReadingFilter[];
+
+export default function ReadingListTabs({ counts: viewCounts, selected, canEdit, onSelect }: ReadingListTabsProps) {
+  const counts: Record<ReadingFilter, number> = {
+    all: viewCounts.total,
+    unread: viewCounts.unread,
+    read: viewCounts.read,
+    archived: viewCounts.archived,
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 animate-fade-in">
+      <div className="inline-flex rounded-lg border border-slate-200 bg-white p-0.5" role="tablist" aria-label="Reading list">
+        {FILTERS.map((filter) => (
+          <button
+            key={filter}
+            type="button"
+            role="tab"
+            aria-selected={selected === filter}
+            onClick={() => onSelect(filter)}
+            className={`px-3 py-1 rounded-md text-xs font-medium transition-colors duration-150 ${
+              selected === filter ? "bg-blue-600 text-white" : "text-slate-600 hover:bg-slate-100"
+            }`}
+          >
+            {READING_FILTERS[filter]}
+            <span className={`ml-1 ${selected === filter ? "opacity-80" : "text-slate-400"}`}>{counts[filter]}</span>
+          </button>
+        ))}
+      </div>
+      <span className="text-[11px] text-slate-400 ml-auto hidden sm:block">
+        <kbd className="font-mono">j</kbd>/<kbd className="font-mono">k</kbd> move · <kbd className="font-mono">o</kbd> open
+        {canEdit && (
+          <>
+            {" "}· <kbd className="font-mono">r</kbd> read/unread · <kbd className="font-mono">a</kbd> archive
+          </>
+        )}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+/**
+ * components/SearchBar.tsx
+ * Search box above the list. Purely controlled — Dashboard owns the query.
+ * The id lets the "/" shortcut focus it.
+ */
+
+"use client";
+
+interface SearchBarProps {
+  value: string;
+  isSearching: boolean;
+  onChange: (value: string) => void;
+}
+
+export default function SearchBar({ value, isSearching, onChange }: SearchBarProps) {
+  return (
+    <div className="relative animate-fade-in">
+      <svg
+        className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2 pointer-events-none"
+        fill="none"
+        viewBox="0 0 24 24"
+        stroke="currentColor"
+        strokeWidth={2}
+      >
+        <path strokeLinecap="round" strokeLinejoin="round" d="M21 21l-4.35-4.35M17 11a6 6 0 11-12 0 6 6 0 0112 0z" />
+      </svg>
+      <input
+        id="bookmark-search"
+        type="search"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={(e) => { if (e.key === "Escape") onChange(""); }}
+        placeholder="Search titles and URLs…"
+        className="input-field !pl-9"
+        maxLength={200}
+        autoComplete="off"
+        aria-label="Search bookmarks"
+      />
+      {isSearching && (
+        <svg className="w-4 h-4 animate-spin text-slate-400 absolute right-3 top-1/2 -translate-y-1/2" fill="none" viewBox="0 0 24 24">
+          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+        </svg>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+/**
+ * components/SharePanel.tsx
+ *
+ * Collapsible "Share publicly" card. In the personal view it creates
+ * read-only links for a tag or tag folder; in a shared collection the
+ * owner can publish the whole collection. Each link can be copied,
+ * rotated to a new URL, given an expiry date, or revoked.
+ */
+
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { createClient } from "@/lib/supabaseClient";
+import { expiryFromDate, generateShareSlug, sharePath } from "@/lib/shareLinks";
+import type { Collection, ShareLink } from "@/lib/types";
+
+interface SharePanelProps {
+  userId: string;
+  collection: Collection | null;
+  tagNames: string[];   // tags and folders available to share in this view
+}
+
+export default function SharePanel({ userId, collection, tagNames }: SharePanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [tagName, setTagName] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const supabase = createClient();
+    const query = supabase.from("share_links").select("*").order("created_at", { ascending: false });
+    const { data, error: loadError } = await (collection
+      ? query.eq("collection_id", collection.id)
+      : query.is("collection_id", null).eq("user_id", userId));
+
+    if (loadError) {
+      setError(loadError.message);
+      return;
+    }
+    setLinks((data ?? []) as ShareLink[]);
+  }, [collection, userId]);
+
+  useEffect(() => {
+    if (isOpen) load();
+  }, [isOpen, load]);
+
+  // Runs a mutation, shows its error, and reloads the list on success
+  const run = async (action: () => PromiseLike<{ error: { message: string } | null }>) => {
+    setError(null);
+    setIsBusy(true);
+    const { error: actionError } = await action();
+    setIsBusy(false);
+    if (actionError) {
+      setError(actionError.message);
+      return false;
+    }
+    await load();
+    return true;
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!collection && !tagName) {
+      setError("Pick a tag to share.");
+      return;
+    }
+
+    const supabase = createClient();
+    const ok = await run(() =>
+      supabase.from("share_links").insert({
+        user_id: userId,
+        slug: generateShareSlug(),
+        tag_name: collection ? null : tagName,
+        collection_id: collection?.id ?? null,
+      })
+    );
+    if (ok) setTagName("");
+  };
+
+  const handleRotate = (link: ShareLink) => {
+    if (!window.confirm("Rotate this link? The current URL and feed will stop working.")) return;
+    const supabase = createClient();
+    run(() => supabase.from("share_links").update({ slug: generateShareSlug() }).eq("id", link.id));
+  };
+
+  const handleExpiry = (link: ShareLink, date: string) => {
+    const supabase = createClient();
+    run(() => supabase.from("share_links").update({ expires_at: expiryFromDate(date) }).eq("id", link.id));
+  };
+
+  const handleRevoke = (link: ShareLink) => {
+    const supabase = createClient();
+    run(() => supabase.from("share_links").delete().eq("id", link.id));
+  };
+
+  const handleCopy = async (link: ShareLink) => {
+    await navigator.clipboard.writeText(`${window.location.origin}${sharePath(link.slug)}`);
+    setCopiedId(link.id);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-100 shadow-sm animate-fade-in">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className="w-full flex items-center justify-between px-5 py-3 text-sm font-semibold text-slate-700"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center gap-2">
+          <svg className="w-4 h-4 text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
+          </svg>
+          Share publicly
+        </span>
+        <svg
+          className={`w-4 h-4 text-slate-400 transition-transform duration-200 ${isOpen ? "rotate-180" : ""}`}
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+          strokeWidth={2}
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="px-5 pb-5 space-y-3">
+          <p className="text-xs text-slate-400">
+            Anyone with the link can view {collection ? "this collection" : "the bookmarks under a tag"} without
+            signing in, and follow it as an Atom/RSS feed.
+          </p>
+
+          {links.length > 0 && (
+            <ul className="divide-y divide-slate-100 border border-slate-100 rounded-lg">
+              {links.map((link) => (
+                <li key={link.id} className="px-3 py-2 space-y-1.5">
+                  <div className="flex items-center gap-2">
+                    <a
+                      href={sharePath(link.slug)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex-1 min-w-0 truncate text-sm text-blue-600 hover:underline"
+                    >
+                      {link.tag_name ?? collection?.name ?? "Collection"}
+                    </a>
+                    <button type="button" onClick={() => handleCopy(link)} className="btn-secondary">
+                      {copiedId === link.id ? "Copied" : "Copy link"}
+                    </button>
+                    <button type="button" onClick={() => handleRotate(link)} disabled={isBusy} className="btn-secondary">
+                      Rotate
+                    </button>
+                    <button type="button" onClick={() => handleRevoke(link)} disabled={isBusy} className="btn-secondary">
+                      Revoke
+                    </button>
+                  </div>
+                  <label className="flex items-center gap-2 text-xs text-slate-400">
+                    Expires
+                    <input
+                      type="date"
+                      value={link.expires_at ? toDateInput(link.expires_at) : ""}
+                      onChange={(e) => handleExpiry(link, e.target.value)}
+                      disabled={isBusy}
+                      className="border border-slate-200 rounded-md px-1.5 py-0.5 text-slate-600"
+                    />
+                    {link.expires_at ? (
+                      new Date(link.expires_at) < new Date() ? (
+                        <span className="text-red-500">expired</span>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => handleExpiry(link, "")}
+                          disabled={isBusy}
+                          className="text-blue-600 hover:underline"
+                        >
+                          never
+                        </button>
+                      )
+                    ) : (
+                      <span>never</span>
+                    )}
+                  </label>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={handleCreate} className="flex flex-col sm:flex-row gap-2">
+            {!collection && (
+              <select
+                value={tagName}
+                onChange={(e) => setTagName(e.target.value)}
+                disabled={isBusy || tagNames.length === 0}
+                className="input-field flex-1"
+                aria-label="Tag to share"
+              >
+                <option value="">{tagNames.length === 0 ? "Tag some bookmarks first" : "Choose a tag…"}</option>
+                {tagNames.map((name) => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </select>
+            )}
+            <button type="submit" disabled={isBusy} className="btn-primary">
+              {collection ? "Create share link" : "Share tag"}
+            </button>
+          </form>
+
+          {error && (
+            <p className="text-xs text-red-600 bg-red-50 border border-red-100 rounded-lg px-3 py-2">{error}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Local calendar date for an <input type="date">
+function toDateInput(iso: string): string {
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
@@ -0,0 +1,61 @@
+/**
+ * components/ShortcutHelp.tsx
+ * The "?" sheet: every keyboard shortcut, grouped by where it works
+ * (SHORTCUTS in lib/commandPalette.ts). CommandPalette opens it and
+ * closes it on Esc or "?".
+ */
+
+"use client";
+
+import { SHORTCUTS } from "@/lib/commandPalette";
+
+interface ShortcutHelpProps {
+  onClose: () => void;
+}
+
+export default function ShortcutHelp({ onClose }: ShortcutHelpProps) {
+  return (
+    <div
+      className="fixed inset-0 z-30 flex items-center justify-center bg-slate-900/30 px-4 animate-fade-in"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcut-help-title"
+        className="w-full max-w-md bg-white rounded-xl border border-slate-100 shadow-2xl p-5 space-y-4"
+      >
+        <div className="flex items-center justify-between">
+          <h2 id="shortcut-help-title" className="text-sm font-semibold text-slate-800">
+            Keyboard shortcuts
+          </h2>
+          <button type="button" onClick={onClose} className="text-slate-400 hover:text-slate-700" aria-label="Close">
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {SHORTCUTS.map(({ group, keys }) => (
+          <section key={group} className="space-y-1.5">
+            <h3 className="text-[11px] font-medium text-slate-400 uppercase tracking-wide">{group}</h3>
+            <dl className="space-y-1">
+              {keys.map(({ key, description }) => (
+                <div key={key} className="flex items-center justify-between gap-4 text-sm">
+                  <dt className="text-slate-600">{description}</dt>
+                  <dd>
+                    <kbd className="px-1.5 py-0.5 rounded border border-slate-200 bg-slate-50 text-[11px] font-mono text-slate-500">
+                      {key}
+                    </kbd>
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+/**
+ * components/TagChip.tsx
+ * Small coloured pill for a tag. Colour is derived from the name so the
+ * same tag looks the same everywhere.
+ */
+
+const PALETTE = [
+  "bg-blue-50 text-blue-700",
+  "bg-emerald-50 text-emerald-700",
+  "bg-amber-50 text-amber-700",
+  "bg-violet-50 text-violet-700",
+  "bg-rose-50 text-rose-700",
+  "bg-cyan-50 text-cyan-700",
+];
+
+interface TagChipProps {
+  name: string;
+  label?: string;
+  active?: boolean;
+  onClick?: () => void;
+}
+
+export default function TagChip({ name, label, active = false, onClick }: TagChipProps) {
+  const colour = active ? "bg-blue-600 text-white" : PALETTE[hash(name) % PALETTE.length];
+  const className = `inline-flex items-center px-2 py-0.5 rounded-full text-[11px] font-medium ${colour}`;
+
+  if (!onClick) return <span className={className}>{label ?? name}</span>;
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={`${className} hover:ring-1 hover:ring-current transition-all duration-150`}
+    >
+      {label ?? name}
+    </button>
+  );
+}
+
+function hash(value: string): number {
+  let h = 0;
+  for (let i = 0; i < value.length; i++) h = (h * 31 + value.charCodeAt(i)) >>> 0;
+  return h;
+}
@@ -0,0 +1,63 @@
+/**
+ * components/TagFilter.tsx
+ *
+ * Filter bar above the list. Shows every tag and folder with its
+ * bookmark count; picking a folder narrows to everything inside it.
+ */
+
+"use client";
+
+import TagChip from "@/components/TagChip";
+import { expandFolders, tagMatches } from "@/lib/tags";
+import type { BookmarkTag, Tag } from "@/lib/types";
+
+interface TagFilterProps {
+  tags: Tag[];
+  links: BookmarkTag[];
+  selected: string | null;
+  onSelect: (name: string | null) => void;
+}
+
+export default function TagFilter({ tags, links, selected, onSelect }: TagFilterProps) {
+  // Only tags that are actually in use
+  const usedTagIds = new Set(links.map((l) => l.tag_id));
+  const usedTags = tags.filter((t) => usedTagIds.has(t.id));
+
+  if (usedTags.length === 0) return null;
+
+  const entries = expandFolders(usedTags.map((t) => t.name)).map((name) => {
+    const matchingIds = new Set(usedTags.filter((t) => tagMatches(t.name, name)).map((t) => t.id));
+    const bookmarkIds = new Set(links.filter((l) => matchingIds.has(l.tag_id)).map((l) => l.bookmark_id));
+    return { name, count: bookmarkIds.size, depth: name.split("/").length - 1 };
+  });
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-100 shadow-sm p-4 animate-fade-in">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs font-medium text-slate-400 uppercase tracking-wide">Tags</span>
+        {selected && (
+          <button
+            type="button"
+            onClick={() => onSelect(null)}
+            className="text-xs text-blue-500 hover:text-blue-700 hover:underline"
+          >
+            Clear filter
+          </button>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-1.5">
+        {entries.map(({ name, count, depth }) => (
+          <span key={name} className="inline-flex items-center gap-1" style={{ marginLeft: depth * 4 }}>
+            <TagChip
+              name={name}
+              label={depth > 0 ? `↳ ${name.split("/").pop()}` : name}
+              active={selected === name}
+              onClick={() => onSelect(selected === name ? null : name)}
+            />
+            <span className="text-[10px] text-slate-400">{count}</span>
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+/**
+ * components/TagRuleManager.tsx
+ *
+ * The user's tag rules (lib/autoTag.ts): "domain is github.com → code",
+ * "URL contains /docs/ → docs", "title contains recipe → cooking". Rules
+ * only suggest tags, in the add form and the back-fill below; they can be
+ * added and deleted but not edited. The built-in domain rules are listed
+ * for reference.
+ */
+
+"use client";
+
+import { useState } from "react";
+import { createClient } from "@/lib/supabaseClient";
+import {
+  BUILT_IN_DOMAIN_RULES,
+  MAX_RULE_PATTERN_LENGTH,
+  TAG_RULE_COLUMNS,
+  TAG_RULE_FIELDS,
+  describeTagRule,
+  isTagRuleField,
+  normaliseRulePattern,
+  validateTagRule,
+} from "@/lib/autoTag";
+import { MAX_TAG_LENGTH, normaliseTagName } from "@/lib/tags";
+import type { TagRule, TagRuleField } from "@/lib/types";
+
+interface TagRuleManagerProps {
+  initialRules: TagRule[];
+}
+
+const PLACEHOLDERS: Record<TagRuleField, string> = {
+  domain: "e.g. github.com",
+  url: "e.g. /docs/",
+  title: "e.g. recipe",
+};
+
+export default function TagRuleManager({ initialRules }: TagRuleManagerProps) {
+  const [rules, setRules] = useState<TagRule[]>(initialRules);
+  const [field, setField] = useState<TagRuleField>("url");
+  const [pattern, setPattern] = useState("");
+  const [tagName, setTagName] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const normalisedPattern = normaliseRulePattern(field, pattern);
+    const normalisedTag = normaliseTagName(tagName);
+    const validationError = validateTagRule(field, normalisedPattern, normalisedTag);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    if (rules.some((r) => r.field === field && r.pattern === normalisedPattern && r.tag_name === normalisedTag)) {
+      setError("You already have that rule.");
+      return;
+    }
+
+    setIsAdding(true);
+    const supabase = createClient();
+    const { data, error: insertError } = await supabase
+      .from("tag_rules")
+      .insert({ field, pattern: normalisedPattern, tag_name: normalisedTag })
+      .select(TAG_RULE_COLUMNS)
+      .single();
+    setIsAdding(false);
+
+    if (insertError) {
+      setError(insertError.message);
+      return;
+    }
+    setRules((prev) => [...prev, data as TagRule]);
+    setPattern("");
+    setTagName("");
+  };
+
+  const handleDelete = async (id: string) => {
+    setError(null);
+    setDeletingId(id);
+
+    const supabase = createClient();
+    const { error: deleteError } = await supabase.from("tag_rules").delete().eq("id", id);
+
+    setDeletingId(null);
+    if (deleteError) {
+      setError(deleteError.message);
+      return;
+    }
+    setRules((prev) => prev.filter((r) => r.id !== id));
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-100 shadow-sm p-5 space-y-4 animate-fade-in">
+      <div>
+        <h3 className="text-sm font-semibold text-slate-700">Tag rules</h3>
+        <p className="text-xs text-slate-400 mt-1">
+          Suggest a tag whenever a link matches. Suggestions also come from the tags you already use.
+        </p>
+      </div>
+
+      <form onSubmit={handleAdd} className="flex flex-col sm:flex-row gap-2">
+        <select
+          value={field}
+          onChange={(e) => isTagRuleField(e.target.value) && setField(e.target.value)}
+          disabled={isAdding}
+          className="input-field sm:w-36"
+          aria-label="What the rule matches"
+        >
+          {(Object.keys(TAG_RULE_FIELDS) as TagRuleField[]).map((value) => (
+            <option key={value} value={value}>
+              {TAG_RULE_FIELDS[value]}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={pattern}
+          onChange={(e) => setPattern(e.target.value)}
+          placeholder={PLACEHOLDERS[field]}
+          maxLength={MAX_RULE_PATTERN_LENGTH}
+          disabled={isAdding}
+          className="input-field flex-1"
+          autoComplete="off"
+          aria-label="Text to match"
+        />
+        <input
+          type="text"
+          value={tagName}
+          onChange={(e) => setTagName(e.target.value)}
+          placeholder="Tag, e.g. docs"
+          maxLength={MAX_TAG_LENGTH}
+          disabled={isAdding}
+          className="input-field sm:w-36"
+          autoComplete="off"
+          aria-label="Tag to suggest"
+        />
+        <button type="submit" disabled={isAdding} className="btn-primary sm:w-auto">
+          {isAdding ? "Adding…" : "Add rule"}
+        </button>
+      </form>
+
+      {error && (
+        <p className="text-xs text-red-600 bg-red-50 border border-red-100 rounded-lg px-3 py-2">{error}</p>
+      )}
+
+      {rules.length === 0 ? (
+        <p className="text-xs text-slate-400">No rules yet.</p>
+      ) : (
+        <ul className="divide-y divide-slate-100 border border-slate-100 rounded-lg">
+          {rules.map((rule) => (
+            <li key={rule.id} className="flex items-center gap-3 px-3 py-2">
+              <p className="min-w-0 flex-1 text-sm text-slate-700 truncate">
+                {TAG_RULE_FIELDS[rule.field]} <code className="text-xs bg-slate-100 rounded px-1 py-0.5">{rule.pattern}</code>
+                {" → "}
+                <span className="font-medium">{rule.tag_name}</span>
+              </p>
+              <button
+                type="button"
+                onClick={() => handleDelete(rule.id)}
+                disabled={deletingId === rule.id}
+                className="btn-danger"
+                aria-label={`Delete rule ${describeTagRule(rule)}`}
+              >
+                {deletingId === rule.id ? "Deleting…" : "Delete"}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <details className="text-xs text-slate-500">
+        <summary className="cursor-pointer select-none hover:text-slate-700">Built-in domain rules</summary>
+        <p className="mt-2 leading-relaxed">
+          {Object.entries(BUILT_IN_DOMAIN_RULES)
+            .map(([domain, name]) => `${domain} → ${name}`)
+            .join(" · ")}
+        </p>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+/**
+ * components/TagSuggestionReview.tsx
+ *
+ * Back-fill for bookmarks saved without tags: asks /api/tags/backfill for
+ * suggestions on the newest untagged ones, lists them, and applies the
+ * ones the user accepts — one tag, a bookmark's whole set, or everything
+ * listed — through tagBookmarks (lib/bulk.ts). Older bookmarks load in
+ * further batches. Dismissing a row only hides it here.
+ */
+
+"use client";
+
+import { useState } from "react";
+import TagChip from "@/components/TagChip";
+import { createClient } from "@/lib/supabaseClient";
+import { tagBookmarks } from "@/lib/bulk";
+import type { TagBackfillResult, TagSuggestion } from "@/lib/types";
+
+interface TagSuggestionReviewProps {
+  userId: string;
+}
+
+type Row = TagBackfillResult["bookmarks"][number] & { applied: string[] };
+
+export default function TagSuggestionReview({ userId }: TagSuggestionReviewProps) {
+  const [rows, setRows] = useState<Row[] | null>(null);
+  const [scanned, setScanned] = useState(0);
+  const [next, setNext] = useState<TagBackfillResult["next"]>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadBatch = async (cursor: TagBackfillResult["next"]) => {
+    setError(null);
+    setMessage(null);
+    setIsLoading(true);
+
+    const params = cursor ? `?${new URLSearchParams({ before: cursor.before, id: cursor.id })}` : "";
+    try {
+      const res = await fetch(`/api/tags/backfill${params}`);
+      const body = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError(body?.error ?? "Couldn't work out suggestions.");
+        return;
+      }
+      const result = body as TagBackfillResult;
+      const batch = result.bookmarks.map((b) => ({ ...b, applied: [] }));
+      setRows((prev) => (cursor ? [...(prev ?? []), ...batch] : batch));
+      setScanned((prev) => (cursor ? prev : 0) + result.scanned);
+      setNext(result.next);
+    } catch {
+      setError("Couldn't reach the server.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const pending = (row: Row): TagSuggestion[] => row.suggestions.filter((s) => !row.applied.includes(s.name));
+
+  const markApplied = (ids: string[], names: string[]) => {
+    setRows((prev) =>
+      (prev ?? []).map((row) =>
+        ids.includes(row.id) ? { ...row, applied: Array.from(new Set([...row.applied, ...names])) } : row
+      )
+    );
+  };
+
+  // Applies the same names to every id; true if it worked
+  const apply = async (ids: string[], names: string[]): Promise<boolean> => {
+    const { error: tagError } = await tagBookmarks(createClient(), userId, ids, names);
+    if (tagError) {
+      setError(`Couldn't add the tags: ${tagError}`);
+      return false;
+    }
+    markApplied(ids, names);
+    return true;
+  };
+
+  const handleApply = async (ids: string[], names: string[]) => {
+    setError(null);
+    setMessage(null);
+    setIsApplying(true);
+    await apply(ids, names);
+    setIsApplying(false);
+  };
+
+  // One call per tag name, each covering every bookmark it was suggested for
+  const handleApplyAll = async () => {
+    if (!rows) return;
+    setError(null);
+    setMessage(null);
+
+    const idsByName = new Map<string, string[]>();
+    for (const row of rows) {
+      for (const suggestion of pending(row)) {
+        idsByName.set(suggestion.name, [...(idsByName.get(suggestion.name) ?? []), row.id]);
+      }
+    }
+
+    setIsApplying(true);
+    const tagged = new Set<string>();
+    for (const [name, ids] of Array.from(idsByName)) {
+      if (!(await apply(ids, [name]))) break;
+      ids.forEach((id) => tagged.add(id));
+    }
+    setIsApplying(false);
+    if (tagged.size > 0) setMessage(`Tagged ${tagged.size} bookmark${tagged.size !== 1 ? "s" : ""}.`);
+  };
+
+  const dismiss = (id: string) => setRows((prev) => (prev ?? []).filter((row) => row.id !== id));
+
+  const hasPending = (rows ?? []).some((row) => pending(row).length > 0);
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-100 shadow-sm p-5 space-y-4 animate-fade-in">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h3 className="text-sm font-semibold text-slate-700">Tag untagged bookmarks</h3>
+          <p className="text-xs text-slate-400 mt-1">
+            Suggestions for bookmarks in your personal list that have no tags yet, from your rules and tags.
+          </p>
+        </div>
+        {rows === null ? (
+          <button type="button" onClick={() => loadBatch(null)} disabled={isLoading} className="btn-secondary flex-shrink-0">
+            {isLoading ? "Looking…" : "Find suggestions"}
+          </button>
+        ) : (
+          hasPending && (
+            <button type="button" onClick={handleApplyAll} disabled={isApplying} className="btn-primary flex-shrink-0">
+              {isApplying ? "Tagging…" : "Accept all"}
+            </button>
+          )
+        )}
+      </div>
+
+      {error && (
+        <p className="text-xs text-red-600 bg-red-50 border border-red-100 rounded-lg px-3 py-2">{error}</p>
+      )}
+      {message && <p className="text-xs text-green-600 font-medium">{message}</p>}
+
+      {rows !== null && (
+        <>
+          <p className="text-xs text-slate-400">
+            Looked at {scanned.toLocaleString()} untagged bookmark{scanned !== 1 ? "s" : ""}
+            {" · "}
+            {rows.length === 0 ? "nothing to suggest" : `${rows.length} with suggestions`}
+          </p>
+
+          {rows.length > 0 && (
+            <ul className="divide-y divide-slate-100 border border-slate-100 rounded-lg">
+              {rows.map((row) => {
+                const remaining = pending(row);
+                return (
+                  <li key={row.id} className="px-3 py-2 space-y-1.5">
+                    <div className="flex items-center gap-3">
+                      <div className="min-w-0 flex-1">
+                        <a
+                          href={row.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="block text-sm font-medium text-slate-800 truncate hover:text-blue-600"
+                        >
+                          {row.title}
+                        </a>
+                        <p className="text-xs text-slate-400 truncate">{row.url}</p>
+                      </div>
+                      {remaining.length > 1 && (
+                        <button
+                          type="button"
+                          onClick={() => handleApply([row.id], remaining.map((s) => s.name))}
+                          disabled={isApplying}
+                          className="text-[11px] text-blue-600 hover:underline disabled:opacity-50"
+                        >
+                          Accept all
+                        </button>
+                      )}
+                      {remaining.length > 0 && (
+                        <button
+                          type="button"
+                          onClick={() => dismiss(row.id)}
+                          className="text-[11px] text-slate-400 hover:text-slate-600"
+                        >
+                          Dismiss
+                        </button>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap gap-1.5">
+                      {row.suggestions.map((suggestion) =>
+                        row.applied.includes(suggestion.name) ? (
+                          <TagChip key={suggestion.name} name={suggestion.name} label={`✓ ${suggestion.name}`} active />
+                        ) : (
+                          <span key={suggestion.name} title={suggestion.detail}>
+                            <TagChip
+                              name={suggestion.name}
+                              label={`+ ${suggestion.name}`}
+                              onClick={isApplying ? undefined : () => handleApply([row.id], [suggestion.name])}
+                            />
+                          </span>
+                        )
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {next && (
+            <button type="button" onClick={() => loadBatch(next)} disabled={isLoading} className="btn-secondary">
+              {isLoading ? "Looking…" : "Look at older bookmarks"}
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
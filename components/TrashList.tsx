@@ -0,0 +1,207 @@
+/**
+ * components/TrashList.tsx
+ *
+ * The Trash: bookmarks deleted from the personal list or a collection,
+ * most recently trashed first, each with Restore and Delete forever, plus
+ * Empty Trash. Kept live over realtime — a delete or restore in another
+ * tab is an UPDATE of deleted_at, and the purge job's deletes remove rows.
+ * RLS decides which collection rows arrive and who may change them.
+ */
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { createClient } from "@/lib/supabaseClient";
+import {
+  TRASH_RETENTION_DAYS,
+  isTrashed,
+  purgeBookmarks,
+  purgeDate,
+  restoreBookmark,
+  type TrashedBookmark,
+} from "@/lib/trash";
+import type { Bookmark } from "@/lib/types";
+
+interface TrashListProps {
+  initialBookmarks: TrashedBookmark[];
+  initialError: string | null;
+  collectionNames: Record<string, string>;
+}
+
+const DATE_FORMAT: Intl.DateTimeFormatOptions = { day: "numeric", month: "short", year: "numeric" };
+
+export default function TrashList({ initialBookmarks, initialError, collectionNames }: TrashListProps) {
+  const [bookmarks, setBookmarks] = useState<TrashedBookmark[]>(initialBookmarks);
+  const [busyIds, setBusyIds] = useState<Set<string>>(new Set());
+  const [isEmptying, setIsEmptying] = useState(false);
+  const [error, setError] = useState<string | null>(initialError);
+
+  const removeRows = useCallback((ids: string[]) => {
+    setBookmarks((prev) => prev.filter((b) => !ids.includes(b.id)));
+  }, []);
+
+  const setBusy = (id: string, busy: boolean) => {
+    setBusyIds((prev) => {
+      const next = new Set(prev);
+      if (busy) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  // ── Realtime ─────────────────────────────────────────────────────────────
+  useEffect(() => {
+    const supabase = createClient();
+    let channel: ReturnType<typeof supabase.channel> | null = null;
+    let cancelled = false;
+
+    supabase.auth.getUser().then(({ data: { user } }) => {
+      if (!user || cancelled) return;
+      channel = supabase
+        .channel(`trash_${user.id}`)
+        .on("postgres_changes", { event: "UPDATE", schema: "public", table: "bookmarks" }, (payload) => {
+          const row = payload.new as Bookmark;
+          if (!isTrashed(row)) {
+            removeRows([row.id]);
+            return;
+          }
+          setBookmarks((prev) => insertByDeletedAt(prev.filter((b) => b.id !== row.id), toTrashed(row)));
+        })
+        .on("postgres_changes", { event: "DELETE", schema: "public", table: "bookmarks" }, (payload) => {
+          removeRows([payload.old.id as string]);
+        })
+        .subscribe();
+    });
+
+    return () => {
+      cancelled = true;
+      if (channel) supabase.removeChannel(channel);
+    };
+  }, [removeRows]);
+
+  // ── Actions ──────────────────────────────────────────────────────────────
+  const handleRestore = async (bookmark: TrashedBookmark) => {
+    setError(null);
+    setBusy(bookmark.id, true);
+    const { error: restoreError } = await restoreBookmark(createClient(), bookmark.id);
+    setBusy(bookmark.id, false);
+    if (restoreError) {
+      setError(`Couldn't restore "${bookmark.title}": ${restoreError}`);
+      return;
+    }
+    removeRows([bookmark.id]);
+  };
+
+  const handlePurge = async (bookmark: TrashedBookmark) => {
+    if (!window.confirm(`Delete "${bookmark.title}" for good? This can't be undone.`)) return;
+    setError(null);
+    setBusy(bookmark.id, true);
+    const purgeError = await purgeBookmarks(createClient(), [bookmark.id]);
+    setBusy(bookmark.id, false);
+    if (purgeError) {
+      setError(`Couldn't delete "${bookmark.title}": ${purgeError}`);
+      return;
+    }
+    removeRows([bookmark.id]);
+  };
+
+  // Only what's listed here, so a bookmark trashed meanwhile elsewhere survives
+  const handleEmpty = async () => {
+    const count = bookmarks.length;
+    if (!window.confirm(`Delete all ${count} bookmark${count !== 1 ? "s" : ""} in the Trash for good? This can't be undone.`)) {
+      return;
+    }
+    setError(null);
+    setIsEmptying(true);
+    const ids = bookmarks.map((b) => b.id);
+    const purgeError = await purgeBookmarks(createClient(), ids);
+    setIsEmptying(false);
+    if (purgeError) {
+      setError(`Couldn't empty the Trash: ${purgeError}`);
+      return;
+    }
+    removeRows(ids);
+  };
+
+  // ── Render ───────────────────────────────────────────────────────────────
+  return (
+    <div className="space-y-3 animate-fade-in">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-xs text-slate-500">
+          Bookmarks are deleted for good {TRASH_RETENTION_DAYS} days after they&apos;re moved here.
+        </p>
+        {bookmarks.length > 0 && (
+          <button type="button" onClick={handleEmpty} disabled={isEmptying} className="btn-danger flex-shrink-0">
+            {isEmptying ? "Emptying…" : "Empty Trash"}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <p className="text-xs text-red-600 bg-red-50 border border-red-100 rounded-lg px-3 py-2">{error}</p>
+      )}
+
+      {bookmarks.length === 0 ? (
+        <div className="text-center py-16">
+          <h3 className="text-slate-600 font-semibold text-sm">The Trash is empty</h3>
+          <p className="text-slate-400 text-xs mt-1">Deleted bookmarks wait here in case you change your mind.</p>
+        </div>
+      ) : (
+        <ul className="space-y-2">
+          {bookmarks.map((bookmark) => {
+            const isBusy = busyIds.has(bookmark.id) || isEmptying;
+            const collectionName = bookmark.collection_id ? collectionNames[bookmark.collection_id] : null;
+            return (
+              <li
+                key={bookmark.id}
+                className="flex items-center gap-3 bg-white rounded-xl border border-slate-100 shadow-sm px-4 py-3"
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-slate-800 truncate">{bookmark.title}</p>
+                  <p className="text-xs text-slate-400 truncate">{bookmark.url}</p>
+                  <p className="text-[11px] text-slate-400 mt-0.5">
+                    {collectionName && <span className="text-slate-500">{collectionName} · </span>}
+                    Deleted {formatDate(bookmark.deleted_at)} · gone after {formatDate(purgeDate(bookmark.deleted_at))}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleRestore(bookmark)}
+                  disabled={isBusy}
+                  className="btn-secondary flex-shrink-0"
+                >
+                  Restore
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handlePurge(bookmark)}
+                  disabled={isBusy}
+                  className="btn-danger flex-shrink-0"
+                  aria-label={`Delete for good: ${bookmark.title}`}
+                >
+                  Delete forever
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function formatDate(value: string | Date): string {
+  return new Date(value).toLocaleDateString("en-GB", DATE_FORMAT);
+}
+
+// Realtime rows carry every column; the list only keeps the view's
+function toTrashed(row: Bookmark): TrashedBookmark {
+  const { id, user_id, collection_id, title, url, created_at } = row;
+  return { id, user_id, collection_id, title, url, created_at, deleted_at: row.deleted_at! };
+}
+
+function insertByDeletedAt(list: TrashedBookmark[], bookmark: TrashedBookmark): TrashedBookmark[] {
+  const at = Date.parse(bookmark.deleted_at);
+  const index = list.findIndex((b) => Date.parse(b.deleted_at) < at);
+  return index === -1 ? [...list, bookmark] : [...list.slice(0, index), bookmark, ...list.slice(index)];
+}
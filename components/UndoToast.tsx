@@ -0,0 +1,54 @@
+/**
+ * components/UndoToast.tsx
+ * Message pinned to the bottom of the screen with an Undo button, shown
+ * after a bookmark is moved to the Trash. Dismisses itself after
+ * UNDO_TIMEOUT_MS; give it a new key to restart the timer.
+ */
+
+"use client";
+
+import { useEffect } from "react";
+import Link from "next/link";
+import { UNDO_TIMEOUT_MS } from "@/lib/trash";
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+export default function UndoToast({ message, onUndo, onDismiss }: UndoToastProps) {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, UNDO_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [onDismiss]);
+
+  return (
+    <div role="status" className="fixed inset-x-0 bottom-4 z-20 flex justify-center px-4 pointer-events-none">
+      <div className="pointer-events-auto w-full max-w-md flex items-center gap-3 bg-slate-800 text-white
+                      rounded-xl shadow-lg px-4 py-3 animate-slide-up">
+        <p className="flex-1 min-w-0 text-sm truncate">{message}</p>
+        <Link href="/trash" className="text-xs font-medium text-slate-300 hover:text-white">
+          Trash
+        </Link>
+        <button
+          type="button"
+          onClick={onUndo}
+          className="text-sm font-semibold text-blue-300 hover:text-blue-200"
+        >
+          Undo
+        </button>
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="text-slate-400 hover:text-white"
+          aria-label="Dismiss"
+        >
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+    </div>
+  );
+}
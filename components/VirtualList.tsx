@@ -0,0 +1,153 @@
+/**
+ * components/VirtualList.tsx
+ *
+ * Window-scrolled list that only renders the rows near the viewport;
+ * padding above and below stands in for the rest. Rows vary in height
+ * (previews, tags, inline editing), so every rendered row is measured
+ * with a ResizeObserver and rows not seen yet use an estimate. When
+ * `activeIndex` points outside the rendered rows (keyboard navigation)
+ * the window scrolls to it so it gets rendered.
+ */
+
+"use client";
+
+import { Fragment, useEffect, useMemo, useRef, useState, type ReactNode } from "react";
+
+interface VirtualListProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T, index: number) => ReactNode;
+  activeIndex: number | null;
+  estimatedHeight: number;
+  gap: number;                  // must match the className's space-y-*
+  className?: string;
+}
+
+// Rows rendered beyond each edge of the viewport
+const OVERSCAN_PX = 800;
+// Before the first measurement (and on the server): roughly one screen
+const INITIAL_VIEWPORT_PX = 1200;
+// Scroll position is tracked in steps so scrolling doesn't re-render every frame
+const SCROLL_STEP_PX = 200;
+
+export default function VirtualList<T>({
+  items,
+  getKey,
+  renderItem,
+  activeIndex,
+  estimatedHeight,
+  gap,
+  className,
+}: VirtualListProps<T>) {
+  const listRef = useRef<HTMLUListElement>(null);
+  const keysRef = useRef(new WeakMap<Element, string>());
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const scrolledToRef = useRef<number | null>(null);
+  const [heights, setHeights] = useState<Map<string, number>>(() => new Map());
+  const [viewport, setViewport] = useState({ top: 0, bottom: INITIAL_VIEWPORT_PX });
+
+  // offsets[i] = distance from the list's top to row i; offsets[n] ends the last gap
+  const offsets = useMemo(() => {
+    const result = [0];
+    for (const item of items) {
+      const height = heights.get(getKey(item)) ?? estimatedHeight;
+      result.push(result[result.length - 1] + height + gap);
+    }
+    return result;
+  }, [items, getKey, estimatedHeight, gap, heights]);
+
+  const start = Math.min(firstIndexEndingAfter(offsets, viewport.top), items.length);
+  let end = start;
+  while (end < items.length && offsets[end] < viewport.bottom) end++;
+
+  // ── Viewport tracking ──────────────────────────────────────────────────
+  useEffect(() => {
+    const update = () => {
+      const list = listRef.current;
+      if (!list) return;
+      const scrolled = -list.getBoundingClientRect().top;
+      const top = Math.floor((scrolled - OVERSCAN_PX) / SCROLL_STEP_PX) * SCROLL_STEP_PX;
+      const bottom = Math.ceil((scrolled + window.innerHeight + OVERSCAN_PX) / SCROLL_STEP_PX) * SCROLL_STEP_PX;
+      setViewport((prev) => (prev.top === top && prev.bottom === bottom ? prev : { top, bottom }));
+    };
+
+    update();
+    window.addEventListener("scroll", update, { passive: true });
+    window.addEventListener("resize", update);
+    return () => {
+      window.removeEventListener("scroll", update);
+      window.removeEventListener("resize", update);
+    };
+    // Content above the list (filters, errors) can move it, so re-check when rows change
+  }, [items.length]);
+
+  // ── Row measurement ────────────────────────────────────────────────────
+  useEffect(() => {
+    const observer = new ResizeObserver((entries) => {
+      const measured: [string, number][] = [];
+      for (const entry of entries) {
+        const key = keysRef.current.get(entry.target);
+        const height = (entry.target as HTMLElement).offsetHeight;
+        // Detached rows report 0; keep their last real height
+        if (key && entry.target.isConnected && height > 0) measured.push([key, height]);
+      }
+      setHeights((prev) => {
+        const changed = measured.filter(([key, height]) => prev.get(key) !== height);
+        return changed.length > 0 ? new Map([...Array.from(prev), ...changed]) : prev;
+      });
+    });
+    observerRef.current = observer;
+    return () => observer.disconnect();
+  }, []);
+
+  // Observing an element twice is a no-op, so every render can just re-run this
+  useEffect(() => {
+    const list = listRef.current;
+    const observer = observerRef.current;
+    if (!list || !observer) return;
+    Array.from(list.children).forEach((row, i) => {
+      const item = items[start + i];
+      if (!item) return;
+      keysRef.current.set(row, getKey(item));
+      observer.observe(row);
+    });
+  });
+
+  // ── Keyboard navigation ────────────────────────────────────────────────
+  // Only reacts to activeIndex changing, so scrolling away from the active
+  // row by hand isn't undone
+  useEffect(() => {
+    if (activeIndex === scrolledToRef.current) return;
+    scrolledToRef.current = activeIndex;
+    const list = listRef.current;
+    if (!list || activeIndex === null || (activeIndex >= start && activeIndex < end)) return;
+
+    const listTop = list.getBoundingClientRect().top + window.scrollY;
+    window.scrollTo({ top: listTop + offsets[activeIndex] - window.innerHeight / 3 });
+  }, [activeIndex, start, end, offsets]);
+
+  const total = offsets[items.length];
+  return (
+    <ul
+      ref={listRef}
+      className={className}
+      style={{ paddingTop: offsets[start], paddingBottom: Math.max(total - offsets[end], 0) }}
+    >
+      {items.slice(start, end).map((item, i) => (
+        <Fragment key={getKey(item)}>{renderItem(item, start + i)}</Fragment>
+      ))}
+    </ul>
+  );
+}
+
+// Binary search for the first row whose bottom edge is below `top`
+function firstIndexEndingAfter(offsets: number[], top: number): number {
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid + 1] > top) high = mid;
+    else low = mid + 1;
+  }
+  return low;
+}
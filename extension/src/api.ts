@@ -0,0 +1,94 @@
+/**
+ * extension/src/api.ts
+ *
+ * Thin client for the app's /api/v1/bookmarks endpoints. Sends the
+ * token from settings when there is one, otherwise the session cookie
+ * (the host permission granted in options lets the cookie through).
+ * Every call resolves to `{ …, error }` rather than throwing, matching
+ * how the web app handles Supabase results.
+ */
+
+import type { ApiBookmark } from "@/lib/types";
+import { loadSettings } from "./settings";
+
+export interface SaveInput {
+  url: string;
+  title: string;
+  description: string | null;
+  tags: string[];
+}
+
+interface ApiResult {
+  status: number;
+  body: Record<string, unknown> | null;
+  error: string | null;
+}
+
+export const NOT_CONFIGURED = "Set the Smart Bookmarks address in the extension options first.";
+
+/**
+ * Looks up a URL among the caller's bookmarks. The server compares
+ * canonical URLs, so http/https, www. and tracking-parameter variants
+ * all count as already saved.
+ */
+export async function findSavedBookmark(
+  url: string
+): Promise<{ bookmark: ApiBookmark | null; error: string | null }> {
+  const { body, error } = await request(`/api/v1/bookmarks?limit=1&url=${encodeURIComponent(url)}`);
+  if (error) return { bookmark: null, error };
+  const data = (body?.data ?? []) as ApiBookmark[];
+  return { bookmark: data[0] ?? null, error: null };
+}
+
+/**
+ * Saves a bookmark. A 409 means it was saved in the meantime; that
+ * comes back as `alreadySaved` with the existing id, not as an error.
+ */
+export async function saveBookmark(
+  input: SaveInput
+): Promise<{ bookmark: ApiBookmark | null; alreadySaved: string | null; error: string | null }> {
+  const { status, body, error } = await request("/api/v1/bookmarks", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+
+  if (status === 409 && typeof body?.id === "string") {
+    return { bookmark: null, alreadySaved: body.id, error: null };
+  }
+  if (error) return { bookmark: null, alreadySaved: null, error };
+  return { bookmark: body as unknown as ApiBookmark, alreadySaved: null, error: null };
+}
+
+export async function dashboardUrl(): Promise<string | null> {
+  const { appUrl } = await loadSettings();
+  return appUrl ? `${appUrl}/dashboard` : null;
+}
+
+async function request(path: string, init: RequestInit = {}): Promise<ApiResult> {
+  const { appUrl, token } = await loadSettings();
+  if (!appUrl) return { status: 0, body: null, error: NOT_CONFIGURED };
+
+  const headers = new Headers(init.headers);
+  if (token) headers.set("Authorization", `Bearer ${token}`);
+
+  let res: Response;
+  try {
+    res = await fetch(`${appUrl}${path}`, {
+      ...init,
+      headers,
+      credentials: token ? "omit" : "include",
+    });
+  } catch {
+    return { status: 0, body: null, error: `Couldn't reach ${appUrl}.` };
+  }
+
+  const body = (await res.json().catch(() => null)) as Record<string, unknown> | null;
+  if (res.ok) return { status: res.status, body, error: null };
+
+  const message = typeof body?.error === "string" ? body.error : `Request failed (${res.status})`;
+  if (res.status === 401 && !token) {
+    return { status: res.status, body, error: "Sign in to Smart Bookmarks in this browser, or add an API token in the options." };
+  }
+  return { status: res.status, body, error: message };
+}
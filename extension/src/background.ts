@@ -0,0 +1,56 @@
+/**
+ * extension/src/background.ts
+ *
+ * Service worker for the "save-page" keyboard shortcut: saves the active
+ * tab straight away (selection as the note, no tags) and reports the
+ * outcome on the toolbar badge — ✓ saved, = already saved, ! failed,
+ * with the reason in the button's tooltip.
+ */
+
+import { saveBookmark } from "./api";
+import { buildSaveInput, captureActiveTab, noteFromSelection } from "./capture";
+
+const BADGE_MS = 4000;
+
+const BADGES = {
+  saved: { text: "✓", color: "#10b981" },
+  duplicate: { text: "=", color: "#3b82f6" },
+  failed: { text: "!", color: "#ef4444" },
+} as const;
+
+chrome.commands.onCommand.addListener(async (command) => {
+  if (command !== "save-page") return;
+
+  const tab = await captureActiveTab();
+  if (!tab) return;
+
+  const { input, error: inputError } = buildSaveInput({
+    url: tab.url,
+    title: tab.title,
+    note: noteFromSelection(tab.selection),
+    tags: "",
+  });
+  if (!input) {
+    await showBadge(tab.tabId, "failed", inputError ?? "This page can't be saved.");
+    return;
+  }
+
+  const { alreadySaved, error } = await saveBookmark(input);
+  if (error) await showBadge(tab.tabId, "failed", error);
+  else if (alreadySaved) await showBadge(tab.tabId, "duplicate", "Already in Smart Bookmarks");
+  else await showBadge(tab.tabId, "saved", "Saved to Smart Bookmarks");
+});
+
+async function showBadge(tabId: number, kind: keyof typeof BADGES, title: string) {
+  const { text, color } = BADGES[kind];
+  await chrome.action.setBadgeBackgroundColor({ tabId, color });
+  await chrome.action.setBadgeText({ tabId, text });
+  await chrome.action.setTitle({ tabId, title });
+
+  // The worker may be suspended before this fires; the badge is per-tab,
+  // so a leftover one is harmless
+  setTimeout(() => {
+    chrome.action.setBadgeText({ tabId, text: "" }).catch(() => {});
+    chrome.action.setTitle({ tabId, title: "Save to Smart Bookmarks" }).catch(() => {});
+  }, BADGE_MS);
+}
@@ -0,0 +1,69 @@
+/**
+ * extension/src/capture.ts
+ *
+ * Reads the active tab (title, URL and any selected text) and turns it
+ * into a save request, validated with the same rules as the web app's
+ * BookmarkForm — lib/validation and lib/tags are bundled in directly.
+ */
+
+import { normaliseUrl, validateUrl } from "@/lib/validation";
+import { parseTagInput, validateTags } from "@/lib/tags";
+import type { SaveInput } from "./api";
+
+// Same limits the API enforces (METADATA_LIMITS in lib/metadata.ts)
+const TITLE_MAX_LENGTH = 200;
+const NOTE_MAX_LENGTH = 1000;
+
+export interface CapturedTab {
+  tabId: number;
+  title: string;
+  url: string;
+  selection: string;
+}
+
+/**
+ * Only works right after a user gesture (toolbar click or shortcut),
+ * which is when activeTab grants access to the page.
+ */
+export async function captureActiveTab(): Promise<CapturedTab | null> {
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  if (!tab?.id || !tab.url) return null;
+
+  let selection = "";
+  try {
+    const [result] = await chrome.scripting.executeScript({
+      target: { tabId: tab.id },
+      func: () => window.getSelection()?.toString() ?? "",
+    });
+    selection = typeof result?.result === "string" ? result.result : "";
+  } catch {
+    // Browser pages (chrome://, the web store) can't be scripted
+  }
+
+  return { tabId: tab.id, title: tab.title ?? "", url: tab.url, selection: selection.trim() };
+}
+
+export function buildSaveInput(fields: {
+  url: string;
+  title: string;
+  note: string;
+  tags: string;
+}): { input: SaveInput | null; error: string | null } {
+  const urlError = validateUrl(fields.url);
+  if (urlError) return { input: null, error: urlError };
+
+  const tags = parseTagInput(fields.tags);
+  const tagError = validateTags(tags);
+  if (tagError) return { input: null, error: tagError };
+
+  const url = normaliseUrl(fields.url);
+  const title = fields.title.replace(/\s+/g, " ").trim().slice(0, TITLE_MAX_LENGTH) || new URL(url).hostname;
+  const note = fields.note.trim().slice(0, NOTE_MAX_LENGTH);
+
+  return { input: { url, title, description: note || null, tags }, error: null };
+}
+
+// The selection becomes the note, quoted the way it'd be pasted
+export function noteFromSelection(selection: string): string {
+  return selection ? `“${selection.replace(/\s+/g, " ")}”` : "";
+}
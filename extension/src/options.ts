@@ -0,0 +1,55 @@
+/**
+ * extension/src/options.ts
+ *
+ * Options page: the Smart Bookmarks address and an optional API token.
+ * Saving asks for host permission on that address — the popup and the
+ * shortcut can't reach the API (or send the session cookie) without it.
+ */
+
+import { API_TOKEN_PREFIX } from "@/lib/apiTokens";
+import { loadSettings, originPattern, parseAppUrl, saveSettings } from "./settings";
+
+const form = document.getElementById("options-form") as HTMLFormElement;
+const appUrlInput = document.getElementById("app-url") as HTMLInputElement;
+const tokenInput = document.getElementById("token") as HTMLInputElement;
+const errorLine = document.getElementById("error") as HTMLParagraphElement;
+const savedLine = document.getElementById("saved") as HTMLParagraphElement;
+
+function showError(message: string | null) {
+  errorLine.textContent = message ?? "";
+  errorLine.hidden = !message;
+}
+
+loadSettings().then(({ appUrl, token }) => {
+  appUrlInput.value = appUrl;
+  tokenInput.value = token;
+});
+
+form.addEventListener("submit", async (e) => {
+  e.preventDefault();
+  showError(null);
+  savedLine.hidden = true;
+
+  const appUrl = parseAppUrl(appUrlInput.value);
+  if (!appUrl) {
+    showError("Enter the address you open Smart Bookmarks at, e.g. https://bookmarks.example.com.");
+    return;
+  }
+
+  const token = tokenInput.value.trim();
+  if (token && !token.startsWith(API_TOKEN_PREFIX)) {
+    showError(`API tokens start with ${API_TOKEN_PREFIX}.`);
+    return;
+  }
+
+  // Must run inside the click that submitted the form
+  const granted = await chrome.permissions.request({ origins: [originPattern(appUrl)] });
+  if (!granted) {
+    showError(`The extension needs access to ${appUrl} to save bookmarks there.`);
+    return;
+  }
+
+  await saveSettings({ appUrl, token });
+  appUrlInput.value = appUrl;
+  savedLine.hidden = false;
+});
@@ -0,0 +1,126 @@
+/**
+ * extension/src/popup.ts
+ *
+ * Toolbar popup: pre-fills the active tab's title, URL and selected text,
+ * says whether the page is already saved, and saves it with optional
+ * tags. Enter in a field or Ctrl/Cmd+Enter in the note submits.
+ */
+
+import type { ApiBookmark } from "@/lib/types";
+import { dashboardUrl, findSavedBookmark, saveBookmark } from "./api";
+import { buildSaveInput, captureActiveTab, noteFromSelection } from "./capture";
+
+const form = document.getElementById("save-form") as HTMLFormElement;
+const titleInput = document.getElementById("title") as HTMLInputElement;
+const urlInput = document.getElementById("url") as HTMLInputElement;
+const tagsInput = document.getElementById("tags") as HTMLInputElement;
+const noteInput = document.getElementById("note") as HTMLTextAreaElement;
+const saveButton = document.getElementById("save") as HTMLButtonElement;
+const statusLine = document.getElementById("status") as HTMLParagraphElement;
+const statusText = document.getElementById("status-text") as HTMLSpanElement;
+const dashboardLink = document.getElementById("open-dashboard") as HTMLAnchorElement;
+const errorLine = document.getElementById("error") as HTMLParagraphElement;
+
+// ── Status and errors ─────────────────────────────────────────────────────
+
+function showStatus(text: string, saved = false) {
+  statusText.textContent = text;
+  statusLine.classList.toggle("saved", saved);
+  dashboardLink.hidden = !saved;
+  statusLine.hidden = false;
+}
+
+function showError(message: string | null) {
+  errorLine.textContent = message ?? "";
+  errorLine.hidden = !message;
+}
+
+function showSaved(bookmark: Pick<ApiBookmark, "created_at"> | null) {
+  const when = bookmark
+    ? ` on ${new Date(bookmark.created_at).toLocaleDateString(undefined, { day: "numeric", month: "short", year: "numeric" })}`
+    : "";
+  showStatus(`Already saved${when}.`, true);
+  saveButton.disabled = true;
+  saveButton.textContent = "Saved";
+}
+
+// ── Startup ───────────────────────────────────────────────────────────────
+
+async function init() {
+  const tab = await captureActiveTab();
+  if (!tab) {
+    showError("This tab can't be saved.");
+    saveButton.disabled = true;
+    return;
+  }
+
+  titleInput.value = tab.title;
+  urlInput.value = tab.url;
+  noteInput.value = noteFromSelection(tab.selection);
+  tagsInput.focus();
+
+  showStatus("Checking…");
+  const { bookmark, error } = await findSavedBookmark(tab.url);
+  if (error) {
+    statusLine.hidden = true;
+    showError(error);
+    return;
+  }
+  if (bookmark) showSaved(bookmark);
+  else statusLine.hidden = true;
+}
+
+// ── Save ──────────────────────────────────────────────────────────────────
+
+form.addEventListener("submit", async (e) => {
+  e.preventDefault();
+  if (saveButton.disabled) return;
+  showError(null);
+
+  const { input, error: inputError } = buildSaveInput({
+    url: urlInput.value,
+    title: titleInput.value,
+    note: noteInput.value,
+    tags: tagsInput.value,
+  });
+  if (!input) {
+    showError(inputError);
+    return;
+  }
+
+  saveButton.disabled = true;
+  saveButton.textContent = "Saving…";
+
+  const { alreadySaved, error } = await saveBookmark(input);
+  if (error) {
+    saveButton.disabled = false;
+    saveButton.textContent = "Save";
+    showError(error);
+    return;
+  }
+  if (alreadySaved) {
+    showSaved(null);
+    return;
+  }
+
+  showStatus("Saved!");
+  saveButton.textContent = "Saved";
+  setTimeout(() => window.close(), 800);
+});
+
+noteInput.addEventListener("keydown", (e) => {
+  if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) form.requestSubmit();
+});
+
+document.getElementById("options")?.addEventListener("click", (e) => {
+  e.preventDefault();
+  chrome.runtime.openOptionsPage();
+});
+
+dashboardLink.addEventListener("click", async (e) => {
+  e.preventDefault();
+  const url = await dashboardUrl();
+  if (url) chrome.tabs.create({ url });
+});
+
+init();
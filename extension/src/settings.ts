@@ -0,0 +1,45 @@
+/**
+ * extension/src/settings.ts
+ *
+ * Extension settings, kept in chrome.storage.sync: where the app lives
+ * and, optionally, a personal access token. Without a token requests
+ * ride on the browser's normal Smart Bookmarks session cookie.
+ */
+
+export interface ExtensionSettings {
+  appUrl: string;          // origin only, e.g. "https://bookmarks.example.com"
+  token: string;           // "" = use the signed-in session
+}
+
+const DEFAULTS: ExtensionSettings = {
+  appUrl: "",
+  token: "",
+};
+
+export async function loadSettings(): Promise<ExtensionSettings> {
+  const stored = await chrome.storage.sync.get(DEFAULTS);
+  return { ...DEFAULTS, ...(stored as Partial<ExtensionSettings>) };
+}
+
+export async function saveSettings(settings: ExtensionSettings): Promise<void> {
+  await chrome.storage.sync.set(settings);
+}
+
+/**
+ * Reduces whatever was typed to an http(s) origin, or null. Paths are
+ * dropped so "https://app.example.com/dashboard" works too.
+ */
+export function parseAppUrl(raw: string): string | null {
+  try {
+    const url = new URL(raw.trim());
+    if (url.protocol !== "https:" && url.protocol !== "http:") return null;
+    return url.origin;
+  } catch {
+    return null;
+  }
+}
+
+// Host permission pattern the options page requests for the app's origin
+export function originPattern(appUrl: string): string {
+  return `${appUrl}/*`;
+}
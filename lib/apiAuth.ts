@@ -0,0 +1,77 @@
+/**
+ * lib/apiAuth.ts
+ *
+ * Authentication for the /api/v1 REST API. A request is accepted if it
+ * carries either the normal session cookie (full access, RLS applies) or
+ * an `Authorization: Bearer sbk_…` personal access token. Token requests
+ * use the service-role client, so handlers must always filter on userId.
+ */
+
+import { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createServerSupabaseClient } from "@/lib/supabaseServer";
+import { createAdminSupabaseClient } from "@/lib/supabaseAdmin";
+import { API_TOKEN_PREFIX, hashApiToken, scopeAllows } from "@/lib/apiTokens";
+import type { ApiTokenScope } from "@/lib/types";
+
+export interface ApiContext {
+  supabase: SupabaseClient;
+  userId: string;
+}
+
+/**
+ * Resolves the caller of an API request. Returns the error response to
+ * send instead when the caller is unknown or lacks `required` scope.
+ */
+export async function authenticateApiRequest(
+  request: Request,
+  required: ApiTokenScope
+): Promise<ApiContext | NextResponse> {
+  const header = request.headers.get("authorization");
+
+  if (!header) {
+    const supabase = await createServerSupabaseClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+    return { supabase, userId: user.id };
+  }
+
+  const token = header.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!token || !token.startsWith(API_TOKEN_PREFIX)) {
+    return NextResponse.json({ error: "Expected Authorization: Bearer <token>" }, { status: 401 });
+  }
+
+  let supabase: SupabaseClient;
+  try {
+    supabase = createAdminSupabaseClient();
+  } catch (err) {
+    console.error("API token auth:", err instanceof Error ? err.message : err);
+    return NextResponse.json({ error: "Token authentication is not configured" }, { status: 500 });
+  }
+
+  const { data: row, error } = await supabase
+    .from("api_tokens")
+    .select("id, user_id, scope")
+    .eq("token_hash", await hashApiToken(token))
+    .maybeSingle();
+
+  if (error) {
+    return NextResponse.json({ error: "Token lookup failed" }, { status: 500 });
+  }
+  if (!row) {
+    return NextResponse.json({ error: "Invalid or revoked token" }, { status: 401 });
+  }
+  if (!scopeAllows(row.scope as ApiTokenScope, required)) {
+    return NextResponse.json({ error: "This token is read-only" }, { status: 403 });
+  }
+
+  // Best effort — a failed timestamp update shouldn't fail the request
+  await supabase
+    .from("api_tokens")
+    .update({ last_used_at: new Date().toISOString() })
+    .eq("id", row.id);
+
+  return { supabase, userId: row.user_id as string };
+}
@@ -0,0 +1,127 @@
+/**
+ * lib/apiBookmarks.ts
+ *
+ * Request parsing and response shaping shared by the /api/v1/bookmarks
+ * route handlers. Input goes through the same URL, title and tag rules
+ * as BookmarkForm so API-created bookmarks look like any other.
+ */
+
+import { METADATA_LIMITS } from "@/lib/metadata";
+import { validateNotes } from "@/lib/notes";
+import { parseTagInput, validateTags } from "@/lib/tags";
+import { normaliseUrl, validateUrl } from "@/lib/validation";
+import type { ApiBookmark, Bookmark, BookmarkHighlight } from "@/lib/types";
+
+export const API_DEFAULT_LIMIT = 50;
+export const API_MAX_LIMIT = 100;
+
+// Columns returned by the API; tags are embedded through bookmark_tags,
+// highlights (lib/notes.ts) alongside them
+export const API_BOOKMARK_COLUMNS =
+  "id, user_id, title, url, description, notes, highlight_count, image_url, site_name, favicon_url, link_status, link_status_code, link_final_url, link_error, link_checked_at, archived_at, reading_status, read_at, visit_count, last_visited_at, created_at, updated_at, tags(name), highlights:bookmark_highlights(id, bookmark_id, user_id, quote, comment, created_at)";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface BookmarkInput {
+  url?: string;
+  title?: string;
+  description?: string | null;
+  notes?: string | null;
+  tags?: string[];
+}
+
+export type ApiBookmarkRow = Omit<Bookmark, "canonical_url" | "collection_id" | "deleted_at"> & {
+  tags?: { name: string }[] | null;
+  highlights?: BookmarkHighlight[] | null;
+  bookmark_tags?: unknown;      // present when the list is filtered by tag
+};
+
+export function toApiBookmark(row: ApiBookmarkRow): ApiBookmark {
+  const { tags, highlights, bookmark_tags, ...bookmark } = row;
+  return {
+    ...bookmark,
+    tags: (tags ?? []).map((t) => t.name).sort(),
+    // Oldest first, as the app lists them
+    highlights: [...(highlights ?? [])].sort((a, b) => a.created_at.localeCompare(b.created_at)),
+  };
+}
+
+export function isBookmarkId(value: string): boolean {
+  return UUID_PATTERN.test(value);
+}
+
+/**
+ * Validates a JSON body for create (`partial = false`, url required) or
+ * update (`partial = true`, every field optional). Unknown fields are
+ * ignored. Tags may be an array or a comma-separated string.
+ */
+export function parseBookmarkInput(
+  body: unknown,
+  partial: boolean
+): { input: BookmarkInput; error: string | null } {
+  const input: BookmarkInput = {};
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { input, error: "Body must be a JSON object." };
+  }
+  const obj = body as Record<string, unknown>;
+
+  if (obj.url !== undefined || !partial) {
+    if (typeof obj.url !== "string") return { input, error: "url is required." };
+    const urlError = validateUrl(obj.url);
+    if (urlError) return { input, error: urlError };
+    input.url = normaliseUrl(obj.url);
+    if (input.url.length > METADATA_LIMITS.url) {
+      return { input, error: "URL is longer than 2000 characters." };
+    }
+  }
+
+  if (obj.title !== undefined) {
+    const title = typeof obj.title === "string" ? obj.title.replace(/\s+/g, " ").trim() : "";
+    if (!title) return { input, error: "title must be a non-empty string." };
+    if (title.length > METADATA_LIMITS.title) return { input, error: "Title is longer than 200 characters." };
+    input.title = title;
+  }
+
+  if (obj.description !== undefined) {
+    if (obj.description !== null && typeof obj.description !== "string") {
+      return { input, error: "description must be a string or null." };
+    }
+    const description = obj.description?.trim() || null;
+    if (description && description.length > METADATA_LIMITS.description) {
+      return { input, error: "Description is longer than 1000 characters." };
+    }
+    input.description = description;
+  }
+
+  if (obj.notes !== undefined) {
+    if (obj.notes !== null && typeof obj.notes !== "string") {
+      return { input, error: "notes must be a string or null." };
+    }
+    const notes = obj.notes?.trim() || null;
+    const notesError = notes && validateNotes(notes);
+    if (notesError) return { input, error: notesError };
+    input.notes = notes;
+  }
+
+  if (obj.tags !== undefined) {
+    const raw = Array.isArray(obj.tags) ? obj.tags : [obj.tags];
+    if (!raw.every((t) => typeof t === "string")) {
+      return { input, error: "tags must be an array of strings." };
+    }
+    const tags = parseTagInput(raw.join(","));
+    const tagError = validateTags(tags);
+    if (tagError) return { input, error: tagError };
+    input.tags = tags;
+  }
+
+  return { input, error: null };
+}
+
+// Reads the request body as JSON, or null if it isn't valid JSON
+export async function readJson(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * lib/apiTokens.ts
+ *
+ * Personal access tokens for the /api/v1 REST API. A token is shown to
+ * the user once when it is created; only its SHA-256 hash is stored, so
+ * a leaked database row can't be replayed. Uses Web Crypto, which is
+ * available both in the browser (settings page) and in route handlers.
+ */
+
+import type { ApiTokenScope } from "@/lib/types";
+
+export const API_TOKEN_PREFIX = "sbk_";
+export const MAX_TOKEN_NAME_LENGTH = 100;
+
+export const API_TOKEN_SCOPES: Record<ApiTokenScope, string> = {
+  read: "Read-only",
+  write: "Read & write",
+};
+
+export function isApiTokenScope(value: string): value is ApiTokenScope {
+  return value in API_TOKEN_SCOPES;
+}
+
+// "sbk_" + 32 random bytes, base64url encoded
+export function generateApiToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const base64 = btoa(String.fromCharCode(...Array.from(bytes)));
+  return API_TOKEN_PREFIX + base64.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export async function hashApiToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Enough of the token to recognise it in the list without revealing it
+export function tokenDisplayPrefix(token: string): string {
+  return token.slice(0, API_TOKEN_PREFIX.length + 6);
+}
+
+// A write token can also read; a read token can only read
+export function scopeAllows(granted: ApiTokenScope, required: ApiTokenScope): boolean {
+  return granted === "write" || required === "read";
+}
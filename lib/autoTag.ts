@@ -0,0 +1,378 @@
+/**
+ * lib/autoTag.ts
+ *
+ * Tag suggestions for new and untagged bookmarks, worked out here from
+ * the user's own data — no outside service is asked. Four signals,
+ * strongest first:
+ *   - the user's rules (tag_rules, schema.sql section 18), e.g.
+ *     "URL contains /docs/ → docs", managed from Settings
+ *   - built-in rules for well-known sites, e.g. github.com → code
+ *   - keywords: a tag's name appears in the title, description or URL
+ *   - similarity: TF-IDF over the text of the user's tagged bookmarks,
+ *     one centroid per tag, compared with the page's text by cosine
+ * Nothing here writes tags; the form and Settings offer the suggestions
+ * and the user picks. Pure apart from loadTagModel, so the same code
+ * serves /api/tags/suggest and the back-fill in /api/tags/backfill.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { normaliseTagName, validateTags } from "@/lib/tags";
+import type { TagRule, TagRuleField, TagSuggestion } from "@/lib/types";
+
+export const MAX_SUGGESTIONS = 5;
+export const MAX_RULE_PATTERN_LENGTH = 200;
+export const TAG_RULE_COLUMNS = "id, user_id, field, pattern, tag_name, created_at";
+
+export const TAG_RULE_FIELDS: Record<TagRuleField, string> = {
+  domain: "Domain is",
+  url: "URL contains",
+  title: "Title contains",
+};
+
+// Well-known sites; like user rules, a domain also covers its subdomains
+export const BUILT_IN_DOMAIN_RULES: Record<string, string> = {
+  "github.com": "code",
+  "gitlab.com": "code",
+  "bitbucket.org": "code",
+  "stackoverflow.com": "code",
+  "npmjs.com": "code",
+  "pypi.org": "code",
+  "crates.io": "code",
+  "codepen.io": "code",
+  "developer.mozilla.org": "docs",
+  "readthedocs.io": "docs",
+  "youtube.com": "video",
+  "youtu.be": "video",
+  "vimeo.com": "video",
+  "twitch.tv": "video",
+  "arxiv.org": "research",
+  "doi.org": "research",
+  "scholar.google.com": "research",
+  "wikipedia.org": "reference",
+  "news.ycombinator.com": "news",
+  "reddit.com": "discussion",
+  "medium.com": "articles",
+  "substack.com": "articles",
+  "dev.to": "articles",
+  "figma.com": "design",
+  "dribbble.com": "design",
+  "behance.net": "design",
+  "spotify.com": "music",
+  "soundcloud.com": "music",
+  "bandcamp.com": "music",
+  "amazon.com": "shopping",
+  "etsy.com": "shopping",
+};
+
+// Scores per signal; similarity scores are the cosine itself (0–1)
+const SCORES = { rule: 1, domain: 0.9, keyword: 0.6 };
+const SIMILARITY_THRESHOLD = 0.15;
+// A tag needs a few examples before its centroid means anything
+const MIN_TAG_EXAMPLES = 2;
+// Page text beyond this adds little and costs a lot
+const MAX_TEXT_LENGTH = 20_000;
+// Tagged bookmarks read to build the model, newest links first
+const TRAINING_LINK_LIMIT = 5000;
+
+// What the classifier reads about a page or bookmark
+export interface ClassifierInput {
+  url: string;
+  title?: string | null;
+  description?: string | null;
+  siteName?: string | null;
+  notes?: string | null;
+  text?: string | null;        // fetched page or archived copy text
+}
+
+export interface TrainingBookmark extends ClassifierInput {
+  tags: string[];
+}
+
+export interface TagModel {
+  documents: number;
+  idf: Map<string, number>;
+  tags: Map<string, { vector: Map<string, number>; examples: number }>;
+  tagNames: string[];          // every tag the user has, examples or not
+}
+
+// ── Rules ─────────────────────────────────────────────────────────────────
+
+export function isTagRuleField(value: string): value is TagRuleField {
+  return value in TAG_RULE_FIELDS;
+}
+
+// "https://www.GitHub.com/x" → "github.com" for domains; others lowercased
+export function normaliseRulePattern(field: TagRuleField, raw: string): string {
+  const pattern = raw.trim().toLowerCase();
+  if (field !== "domain") return pattern;
+  return pattern.replace(/^[a-z]+:\/\//, "").replace(/[/?#:].*$/, "").replace(/^www\./, "").replace(/\.$/, "");
+}
+
+/** Checks a rule before it's saved; pass the normalised pattern and tag. */
+export function validateTagRule(field: TagRuleField, pattern: string, tagName: string): string | null {
+  if (!pattern) return "Enter something for the rule to match.";
+  if (pattern.length > MAX_RULE_PATTERN_LENGTH) {
+    return `Rules can match at most ${MAX_RULE_PATTERN_LENGTH} characters.`;
+  }
+  if (field === "domain" && !/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(pattern)) {
+    return "Enter a domain such as github.com.";
+  }
+  if (!tagName) return "Choose the tag to suggest.";
+  return validateTags([tagName]);
+}
+
+export function describeTagRule(rule: Pick<TagRule, "field" | "pattern">): string {
+  return `${TAG_RULE_FIELDS[rule.field]} ${rule.pattern}`;
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return "";
+  }
+}
+
+function hostMatches(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+export function ruleMatches(rule: Pick<TagRule, "field" | "pattern">, page: ClassifierInput): boolean {
+  switch (rule.field) {
+    case "domain":
+      return hostMatches(hostOf(page.url), rule.pattern);
+    case "url":
+      return page.url.toLowerCase().includes(rule.pattern);
+    case "title":
+      return (page.title ?? "").toLowerCase().includes(rule.pattern);
+  }
+}
+
+// ── Text ──────────────────────────────────────────────────────────────────
+
+// Runs of letters or digits in any script, as in lib/search.ts
+const WORD_PATTERN = new RegExp("[\\p{L}\\p{N}]+", "gu");
+
+const STOP_WORDS = new Set(
+  (
+    "the and for are but not you all any can had her was one our out has his how its may new now " +
+    "see two who did get got let say she too use way about after again also back been being both " +
+    "could does down each even from have here into just like made make many more most much must " +
+    "only other over same some such than that their them then there these they this those very " +
+    "what when where which while will with would your yours what's it's don't www http https com " +
+    "org net html htm php index page home read more click learn sign login"
+  ).split(" ")
+);
+
+// Plurals fold into the singular: "recipes" and "recipe" count as one word
+function stem(word: string): string {
+  return word.length > 4 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word;
+}
+
+function words(text: string): string[] {
+  return (text.toLowerCase().match(WORD_PATTERN) ?? []).map(stem);
+}
+
+// Words worth weighing: no stop words, bare numbers or very short words
+export function tokenize(text: string): string[] {
+  return words(text).filter((w) => w.length >= 3 && w.length <= 30 && !/^\d+$/.test(w) && !STOP_WORDS.has(w));
+}
+
+// The URL's host and path read as words: "github.com/vercel/next.js" → github, vercel, next
+function urlText(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.hostname} ${decodeURIComponent(parsed.pathname)}`;
+  } catch {
+    return url;
+  }
+}
+
+// The title counts twice — it's the best summary most pages have
+function documentText(input: ClassifierInput): string {
+  return [
+    input.title,
+    input.title,
+    input.description,
+    input.siteName,
+    urlText(input.url),
+    input.notes,
+    input.text?.slice(0, MAX_TEXT_LENGTH),
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+function termCounts(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const term of tokenize(text)) counts.set(term, (counts.get(term) ?? 0) + 1);
+  return counts;
+}
+
+// Log-scaled term frequency × IDF, scaled to unit length
+function weigh(counts: Map<string, number>, idf: (term: string) => number): Map<string, number> {
+  const vector = new Map<string, number>();
+  counts.forEach((count, term) => vector.set(term, (1 + Math.log(count)) * idf(term)));
+  return normalise(vector);
+}
+
+function normalise(vector: Map<string, number>): Map<string, number> {
+  let length = 0;
+  vector.forEach((value) => (length += value * value));
+  length = Math.sqrt(length);
+  if (length > 0) vector.forEach((value, term) => vector.set(term, value / length));
+  return vector;
+}
+
+// ── Model ─────────────────────────────────────────────────────────────────
+
+/** One unit-length TF-IDF centroid per tag, from the bookmarks carrying it. */
+export function buildTagModel(bookmarks: TrainingBookmark[], tagNames: string[] = []): TagModel {
+  const documents = bookmarks.map((b) => termCounts(documentText(b)));
+
+  const frequency = new Map<string, number>();
+  for (const counts of documents) {
+    counts.forEach((_, term) => frequency.set(term, (frequency.get(term) ?? 0) + 1));
+  }
+  const idf = new Map<string, number>();
+  frequency.forEach((df, term) => idf.set(term, Math.log((documents.length + 1) / (df + 1)) + 1));
+
+  const tags = new Map<string, { vector: Map<string, number>; examples: number }>();
+  bookmarks.forEach((bookmark, i) => {
+    const vector = weigh(documents[i], (term) => idf.get(term) ?? 0);
+    for (const name of bookmark.tags) {
+      const centroid = tags.get(name) ?? { vector: new Map<string, number>(), examples: 0 };
+      vector.forEach((value, term) => centroid.vector.set(term, (centroid.vector.get(term) ?? 0) + value));
+      centroid.examples++;
+      tags.set(name, centroid);
+    }
+  });
+  tags.forEach((centroid) => normalise(centroid.vector));
+
+  const names = new Set(tagNames);
+  tags.forEach((_, name) => names.add(name));
+  return { documents: documents.length, idf, tags, tagNames: Array.from(names).sort() };
+}
+
+/**
+ * Suggested tags for a page, best first, leaving out `existing`. Each
+ * tag appears once, under its strongest reason.
+ */
+export function suggestTags(
+  page: ClassifierInput,
+  { model, rules }: { model: TagModel; rules: TagRule[] },
+  existing: string[] = []
+): TagSuggestion[] {
+  const found = new Map<string, TagSuggestion>();
+  const offer = (suggestion: TagSuggestion) => {
+    const name = normaliseTagName(suggestion.name);
+    if (!name) return;
+    const current = found.get(name);
+    if (!current || suggestion.score > current.score) found.set(name, { ...suggestion, name });
+  };
+
+  for (const rule of rules) {
+    if (ruleMatches(rule, page)) {
+      offer({ name: rule.tag_name, reason: "rule", detail: describeTagRule(rule), score: SCORES.rule });
+    }
+  }
+
+  const host = hostOf(page.url);
+  for (const [domain, name] of Object.entries(BUILT_IN_DOMAIN_RULES)) {
+    if (hostMatches(host, domain)) {
+      offer({ name, reason: "domain", detail: `Built-in rule for ${domain}`, score: SCORES.domain });
+    }
+  }
+
+  // A tag's own name in the title, description or URL — the leaf of a folder tag
+  const places: [string, Set<string>][] = [
+    ["title", new Set(words(page.title ?? ""))],
+    ["description", new Set(words(page.description ?? ""))],
+    ["URL", new Set(words(urlText(page.url)))],
+  ];
+  for (const name of model.tagNames) {
+    const leaf = words(name.slice(name.lastIndexOf("/") + 1));
+    if (leaf.length === 0 || leaf.every((w) => w.length < 2 || STOP_WORDS.has(w))) continue;
+    const place = places.find(([, present]) => leaf.every((w) => present.has(w)));
+    if (place) {
+      offer({ name, reason: "keyword", detail: `"${leaf.join(" ")}" is in the ${place[0]}`, score: SCORES.keyword });
+    }
+  }
+
+  if (model.documents > 0) {
+    // Unseen words weigh as much as the rarest seen ones
+    const unseen = Math.log(model.documents + 1) + 1;
+    const query = weigh(termCounts(documentText(page)), (term) => model.idf.get(term) ?? unseen);
+    model.tags.forEach(({ vector, examples }, name) => {
+      if (examples < MIN_TAG_EXAMPLES) return;
+      let score = 0;
+      query.forEach((value, term) => (score += value * (vector.get(term) ?? 0)));
+      if (score >= SIMILARITY_THRESHOLD) {
+        offer({ name, reason: "similar", detail: `Like ${examples} bookmarks tagged ${name}`, score });
+      }
+    });
+  }
+
+  const skip = new Set(existing.map(normaliseTagName));
+  return Array.from(found.values())
+    .filter((s) => !skip.has(s.name))
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+    .slice(0, MAX_SUGGESTIONS);
+}
+
+// ── Loading ───────────────────────────────────────────────────────────────
+
+// bookmark_tags row with its bookmark embedded
+interface TrainingLink {
+  tag_id: string;
+  bookmark: {
+    id: string;
+    url: string;
+    title: string;
+    description: string | null;
+    site_name: string | null;
+    notes: string | null;
+    deleted_at: string | null;
+  } | null;
+}
+
+/**
+ * Builds the caller's model from their tagged bookmarks (not the Trash)
+ * and loads their rules. Reads go through RLS, so the client should be
+ * the caller's own.
+ */
+export async function loadTagModel(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<{ model: TagModel; rules: TagRule[]; error: string | null }> {
+  const [tagResult, linkResult, ruleResult] = await Promise.all([
+    supabase.from("tags").select("id, name").eq("user_id", userId),
+    supabase
+      .from("bookmark_tags")
+      .select("tag_id, bookmark:bookmarks(id, url, title, description, site_name, notes, deleted_at)")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false })
+      .limit(TRAINING_LINK_LIMIT),
+    supabase.from("tag_rules").select(TAG_RULE_COLUMNS).eq("user_id", userId).order("created_at"),
+  ]);
+
+  const error = tagResult.error ?? linkResult.error ?? ruleResult.error;
+  if (error) return { model: buildTagModel([]), rules: [], error: error.message };
+
+  const tagNameById = new Map(((tagResult.data ?? []) as { id: string; name: string }[]).map((t) => [t.id, t.name]));
+  const training = new Map<string, TrainingBookmark>();
+  for (const link of (linkResult.data ?? []) as unknown as TrainingLink[]) {
+    const name = tagNameById.get(link.tag_id);
+    if (!name || !link.bookmark || link.bookmark.deleted_at) continue;
+    const { id, url, title, description, site_name, notes } = link.bookmark;
+    const entry = training.get(id) ?? { url, title, description, siteName: site_name, notes, tags: [] };
+    entry.tags.push(name);
+    training.set(id, entry);
+  }
+
+  return {
+    model: buildTagModel(Array.from(training.values()), Array.from(tagNameById.values())),
+    rules: (ruleResult.data ?? []) as TagRule[],
+    error: null,
+  };
+}
@@ -0,0 +1,319 @@
+/**
+ * lib/bookmarkPages.ts
+ *
+ * Cursor pagination for the dashboard list. Pages follow the chosen sort
+ * (lib/listView.ts) on (sort key, id) — id breaks ties so the order is
+ * total and a page boundary can never skip or repeat a row. The cursor
+ * is the last row of the last page fetched, kept separately from the
+ * list: rows that arrive some other way (realtime, imports, search)
+ * never move it, and rows past it are left for their own page, so the
+ * loaded list is always one unbroken run from the top of the order.
+ * Filters are applied by the query, so each page is full of matches.
+ *
+ * Counts for the whole view (tabs, header badge, link health) come from
+ * the bookmark_counts() SQL function rather than the loaded rows.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { bookmarkDomain, sortTitle, type BookmarkSort, type ListFilters, type ListView } from "@/lib/listView";
+import { tagMatches } from "@/lib/tags";
+import type { Bookmark, BookmarkTag, Tag } from "@/lib/types";
+
+export const BOOKMARK_PAGE_SIZE = 50;
+
+// Links come embedded so a page arrives with its tags in one request
+const PAGE_COLUMNS = "*, bookmark_tags(bookmark_id, tag_id, user_id)";
+
+// The last loaded row's sort key (as the column holds it) and id
+export interface PageCursor {
+  value: string | number;
+  id: string;
+}
+
+export interface Paging {
+  sort: BookmarkSort;
+  cursor: PageCursor | null;
+  hasMore: boolean;
+}
+
+export interface BookmarkPage extends Paging {
+  bookmarks: Bookmark[];
+  links: BookmarkTag[];
+}
+
+export interface BookmarkCounts {
+  total: number;
+  unread: number;
+  read: number;
+  archived: number;
+  broken: number;
+  redirected: number;
+  unchecked: number;
+}
+
+// Personal list (collectionId null) or one shared collection
+export interface BookmarkView {
+  userId: string;
+  collectionId: string | null;
+}
+
+// What a page is fetched for. Tag filters are resolved to ids up front,
+// folders included; an empty list means no tag matches.
+export interface BookmarkQuery {
+  sort: BookmarkSort;
+  filters: ListFilters;
+  tagIds: string[] | null;
+}
+
+interface SortKey {
+  column: string;
+  ascending: boolean;
+  value: (bookmark: Bookmark) => string | number;   // the column's value, worked out in the browser
+}
+
+const SORT_KEYS: Record<BookmarkSort, SortKey> = {
+  newest: { column: "created_at", ascending: false, value: (b) => b.created_at },
+  oldest: { column: "created_at", ascending: true, value: (b) => b.created_at },
+  title: { column: "sort_title", ascending: true, value: (b) => sortTitle(b.title) },
+  domain: { column: "domain", ascending: true, value: (b) => bookmarkDomain(b.url) },
+  visits: { column: "visit_count", ascending: false, value: (b) => b.visit_count ?? 0 },
+};
+
+type BookmarkRow = Bookmark & {
+  bookmark_tags?: BookmarkTag[] | null;
+  tag_filter?: unknown;
+  [column: string]: unknown;
+};
+
+export function bookmarkQuery(view: ListView, tags: Tag[]): BookmarkQuery {
+  const { tag } = view.filters;
+  const tagIds = tag ? tags.filter((t) => tagMatches(t.name, tag)).map((t) => t.id).sort() : null;
+  return { sort: view.sort, filters: view.filters, tagIds };
+}
+
+/** Fetches the page after `cursor`, or the first page when it's null. */
+export async function fetchBookmarkPage(
+  supabase: SupabaseClient,
+  view: BookmarkView,
+  query: BookmarkQuery,
+  cursor: PageCursor | null
+): Promise<{ page: BookmarkPage | null; error: string | null }> {
+  const { sort, tagIds } = query;
+  if (tagIds?.length === 0) {
+    return { page: { sort, bookmarks: [], links: [], cursor, hasMore: false }, error: null };
+  }
+
+  const { column, ascending } = SORT_KEYS[sort];
+  // Filtering on a second, aliased embed leaves the bookmark's own tag list whole
+  const columns = tagIds ? `${PAGE_COLUMNS}, tag_filter:bookmark_tags!inner(tag_id)` : PAGE_COLUMNS;
+  let request = viewQuery(supabase, view, columns)
+    .order(column, { ascending })
+    .order("id", { ascending })
+    // One extra row says whether there's another page
+    .limit(BOOKMARK_PAGE_SIZE + 1);
+
+  request = applyFilters(request, query);
+
+  if (cursor) {
+    const op = ascending ? "gt" : "lt";
+    const value = quoteFilterValue(cursor.value);
+    request = request.or(`${column}.${op}.${value},and(${column}.eq.${value},id.${op}.${cursor.id})`);
+  }
+
+  const { data, error } = await request;
+  if (error) return { page: null, error: error.message };
+
+  const rows = (data ?? []) as unknown as BookmarkRow[];
+  const hasMore = rows.length > BOOKMARK_PAGE_SIZE;
+  const pageRows = rows.slice(0, BOOKMARK_PAGE_SIZE);
+  const last = pageRows[pageRows.length - 1];
+  const { bookmarks, links } = splitRows(pageRows);
+
+  return {
+    page: {
+      sort,
+      bookmarks,
+      links,
+      // The server's own value, so the next page starts exactly where this one ended
+      cursor: last ? { value: serverValue(last, column) ?? SORT_KEYS[sort].value(last), id: last.id } : cursor,
+      hasMore,
+    },
+    error: null,
+  };
+}
+
+/** Fetches specific bookmarks of the view (search hits not loaded yet). */
+export async function fetchBookmarksById(
+  supabase: SupabaseClient,
+  view: BookmarkView,
+  ids: string[]
+): Promise<{ bookmarks: Bookmark[]; links: BookmarkTag[]; error: string | null }> {
+  const { data, error } = await viewQuery(supabase, view, PAGE_COLUMNS).in("id", ids);
+  if (error) return { bookmarks: [], links: [], error: error.message };
+  return { ...splitRows((data ?? []) as unknown as BookmarkRow[]), error: null };
+}
+
+/**
+ * Ids of every bookmark matching the query, loaded or not, in page
+ * order — for selecting a whole filtered view. At most `limit`; the flag
+ * says whether more matched.
+ */
+export async function fetchBookmarkIds(
+  supabase: SupabaseClient,
+  view: BookmarkView,
+  query: BookmarkQuery,
+  limit: number
+): Promise<{ ids: string[]; truncated: boolean; error: string | null }> {
+  if (query.tagIds?.length === 0) return { ids: [], truncated: false, error: null };
+
+  const { column, ascending } = SORT_KEYS[query.sort];
+  const columns = query.tagIds ? "id, tag_filter:bookmark_tags!inner(tag_id)" : "id";
+  const request = applyFilters(viewQuery(supabase, view, columns), query)
+    .order(column, { ascending })
+    .order("id", { ascending })
+    .limit(limit + 1);
+
+  const { data, error } = await request;
+  if (error) return { ids: [], truncated: false, error: error.message };
+  const ids = ((data ?? []) as unknown as { id: string }[]).map((row) => row.id);
+  return { ids: ids.slice(0, limit), truncated: ids.length > limit, error: null };
+}
+
+export async function fetchBookmarkCounts(
+  supabase: SupabaseClient,
+  view: BookmarkView
+): Promise<BookmarkCounts | null> {
+  const { data, error } = await supabase.rpc("bookmark_counts", { target_collection: view.collectionId });
+  const row = (data as Record<keyof BookmarkCounts, number | string>[] | null)?.[0];
+  if (error || !row) {
+    if (error) console.error("Couldn't count bookmarks:", error.message);
+    return null;
+  }
+  return {
+    total: Number(row.total),
+    unread: Number(row.unread),
+    read: Number(row.read),
+    archived: Number(row.archived),
+    broken: Number(row.broken),
+    redirected: Number(row.redirected),
+    unchecked: Number(row.unchecked),
+  };
+}
+
+// Offline there's no server to ask; the loaded rows are the best guess
+export function countLoaded(bookmarks: Bookmark[]): BookmarkCounts {
+  const counts: BookmarkCounts = {
+    total: bookmarks.length,
+    unread: 0,
+    read: 0,
+    archived: 0,
+    broken: 0,
+    redirected: 0,
+    unchecked: 0,
+  };
+  for (const b of bookmarks) {
+    counts[b.reading_status]++;
+    if (b.link_status === "broken") counts.broken++;
+    if (b.link_status === "redirected") counts.redirected++;
+    if (!b.link_checked_at) counts.unchecked++;
+  }
+  return counts;
+}
+
+// ── Merging ────────────────────────────────────────────────────────────────
+
+export function pageCursor(bookmark: Bookmark, sort: BookmarkSort): PageCursor {
+  return { value: SORT_KEYS[sort].value(bookmark), id: bookmark.id };
+}
+
+// Negative if `a` comes first in the query's ORDER BY, id included
+export function comparePageOrder(sort: BookmarkSort, a: PageCursor, b: PageCursor): number {
+  const { column, ascending } = SORT_KEYS[sort];
+  const byValue = column === "created_at"
+    ? Date.parse(String(a.value)) - Date.parse(String(b.value))
+    : compareRaw(a.value, b.value);
+  const order = byValue !== 0 ? byValue : compareRaw(a.id, b.id);
+  return ascending ? order : -order;
+}
+
+/**
+ * True if `bookmark` belongs to a page that hasn't been fetched yet. Such
+ * rows are left out until that page loads — showing one early would put
+ * it after a stretch of rows that aren't there yet.
+ */
+export function isBeyondLoaded(bookmark: Bookmark, paging: Paging): boolean {
+  return (
+    paging.hasMore &&
+    paging.cursor !== null &&
+    comparePageOrder(paging.sort, pageCursor(bookmark, paging.sort), paging.cursor) > 0
+  );
+}
+
+/**
+ * Adds rows to the loaded list: replaces any with the same id (the
+ * incoming copy is newer), skips rows beyond the loaded range and keeps
+ * the list in page order.
+ */
+export function mergeBookmarks(existing: Bookmark[], incoming: Bookmark[], paging: Paging): Bookmark[] {
+  const wanted = incoming.filter((b) => !isBeyondLoaded(b, paging));
+  if (wanted.length === 0) return existing;
+
+  const byId = new Map(existing.map((b) => [b.id, b]));
+  for (const b of wanted) byId.set(b.id, b);
+  return Array.from(byId.values()).sort((a, b) =>
+    comparePageOrder(paging.sort, pageCursor(a, paging.sort), pageCursor(b, paging.sort))
+  );
+}
+
+export function mergeLinks(existing: BookmarkTag[], incoming: BookmarkTag[]): BookmarkTag[] {
+  const known = new Set(existing.map((l) => `${l.bookmark_id}:${l.tag_id}`));
+  const added = incoming.filter((l) => !known.has(`${l.bookmark_id}:${l.tag_id}`));
+  return added.length > 0 ? [...existing, ...added] : existing;
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+// Trashed rows never appear in a view; /trash reads them separately (lib/trash.ts)
+function viewQuery(supabase: SupabaseClient, view: BookmarkView, columns: string) {
+  const query = supabase.from("bookmarks").select(columns).is("deleted_at", null);
+  return view.collectionId
+    ? query.eq("collection_id", view.collectionId)
+    : query.is("collection_id", null).eq("user_id", view.userId);
+}
+
+function applyFilters(request: ViewRequest, query: BookmarkQuery): ViewRequest {
+  const { filters, tagIds } = query;
+  if (tagIds) request = request.in("tag_filter.tag_id", tagIds);
+  if (filters.reading !== "all") request = request.eq("reading_status", filters.reading);
+  if (filters.domain) request = request.eq("domain", filters.domain);
+  if (filters.from) request = request.gte("created_at", `${filters.from}T00:00:00Z`);
+  if (filters.to) request = request.lte("created_at", `${filters.to}T23:59:59.999Z`);
+  return request;
+}
+
+type ViewRequest = ReturnType<typeof viewQuery>;
+
+function splitRows(rows: BookmarkRow[]): { bookmarks: Bookmark[]; links: BookmarkTag[] } {
+  const links: BookmarkTag[] = [];
+  const bookmarks = rows.map(({ bookmark_tags, tag_filter, ...bookmark }) => {
+    links.push(...(bookmark_tags ?? []));
+    return bookmark as Bookmark;
+  });
+  return { bookmarks, links };
+}
+
+function serverValue(row: BookmarkRow, column: string): string | number | undefined {
+  const value = row[column];
+  return typeof value === "string" || typeof value === "number" ? value : undefined;
+}
+
+// Code-unit order, which matches the "C" collation for everything but
+// characters outside the Basic Multilingual Plane
+function compareRaw(a: string | number, b: string | number): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+// Double-quoted so commas, dots and brackets in titles survive PostgREST's or=
+function quoteFilterValue(value: string | number): string {
+  return typeof value === "number" ? String(value) : `"${value.replace(/["\\]/g, "\\$&")}"`;
+}
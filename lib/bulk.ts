@@ -0,0 +1,161 @@
+/**
+ * lib/bulk.ts
+ *
+ * Batch actions on the bookmarks selected in the dashboard. Trash,
+ * restore, tag, untag and move are each one call to a SQL function
+ * (supabase/schema.sql, section 16) that changes every row in a single
+ * statement under the caller's RLS. Rows the caller can't change, or
+ * that are already where they're going, are skipped rather than failing
+ * the batch; each call returns what it did change, for local state and
+ * the result summary. Export posts the ids to /api/export.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { ensureTags } from "@/lib/tags";
+import type { Bookmark, BookmarkTag, ExportFormat, Tag } from "@/lib/types";
+
+// Most bookmarks one action (or "select all matching") will take
+export const MAX_BULK_SELECTION = 1000;
+
+export type BulkAction = "trash" | "restore" | "tag" | "untag" | "move" | "export";
+
+export interface BulkSummary {
+  action: BulkAction;
+  requested: number;
+  changed: number;
+  detail?: string;         // e.g. the tags or collection involved
+}
+
+// What an action changed, for the dashboard to apply to its state
+export interface BulkChange {
+  removedIds?: string[];       // trashed, or moved out of the view
+  restored?: Bookmark[];
+  tags?: Tag[];
+  addedLinks?: BookmarkTag[];
+  removedLinks?: BookmarkTag[];
+}
+
+// Where selected bookmarks can be moved: a collection, or null for the personal list
+export interface MoveTarget {
+  collectionId: string | null;
+  name: string;
+}
+
+const PAST_TENSE: Record<BulkAction, string> = {
+  trash: "Moved {n} to the Trash",
+  restore: "Restored {n}",
+  tag: "Tagged {n}",
+  untag: "Untagged {n}",
+  move: "Moved {n}",
+  export: "Exporting {n}",
+};
+
+// Skips are only worth explaining for the actions that can have them
+const SKIP_REASONS: Partial<Record<BulkAction, string>> = {
+  trash: "already deleted or not yours to change",
+  restore: "saved again since",
+  tag: "already tagged or read-only",
+  untag: "didn't have those tags",
+  move: "already there, saved there under the same link, or read-only",
+};
+
+/** "Tagged 12 bookmarks with work · 3 skipped (already tagged or read-only)" */
+export function describeBulkSummary({ action, requested, changed, detail }: BulkSummary): string {
+  const noun = `${changed} bookmark${changed !== 1 ? "s" : ""}`;
+  let text = PAST_TENSE[action].replace("{n}", noun);
+  if (detail) text += ` ${detail}`;
+  const skipped = requested - changed;
+  if (skipped > 0 && SKIP_REASONS[action]) text += ` · ${skipped} skipped (${SKIP_REASONS[action]})`;
+  return text;
+}
+
+// ── Actions ────────────────────────────────────────────────────────────────
+
+/** Moves bookmarks to the Trash; returns the ids actually trashed. */
+export async function trashBookmarks(
+  supabase: SupabaseClient,
+  ids: string[]
+): Promise<{ ids: string[]; error: string | null }> {
+  const { data, error } = await supabase.rpc("trash_bookmarks", { ids });
+  if (error) return { ids: [], error: error.message };
+  return { ids: (data ?? []) as string[], error: null };
+}
+
+/** Takes bookmarks back out of the Trash; returns the live rows. */
+export async function restoreBookmarks(
+  supabase: SupabaseClient,
+  ids: string[]
+): Promise<{ bookmarks: Bookmark[]; error: string | null }> {
+  const { data, error } = await supabase.rpc("restore_bookmarks", { ids });
+  if (error) return { bookmarks: [], error: error.message };
+  return { bookmarks: (data ?? []) as Bookmark[], error: null };
+}
+
+/**
+ * Adds the named tags to every bookmark, creating the caller's tags
+ * first. Returns the tags and only the links that are new.
+ */
+export async function tagBookmarks(
+  supabase: SupabaseClient,
+  userId: string,
+  ids: string[],
+  names: string[]
+): Promise<{ tags: Tag[]; links: BookmarkTag[]; error: string | null }> {
+  const { tags, error: tagError } = await ensureTags(supabase, userId, names);
+  if (tagError) return { tags: [], links: [], error: tagError };
+
+  const { data, error } = await supabase.rpc("tag_bookmarks", { ids, tag_ids: tags.map((t) => t.id) });
+  if (error) return { tags, links: [], error: error.message };
+  return { tags, links: toLinks(data), error: null };
+}
+
+/**
+ * Removes tags from every bookmark. Takes ids rather than names: in a
+ * collection the same name can belong to several members.
+ */
+export async function untagBookmarks(
+  supabase: SupabaseClient,
+  ids: string[],
+  tagIds: string[]
+): Promise<{ links: BookmarkTag[]; error: string | null }> {
+  const { data, error } = await supabase.rpc("untag_bookmarks", { ids, tag_ids: tagIds });
+  if (error) return { links: [], error: error.message };
+  return { links: toLinks(data), error: null };
+}
+
+/** Moves bookmarks to a collection, or the personal list for null; returns the ids moved. */
+export async function moveBookmarks(
+  supabase: SupabaseClient,
+  ids: string[],
+  targetCollection: string | null
+): Promise<{ ids: string[]; error: string | null }> {
+  const { data, error } = await supabase.rpc("move_bookmarks", { ids, target_collection: targetCollection });
+  if (error) return { ids: [], error: error.message };
+  return { ids: (data ?? []) as string[], error: null };
+}
+
+/**
+ * Downloads the bookmarks as a file, in the order given. A posted form
+ * rather than fetch, so the browser streams the download to disk itself.
+ */
+export function exportBookmarks(ids: string[], format: ExportFormat): void {
+  const form = document.createElement("form");
+  form.method = "POST";
+  form.action = "/api/export";
+  form.hidden = true;
+  for (const [name, value] of [["format", format], ["ids", ids.join(",")]]) {
+    const input = document.createElement("input");
+    input.type = "hidden";
+    input.name = name;
+    input.value = value;
+    form.appendChild(input);
+  }
+  document.body.appendChild(form);
+  form.submit();
+  form.remove();
+}
+
+// The functions return whole bookmark_tags rows; local state keeps three columns
+function toLinks(data: unknown): BookmarkTag[] {
+  return ((data ?? []) as BookmarkTag[]).map(({ bookmark_id, tag_id, user_id }) => ({ bookmark_id, tag_id, user_id }));
+}
@@ -0,0 +1,68 @@
+/**
+ * lib/canonicalUrl.ts
+ *
+ * Canonical form used to spot the same page saved twice. Two URLs that
+ * differ only by http/https, "www.", a default port, a trailing slash,
+ * the fragment, tracking parameters or query-parameter order produce the
+ * same key. The key is stored in bookmarks.canonical_url, which is
+ * unique per user; the original URL is kept as typed in bookmarks.url.
+ */
+
+import { normaliseUrl } from "@/lib/validation";
+
+// Exact-name tracking parameters; anything starting with utm_ is also dropped
+const TRACKING_PARAMS = new Set([
+  "fbclid",
+  "gclid",
+  "dclid",
+  "gbraid",
+  "wbraid",
+  "msclkid",
+  "yclid",
+  "twclid",
+  "igshid",
+  "mc_cid",
+  "mc_eid",
+  "mkt_tok",
+  "_hsenc",
+  "_hsmi",
+  "ref_src",
+  "ref_url",
+  "si",
+]);
+
+export function canonicaliseUrl(raw: string): string {
+  const url = new URL(normaliseUrl(raw));
+
+  // URL already drops ports that are the default for the original scheme
+  url.protocol = "https:";
+  url.hostname = url.hostname.toLowerCase().replace(/^www\./, "").replace(/\.$/, "");
+  url.hash = "";
+  url.username = "";
+  url.password = "";
+
+  const params = Array.from(url.searchParams.entries())
+    .filter(([key]) => !key.toLowerCase().startsWith("utm_") && !TRACKING_PARAMS.has(key.toLowerCase()))
+    .sort(([a, av], [b, bv]) => (a === b ? av.localeCompare(bv) : a.localeCompare(b)));
+  url.search = new URLSearchParams(params).toString();
+
+  if (url.pathname.length > 1 && url.pathname.endsWith("/")) {
+    url.pathname = url.pathname.replace(/\/+$/, "");
+  }
+
+  return url.toString();
+}
+
+// Safe wrapper for values that may not parse (e.g. legacy rows)
+export function tryCanonicaliseUrl(raw: string): string | null {
+  try {
+    return canonicaliseUrl(raw);
+  } catch {
+    return null;
+  }
+}
+
+// Postgres unique_violation — raised when canonical_url already exists for the user
+export function isDuplicateUrlError(error: { code?: string } | null): boolean {
+  return error?.code === "23505";
+}
@@ -0,0 +1,35 @@
+/**
+ * lib/cliLogin.ts
+ *
+ * Device-style login for the command-line client (cli/). The CLI makes
+ * its own API token and registers only the hash through /api/cli/login,
+ * which hands back a short code. The user approves that code at /cli in
+ * a signed-in browser, and the CLI polls until its token is live. See
+ * schema section 11 for the database side.
+ */
+
+export const CLI_LOGIN_PATH = "/cli";
+export const CLI_POLL_INTERVAL_SECONDS = 5;
+export const MAX_CLIENT_NAME_LENGTH = 100;
+
+export type CliLoginStatus = "pending" | "approved" | "expired";
+
+export interface CliLoginStart {
+  user_code: string;
+  verification_url: string;
+  expires_at: string;
+  interval: number;
+}
+
+const USER_CODE_PATTERN = /^[A-Z]{4}-?[A-Z]{4}$/;
+
+// Accepts "abcd efgh", "ABCDEFGH" and the like; null if it can't be a code
+export function normaliseUserCode(raw: string): string | null {
+  const compact = raw.toUpperCase().replace(/[\s-]/g, "");
+  if (!USER_CODE_PATTERN.test(compact)) return null;
+  return `${compact.slice(0, 4)}-${compact.slice(4)}`;
+}
+
+export function cliLoginUrl(origin: string, userCode: string): string {
+  return `${origin}${CLI_LOGIN_PATH}?code=${encodeURIComponent(userCode)}`;
+}
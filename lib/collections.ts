@@ -0,0 +1,50 @@
+/**
+ * lib/collections.ts
+ *
+ * Shared-collection helpers for the dashboard and route handlers.
+ * Roles are enforced by RLS (see schema.sql section 8); these checks
+ * only decide which controls to show and give friendlier errors.
+ */
+
+import type { CollectionRole } from "@/lib/types";
+
+export const MAX_COLLECTION_NAME_LENGTH = 100;
+
+export const COLLECTION_ROLES: Record<CollectionRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  viewer: "Viewer",
+};
+
+// Roles an owner can hand out; there is exactly one owner per collection
+export const INVITE_ROLES: Exclude<CollectionRole, "owner">[] = ["editor", "viewer"];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// null role = the personal list, where the user can do everything
+export function canEditBookmarks(role: CollectionRole | null): boolean {
+  return role !== "viewer";
+}
+
+export function isInviteRole(value: string): value is Exclude<CollectionRole, "owner"> {
+  return (INVITE_ROLES as string[]).includes(value);
+}
+
+export function validateCollectionName(name: string): string | null {
+  if (!name.trim()) return "Collection name is required.";
+  if (name.trim().length > MAX_COLLECTION_NAME_LENGTH) {
+    return `Collection name must be at most ${MAX_COLLECTION_NAME_LENGTH} characters.`;
+  }
+  return null;
+}
+
+export function validateInviteEmail(email: string): string | null {
+  if (!email.trim()) return "Email is required.";
+  if (!EMAIL_PATTERN.test(email.trim()) || email.length > 320) return "Enter a valid email address.";
+  return null;
+}
+
+// Dashboard URL for a collection, or the personal list for null
+export function collectionHref(collectionId: string | null): string {
+  return collectionId ? `/dashboard?collection=${encodeURIComponent(collectionId)}` : "/dashboard";
+}
@@ -0,0 +1,184 @@
+/**
+ * lib/commandPalette.ts
+ *
+ * The Cmd/Ctrl+K command palette and the "?" shortcut sheet, both
+ * rendered by the Header on every signed-in page. The Header supplies
+ * the commands that work anywhere (go to a page, sign out); a mounted
+ * page adds its own — and the bookmarks it has loaded — through the
+ * store below, which is how the dashboard offers view switches and
+ * actions on the selection. Bookmarks are ranked with a small fuzzy
+ * matcher; /api/search fills in ones that aren't loaded.
+ * Commands with a single-key `shortcut` also run on that key anywhere
+ * outside a text field.
+ */
+
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  group: string;                    // heading it's listed under
+  keywords?: string;                // extra words it can be found by
+  shortcut?: string;                // single key, shown and bound while the command is registered
+  input?: { placeholder: string };  // asks for a value (e.g. tag names) before running
+  run: (input: string) => void;
+}
+
+export interface PaletteBookmark {
+  id: string;
+  title: string;
+  url: string;
+  tags: string[];
+}
+
+export interface PaletteItems {
+  commands: PaletteCommand[];
+  bookmarks: PaletteBookmark[];
+}
+
+// Documented in the "?" sheet. List keys are handled by BookmarkList,
+// the rest by the commands that declare them.
+export const SHORTCUTS: { group: string; keys: { key: string; description: string }[] }[] = [
+  {
+    group: "Anywhere",
+    keys: [
+      { key: "⌘K / Ctrl+K", description: "Open the command palette" },
+      { key: "?", description: "Show these shortcuts" },
+      { key: "Esc", description: "Close the palette or this sheet" },
+    ],
+  },
+  {
+    group: "Dashboard",
+    keys: [
+      { key: "n", description: "Add a bookmark" },
+      { key: "/", description: "Search" },
+    ],
+  },
+  {
+    group: "List",
+    keys: [
+      { key: "j / k", description: "Next / previous bookmark" },
+      { key: "g / G", description: "First / last loaded bookmark" },
+      { key: "o", description: "Open the active bookmark" },
+      { key: "r", description: "Toggle read / unread" },
+      { key: "a", description: "Archive or unarchive" },
+      { key: "x", description: "Select or deselect (Shift+x for a range)" },
+      { key: "Esc", description: "Clear the highlight" },
+    ],
+  },
+];
+
+export const MAX_BOOKMARK_RESULTS = 8;
+
+// ── Fuzzy matching ─────────────────────────────────────────────────────────
+
+const WORD_BOUNDARY = /[\s/._:-]/;
+
+/**
+ * Scores `text` for `query`: every word of the query has to appear in
+ * order, letters may be spread out. Whole substrings, letters in a row
+ * and letters at the start of a word score higher. null if it doesn't
+ * match at all.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const haystack = text.toLowerCase();
+  let total = 0;
+  for (const term of query.toLowerCase().split(/\s+/).filter(Boolean)) {
+    const score = termScore(term, haystack);
+    if (score === null) return null;
+    total += score;
+  }
+  return total;
+}
+
+function termScore(term: string, text: string): number | null {
+  const exact = text.indexOf(term);
+  if (exact !== -1) {
+    const atWordStart = exact === 0 || WORD_BOUNDARY.test(text[exact - 1]);
+    return term.length * 4 + (atWordStart ? 6 : 0);
+  }
+
+  let score = 0;
+  let from = 0;
+  let previous = -2;
+  for (const char of term) {
+    const index = text.indexOf(char, from);
+    if (index === -1) return null;
+    score += 1;
+    if (index === previous + 1) score += 2;
+    if (index === 0 || WORD_BOUNDARY.test(text[index - 1])) score += 3;
+    previous = index;
+    from = index + 1;
+  }
+  return score;
+}
+
+/** Best matches first; ties go to the shorter title. */
+export function rankBookmarks(query: string, bookmarks: PaletteBookmark[], limit = MAX_BOOKMARK_RESULTS): PaletteBookmark[] {
+  if (!query.trim()) return [];
+  const scored: { bookmark: PaletteBookmark; score: number }[] = [];
+  for (const bookmark of bookmarks) {
+    // The title counts double: it's what people remember
+    const titleScore = fuzzyScore(query, bookmark.title);
+    const otherScore = fuzzyScore(query, `${bookmark.title} ${bookmark.url} ${bookmark.tags.join(" ")}`);
+    const score = Math.max(titleScore === null ? -1 : titleScore * 2, otherScore ?? -1);
+    if (score >= 0) scored.push({ bookmark, score });
+  }
+  return scored
+    .sort((a, b) => b.score - a.score || a.bookmark.title.length - b.bookmark.title.length)
+    .slice(0, limit)
+    .map((s) => s.bookmark);
+}
+
+export function rankCommands(query: string, commands: PaletteCommand[]): PaletteCommand[] {
+  if (!query.trim()) return commands;
+  return commands
+    .map((command) => ({
+      command,
+      score: fuzzyScore(query, `${command.label} ${command.group} ${command.keywords ?? ""}`),
+    }))
+    .filter((s): s is { command: PaletteCommand; score: number } => s.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .map((s) => s.command);
+}
+
+// ── Page commands store ───────────────────────────────────────────────────
+// Keyed by owner so each component replaces only its own items
+
+const EMPTY_ITEMS: PaletteItems = { commands: [], bookmarks: [] };
+
+const itemsByOwner = new Map<string, Partial<PaletteItems>>();
+let snapshot: PaletteItems = EMPTY_ITEMS;
+const listeners = new Set<() => void>();
+
+export function getPaletteItems(): PaletteItems {
+  return snapshot;
+}
+
+export function getServerPaletteItems(): PaletteItems {
+  return EMPTY_ITEMS;
+}
+
+/** Replaces what `owner` offers; null when it unmounts. */
+export function setPaletteItems(owner: string, items: Partial<PaletteItems> | null) {
+  if (items) itemsByOwner.set(owner, items);
+  else itemsByOwner.delete(owner);
+
+  const all = Array.from(itemsByOwner.values());
+  snapshot = {
+    commands: all.flatMap((i) => i.commands ?? []),
+    bookmarks: all.flatMap((i) => i.bookmarks ?? []),
+  };
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribePaletteItems(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Single-key shortcuts stay out of the way while typing in a field
+export function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName);
+}
@@ -0,0 +1,156 @@
+/**
+ * lib/exporters.ts
+ *
+ * Output formats for /api/export. Each exporter is split into header,
+ * row and footer so the route can stream rows as they are read instead
+ * of building the whole file in memory.
+ *
+ * The HTML and JSON formats round-trip through /api/import: tags go in
+ * the Netscape TAGS attribute and JSON uses the { bookmarks: [...] } shape.
+ * Notes and highlights (lib/notes.ts) are written in every format; the
+ * Markdown list nests them under the bookmark, notes as written.
+ */
+
+import type { Bookmark, BookmarkHighlight, ExportFormat } from "@/lib/types";
+
+export interface ExportBookmark extends Bookmark {
+  tags: string[];
+  highlights: BookmarkHighlight[];
+}
+
+export interface Exporter {
+  contentType: string;
+  extension: string;
+  header: () => string;
+  row: (bookmark: ExportBookmark, index: number) => string;
+  footer: () => string;
+}
+
+export const EXPORT_FORMATS: ExportFormat[] = ["html", "json", "csv", "md"];
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as string[]).includes(value);
+}
+
+export const exporters: Record<ExportFormat, Exporter> = {
+  // ── Netscape Bookmark File ─────────────────────────────────────────────
+  html: {
+    contentType: "text/html; charset=utf-8",
+    extension: "html",
+    header: () =>
+      [
+        "<!DOCTYPE NETSCAPE-Bookmark-file-1>",
+        "<!-- This is an automatically generated file. It will be read and overwritten. -->",
+        '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+        "<TITLE>Bookmarks</TITLE>",
+        "<H1>Bookmarks</H1>",
+        "<DL><p>",
+        "",
+      ].join("\n"),
+    row: (b) => {
+      const addDate = Math.floor(new Date(b.created_at).getTime() / 1000);
+      const tags = b.tags.length > 0 ? ` TAGS="${escapeHtml(b.tags.join(","))}"` : "";
+      const line = `    <DT><A HREF="${escapeHtml(b.url)}" ADD_DATE="${addDate}"${tags}>${escapeHtml(b.title)}</A>\n`;
+      // Browsers show <DD> as the bookmark's description; notes and quotes follow it
+      const details = [b.description, b.notes, ...b.highlights.map((h) => `“${h.quote}”`)].filter(Boolean).join("\n\n");
+      return details ? `${line}    <DD>${escapeHtml(details)}\n` : line;
+    },
+    footer: () => "</DL><p>\n",
+  },
+
+  // ── JSON ───────────────────────────────────────────────────────────────
+  json: {
+    contentType: "application/json; charset=utf-8",
+    extension: "json",
+    header: () => `{"exported_at":${JSON.stringify(new Date().toISOString())},"bookmarks":[\n`,
+    row: (b, index) =>
+      (index > 0 ? ",\n" : "") +
+      JSON.stringify({
+        url: b.url,
+        title: b.title,
+        description: b.description,
+        notes: b.notes,
+        highlights: b.highlights.map((h) => ({ quote: h.quote, comment: h.comment, created_at: h.created_at })),
+        site_name: b.site_name,
+        tags: b.tags,
+        created_at: b.created_at,
+        updated_at: b.updated_at,
+      }),
+    footer: () => "\n]}\n",
+  },
+
+  // ── CSV ────────────────────────────────────────────────────────────────
+  csv: {
+    contentType: "text/csv; charset=utf-8",
+    extension: "csv",
+    header: () => "url,title,description,tags,created_at,notes,highlights\r\n",
+    // Highlights share one cell, a blank line between each
+    row: (b) =>
+      [
+        b.url,
+        b.title,
+        b.description ?? "",
+        b.tags.join("|"),
+        b.created_at,
+        b.notes ?? "",
+        b.highlights.map((h) => (h.comment ? `${h.quote}\n— ${h.comment}` : h.quote)).join("\n\n"),
+      ]
+        .map(csvCell)
+        .join(",") + "\r\n",
+    footer: () => "",
+  },
+
+  // ── Markdown list ──────────────────────────────────────────────────────
+  md: {
+    contentType: "text/markdown; charset=utf-8",
+    extension: "md",
+    header: () => "# Bookmarks\n\n",
+    row: (b) => {
+      const tags = b.tags.map((t) => ` \`${t.replace(/`/g, "")}\``).join("");
+      const description = b.description ? ` — ${escapeMarkdown(b.description)}` : "";
+      const notes = b.notes ? `\n${indent(b.notes)}\n` : "";
+      const highlights = b.highlights
+        .map((h) => `\n${indent(quoteLines(h.quote))}${h.comment ? `\n  — ${escapeMarkdown(h.comment)}` : ""}\n`)
+        .join("");
+      return `- [${escapeMarkdown(b.title)}](${markdownUrl(b.url)})${description}${tags}\n${notes}${highlights}`;
+    },
+    footer: () => "",
+  },
+};
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Quotes every cell, and defuses spreadsheet formulas (=, +, -, @)
+function csvCell(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return `"${safe.replace(/"/g, '""')}"`;
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/\s+/g, " ").replace(/([\\`*_[\]<>])/g, "\\$1");
+}
+
+// Continuation lines of a list item are indented to stay inside it
+function indent(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => (line.trim() ? `  ${line}` : ""))
+    .join("\n");
+}
+
+function quoteLines(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => `> ${line}`.trimEnd())
+    .join("\n");
+}
+
+function markdownUrl(url: string): string {
+  return url.replace(/[()\s]/g, (ch) => encodeURIComponent(ch));
+}
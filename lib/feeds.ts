@@ -0,0 +1,91 @@
+/**
+ * lib/feeds.ts
+ *
+ * Atom and RSS 2.0 documents for public share links. Both are built as
+ * strings with every value XML-escaped; descriptions are sent as plain
+ * text, never as HTML, so a saved page can't inject markup into readers.
+ */
+
+import type { SharedBookmark } from "@/lib/types";
+
+export interface FeedInfo {
+  title: string;
+  pageUrl: string;      // the /s/<slug> page
+  feedUrl: string;      // this feed
+  updated: string;      // ISO timestamp
+}
+
+export function buildAtomFeed(info: FeedInfo, bookmarks: SharedBookmark[]): string {
+  const entries = bookmarks.map((b) =>
+    [
+      "  <entry>",
+      `    <id>urn:uuid:${b.id}</id>`,
+      `    <title>${escapeXml(b.title)}</title>`,
+      `    <link rel="alternate" href="${escapeXml(b.url)}"/>`,
+      `    <published>${b.created_at}</published>`,
+      `    <updated>${b.updated_at}</updated>`,
+      b.description ? `    <summary type="text">${escapeXml(b.description)}</summary>` : null,
+      ...b.tags.map((t) => `    <category term="${escapeXml(t)}"/>`),
+      "  </entry>",
+    ]
+      .filter((line) => line !== null)
+      .join("\n")
+  );
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(info.pageUrl)}</id>`,
+    `  <title>${escapeXml(info.title)}</title>`,
+    `  <updated>${info.updated}</updated>`,
+    `  <link rel="self" href="${escapeXml(info.feedUrl)}"/>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(info.pageUrl)}"/>`,
+    "  <author><name>Smart Bookmarks</name></author>",
+    ...entries,
+    "</feed>",
+    "",
+  ].join("\n");
+}
+
+export function buildRssFeed(info: FeedInfo, bookmarks: SharedBookmark[]): string {
+  const items = bookmarks.map((b) =>
+    [
+      "    <item>",
+      `      <guid isPermaLink="false">${b.id}</guid>`,
+      `      <title>${escapeXml(b.title)}</title>`,
+      `      <link>${escapeXml(b.url)}</link>`,
+      `      <pubDate>${new Date(b.created_at).toUTCString()}</pubDate>`,
+      b.description ? `      <description>${escapeXml(b.description)}</description>` : null,
+      ...b.tags.map((t) => `      <category>${escapeXml(t)}</category>`),
+      "    </item>",
+    ]
+      .filter((line) => line !== null)
+      .join("\n")
+  );
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    "  <channel>",
+    `    <title>${escapeXml(info.title)}</title>`,
+    `    <link>${escapeXml(info.pageUrl)}</link>`,
+    `    <description>${escapeXml(`Bookmarks shared from Smart Bookmarks: ${info.title}`)}</description>`,
+    `    <lastBuildDate>${new Date(info.updated).toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${escapeXml(info.feedUrl)}" rel="self" type="application/rss+xml"/>`,
+    ...items,
+    "  </channel>",
+    "</rss>",
+    "",
+  ].join("\n");
+}
+
+// Also drops control characters XML 1.0 doesn't allow
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
@@ -0,0 +1,51 @@
+/**
+ * lib/html.ts
+ * Minimal tag/attribute scanning and entity decoding — enough to read
+ * <meta> tags and Netscape bookmark files without an HTML parser.
+ */
+
+// Attributes of an opening tag's inner text: `href="x" ADD_DATE=1` → { href, add_date }
+export function parseAttributes(source: string): Record<string, string> {
+  const attrPattern = /([a-zA-Z_:][-a-zA-Z0-9_:.]*)\s*(?:=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+  const attrs: Record<string, string> = {};
+  for (const attr of Array.from(source.matchAll(attrPattern))) {
+    const value = attr[2] ?? attr[3] ?? attr[4] ?? "";
+    attrs[attr[1].toLowerCase()] = decodeEntities(value);
+  }
+  return attrs;
+}
+
+export function findTags(html: string, tagName: string): Record<string, string>[] {
+  const tagPattern = new RegExp(`<${tagName}\\b([^>]*)>`, "gi");
+  return Array.from(html.matchAll(tagPattern)).map((tag) => parseAttributes(tag[1]));
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  rsquo: "’",
+  lsquo: "‘",
+  rdquo: "”",
+  ldquo: "“",
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (whole, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1].toLowerCase() === "x"
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff
+        ? String.fromCodePoint(code)
+        : whole;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? whole;
+  });
+}
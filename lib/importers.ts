@@ -0,0 +1,331 @@
+/**
+ * lib/importers.ts
+ *
+ * Parsers for bookmark import files. Each one turns a file into a flat
+ * list of ImportRow; validation and de-duplication happen afterwards in
+ * prepareImport so every format gets the same rules as BookmarkForm.
+ *
+ * Supported:
+ *   - Netscape Bookmark File (Chrome, Firefox, Safari, Edge exports)
+ *   - CSV — Pocket, Raindrop.io or any file with url/title columns
+ *   - JSON — an array of { url, title, tags, folder, created_at } objects,
+ *     or { bookmarks: [...] } (the shape /api/export produces)
+ */
+
+import { canonicaliseUrl } from "@/lib/canonicalUrl";
+import { decodeEntities, parseAttributes } from "@/lib/html";
+import { normaliseTagName, MAX_TAG_LENGTH, MAX_TAGS_PER_BOOKMARK } from "@/lib/tags";
+import { normaliseUrl, validateUrl } from "@/lib/validation";
+import type { ImportFormat, ImportIssue } from "@/lib/types";
+
+export interface ImportRow {
+  line: number;               // 1-based position in the source file
+  url: string;
+  title: string;
+  tags: string[];
+  createdAt: string | null;
+}
+
+export interface PreparedRow {
+  line: number;
+  url: string;
+  canonical_url: string;
+  title: string;
+  tags: string[];
+  created_at: string | null;
+}
+
+// Browser root folders that carry no meaning as tags
+const ROOT_FOLDERS = new Set([
+  "bookmarks",
+  "bookmarks bar",
+  "bookmarks toolbar",
+  "bookmarks menu",
+  "other bookmarks",
+  "mobile bookmarks",
+  "favorites",
+  "favorites bar",
+]);
+
+export function detectFormat(fileName: string, text: string): ImportFormat | null {
+  const head = text.slice(0, 1024).trimStart();
+  if (/^<!DOCTYPE NETSCAPE-Bookmark-file/i.test(head) || /<dl\b/i.test(head)) return "netscape";
+  if (head.startsWith("{") || head.startsWith("[")) return "json";
+
+  const ext = fileName.toLowerCase().split(".").pop();
+  if (ext === "html" || ext === "htm") return "netscape";
+  if (ext === "json") return "json";
+  if (ext === "csv" || ext === "txt") return "csv";
+  return null;
+}
+
+export function parseImportFile(format: ImportFormat, text: string): ImportRow[] {
+  switch (format) {
+    case "netscape":
+      return parseNetscape(text);
+    case "csv":
+      return parseCsv(text);
+    case "json":
+      return parseJson(text);
+  }
+}
+
+// ── Netscape Bookmark File ────────────────────────────────────────────────
+
+export function parseNetscape(html: string): ImportRow[] {
+  const tokenPattern = /<h3\b[^>]*>([\s\S]*?)<\/h3\s*>|<a\b([^>]*)>([\s\S]*?)<\/a\s*>|<dl\b[^>]*>|<\/dl\s*>/gi;
+  const rows: ImportRow[] = [];
+  const folders: (string | null)[] = [];
+  let pendingFolder: string | null = null;
+  let line = 1;
+  let scanned = 0;
+
+  for (const match of Array.from(html.matchAll(tokenPattern))) {
+    const token = match[0].toLowerCase();
+
+    if (match[1] !== undefined) {
+      // Folder heading — applies to the <DL> that follows it
+      pendingFolder = decodeEntities(stripTags(match[1])).trim();
+    } else if (match[2] !== undefined) {
+      const attrs = parseAttributes(match[2]);
+      if (!attrs.href) continue;
+
+      const folderPath = folders
+        .filter((f): f is string => !!f && !ROOT_FOLDERS.has(f.toLowerCase()))
+        .join("/");
+      const tags = (attrs.tags ?? "").split(",");
+      if (folderPath) tags.push(folderPath);
+
+      // Count newlines incrementally — rescanning from 0 is quadratic
+      const index = match.index ?? 0;
+      line += countNewlines(html, scanned, index);
+      scanned = index;
+
+      rows.push({
+        line,
+        url: attrs.href,
+        title: decodeEntities(stripTags(match[3])).trim(),
+        tags,
+        createdAt: fromUnixSeconds(attrs.add_date),
+      });
+    } else if (token.startsWith("<dl")) {
+      folders.push(pendingFolder);
+      pendingFolder = null;
+    } else {
+      folders.pop();
+    }
+  }
+
+  return rows;
+}
+
+// ── CSV (Pocket, Raindrop, generic) ───────────────────────────────────────
+
+const URL_COLUMNS = ["url", "link", "href", "address"];
+const TITLE_COLUMNS = ["title", "name"];
+const TAG_COLUMNS = ["tags", "tag", "labels"];
+const FOLDER_COLUMNS = ["folder", "collection", "category"];
+const DATE_COLUMNS = ["created_at", "created", "time_added", "date_added", "added", "date"];
+
+export function parseCsv(text: string): ImportRow[] {
+  const records = parseCsvRecords(text);
+  if (records.length === 0) return [];
+
+  const header = records[0].map((h) => h.trim().toLowerCase());
+  const column = (names: string[]) => header.findIndex((h) => names.includes(h));
+
+  const urlCol = column(URL_COLUMNS);
+  // No recognisable header: treat it as "url,title" rows
+  const hasHeader = urlCol !== -1;
+  const cols = hasHeader
+    ? {
+        url: urlCol,
+        title: column(TITLE_COLUMNS),
+        tags: column(TAG_COLUMNS),
+        folder: column(FOLDER_COLUMNS),
+        date: column(DATE_COLUMNS),
+      }
+    : { url: 0, title: 1, tags: -1, folder: -1, date: -1 };
+
+  const rows: ImportRow[] = [];
+  records.slice(hasHeader ? 1 : 0).forEach((record, i) => {
+    const cell = (index: number) => (index >= 0 ? (record[index] ?? "").trim() : "");
+    if (record.every((c) => c.trim() === "")) return;
+
+    // Pocket separates tags with "|", Raindrop with ","
+    const tags = cell(cols.tags).split(/[|,]/);
+    const folder = cell(cols.folder);
+    if (folder && !ROOT_FOLDERS.has(folder.toLowerCase())) tags.push(folder);
+
+    rows.push({
+      line: i + (hasHeader ? 2 : 1),
+      url: cell(cols.url),
+      title: cell(cols.title),
+      tags,
+      createdAt: parseDate(cell(cols.date)),
+    });
+  });
+
+  return rows;
+}
+
+// RFC 4180: quoted fields may contain commas, newlines and "" escapes
+export function parseCsvRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+
+    if (inQuotes) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && field === "") {
+      inQuotes = true;
+    } else if (ch === ",") {
+      record.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records;
+}
+
+// ── JSON ──────────────────────────────────────────────────────────────────
+
+export function parseJson(text: string): ImportRow[] {
+  const parsed: unknown = JSON.parse(text);
+  const items = Array.isArray(parsed)
+    ? parsed
+    : Array.isArray((parsed as { bookmarks?: unknown })?.bookmarks)
+      ? (parsed as { bookmarks: unknown[] }).bookmarks
+      : null;
+
+  if (!items) throw new Error('Expected an array of bookmarks or { "bookmarks": [...] }.');
+
+  return items.map((item, i) => {
+    const obj = (item && typeof item === "object" ? item : {}) as Record<string, unknown>;
+    const str = (value: unknown) => (typeof value === "string" ? value : "");
+
+    const tags = Array.isArray(obj.tags)
+      ? obj.tags.map(str)
+      : str(obj.tags).split(",");
+    const folder = str(obj.folder) || str(obj.collection);
+    if (folder) tags.push(folder);
+
+    return {
+      line: i + 1,
+      url: str(obj.url) || str(obj.href) || str(obj.link),
+      title: str(obj.title) || str(obj.name),
+      tags,
+      createdAt: parseDate(str(obj.created_at) || str(obj.created) || String(obj.time_added ?? "")),
+    };
+  });
+}
+
+// ── Validation + de-duplication ───────────────────────────────────────────
+
+/**
+ * Applies BookmarkForm's URL rules to every row and drops duplicates —
+ * both within the file and against `existingUrls` (canonical keys from
+ * lib/canonicalUrl, so http/https, www. and utm_* variants all match).
+ * Returns the rows to insert plus an issue per skipped row.
+ */
+export function prepareImport(
+  rows: ImportRow[],
+  existingUrls: Set<string>
+): { ready: PreparedRow[]; issues: ImportIssue[] } {
+  const ready: PreparedRow[] = [];
+  const issues: ImportIssue[] = [];
+  const seen = new Set(existingUrls);
+
+  for (const row of rows) {
+    const urlError = validateUrl(row.url);
+    if (urlError) {
+      issues.push({ line: row.line, url: row.url, status: "invalid", message: urlError });
+      continue;
+    }
+
+    const url = normaliseUrl(row.url);
+    if (url.length > 2000) {
+      issues.push({ line: row.line, url, status: "invalid", message: "URL is longer than 2000 characters." });
+      continue;
+    }
+    const canonical = canonicaliseUrl(url);
+    if (seen.has(canonical)) {
+      const message = existingUrls.has(canonical) ? "Already saved." : "Appears earlier in the file.";
+      issues.push({ line: row.line, url, status: "duplicate", message });
+      continue;
+    }
+    seen.add(canonical);
+
+    const tags = Array.from(new Set(row.tags.map(normaliseTagName)))
+      .filter((t) => t.length > 0 && t.length <= MAX_TAG_LENGTH)
+      .slice(0, MAX_TAGS_PER_BOOKMARK);
+
+    ready.push({
+      line: row.line,
+      url,
+      canonical_url: canonical,
+      title: (row.title.replace(/\s+/g, " ").trim() || new URL(url).hostname).slice(0, 200),
+      tags,
+      created_at: row.createdAt,
+    });
+  }
+
+  return { ready, issues };
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]*>/g, "");
+}
+
+function countNewlines(text: string, from: number, to: number): number {
+  let count = 0;
+  for (let i = from; i < to; i++) if (text.charCodeAt(i) === 10) count++;
+  return count;
+}
+
+function fromUnixSeconds(value: string | undefined): string | null {
+  if (!value || !/^\d+$/.test(value)) return null;
+  // Some exporters write microseconds or milliseconds
+  let n = Number(value);
+  if (n > 1e14) n = n / 1e6;
+  else if (n > 1e11) n = n / 1e3;
+  const date = new Date(n * 1000);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function parseDate(value: string): string | null {
+  if (!value) return null;
+  if (/^\d+$/.test(value)) return fromUnixSeconds(value);
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
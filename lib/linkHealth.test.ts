@@ -0,0 +1,203 @@
+/**
+ * lib/linkHealth.test.ts
+ * Link checks against a local mock server: how each kind of answer is
+ * classified, the GET fallback, and storing results on bookmarks.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { checkAndStoreLinks, checkLink, checkLinks } from "@/lib/linkHealth";
+
+let server: http.Server;
+let origin: string;
+// "METHOD /path" for every request the mock server saw
+const seen: string[] = [];
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    seen.push(`${req.method} ${req.url}`);
+    switch (req.url) {
+      case "/ok":
+        res.writeHead(200).end("fine");
+        break;
+      case "/slash":
+        res.writeHead(301, { location: "/slash/" }).end();
+        break;
+      case "/slash/":
+        res.writeHead(200).end("fine");
+        break;
+      case "/moved":
+        res.writeHead(301, { location: "/new-home" }).end();
+        break;
+      case "/new-home":
+        res.writeHead(200).end("fine");
+        break;
+      case "/no-head":
+        if (req.method === "HEAD") res.writeHead(405).end();
+        else res.writeHead(200).end("fine");
+        break;
+      case "/drops-head":
+        // Some servers hang up on HEAD rather than answering it
+        if (req.method === "HEAD") req.socket.destroy();
+        else res.writeHead(200).end("fine");
+        break;
+      case "/login":
+        res.writeHead(401).end();
+        break;
+      case "/down":
+        res.writeHead(503).end();
+        break;
+      case "/slow":
+        // Never answers
+        break;
+      default:
+        res.writeHead(404).end();
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+const options = { allowPrivateHosts: true, timeoutMs: 2000 };
+
+describe("checkLink", () => {
+  it("reports a page that answers as ok", async () => {
+    const result = await checkLink(`${origin}/ok`, options);
+    assert.equal(result.status, "ok");
+    assert.equal(result.statusCode, 200);
+    assert.equal(result.finalUrl, null);
+    assert.equal(result.error, null);
+  });
+
+  it("doesn't flag a redirect to the same page", async () => {
+    const result = await checkLink(`${origin}/slash`, options);
+    assert.equal(result.status, "ok");
+    assert.equal(result.finalUrl, null);
+  });
+
+  it("reports a redirect to another page with its final URL", async () => {
+    const result = await checkLink(`${origin}/moved`, options);
+    assert.equal(result.status, "redirected");
+    assert.equal(result.statusCode, 200);
+    assert.equal(result.finalUrl, `${origin}/new-home`);
+  });
+
+  it("reports a missing page as broken", async () => {
+    const result = await checkLink(`${origin}/missing`, options);
+    assert.equal(result.status, "broken");
+    assert.equal(result.statusCode, 404);
+    assert.match(result.error ?? "", /404/);
+  });
+
+  it("reports a server error as broken", async () => {
+    const result = await checkLink(`${origin}/down`, options);
+    assert.equal(result.status, "broken");
+    assert.equal(result.statusCode, 503);
+  });
+
+  it("falls back to GET when HEAD answers 405", async () => {
+    seen.length = 0;
+    const result = await checkLink(`${origin}/no-head`, options);
+    assert.equal(result.status, "ok");
+    assert.equal(result.statusCode, 200);
+    assert.deepEqual(seen, ["HEAD /no-head", "GET /no-head"]);
+  });
+
+  it("falls back to GET when the server drops HEAD", async () => {
+    const result = await checkLink(`${origin}/drops-head`, options);
+    assert.equal(result.status, "ok");
+  });
+
+  it("reports access-controlled pages as unknown", async () => {
+    const result = await checkLink(`${origin}/login`, options);
+    assert.equal(result.status, "unknown");
+    assert.equal(result.statusCode, 401);
+  });
+
+  it("reports a timeout as unknown", async () => {
+    const result = await checkLink(`${origin}/slow`, { ...options, timeoutMs: 200 });
+    assert.equal(result.status, "unknown");
+    assert.equal(result.statusCode, null);
+    assert.match(result.error ?? "", /timed out/);
+  });
+
+  it("reports a blocked host as unknown", async () => {
+    const result = await checkLink(`${origin}/ok`);
+    assert.equal(result.status, "unknown");
+  });
+
+  it("reports an unusable URL as broken", async () => {
+    const result = await checkLink("not a url", options);
+    assert.equal(result.status, "broken");
+  });
+});
+
+describe("checkLinks", () => {
+  it("returns results in input order", async () => {
+    const urls = [`${origin}/missing`, `${origin}/ok`, `${origin}/moved`];
+    const results = await checkLinks(urls, { ...options, concurrency: 2 });
+    assert.deepEqual(results.map((r) => r.status), ["broken", "ok", "redirected"]);
+  });
+});
+
+describe("checkAndStoreLinks", () => {
+  // Just enough of the query builder for update().eq().select().maybeSingle()
+  function fakeSupabase(readOnlyIds: string[]) {
+    const updates: { id: string; columns: Record<string, unknown> }[] = [];
+    const client = {
+      from: (table: string) => {
+        assert.equal(table, "bookmarks");
+        return {
+          update: (columns: Record<string, unknown>) => ({
+            eq: (column: string, id: string) => {
+              assert.equal(column, "id");
+              return {
+                select: () => ({
+                  maybeSingle: async () => {
+                    // RLS hides rows the client can't update: no row, no error
+                    if (readOnlyIds.includes(id)) return { data: null, error: null };
+                    updates.push({ id, columns });
+                    return { data: { id, ...columns }, error: null };
+                  },
+                }),
+              };
+            },
+          }),
+        };
+      },
+    };
+    return { client: client as unknown as SupabaseClient, updates };
+  }
+
+  it("writes each result to its bookmark and skips rows it can't update", async () => {
+    const { client, updates } = fakeSupabase(["b3"]);
+    const stored = await checkAndStoreLinks(
+      client,
+      [
+        { id: "b1", url: `${origin}/ok` },
+        { id: "b2", url: `${origin}/missing` },
+        { id: "b3", url: `${origin}/ok` },
+      ],
+      options
+    );
+
+    assert.deepEqual(stored.map((b) => b.id), ["b1", "b2"]);
+    assert.deepEqual(updates.map((u) => u.id), ["b1", "b2"]);
+
+    const [ok, missing] = stored;
+    assert.equal(ok.link_status, "ok");
+    assert.equal(ok.link_status_code, 200);
+    assert.equal(missing.link_status, "broken");
+    assert.equal(missing.link_status_code, 404);
+    assert.equal(missing.link_error, "Server answered 404");
+    assert.ok(missing.link_checked_at);
+  });
+});
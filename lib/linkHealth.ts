@@ -0,0 +1,175 @@
+/**
+ * lib/linkHealth.ts
+ *
+ * Server-only dead-link checking. Each URL gets a HEAD request through
+ * safeFetch (so the SSRF guards, redirect handling and timeouts all
+ * apply) and falls back to a GET, reading at most 16 KB, when a server
+ * rejects or mishandles HEAD. Results are stored on the bookmark's
+ * link_* columns.
+ *
+ * Tests can point this at a local mock server with `allowPrivateHosts`.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { tryCanonicaliseUrl } from "@/lib/canonicalUrl";
+import { SafeFetchError, safeFetch, type SafeFetchResponse } from "@/lib/safeFetch";
+import type { Bookmark, LinkStatus } from "@/lib/types";
+
+export const LINK_CHECK_STALE_DAYS = 7;       // scheduled job re-checks after this
+
+export interface LinkCheckOptions {
+  timeoutMs?: number;
+  concurrency?: number;
+  allowPrivateHosts?: boolean;
+}
+
+export interface LinkCheckResult {
+  status: LinkStatus;
+  statusCode: number | null;
+  finalUrl: string | null;    // only when redirected to a different page
+  error: string | null;
+  checkedAt: string;
+}
+
+export type LinkHealthColumns = Pick<
+  Bookmark,
+  "link_status" | "link_status_code" | "link_final_url" | "link_error" | "link_checked_at"
+>;
+
+const DEFAULTS: Required<LinkCheckOptions> = {
+  timeoutMs: 10_000,
+  concurrency: 5,
+  allowPrivateHosts: false,
+};
+
+// HEAD answers that say more about the server than the page
+const RETRY_WITH_GET = new Set([400, 403, 404, 405, 406, 429, 501]);
+
+// Access-controlled or rate-limited — the page may well be fine
+const INCONCLUSIVE = new Set([401, 403, 407, 429]);
+
+const GET_MAX_BYTES = 16 * 1024;
+
+export async function checkLink(url: string, options: LinkCheckOptions = {}): Promise<LinkCheckResult> {
+  const opts = { ...DEFAULTS, ...options };
+  const checkedAt = new Date().toISOString();
+
+  try {
+    let res = await fetchOnce(url, "HEAD", opts).catch((err) => {
+      // Some servers drop HEAD connections outright; GET decides
+      if (err instanceof SafeFetchError && err.code === "network") return null;
+      throw err;
+    });
+    if (!res || RETRY_WITH_GET.has(res.status) || res.status >= 500) {
+      res = await fetchOnce(url, "GET", opts);
+    }
+    return { ...classify(url, res), checkedAt };
+  } catch (err) {
+    return { ...classifyError(err), checkedAt };
+  }
+}
+
+/**
+ * Checks many URLs with at most `concurrency` requests in flight.
+ * Results come back in input order.
+ */
+export async function checkLinks(urls: string[], options: LinkCheckOptions = {}): Promise<LinkCheckResult[]> {
+  const { concurrency } = { ...DEFAULTS, ...options };
+  const results: LinkCheckResult[] = new Array(urls.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < urls.length) {
+      const index = next++;
+      results[index] = await checkLink(urls[index], options);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, urls.length) }, worker));
+  return results;
+}
+
+export function toLinkHealthColumns(result: LinkCheckResult): LinkHealthColumns {
+  return {
+    link_status: result.status,
+    link_status_code: result.statusCode,
+    link_final_url: result.finalUrl,
+    link_error: result.error?.slice(0, 200) ?? null,
+    link_checked_at: result.checkedAt,
+  };
+}
+
+/**
+ * Checks the given bookmarks and writes each result back. Rows the
+ * client can't update (RLS) are skipped rather than failing the batch.
+ * Returns the updated rows.
+ */
+export async function checkAndStoreLinks(
+  supabase: SupabaseClient,
+  bookmarks: Pick<Bookmark, "id" | "url">[],
+  options: LinkCheckOptions = {}
+): Promise<Bookmark[]> {
+  const results = await checkLinks(bookmarks.map((b) => b.url), options);
+
+  const updated = await Promise.all(
+    bookmarks.map(async (bookmark, i) => {
+      const { data, error } = await supabase
+        .from("bookmarks")
+        .update(toLinkHealthColumns(results[i]))
+        .eq("id", bookmark.id)
+        .select()
+        .maybeSingle();
+      if (error) console.error(`Link check update failed for ${bookmark.id}:`, error.message);
+      return (data as Bookmark | null) ?? null;
+    })
+  );
+
+  return updated.filter((b): b is Bookmark => b !== null);
+}
+
+// ── Classification ────────────────────────────────────────────────────────
+
+function fetchOnce(url: string, method: "GET" | "HEAD", opts: Required<LinkCheckOptions>) {
+  return safeFetch(url, {
+    method,
+    timeoutMs: opts.timeoutMs,
+    maxBytes: GET_MAX_BYTES,
+    truncate: true,
+    accept: "*/*",
+    allowPrivateHosts: opts.allowPrivateHosts,
+  });
+}
+
+function classify(url: string, res: SafeFetchResponse): Omit<LinkCheckResult, "checkedAt"> {
+  const statusCode = res.status;
+
+  if (statusCode >= 200 && statusCode < 400) {
+    // http→https, trailing slashes and tracking params aren't worth flagging
+    const moved = res.redirects > 0 && tryCanonicaliseUrl(res.url) !== tryCanonicaliseUrl(url);
+    return moved
+      ? { status: "redirected", statusCode, finalUrl: res.url, error: null }
+      : { status: "ok", statusCode, finalUrl: null, error: null };
+  }
+
+  if (INCONCLUSIVE.has(statusCode)) {
+    return { status: "unknown", statusCode, finalUrl: null, error: `Server answered ${statusCode}` };
+  }
+
+  return { status: "broken", statusCode, finalUrl: null, error: `Server answered ${statusCode}` };
+}
+
+function classifyError(err: unknown): Omit<LinkCheckResult, "checkedAt"> {
+  if (!(err instanceof SafeFetchError)) {
+    return { status: "unknown", statusCode: null, finalUrl: null, error: "Check failed" };
+  }
+
+  switch (err.code) {
+    // Slow or off-limits servers might still be up
+    case "timeout":
+    case "blocked_host":
+      return { status: "unknown", statusCode: null, finalUrl: null, error: err.message };
+    // DNS failures, refused connections, redirect loops and bad URLs
+    default:
+      return { status: "broken", statusCode: null, finalUrl: null, error: err.message };
+  }
+}
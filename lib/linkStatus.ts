@@ -0,0 +1,31 @@
+/**
+ * lib/linkStatus.ts
+ *
+ * Browser-safe pieces of the dead-link checker: the batch size shared by
+ * /api/link-check and the dashboard, and how each status is described.
+ * The checking itself lives in lib/linkHealth.ts (server only).
+ */
+
+import type { Bookmark, LinkStatus } from "@/lib/types";
+
+export const LINK_CHECK_BATCH_SIZE = 25;
+
+export const LINK_STATUS_LABELS: Record<LinkStatus, string> = {
+  ok: "OK",
+  redirected: "Redirected",
+  broken: "Broken",
+  unknown: "Couldn't check",
+};
+
+// Tooltip text for a bookmark's link badge
+export function describeLinkHealth(bookmark: Bookmark): string {
+  const parts: string[] = [];
+  if (bookmark.link_status === "redirected" && bookmark.link_final_url) {
+    parts.push(`Now at ${bookmark.link_final_url}`);
+  }
+  if (bookmark.link_error) parts.push(bookmark.link_error);
+  if (bookmark.link_checked_at) {
+    parts.push(`Checked ${new Date(bookmark.link_checked_at).toLocaleString()}`);
+  }
+  return parts.join(" · ");
+}
@@ -0,0 +1,196 @@
+/**
+ * lib/listView.ts
+ *
+ * How the dashboard list is shown: its sort order, layout and filters.
+ * The same options live in the URL query string, so a view can itself be
+ * bookmarked, and in user_preferences, which supplies them when
+ * /dashboard is opened without any. Only non-default values are written
+ * in either place. Filters run on the server as pages are fetched
+ * (lib/bookmarkPages.ts); matchesListFilters() repeats them in the
+ * browser for rows that arrive by realtime, search or an edit.
+ *
+ * bookmarkDomain() and sortTitle() must agree with the generated domain
+ * and sort_title columns (supabase/schema.sql, section 13).
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { isReadingFilter, type ReadingFilter } from "@/lib/readingList";
+import { tagMatches } from "@/lib/tags";
+import type { Bookmark } from "@/lib/types";
+
+export type BookmarkSort = "newest" | "oldest" | "title" | "domain" | "visits";
+export type BookmarkLayout = "list" | "compact" | "card" | "grid";
+
+export const SORT_OPTIONS: Record<BookmarkSort, string> = {
+  newest: "Newest first",
+  oldest: "Oldest first",
+  title: "Title (A–Z)",
+  domain: "Domain (A–Z)",
+  visits: "Most visited",
+};
+
+export const LAYOUT_OPTIONS: Record<BookmarkLayout, string> = {
+  list: "List",
+  compact: "Compact",
+  card: "Cards",
+  grid: "Grid",
+};
+
+export interface ListFilters {
+  tag: string | null;             // folders include everything inside them
+  reading: ReadingFilter;
+  domain: string | null;          // as bookmarkDomain() returns it
+  from: string | null;            // YYYY-MM-DD, UTC, inclusive
+  to: string | null;
+}
+
+export interface ListView {
+  sort: BookmarkSort;
+  layout: BookmarkLayout;
+  filters: ListFilters;
+}
+
+export const DEFAULT_LIST_VIEW: ListView = {
+  sort: "newest",
+  layout: "list",
+  filters: { tag: null, reading: "all", domain: null, from: null, to: null },
+};
+
+// Query string keys, also the shape saved in user_preferences.dashboard_view
+const LIST_PARAMS = ["sort", "view", "tag", "reading", "domain", "from", "to"] as const;
+
+type ListParam = (typeof LIST_PARAMS)[number];
+type RawParams = Partial<Record<string, unknown>>;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isBookmarkSort(value: unknown): value is BookmarkSort {
+  return typeof value === "string" && value in SORT_OPTIONS;
+}
+
+export function isBookmarkLayout(value: unknown): value is BookmarkLayout {
+  return typeof value === "string" && value in LAYOUT_OPTIONS;
+}
+
+// ── Query string ───────────────────────────────────────────────────────────
+
+/** True if the URL picks any list option, so saved preferences don't apply. */
+export function hasListParams(params: RawParams): boolean {
+  return LIST_PARAMS.some((key) => params[key] !== undefined);
+}
+
+/** Reads a view from query params or saved preferences; bad values fall back to defaults. */
+export function parseListView(params: RawParams): ListView {
+  const sort = firstString(params.sort);
+  const layout = firstString(params.view);
+  const reading = firstString(params.reading);
+  const tag = firstString(params.tag)?.trim();
+  const domain = normaliseDomain(firstString(params.domain) ?? "");
+  const from = firstString(params.from);
+  const to = firstString(params.to);
+
+  return {
+    sort: isBookmarkSort(sort) ? sort : DEFAULT_LIST_VIEW.sort,
+    layout: isBookmarkLayout(layout) ? layout : DEFAULT_LIST_VIEW.layout,
+    filters: {
+      tag: tag || null,
+      reading: isReadingFilter(reading) ? reading : "all",
+      domain,
+      from: from && isDateParam(from) ? from : null,
+      to: to && isDateParam(to) ? to : null,
+    },
+  };
+}
+
+export function listViewParams(view: ListView): Partial<Record<ListParam, string>> {
+  const params: Partial<Record<ListParam, string>> = {};
+  if (view.sort !== DEFAULT_LIST_VIEW.sort) params.sort = view.sort;
+  if (view.layout !== DEFAULT_LIST_VIEW.layout) params.view = view.layout;
+  if (view.filters.tag) params.tag = view.filters.tag;
+  if (view.filters.reading !== "all") params.reading = view.filters.reading;
+  if (view.filters.domain) params.domain = view.filters.domain;
+  if (view.filters.from) params.from = view.filters.from;
+  if (view.filters.to) params.to = view.filters.to;
+  return params;
+}
+
+/** Dashboard URL for a view of the personal list or a collection. */
+export function listViewHref(view: ListView, collectionId: string | null): string {
+  const search = new URLSearchParams(listViewParams(view));
+  if (collectionId) search.set("collection", collectionId);
+  const query = search.toString();
+  return query ? `/dashboard?${query}` : "/dashboard";
+}
+
+export function isDefaultFilters(filters: ListFilters): boolean {
+  const defaults = DEFAULT_LIST_VIEW.filters;
+  return (Object.keys(defaults) as (keyof ListFilters)[]).every((key) => filters[key] === defaults[key]);
+}
+
+// ── Matching ───────────────────────────────────────────────────────────────
+
+// Mirrors the domain column: host without "www.", ASCII letters lowered
+export function bookmarkDomain(url: string): string {
+  return /^[a-z]+:\/\/(?:[^/@]*@)?(?:www\.)?([^/:?#]+)/.exec(asciiLower(url))?.[1] ?? "";
+}
+
+// Mirrors the sort_title column
+export function sortTitle(title: string): string {
+  return asciiLower(title);
+}
+
+/** Domain filter from what was typed: "https://www.Example.com/x" → "example.com". */
+export function normaliseDomain(raw: string): string | null {
+  const trimmed = raw.trim();
+  if (!trimmed) return null;
+  return bookmarkDomain(/^[a-z]+:\/\//i.test(trimmed) ? trimmed : `http://${trimmed}`) || null;
+}
+
+export function matchesListFilters(bookmark: Bookmark, filters: ListFilters, tagNames: string[]): boolean {
+  const { tag, reading, domain, from, to } = filters;
+  if (tag && !tagNames.some((name) => tagMatches(name, tag))) return false;
+  if (reading !== "all" && bookmark.reading_status !== reading) return false;
+  if (domain && bookmarkDomain(bookmark.url) !== domain) return false;
+  if (from && Date.parse(bookmark.created_at) < Date.parse(`${from}T00:00:00Z`)) return false;
+  if (to && Date.parse(bookmark.created_at) > Date.parse(`${to}T23:59:59.999Z`)) return false;
+  return true;
+}
+
+// ── Saved preferences ──────────────────────────────────────────────────────
+
+export async function loadSavedListView(supabase: SupabaseClient, userId: string): Promise<ListView | null> {
+  const { data, error } = await supabase
+    .from("user_preferences")
+    .select("dashboard_view")
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) console.error("Couldn't load list preferences:", error.message);
+  const saved = (data as { dashboard_view: RawParams } | null)?.dashboard_view;
+  return saved ? parseListView(saved) : null;
+}
+
+export async function saveListView(supabase: SupabaseClient, userId: string, view: ListView): Promise<string | null> {
+  const { error } = await supabase.from("user_preferences").upsert({
+    user_id: userId,
+    dashboard_view: listViewParams(view),
+    updated_at: new Date().toISOString(),
+  });
+  return error?.message ?? null;
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+// Next.js gives repeated query params as arrays
+function firstString(value: unknown): string | undefined {
+  const first = Array.isArray(value) ? value[0] : value;
+  return typeof first === "string" ? first : undefined;
+}
+
+function isDateParam(value: string): boolean {
+  return DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
+}
+
+// The "C" collation's lower(): only A–Z change
+function asciiLower(value: string): string {
+  return value.replace(/[A-Z]+/g, (letters) => letters.toLowerCase());
+}
@@ -0,0 +1,249 @@
+/**
+ * lib/markdown.ts
+ *
+ * A small Markdown reader for bookmark notes (lib/notes.ts). It covers
+ * what notes need — paragraphs, headings, lists, quotes, code, rules,
+ * emphasis, inline code and links — and turns the text into a tree that
+ * components/Markdown.tsx renders as React elements. Nothing is ever
+ * passed through as HTML: tags typed into a note show as text, and links
+ * are kept only for http(s) and mailto URLs, so a note can't run script
+ * or point a link at javascript:.
+ * Single line breaks are kept, as people expect in notes.
+ */
+
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "break" }
+  | { type: "code"; text: string }
+  | { type: "strong" | "em" | "del"; children: MarkdownInline[] }
+  | { type: "link"; href: string; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+  | { type: "paragraph"; content: MarkdownInline[] }
+  | { type: "heading"; level: number; content: MarkdownInline[] }
+  | { type: "list"; ordered: boolean; start: number; items: MarkdownInline[][] }
+  | { type: "quote"; blocks: MarkdownBlock[] }
+  | { type: "code"; text: string }
+  | { type: "rule" };
+
+const SAFE_PROTOCOLS = ["http:", "https:", "mailto:"];
+
+/** The URL if it's absolute and safe to link to, otherwise null. */
+export function safeHref(raw: string): string | null {
+  try {
+    const url = new URL(raw);
+    return SAFE_PROTOCOLS.includes(url.protocol) ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+// ── Blocks ────────────────────────────────────────────────────────────────
+
+const FENCE = /^\s*(```|~~~)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?/;
+const LIST_ITEM = /^\s{0,3}(?:([-*+])|(\d{1,9})[.)])\s+(.*)$/;
+
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  return parseBlocks(source.replace(/\r\n?/g, "\n").split("\n"));
+}
+
+function parseBlocks(lines: string[]): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // An unclosed fence runs to the end of the note
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) body.push(lines[i++]);
+      i++;
+      blocks.push({ type: "code", text: body.join("\n") });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ type: "heading", level: heading[1].length, content: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: "rule" });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) quoted.push(lines[i++].replace(QUOTE, ""));
+      blocks.push({ type: "quote", blocks: parseBlocks(quoted) });
+      continue;
+    }
+
+    const first = LIST_ITEM.exec(line);
+    if (first) {
+      const ordered = first[2] !== undefined;
+      const items: string[] = [];
+      while (i < lines.length) {
+        const item = LIST_ITEM.exec(lines[i]);
+        if (item && (item[2] !== undefined) === ordered) {
+          items.push(item[3]);
+        } else if (/^\s{2,}\S/.test(lines[i])) {
+          // Indented lines continue the item above
+          items[items.length - 1] += `\n${lines[i].trim()}`;
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push({
+        type: "list",
+        ordered,
+        start: ordered ? Number(first[2]) : 1,
+        items: items.map(parseInline),
+      });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !startsBlock(lines[i]))) {
+      paragraph.push(lines[i++].trim());
+    }
+    blocks.push({ type: "paragraph", content: parseInline(paragraph.join("\n")) });
+  }
+
+  return blocks;
+}
+
+function startsBlock(line: string): boolean {
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line);
+}
+
+// ── Inline ────────────────────────────────────────────────────────────────
+
+const ESCAPABLE = /[\\`*_~[\]()#>+\-.!|]/;
+const DELIMITERS: [string, "strong" | "em" | "del"][] = [
+  ["**", "strong"],
+  ["__", "strong"],
+  ["~~", "del"],
+  ["*", "em"],
+  ["_", "em"],
+];
+const LINK = /^\[([^\]\n]+)\]\(\s*<?([^)\s>]+)>?\s*\)/;
+// Trailing punctuation is left out of bare URLs: "see https://x.com."
+const BARE_URL = /^https?:\/\/[^\s<]*[^\s<.,:;"')\]!?]/;
+// Letters or digits in any script, as in lib/search.ts
+const WORD_CHAR = new RegExp("[\\p{L}\\p{N}]", "u");
+
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let plain = "";
+  const flush = () => {
+    if (plain) nodes.push({ type: "text", text: plain });
+    plain = "";
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    const rest = text.slice(i);
+    const afterWord = i > 0 && WORD_CHAR.test(text[i - 1]);
+
+    if (ch === "\\" && i + 1 < text.length && ESCAPABLE.test(text[i + 1])) {
+      plain += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (ch === "\n") {
+      flush();
+      nodes.push({ type: "break" });
+      i++;
+      continue;
+    }
+
+    if (ch === "`") {
+      const end = text.indexOf("`", i + 1);
+      if (end > i + 1) {
+        flush();
+        nodes.push({ type: "code", text: text.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    const delimiter = DELIMITERS.find(([marker]) => rest.startsWith(marker));
+    // snake_case isn't emphasis
+    if (delimiter && !(afterWord && delimiter[0][0] === "_")) {
+      const [marker, type] = delimiter;
+      const end = findClosing(text, marker, i + marker.length);
+      if (end !== -1) {
+        flush();
+        nodes.push({ type, children: parseInline(text.slice(i + marker.length, end)) });
+        i = end + marker.length;
+        continue;
+      }
+    }
+
+    if (ch === "[") {
+      const link = LINK.exec(rest);
+      if (link) {
+        const href = safeHref(link[2]);
+        flush();
+        if (href) nodes.push({ type: "link", href, children: parseInline(link[1]) });
+        else nodes.push(...parseInline(link[1]));
+        i += link[0].length;
+        continue;
+      }
+    }
+
+    if ((ch === "h" || ch === "H") && !afterWord) {
+      const url = BARE_URL.exec(rest);
+      const href = url && safeHref(url[0]);
+      if (url && href) {
+        flush();
+        nodes.push({ type: "link", href, children: [{ type: "text", text: url[0] }] });
+        i += url[0].length;
+        continue;
+      }
+    }
+
+    plain += ch;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+// The matching marker, with something other than whitespace just inside
+// both ends; -1 if the run is never closed
+function findClosing(text: string, marker: string, from: number): number {
+  if (from >= text.length || /\s/.test(text[from])) return -1;
+  let search = from;
+  while (search < text.length) {
+    const end = text.indexOf(marker, search);
+    if (end === -1) return -1;
+    const single = marker.length === 1;
+    // "*a **b** c*": skip doubled markers when looking for a single one
+    const doubled = single && (text[end + 1] === marker || text[end - 1] === marker);
+    if (end > from && !/\s/.test(text[end - 1]) && !doubled) {
+      const closesWord = marker[0] === "_" && end + marker.length < text.length && WORD_CHAR.test(text[end + marker.length]);
+      if (!closesWord) return end;
+    }
+    search = end + 1;
+  }
+  return -1;
+}
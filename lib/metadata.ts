@@ -0,0 +1,145 @@
+/**
+ * lib/metadata.ts
+ *
+ * Server-only page metadata extraction for link previews.
+ * Reads <title>, Open Graph and Twitter card tags, the canonical URL and
+ * favicon from the first chunk of a page fetched through safeFetch.
+ * No HTML parser dependency — only the <head> tags we care about are
+ * picked out, which is all a preview needs.
+ */
+
+import { decodeEntities, findTags } from "@/lib/html";
+import { safeFetch, type SafeFetchOptions } from "@/lib/safeFetch";
+import type { PageMetadata } from "@/lib/types";
+
+// A page's <head> is almost always well inside the first 512 KB
+const METADATA_MAX_BYTES = 512 * 1024;
+const METADATA_TIMEOUT_MS = 6000;
+
+export const METADATA_LIMITS = {
+  title: 200,
+  description: 1000,
+  siteName: 200,
+  url: 2000,
+};
+
+export async function fetchPageMetadata(
+  url: string,
+  options: SafeFetchOptions = {}
+): Promise<PageMetadata> {
+  const res = await safeFetch(url, {
+    timeoutMs: METADATA_TIMEOUT_MS,
+    maxBytes: METADATA_MAX_BYTES,
+    truncate: true,
+    ...options,
+  });
+
+  const contentType = String(res.headers["content-type"] ?? "");
+  if (res.status >= 400 || !/html/i.test(contentType)) {
+    return emptyMetadata(res.url);
+  }
+
+  const html = decodeBody(res.body, contentType);
+  return parseMetadata(html, res.url);
+}
+
+export function parseMetadata(html: string, pageUrl: string): PageMetadata {
+  // Only look at the head; fall back to the whole document if unclosed
+  const headEnd = html.search(/<\/head\s*>/i);
+  const head = headEnd === -1 ? html : html.slice(0, headEnd);
+
+  const meta = new Map<string, string>();
+  for (const attrs of findTags(head, "meta")) {
+    const key = (attrs.property ?? attrs.name ?? "").toLowerCase();
+    const content = attrs.content;
+    // First occurrence wins, matching how most consumers read OG tags
+    if (key && content && !meta.has(key)) meta.set(key, content);
+  }
+
+  const links = findTags(head, "link");
+  const linkHref = (...rels: string[]) => {
+    const found = links.find((l) =>
+      (l.rel ?? "").toLowerCase().split(/\s+/).some((r) => rels.includes(r))
+    );
+    return found?.href;
+  };
+
+  const titleMatch = head.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+
+  const title =
+    meta.get("og:title") ??
+    meta.get("twitter:title") ??
+    (titleMatch ? decodeEntities(titleMatch[1]) : undefined);
+
+  const description =
+    meta.get("og:description") ??
+    meta.get("twitter:description") ??
+    meta.get("description");
+
+  const image =
+    meta.get("og:image:secure_url") ??
+    meta.get("og:image") ??
+    meta.get("twitter:image") ??
+    meta.get("twitter:image:src");
+
+  return {
+    url: pageUrl,
+    canonicalUrl: absoluteUrl(linkHref("canonical") ?? meta.get("og:url"), pageUrl),
+    title: clean(title, METADATA_LIMITS.title),
+    description: clean(description, METADATA_LIMITS.description),
+    siteName: clean(meta.get("og:site_name") ?? meta.get("application-name"), METADATA_LIMITS.siteName),
+    imageUrl: absoluteUrl(image, pageUrl),
+    faviconUrl:
+      absoluteUrl(linkHref("icon", "apple-touch-icon"), pageUrl) ??
+      absoluteUrl("/favicon.ico", pageUrl),
+  };
+}
+
+export function emptyMetadata(pageUrl: string): PageMetadata {
+  return {
+    url: pageUrl,
+    canonicalUrl: null,
+    title: null,
+    description: null,
+    siteName: null,
+    imageUrl: null,
+    faviconUrl: absoluteUrl("/favicon.ico", pageUrl),
+  };
+}
+
+// ── Parsing helpers ───────────────────────────────────────────────────────
+
+function clean(value: string | undefined, maxLength: number): string | null {
+  if (!value) return null;
+  const collapsed = value.replace(/\s+/g, " ").trim();
+  if (!collapsed) return null;
+  return collapsed.length > maxLength ? `${collapsed.slice(0, maxLength - 1)}…` : collapsed;
+}
+
+// Resolves relative URLs and drops anything that isn't plain http(s)
+function absoluteUrl(value: string | undefined, base: string): string | null {
+  if (!value) return null;
+  try {
+    const resolved = new URL(value.trim(), base);
+    if (resolved.protocol !== "http:" && resolved.protocol !== "https:") return null;
+    const href = resolved.toString();
+    return href.length <= METADATA_LIMITS.url ? href : null;
+  } catch {
+    return null;
+  }
+}
+
+export function decodeBody(body: Buffer, contentType: string): string {
+  // Header charset first, then <meta charset>, then UTF-8
+  const sniff = body.subarray(0, 2048).toString("latin1");
+  const charset =
+    contentType.match(/charset=["']?([\w-]+)/i)?.[1] ??
+    sniff.match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1] ??
+    "utf-8";
+
+  try {
+    return new TextDecoder(charset).decode(body);
+  } catch {
+    return new TextDecoder("utf-8").decode(body);
+  }
+}
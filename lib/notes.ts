@@ -0,0 +1,127 @@
+/**
+ * lib/notes.ts
+ *
+ * Notes and highlights — the context for why a bookmark was saved.
+ * Notes are the user's own Markdown on the bookmark row, rendered by
+ * components/Markdown.tsx (lib/markdown.ts), never as HTML. Highlights
+ * are passages quoted from the page, each with an optional comment and
+ * the time it was taken, kept in bookmark_highlights; the database keeps
+ * bookmarks.highlight_count in step so the list can show how many there
+ * are without loading them (supabase/schema.sql, section 17). Both are
+ * searched and exported along with the bookmark.
+ * The limits here match the CHECK constraints in the schema.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Bookmark, BookmarkHighlight } from "@/lib/types";
+
+export const NOTES_LIMITS = {
+  notes: 10_000,
+  quote: 2000,
+  comment: 500,
+};
+
+const HIGHLIGHT_COLUMNS = "id, bookmark_id, user_id, quote, comment, created_at";
+// Bookmark ids per request in fetchHighlightsFor, to keep each URL short
+const ID_BATCH_SIZE = 200;
+
+export function validateNotes(notes: string): string | null {
+  if (notes.length > NOTES_LIMITS.notes) {
+    return `Notes can be up to ${NOTES_LIMITS.notes.toLocaleString()} characters.`;
+  }
+  return null;
+}
+
+export function validateHighlight(quote: string, comment: string): string | null {
+  if (!quote) return "Enter the passage to keep.";
+  if (quote.length > NOTES_LIMITS.quote) {
+    return `A highlight can be up to ${NOTES_LIMITS.quote.toLocaleString()} characters — select a shorter passage.`;
+  }
+  if (comment.length > NOTES_LIMITS.comment) {
+    return `A comment can be up to ${NOTES_LIMITS.comment} characters.`;
+  }
+  return null;
+}
+
+// Selections from a page come with the layout's whitespace: spaces and
+// tabs collapse, and paragraphs keep a single blank line between them
+export function normaliseQuote(raw: string): string {
+  return raw
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t\u00a0]+/g, " ")
+    .replace(/ ?\n ?/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// ── Queries ────────────────────────────────────────────────────────────────
+
+/** A bookmark's highlights, oldest first — the order they were read in. */
+export async function fetchHighlights(
+  supabase: SupabaseClient,
+  bookmarkId: string
+): Promise<{ highlights: BookmarkHighlight[]; error: string | null }> {
+  const { data, error } = await supabase
+    .from("bookmark_highlights")
+    .select(HIGHLIGHT_COLUMNS)
+    .eq("bookmark_id", bookmarkId)
+    .order("created_at", { ascending: true });
+  if (error) return { highlights: [], error: error.message };
+  return { highlights: (data ?? []) as BookmarkHighlight[], error: null };
+}
+
+/**
+ * Highlights for several bookmarks at once, grouped by bookmark. Only
+ * rows whose highlight_count says they have any are asked about.
+ */
+export async function fetchHighlightsFor(
+  supabase: SupabaseClient,
+  bookmarks: Pick<Bookmark, "id" | "highlight_count">[]
+): Promise<{ highlights: Map<string, BookmarkHighlight[]>; error: string | null }> {
+  const grouped = new Map<string, BookmarkHighlight[]>();
+  const ids = bookmarks.filter((b) => b.highlight_count > 0).map((b) => b.id);
+
+  for (let start = 0; start < ids.length; start += ID_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from("bookmark_highlights")
+      .select(HIGHLIGHT_COLUMNS)
+      .in("bookmark_id", ids.slice(start, start + ID_BATCH_SIZE))
+      .order("created_at", { ascending: true });
+    if (error) return { highlights: grouped, error: error.message };
+
+    for (const highlight of (data ?? []) as BookmarkHighlight[]) {
+      grouped.set(highlight.bookmark_id, [...(grouped.get(highlight.bookmark_id) ?? []), highlight]);
+    }
+  }
+  return { highlights: grouped, error: null };
+}
+
+export async function addHighlight(
+  supabase: SupabaseClient,
+  bookmarkId: string,
+  quote: string,
+  comment: string
+): Promise<{ highlight: BookmarkHighlight | null; error: string | null }> {
+  const cleanQuote = normaliseQuote(quote);
+  const cleanComment = comment.trim();
+  const validationError = validateHighlight(cleanQuote, cleanComment);
+  if (validationError) return { highlight: null, error: validationError };
+
+  const { data, error } = await supabase
+    .from("bookmark_highlights")
+    .insert({ bookmark_id: bookmarkId, quote: cleanQuote, comment: cleanComment || null })
+    .select(HIGHLIGHT_COLUMNS)
+    .single();
+  if (error) return { highlight: null, error: error.message };
+  return { highlight: data as BookmarkHighlight, error: null };
+}
+
+export async function deleteHighlight(supabase: SupabaseClient, id: string): Promise<string | null> {
+  const { error } = await supabase.from("bookmark_highlights").delete().eq("id", id);
+  return error?.message ?? null;
+}
+
+/** "12 Mar 2025, 14:05" — when a highlight was taken. */
+export function formatHighlightTime(isoString: string): string {
+  return new Date(isoString).toLocaleString("en-GB", { dateStyle: "medium", timeStyle: "short" });
+}
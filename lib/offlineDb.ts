@@ -0,0 +1,140 @@
+/**
+ * lib/offlineDb.ts
+ *
+ * Browser-only IndexedDB storage for the offline dashboard. Two stores:
+ * `snapshots` keeps the last bookmarks/tags/links seen per dashboard view
+ * so the page has something to show without a connection, and
+ * `mutations` holds changes made offline until they can be replayed
+ * (see lib/offlineQueue.ts).
+ *
+ * Every call resolves to a harmless default when IndexedDB is missing or
+ * blocked (private windows, old browsers) — the dashboard then simply
+ * behaves as it did before.
+ */
+
+import type { Bookmark, BookmarkTag, Tag } from "@/lib/types";
+import type { QueuedMutation } from "@/lib/offlineQueue";
+
+const DB_NAME = "smart-bookmarks";
+const DB_VERSION = 1;
+
+export interface ViewSnapshot {
+  view: string;             // "personal" or a collection id
+  bookmarks: Bookmark[];
+  tags: Tag[];
+  links: BookmarkTag[];
+  savedAt: string;
+}
+
+// Stored rows carry their auto-increment key once written
+export type StoredMutation = QueuedMutation & { seq: number };
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === "undefined") return Promise.resolve(null);
+
+  dbPromise ??= new Promise((resolve) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains("snapshots")) db.createObjectStore("snapshots", { keyPath: "view" });
+      if (!db.objectStoreNames.contains("mutations")) {
+        db.createObjectStore("mutations", { keyPath: "seq", autoIncrement: true });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.error("Offline storage unavailable:", request.error?.message);
+      resolve(null);
+    };
+  });
+  return dbPromise;
+}
+
+function done<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function committed(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// ── Snapshots ─────────────────────────────────────────────────────────────
+
+export function snapshotKey(collectionId: string | null): string {
+  return collectionId ?? "personal";
+}
+
+export async function readSnapshot(view: string): Promise<ViewSnapshot | null> {
+  const db = await openDb();
+  if (!db) return null;
+  const snapshot = await done(db.transaction("snapshots").objectStore("snapshots").get(view));
+  return (snapshot as ViewSnapshot | undefined) ?? null;
+}
+
+export async function writeSnapshot(snapshot: ViewSnapshot): Promise<void> {
+  const db = await openDb();
+  if (!db) return;
+  const tx = db.transaction("snapshots", "readwrite");
+  tx.objectStore("snapshots").put(snapshot);
+  await committed(tx);
+}
+
+// ── Mutations ─────────────────────────────────────────────────────────────
+
+export async function readMutations(): Promise<StoredMutation[]> {
+  const db = await openDb();
+  if (!db) return [];
+  const rows = await done(db.transaction("mutations").objectStore("mutations").getAll());
+  return rows as StoredMutation[];
+}
+
+/**
+ * Applies removals, rewrites and additions to the queue in one
+ * transaction, so coalescing never leaves it half-updated.
+ */
+export async function writeMutations(changes: {
+  remove?: number[];
+  put?: StoredMutation[];
+  add?: QueuedMutation[];
+}): Promise<boolean> {
+  const db = await openDb();
+  if (!db) return false;
+  const tx = db.transaction("mutations", "readwrite");
+  const store = tx.objectStore("mutations");
+  changes.remove?.forEach((seq) => store.delete(seq));
+  changes.put?.forEach((m) => store.put(m));
+  changes.add?.forEach((m) => store.add(m));
+  await committed(tx);
+  return true;
+}
+
+// ── Sign-out ──────────────────────────────────────────────────────────────
+
+/**
+ * Forgets everything stored for offline use, including the service
+ * worker's cached dashboard pages, so the next person on this browser
+ * can't open the last list without signing in.
+ */
+export async function clearOfflineData(): Promise<void> {
+  const db = await openDb();
+  if (db) {
+    const tx = db.transaction(["snapshots", "mutations"], "readwrite");
+    tx.objectStore("snapshots").clear();
+    tx.objectStore("mutations").clear();
+    await committed(tx);
+  }
+
+  if (typeof caches !== "undefined") {
+    const keys = await caches.keys();
+    await Promise.all(keys.filter((key) => key.startsWith("pages-")).map((key) => caches.delete(key)));
+  }
+}
@@ -0,0 +1,338 @@
+/**
+ * lib/offlineQueue.ts
+ *
+ * Queue for bookmark changes made while offline. Adds, edits and deletes
+ * are stored in IndexedDB (lib/offlineDb.ts) and replayed in order once
+ * the connection returns. Changes to the same bookmark are coalesced
+ * while queued: editing an offline add rewrites the add, deleting it
+ * drops it altogether. Other deletes are replayed as moves to the Trash
+ * (lib/trash.ts), so edits queued before them are still sent, and an
+ * Undo before the connection returns takes the delete back out.
+ *
+ * Conflicts on replay are settled in favour of the server. An edit is
+ * only applied if nobody changed the same fields in the meantime, an
+ * edit to a bookmark deleted elsewhere is dropped, and an add whose URL
+ * was saved from another device is skipped. Each of these comes back as
+ * a message for the dashboard to show.
+ *
+ * Also keeps a tiny store of the pending count for the status pill.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { isDuplicateUrlError } from "@/lib/canonicalUrl";
+import { readMutations, writeMutations, type StoredMutation } from "@/lib/offlineDb";
+import type { Bookmark } from "@/lib/types";
+
+export type QueuedMutation =
+  | { kind: "insert"; id: string; title: string; row: Bookmark; queuedAt: string }
+  | { kind: "update"; id: string; title: string; changes: Partial<Bookmark>; base: Partial<Bookmark>; queuedAt: string }
+  | { kind: "delete"; id: string; title: string; queuedAt: string };
+
+export interface ReplayReport {
+  applied: number;
+  conflicts: string[];
+  remaining: number;        // left queued because the connection dropped again
+}
+
+// Fields a person edits; a server-side change to one of these since the
+// offline edit was made means the edit is stale
+const TRACKED_FIELDS = ["title", "url", "notes", "reading_status"] as const;
+
+// Columns sent when replaying an offline add
+const INSERT_COLUMNS = [
+  "id",
+  "user_id",
+  "collection_id",
+  "title",
+  "url",
+  "canonical_url",
+  "description",
+  "image_url",
+  "site_name",
+  "favicon_url",
+  "reading_status",
+  "read_at",
+  "created_at",
+] as const;
+
+export function isOffline(): boolean {
+  return typeof navigator !== "undefined" && !navigator.onLine;
+}
+
+// fetch() rejections as reported by supabase-js in Chrome, Firefox, Safari and Node
+export function isNetworkError(message: string | null | undefined): boolean {
+  return !!message && /Failed to fetch|NetworkError|Load failed|fetch failed/i.test(message);
+}
+
+/**
+ * A complete local row for a bookmark added offline. The id is generated
+ * here and kept on replay, so later offline edits and deletes (and the
+ * row the server eventually echoes back) all refer to the same bookmark.
+ */
+export function draftBookmark(
+  fields: Pick<Bookmark, "user_id" | "title" | "url" | "canonical_url" | "collection_id">
+): Bookmark {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    description: null,
+    notes: null,
+    highlight_count: 0,
+    image_url: null,
+    site_name: null,
+    favicon_url: null,
+    link_status: null,
+    link_status_code: null,
+    link_final_url: null,
+    link_error: null,
+    link_checked_at: null,
+    archived_at: null,
+    reading_status: "unread",
+    read_at: null,
+    visit_count: 0,
+    last_visited_at: null,
+    deleted_at: null,
+    created_at: now,
+    updated_at: now,
+    ...fields,
+  };
+}
+
+interface WriteError {
+  message: string;
+  code?: string;
+}
+
+/**
+ * Runs a Supabase write, or queues it instead when the browser is offline
+ * or the request never reached the server. Server-side errors come back
+ * untouched; `queued` tells the caller to keep its optimistic state.
+ */
+export async function writeOrQueue<T>(
+  write: () => PromiseLike<{ data: T | null; error: WriteError | null }>,
+  queue: () => Promise<boolean>
+): Promise<{ data: T | null; error: WriteError | null; queued: boolean }> {
+  if (!isOffline()) {
+    const { data, error } = await write();
+    if (!error || !isNetworkError(error.message)) return { data, error, queued: false };
+  }
+  if (await queue()) return { data: null, error: null, queued: true };
+  return {
+    data: null,
+    error: { message: "You're offline and this browser can't store changes for later." },
+    queued: false,
+  };
+}
+
+// ── Queueing ──────────────────────────────────────────────────────────────
+// Each returns false when IndexedDB is unavailable, so the caller can
+// report the change as failed instead of silently losing it
+
+export function queueInsert(bookmark: Bookmark): Promise<boolean> {
+  return enqueue({
+    kind: "insert",
+    id: bookmark.id,
+    title: bookmark.title,
+    row: bookmark,
+    queuedAt: new Date().toISOString(),
+  });
+}
+
+export function queueUpdate(bookmark: Bookmark, changes: Partial<Bookmark>): Promise<boolean> {
+  const base: Partial<Bookmark> = {};
+  for (const field of TRACKED_FIELDS) {
+    if (field in changes) Object.assign(base, { [field]: bookmark[field] });
+  }
+  return enqueue({
+    kind: "update",
+    id: bookmark.id,
+    title: bookmark.title,
+    changes,
+    base,
+    queuedAt: new Date().toISOString(),
+  });
+}
+
+export function queueDelete(bookmark: Bookmark): Promise<boolean> {
+  return enqueue({
+    kind: "delete",
+    id: bookmark.id,
+    title: bookmark.title,
+    queuedAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Undoes a delete that's still queued: drops the queued trash, or queues
+ * the add again if the bookmark itself never reached the server.
+ */
+export async function cancelQueuedDelete(bookmark: Bookmark): Promise<boolean> {
+  try {
+    const queuedDelete = (await readMutations()).find((m) => m.id === bookmark.id && m.kind === "delete");
+    if (!queuedDelete) return queueInsert(bookmark);
+    const ok = await writeMutations({ remove: [queuedDelete.seq] });
+    await refreshPendingCount();
+    return ok;
+  } catch (err) {
+    console.error("Couldn't cancel offline delete:", err);
+    return false;
+  }
+}
+
+async function enqueue(mutation: QueuedMutation): Promise<boolean> {
+  try {
+    const related = (await readMutations()).filter((m) => m.id === mutation.id);
+    const insert = related.find((m): m is Extract<StoredMutation, { kind: "insert" }> => m.kind === "insert");
+    const update = related.find((m): m is Extract<StoredMutation, { kind: "update" }> => m.kind === "update");
+
+    let ok: boolean;
+    if (mutation.kind === "update" && insert) {
+      ok = await writeMutations({ put: [{ ...insert, row: { ...insert.row, ...mutation.changes } }] });
+    } else if (mutation.kind === "update" && update) {
+      // Keep the oldest base value for each field — that's what the server had
+      ok = await writeMutations({
+        put: [{
+          ...update,
+          changes: { ...update.changes, ...mutation.changes },
+          base: { ...mutation.base, ...update.base },
+        }],
+      });
+    } else if (mutation.kind === "delete" && insert) {
+      // Never reached the server — forget it entirely
+      ok = await writeMutations({ remove: related.map((m) => m.seq) });
+    } else {
+      ok = await writeMutations({ add: [mutation] });
+    }
+
+    await refreshPendingCount();
+    return ok;
+  } catch (err) {
+    console.error("Couldn't queue offline change:", err);
+    return false;
+  }
+}
+
+// ── Replay ────────────────────────────────────────────────────────────────
+
+let replaying: Promise<ReplayReport> | null = null;
+
+/**
+ * Sends queued changes oldest first. Stops at the first network failure
+ * and leaves the rest queued; everything else — applied or settled as a
+ * conflict — is removed. Concurrent calls share one run.
+ */
+export function replayMutations(supabase: SupabaseClient): Promise<ReplayReport> {
+  replaying ??= runReplay(supabase).finally(() => {
+    replaying = null;
+  });
+  return replaying;
+}
+
+async function runReplay(supabase: SupabaseClient): Promise<ReplayReport> {
+  const queued = (await readMutations()).sort((a, b) => a.seq - b.seq);
+  const report: ReplayReport = { applied: 0, conflicts: [], remaining: 0 };
+
+  for (let i = 0; i < queued.length; i++) {
+    const mutation = queued[i];
+    const outcome = await applyMutation(supabase, mutation);
+
+    if (outcome === "retry") {
+      report.remaining = queued.length - i;
+      break;
+    }
+    if (outcome === "applied") report.applied++;
+    else report.conflicts.push(outcome.conflict);
+
+    await writeMutations({ remove: [mutation.seq] });
+    await refreshPendingCount();
+  }
+
+  return report;
+}
+
+type Outcome = "applied" | "retry" | { conflict: string };
+
+async function applyMutation(supabase: SupabaseClient, mutation: StoredMutation): Promise<Outcome> {
+  const name = `"${mutation.title}"`;
+
+  switch (mutation.kind) {
+    case "insert": {
+      const row = Object.fromEntries(INSERT_COLUMNS.map((column) => [column, mutation.row[column]]));
+      const { error } = await supabase.from("bookmarks").insert(row);
+      if (!error) return "applied";
+      if (isNetworkError(error.message)) return "retry";
+      if (isDuplicateUrlError(error)) {
+        // A retried replay whose first attempt did land, or the URL was saved elsewhere
+        const { data: existing } = await supabase.from("bookmarks").select("id").eq("id", mutation.id).maybeSingle();
+        if (existing) return "applied";
+        return { conflict: `${name} was already saved from another device, so the offline copy was skipped.` };
+      }
+      return { conflict: `Couldn't save ${name}: ${error.message}` };
+    }
+
+    case "update": {
+      const { data: current, error: readError } = await supabase
+        .from("bookmarks")
+        .select("*")
+        .eq("id", mutation.id)
+        .maybeSingle();
+      if (readError) {
+        return isNetworkError(readError.message) ? "retry" : { conflict: `Couldn't update ${name}: ${readError.message}` };
+      }
+      if (!current) return { conflict: `${name} was deleted elsewhere, so your offline edit was dropped.` };
+
+      const server = current as Bookmark;
+      const changedElsewhere = (Object.keys(mutation.base) as (keyof Bookmark)[]).some(
+        (field) => server[field] !== mutation.base[field] && server[field] !== mutation.changes[field]
+      );
+      if (changedElsewhere) {
+        return { conflict: `${name} was changed on another device; that version was kept over your offline edit.` };
+      }
+
+      const { error } = await supabase.from("bookmarks").update(mutation.changes).eq("id", mutation.id);
+      if (!error) return "applied";
+      if (isNetworkError(error.message)) return "retry";
+      if (isDuplicateUrlError(error)) {
+        return { conflict: `Couldn't update ${name}: another bookmark already has that URL.` };
+      }
+      return { conflict: `Couldn't update ${name}: ${error.message}` };
+    }
+
+    case "delete": {
+      // Trashing a row that's already trashed or gone is not an error
+      const { error } = await supabase
+        .from("bookmarks")
+        .update({ deleted_at: mutation.queuedAt })
+        .eq("id", mutation.id)
+        .is("deleted_at", null);
+      if (!error) return "applied";
+      if (isNetworkError(error.message)) return "retry";
+      return { conflict: `Couldn't delete ${name}: ${error.message}` };
+    }
+  }
+}
+
+// ── Pending count store ───────────────────────────────────────────────────
+
+let pendingCount = 0;
+const listeners = new Set<() => void>();
+
+export function getPendingCount(): number {
+  return pendingCount;
+}
+
+export async function refreshPendingCount(): Promise<number> {
+  const count = (await readMutations().catch(() => [])).length;
+  if (count !== pendingCount) {
+    pendingCount = count;
+    listeners.forEach((listener) => listener());
+  }
+  return count;
+}
+
+export function subscribePendingCount(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,48 @@
+/**
+ * lib/quickCapture.ts
+ *
+ * Quick capture into /save: the bookmarklet that opens it for the
+ * current page, and reading what a bookmarklet or the Web Share Target
+ * (see public/manifest.webmanifest) passed along. Android's share sheet often sends
+ * the link inside `text` rather than `url`, so both are checked.
+ */
+
+export interface SharedPage {
+  url: string;
+  title: string;
+  popup: boolean;         // opened by the bookmarklet in its own window
+}
+
+const URL_IN_TEXT = /https?:\/\/[^\s<>"]+/i;
+
+export function parseSharedParams(params: {
+  url?: string;
+  title?: string;
+  text?: string;
+  popup?: string;
+}): SharedPage {
+  const text = (params.text ?? "").trim();
+  const urlInText = text.match(URL_IN_TEXT)?.[0] ?? "";
+  const url = (params.url ?? "").trim() || urlInText;
+
+  // Shared text minus the link makes a fair title when none was sent
+  const leftover = urlInText ? text.replace(urlInText, "").trim() : text;
+  const title = ((params.title ?? "").trim() || leftover).replace(/\s+/g, " ").slice(0, 200);
+
+  return { url, title, popup: params.popup === "1" };
+}
+
+/**
+ * `javascript:` URL for the bookmarklet. It opens /save for the current
+ * page in a small window; the page closes itself after saving.
+ */
+export function bookmarkletHref(origin: string): string {
+  const script = [
+    "(function(){",
+    "var u=encodeURIComponent(location.href),t=encodeURIComponent(document.title);",
+    `window.open(${JSON.stringify(`${origin}/save?popup=1&url=`)}+u+'&title='+t,`,
+    "'smart-bookmarks-save','width=560,height=680,resizable=yes,scrollbars=yes');",
+    "})();",
+  ].join("");
+  return `javascript:${script}`;
+}
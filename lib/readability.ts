@@ -0,0 +1,433 @@
+/**
+ * lib/readability.ts
+ *
+ * Main-content extraction for archived copies, in the spirit of
+ * Mozilla's Readability: parse the page into a small tree, drop obvious
+ * chrome (scripts, nav, sidebars, comments…), score block containers
+ * by the paragraphs they hold, and keep the best one plus any sibling
+ * content that belongs with it.
+ *
+ * Output is rebuilt from an allowlist — a handful of text-level tags,
+ * http(s) links and images, nothing else — so the stored HTML can be
+ * rendered without scripts, styles, event handlers or iframes.
+ */
+
+import { decodeEntities, parseAttributes } from "@/lib/html";
+
+export const ARCHIVE_LIMITS = {
+  html: 500_000,
+  text: 200_000,
+};
+
+export interface ExtractedArticle {
+  contentHtml: string;
+  textContent: string;
+  wordCount: number;
+  truncated: boolean;
+}
+
+interface ElementNode {
+  type: "element";
+  tag: string;
+  attrs: Record<string, string>;
+  children: Node[];
+  parent: ElementNode | null;
+  depth: number;
+}
+
+interface TextNode {
+  type: "text";
+  text: string;
+}
+
+type Node = ElementNode | TextNode;
+
+export function extractArticle(html: string, pageUrl: string): ExtractedArticle {
+  const root = parseHtml(html);
+  const body = findFirst(root, "body") ?? root;
+
+  removeClutter(body);
+  const content = pickContent(body);
+
+  const out = { html: "", truncated: false };
+  for (const node of content) serialise(node, pageUrl, out);
+
+  const textContent = collapseText(content.map(textOf).join("\n\n")).slice(0, ARCHIVE_LIMITS.text);
+  return {
+    contentHtml: out.html,
+    textContent,
+    wordCount: textContent.split(/\s+/).filter(Boolean).length,
+    truncated: out.truncated,
+  };
+}
+
+// ── Parsing ───────────────────────────────────────────────────────────────
+
+const VOID_TAGS = new Set([
+  "area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "source", "track", "wbr",
+]);
+
+// Contents are raw text, never markup
+const RAW_TEXT_TAGS = new Set(["script", "style", "textarea", "title", "noscript", "template", "xmp"]);
+
+// Opening one of these implicitly closes an open <p>
+const CLOSES_P = new Set([
+  "address", "article", "aside", "blockquote", "div", "dl", "fieldset", "figure", "footer", "form",
+  "h1", "h2", "h3", "h4", "h5", "h6", "header", "hr", "main", "nav", "ol", "p", "pre", "section",
+  "table", "ul",
+]);
+
+// Nesting kept by the parser, as in browsers. Every pass over the tree
+// recurses per level, so a hostile page can't nest its way past the stack.
+const MAX_DEPTH = 512;
+
+function parseHtml(html: string): ElementNode {
+  const root: ElementNode = { type: "element", tag: "#root", attrs: {}, children: [], parent: null, depth: 0 };
+  let current = root;
+  const tokenPattern = /<!--[\s\S]*?-->|<![^>]*>|<\/?([a-zA-Z][a-zA-Z0-9-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+  const lower = html.toLowerCase();
+  let last = 0;
+
+  const addText = (raw: string) => {
+    if (raw) current.children.push({ type: "text", text: decodeEntities(raw) });
+  };
+  const close = (tag: string) => {
+    for (let el: ElementNode | null = current; el && el !== root; el = el.parent) {
+      if (el.tag === tag) {
+        current = el.parent ?? root;
+        return;
+      }
+    }
+  };
+
+  for (let match = tokenPattern.exec(html); match; match = tokenPattern.exec(html)) {
+    addText(html.slice(last, match.index));
+    last = tokenPattern.lastIndex;
+
+    const tag = match[1]?.toLowerCase();
+    if (!tag) continue; // comment or doctype
+
+    if (match[0][1] === "/") {
+      close(tag);
+      continue;
+    }
+
+    if (CLOSES_P.has(tag)) close("p");
+    if (tag === "li") current = closeOpenItem(current);
+
+    const source = match[2].replace(/\/\s*$/, "");
+    const el: ElementNode = {
+      type: "element",
+      tag,
+      attrs: parseAttributes(source),
+      children: [],
+      parent: current,
+      depth: current.depth + 1,
+    };
+    // Past the limit the tag is dropped and its text goes to the deepest element kept
+    const tooDeep = el.depth > MAX_DEPTH;
+    if (!tooDeep) current.children.push(el);
+
+    if (RAW_TEXT_TAGS.has(tag)) {
+      // Skip to the matching close tag; the contents are never kept
+      const end = lower.indexOf(`</${tag}`, last);
+      const stop = end === -1 ? html.length : html.indexOf(">", end) + 1 || html.length;
+      tokenPattern.lastIndex = stop;
+      last = stop;
+      continue;
+    }
+
+    if (!tooDeep && !VOID_TAGS.has(tag) && !match[0].endsWith("/>")) current = el;
+  }
+
+  addText(html.slice(last));
+  return root;
+}
+
+// A new <li> closes the previous one, but not across a nested list
+function closeOpenItem(current: ElementNode): ElementNode {
+  for (let el: ElementNode | null = current; el; el = el.parent) {
+    if (el.tag === "ul" || el.tag === "ol") return current;
+    if (el.tag === "li" && el.parent) return el.parent;
+  }
+  return current;
+}
+
+// ── Cleaning ──────────────────────────────────────────────────────────────
+
+// Dropped with everything inside them
+const CLUTTER_TAGS = new Set([
+  "script", "style", "noscript", "template", "iframe", "object", "embed", "svg", "math", "canvas",
+  "form", "input", "button", "select", "textarea", "nav", "aside", "footer", "dialog", "link", "meta",
+]);
+
+const UNLIKELY = new RegExp(
+  "-ad-|ai2html|banner|breadcrumb|combx|comment|community|cookie|cover-wrap|disqus|extra|footer|gdpr|" +
+    "legends|menu|modal|newsletter|pager|pagination|popup|promo|related|remark|replies|rss|share|" +
+    "shoutbox|sidebar|skyscraper|social|sponsor|subscribe|supplemental|tags|toolbar|widget",
+  "i"
+);
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow/i;
+
+const POSITIVE = /article|body|content|entry|hentry|h-entry|main|page|post|text|blog|story/i;
+const NEGATIVE = new RegExp(
+  "-ad-|hidden|^hid$| hid$| hid |^hid |banner|combx|comment|com-|contact|foot|footer|footnote|gdpr|" +
+    "masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|" +
+    "shopping|tags|widget",
+  "i"
+);
+
+function removeClutter(el: ElementNode) {
+  el.children = el.children.filter((child) => {
+    if (child.type === "text") return true;
+    if (CLUTTER_TAGS.has(child.tag)) return false;
+    if (child.attrs.hidden !== undefined || child.attrs["aria-hidden"] === "true") return false;
+
+    const matchString = `${child.attrs.class ?? ""} ${child.attrs.id ?? ""}`;
+    if (
+      child.tag !== "body" &&
+      child.tag !== "article" &&
+      child.tag !== "main" &&
+      UNLIKELY.test(matchString) &&
+      !MAYBE_CANDIDATE.test(matchString)
+    ) {
+      return false;
+    }
+
+    removeClutter(child);
+    return true;
+  });
+}
+
+// ── Scoring ───────────────────────────────────────────────────────────────
+
+const SCORED_TAGS = new Set(["p", "pre", "td", "blockquote"]);
+const CONTAINER_TAGS = new Set(["div", "section", "article", "main", "td", "blockquote", "pre", "body"]);
+
+function pickContent(body: ElementNode): Node[] {
+  const scores = new Map<ElementNode, number>();
+
+  const initialScore = (el: ElementNode) => {
+    let score = classWeight(el);
+    if (el.tag === "div" || el.tag === "article" || el.tag === "main") score += 5;
+    else if (el.tag === "pre" || el.tag === "td" || el.tag === "blockquote") score += 3;
+    return score;
+  };
+
+  walk(body, (el) => {
+    if (!SCORED_TAGS.has(el.tag)) return;
+    const text = collapseText(textOf(el));
+    if (text.length < 25) return;
+
+    const score = 1 + text.split(",").length + Math.min(Math.floor(text.length / 100), 3);
+    let ancestor = el.parent;
+    for (let level = 0; ancestor && level < 3; level++, ancestor = ancestor.parent) {
+      if (!CONTAINER_TAGS.has(ancestor.tag)) continue;
+      if (!scores.has(ancestor)) scores.set(ancestor, initialScore(ancestor));
+      const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+      scores.set(ancestor, scores.get(ancestor)! + score / divider);
+    }
+  });
+
+  let top: ElementNode | null = null;
+  let topScore = 0;
+  scores.forEach((score, el) => {
+    const adjusted = score * (1 - linkDensity(el));
+    scores.set(el, adjusted);
+    if (adjusted > topScore) {
+      top = el;
+      topScore = adjusted;
+    }
+  });
+
+  // Nothing scored (very short page) — keep the whole body
+  const best = top as ElementNode | null;
+  if (!best || !best.parent || best === body) return body.children;
+
+  // Siblings that carry the same story, e.g. an intro paragraph or a
+  // second content block split out by the page template
+  const threshold = Math.max(10, topScore * 0.2);
+  const bonus = best.attrs.class ? topScore * 0.2 : 0;
+  return best.parent.children.filter((sibling) => {
+    if (sibling === best) return true;
+    if (sibling.type === "text") return false;
+
+    const sameClass = sibling.attrs.class !== undefined && sibling.attrs.class === best.attrs.class;
+    if ((scores.get(sibling) ?? 0) + (sameClass ? bonus : 0) >= threshold) return true;
+
+    if (sibling.tag === "p") {
+      const text = collapseText(textOf(sibling));
+      const density = linkDensity(sibling);
+      return (text.length > 80 && density < 0.25) || (text.length > 0 && density === 0 && /\.( |$)/.test(text));
+    }
+    return false;
+  });
+}
+
+function classWeight(el: ElementNode): number {
+  let weight = 0;
+  for (const value of [el.attrs.class, el.attrs.id]) {
+    if (!value) continue;
+    if (NEGATIVE.test(value)) weight -= 25;
+    if (POSITIVE.test(value)) weight += 25;
+  }
+  return weight;
+}
+
+function linkDensity(el: ElementNode): number {
+  const total = collapseText(textOf(el)).length;
+  if (total === 0) return 0;
+  let linked = 0;
+  walk(el, (child) => {
+    if (child.tag === "a") linked += collapseText(textOf(child)).length;
+  });
+  return Math.min(linked / total, 1);
+}
+
+// ── Serialising (allowlist) ───────────────────────────────────────────────
+
+// Kept as-is (attributes filtered below)
+const ALLOWED_TAGS = new Set([
+  "a", "b", "blockquote", "br", "code", "dd", "del", "dl", "dt", "em", "figcaption", "figure", "h2",
+  "h3", "h4", "h5", "h6", "hr", "i", "img", "li", "mark", "ol", "p", "pre", "q", "s", "small", "strong",
+  "sub", "sup", "table", "tbody", "td", "tfoot", "th", "thead", "tr", "u", "ul",
+]);
+
+// Rewritten to an allowed tag
+const RENAMED_TAGS: Record<string, string> = {
+  h1: "h2",
+  article: "div",
+  section: "div",
+  main: "div",
+  header: "div",
+  div: "div",
+  center: "div",
+  caption: "p",
+  kbd: "code",
+  samp: "code",
+  tt: "code",
+  cite: "i",
+  var: "i",
+  ins: "u",
+};
+
+const BLOCK_TAGS = new Set([
+  "address", "article", "blockquote", "dd", "div", "dl", "dt", "figcaption", "figure", "h1", "h2", "h3",
+  "h4", "h5", "h6", "header", "hr", "li", "main", "ol", "p", "pre", "section", "table", "tr", "ul",
+]);
+
+function serialise(node: Node, pageUrl: string, out: { html: string; truncated: boolean }) {
+  if (out.truncated) return;
+
+  if (node.type === "text") {
+    out.html += escapeHtml(node.text);
+    return;
+  }
+
+  const tag = ALLOWED_TAGS.has(node.tag) ? node.tag : RENAMED_TAGS[node.tag];
+  if (!tag) {
+    // Unknown or presentational wrapper (span, font, custom elements…) — keep its contents
+    node.children.forEach((child) => serialise(child, pageUrl, out));
+    return;
+  }
+
+  const attrs = allowedAttributes(tag, node.attrs, pageUrl);
+  if (attrs === null) return; // e.g. an image without a usable src
+
+  const open = `<${tag}${Object.entries(attrs).map(([k, v]) => ` ${k}="${escapeHtml(v)}"`).join("")}>`;
+  if (out.html.length + open.length > ARCHIVE_LIMITS.html - 1000) {
+    out.truncated = true;
+    return;
+  }
+
+  out.html += open;
+  if (tag === "br" || tag === "hr" || tag === "img") return;
+
+  node.children.forEach((child) => serialise(child, pageUrl, out));
+  out.html += `</${tag}>`;
+}
+
+function allowedAttributes(
+  tag: string,
+  attrs: Record<string, string>,
+  pageUrl: string
+): Record<string, string> | null {
+  switch (tag) {
+    case "a": {
+      const href = safeUrl(attrs.href, pageUrl, ["http:", "https:", "mailto:"]);
+      return href ? { href, rel: "noopener noreferrer nofollow", target: "_blank" } : {};
+    }
+    case "img": {
+      // Lazy-loading pages often keep the real source in data-src
+      const src = safeUrl(attrs["data-src"] ?? attrs.src, pageUrl, ["http:", "https:"]);
+      if (!src) return null;
+      return { src, alt: attrs.alt ?? "", loading: "lazy", referrerpolicy: "no-referrer" };
+    }
+    case "td":
+    case "th": {
+      const spans: Record<string, string> = {};
+      for (const name of ["colspan", "rowspan"]) {
+        if (/^\d{1,3}$/.test(attrs[name] ?? "")) spans[name] = attrs[name];
+      }
+      return spans;
+    }
+    case "ol":
+      return /^\d{1,6}$/.test(attrs.start ?? "") ? { start: attrs.start } : {};
+    default:
+      return {};
+  }
+}
+
+function safeUrl(value: string | undefined, base: string, protocols: string[]): string | null {
+  if (!value) return null;
+  try {
+    const resolved = new URL(value.trim(), base);
+    if (!protocols.includes(resolved.protocol)) return null;
+    const href = resolved.toString();
+    return href.length <= 2000 ? href : null;
+  } catch {
+    return null;
+  }
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────
+
+function walk(el: ElementNode, visit: (el: ElementNode) => void) {
+  for (const child of el.children) {
+    if (child.type === "element") {
+      visit(child);
+      walk(child, visit);
+    }
+  }
+}
+
+function findFirst(el: ElementNode, tag: string): ElementNode | null {
+  for (const child of el.children) {
+    if (child.type !== "element") continue;
+    if (child.tag === tag) return child;
+    const found = findFirst(child, tag);
+    if (found) return found;
+  }
+  return null;
+}
+
+// Text with a line break around every block element
+function textOf(node: Node): string {
+  if (node.type === "text") return node.text;
+  if (node.tag === "br") return "\n";
+  const inner = node.children.map(textOf).join("");
+  return BLOCK_TAGS.has(node.tag) ? `\n${inner}\n` : inner;
+}
+
+// Collapses runs of spaces, keeping at most one blank line between blocks
+function collapseText(text: string): string {
+  return text
+    .replace(/[ \t\f\r\u00a0]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
@@ -0,0 +1,57 @@
+/**
+ * lib/readingList.ts
+ *
+ * Reading list helpers: status labels, the dashboard filter, the column
+ * changes that move a bookmark between unread / read / archived, and a tiny
+ * shared store for the unread count so the Header badge follows the
+ * dashboard's realtime bookmark state without its own subscription.
+ */
+
+import type { Bookmark, ReadingStatus } from "@/lib/types";
+
+export type ReadingFilter = "all" | ReadingStatus;
+
+export const READING_FILTERS: Record<ReadingFilter, string> = {
+  all: "All",
+  unread: "Unread",
+  read: "Read",
+  archived: "Archived",
+};
+
+export function isReadingFilter(value: unknown): value is ReadingFilter {
+  return typeof value === "string" && value in READING_FILTERS;
+}
+
+export function readingListHref(filter: ReadingFilter): string {
+  return filter === "all" ? "/dashboard" : `/dashboard?reading=${filter}`;
+}
+
+// Columns to write when moving a bookmark to `status`
+export function readingStatusChanges(status: ReadingStatus): Partial<Bookmark> {
+  return status === "read" ? { reading_status: status, read_at: new Date().toISOString() } :
+    status === "unread" ? { reading_status: status, read_at: null } :
+    { reading_status: status };
+}
+
+// ── Unread count store ────────────────────────────────────────────────────
+// null until the Header has loaded a count or the dashboard has set one
+
+let unreadCount: number | null = null;
+const listeners = new Set<() => void>();
+
+export function getUnreadCount(): number | null {
+  return unreadCount;
+}
+
+export function setUnreadCount(count: number) {
+  if (count === unreadCount) return;
+  unreadCount = count;
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeUnreadCount(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * lib/redirects.ts
+ *
+ * The `next` parameter that carries a page through Google sign-in:
+ * middleware adds it when it bounces a signed-out visitor to the login
+ * page, LoginButton forwards it to /auth/callback, and the callback
+ * sends the user on to it. Only same-site paths are accepted, so a
+ * crafted login link can't redirect anywhere else.
+ */
+
+export const DEFAULT_NEXT_PATH = "/dashboard";
+
+export function safeNextPath(raw: string | null | undefined): string {
+  if (!raw || !raw.startsWith("/")) return DEFAULT_NEXT_PATH;
+  // "//host" and "/\host" are protocol-relative in browsers
+  if (raw.startsWith("//") || raw.startsWith("/\\")) return DEFAULT_NEXT_PATH;
+
+  try {
+    // Resolving against a dummy origin catches anything that escapes it
+    const url = new URL(raw, "http://localhost");
+    if (url.origin !== "http://localhost") return DEFAULT_NEXT_PATH;
+    return `${url.pathname}${url.search}${url.hash}`;
+  } catch {
+    return DEFAULT_NEXT_PATH;
+  }
+}
+
+// Login page URL that returns to `next` afterwards
+export function loginPath(next: string): string {
+  const path = safeNextPath(next);
+  return path === DEFAULT_NEXT_PATH ? "/" : `/?next=${encodeURIComponent(path)}`;
+}
@@ -0,0 +1,152 @@
+/**
+ * lib/safeFetch.test.ts
+ * safeFetch against a local fixture server: the SSRF guards, redirects,
+ * the size limit and the timeout.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { SafeFetchError, isPrivateAddress, safeFetch } from "@/lib/safeFetch";
+
+let server: http.Server;
+let origin: string;
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    switch (req.url) {
+      case "/ok":
+        res.writeHead(200, { "content-type": "text/html" }).end("<p>hello</p>");
+        break;
+      case "/redirect":
+        res.writeHead(302, { location: "/ok" }).end();
+        break;
+      case "/to-private":
+        res.writeHead(302, { location: `http://localhost:${(server.address() as AddressInfo).port}/ok` }).end();
+        break;
+      case "/big":
+        res.writeHead(200, { "content-type": "text/plain" }).end("x".repeat(10_000));
+        break;
+      case "/big-chunked":
+        // No content-length, so only the streamed size can give it away
+        res.writeHead(200, { "content-type": "text/plain" });
+        for (let i = 0; i < 10; i++) res.write("x".repeat(1000));
+        res.end();
+        break;
+      case "/slow":
+        // Never answers; the client has to give up
+        break;
+      default:
+        res.writeHead(404).end();
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+// Resolves to the error code safeFetch rejected with
+async function errorCode(promise: Promise<unknown>): Promise<string> {
+  try {
+    await promise;
+  } catch (err) {
+    assert.ok(err instanceof SafeFetchError, `expected a SafeFetchError, got ${err}`);
+    return err.code;
+  }
+  assert.fail("expected the request to fail");
+}
+
+describe("safeFetch", () => {
+  it("fetches a page from an allowed host", async () => {
+    const res = await safeFetch(`${origin}/ok`, { allowPrivateHosts: true });
+    assert.equal(res.status, 200);
+    assert.equal(res.body.toString(), "<p>hello</p>");
+    assert.equal(res.redirects, 0);
+  });
+
+  it("follows redirects and reports the final URL", async () => {
+    const res = await safeFetch(`${origin}/redirect`, { allowPrivateHosts: true });
+    assert.equal(res.status, 200);
+    assert.equal(res.url, `${origin}/ok`);
+    assert.equal(res.redirects, 1);
+  });
+
+  it("refuses private IP literals", async () => {
+    assert.equal(await errorCode(safeFetch(`${origin}/ok`)), "blocked_host");
+    assert.equal(await errorCode(safeFetch("http://[::ffff:7f00:1]/")), "blocked_host");
+  });
+
+  it("refuses hostnames that resolve to a private address", async () => {
+    const port = (server.address() as AddressInfo).port;
+    assert.equal(await errorCode(safeFetch(`http://localhost:${port}/ok`)), "blocked_host");
+  });
+
+  it("refuses a redirect to a private host", async () => {
+    const code = await errorCode(safeFetch(`${origin}/to-private`, { allowPrivateHosts: ["127.0.0.1"] }));
+    assert.equal(code, "blocked_host");
+  });
+
+  it("refuses bodies over maxBytes", async () => {
+    const options = { allowPrivateHosts: true, maxBytes: 1000 };
+    assert.equal(await errorCode(safeFetch(`${origin}/big`, options)), "too_large");
+    assert.equal(await errorCode(safeFetch(`${origin}/big-chunked`, options)), "too_large");
+  });
+
+  it("cuts bodies at maxBytes when truncating", async () => {
+    const res = await safeFetch(`${origin}/big-chunked`, { allowPrivateHosts: true, maxBytes: 1500, truncate: true });
+    assert.equal(res.body.length, 1500);
+    assert.equal(res.truncated, true);
+  });
+
+  it("gives up after timeoutMs", async () => {
+    const started = Date.now();
+    assert.equal(await errorCode(safeFetch(`${origin}/slow`, { allowPrivateHosts: true, timeoutMs: 200 })), "timeout");
+    assert.ok(Date.now() - started < 2000);
+  });
+
+  it("refuses non-http URLs", async () => {
+    assert.equal(await errorCode(safeFetch("file:///etc/passwd")), "invalid_url");
+  });
+});
+
+describe("isPrivateAddress", () => {
+  it("flags private and reserved IPv4", () => {
+    for (const address of ["10.1.2.3", "127.0.0.1", "169.254.169.254", "172.16.0.1", "192.168.1.1", "100.64.0.1"]) {
+      assert.equal(isPrivateAddress(address), true, address);
+    }
+    assert.equal(isPrivateAddress("93.184.216.34"), false);
+  });
+
+  it("flags private IPv6", () => {
+    for (const address of ["::", "::1", "fd00::1", "fe80::1", "ff02::1"]) {
+      assert.equal(isPrivateAddress(address), true, address);
+    }
+    assert.equal(isPrivateAddress("2606:4700:4700::1111"), false);
+  });
+
+  it("judges IPv4 embedded in IPv6 as IPv4", () => {
+    const embedded = [
+      "::ffff:10.0.0.1",     // mapped
+      "::ffff:7f00:1",
+      "64:ff9b::a9fe:a9fe",  // NAT64
+      "::127.0.0.1",         // compatible
+      "::7f00:1",
+      "2002:7f00:1::",       // 6to4
+      "2002:c0a8:101::1",
+    ];
+    for (const address of embedded) assert.equal(isPrivateAddress(address), true, address);
+
+    for (const address of ["::ffff:8.8.8.8", "64:ff9b::808:808", "::8.8.8.8", "2002:808:808::1"]) {
+      assert.equal(isPrivateAddress(address), false, address);
+    }
+  });
+
+  it("refuses anything that isn't an IP address", () => {
+    assert.equal(isPrivateAddress("example.com"), true);
+  });
+});
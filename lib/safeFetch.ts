@@ -0,0 +1,309 @@
+/**
+ * lib/safeFetch.ts
+ *
+ * Server-only HTTP client for fetching user-supplied URLs.
+ * Guards against SSRF by resolving every hostname ourselves and refusing
+ * private, loopback, link-local and other non-public addresses — the check
+ * runs inside the socket's DNS lookup, so a rebinding DNS server cannot
+ * swap in an internal address after validation. Redirects are followed
+ * manually so each hop is checked the same way.
+ *
+ * Tests can point this at a local fixture server with `allowPrivateHosts`:
+ * `true` for any host, or a list of hostnames so other hops stay guarded.
+ */
+
+import dns from "node:dns";
+import http from "node:http";
+import https from "node:https";
+import net from "node:net";
+import zlib from "node:zlib";
+import type { Readable } from "node:stream";
+
+export type SafeFetchErrorCode =
+  | "invalid_url"
+  | "blocked_host"
+  | "timeout"
+  | "too_large"
+  | "too_many_redirects"
+  | "network";
+
+export class SafeFetchError extends Error {
+  constructor(message: string, readonly code: SafeFetchErrorCode) {
+    super(message);
+    this.name = "SafeFetchError";
+  }
+}
+
+export interface SafeFetchOptions {
+  method?: "GET" | "HEAD";
+  timeoutMs?: number;         // whole request, including redirects
+  maxBytes?: number;          // decompressed body limit
+  truncate?: boolean;         // stop at maxBytes instead of failing
+  maxRedirects?: number;
+  accept?: string;
+  allowPrivateHosts?: boolean | string[];
+}
+
+export interface SafeFetchResponse {
+  status: number;
+  url: string;                // final URL after redirects
+  redirects: number;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+  truncated: boolean;
+}
+
+const DEFAULTS: Required<SafeFetchOptions> = {
+  method: "GET",
+  timeoutMs: 8000,
+  maxBytes: 1024 * 1024,
+  truncate: false,
+  maxRedirects: 5,
+  accept: "text/html,application/xhtml+xml;q=0.9,*/*;q=0.8",
+  allowPrivateHosts: false,
+};
+
+const USER_AGENT = "SmartBookmarkBot/1.0 (+link preview)";
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+export async function safeFetch(
+  rawUrl: string,
+  options: SafeFetchOptions = {}
+): Promise<SafeFetchResponse> {
+  const opts = { ...DEFAULTS, ...options };
+  const deadline = Date.now() + opts.timeoutMs;
+
+  let url = parseHttpUrl(rawUrl);
+  let method = opts.method;
+
+  for (let redirects = 0; ; redirects++) {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) throw new SafeFetchError("Request timed out", "timeout");
+
+    const res = await requestOnce(url, method, remaining, opts);
+
+    const location = res.headers.location;
+    if (REDIRECT_STATUSES.has(res.status) && location) {
+      if (redirects >= opts.maxRedirects) {
+        throw new SafeFetchError("Too many redirects", "too_many_redirects");
+      }
+      url = parseHttpUrl(new URL(location, url).toString());
+      // 303 always switches to GET; HEAD stays HEAD
+      if (res.status === 303 && method !== "HEAD") method = "GET";
+      continue;
+    }
+
+    return { ...res, url: url.toString(), redirects };
+  }
+}
+
+// ── Address checks ────────────────────────────────────────────────────────
+
+export function isPrivateAddress(address: string): boolean {
+  if (net.isIPv4(address)) return isPrivateIPv4(address);
+  if (!net.isIPv6(address)) return true; // not an IP at all — refuse
+
+  const words = ipv6Words(address);
+  const zeros = (from: number, to: number) => words.slice(from, to).every((w) => w === 0);
+  const embedded = (hi: number, lo: number) => `${hi >> 8}.${hi & 255}.${lo >> 8}.${lo & 255}`;
+
+  // IPv4 carried inside IPv6 is judged as IPv4: compatible (::a.b.c.d,
+  // which also covers :: and ::1), mapped (::ffff:a.b.c.d), NAT64
+  // (64:ff9b::a.b.c.d) and 6to4 (2002:aabb:ccdd::)
+  if (zeros(0, 6)) return isPrivateIPv4(embedded(words[6], words[7]));
+  if (zeros(0, 5) && words[5] === 0xffff) return isPrivateIPv4(embedded(words[6], words[7]));
+  if (words[0] === 0x64 && words[1] === 0xff9b && zeros(2, 6)) return isPrivateIPv4(embedded(words[6], words[7]));
+  if (words[0] === 0x2002) return isPrivateIPv4(embedded(words[1], words[2]));
+
+  const first = words[0];
+  if ((first & 0xfe00) === 0xfc00) return true; // fc00::/7 unique local
+  if ((first & 0xffc0) === 0xfe80) return true; // fe80::/10 link-local
+  if ((first & 0xff00) === 0xff00) return true; // ff00::/8 multicast
+
+  return false;
+}
+
+function isPrivateIPv4(address: string): boolean {
+  const [a, b] = address.split(".").map(Number);
+  return (
+    a === 0 ||                               // 0.0.0.0/8
+    a === 10 ||                              // 10.0.0.0/8
+    a === 127 ||                             // loopback
+    (a === 100 && b >= 64 && b <= 127) ||    // 100.64.0.0/10 carrier NAT
+    (a === 169 && b === 254) ||              // link-local (cloud metadata)
+    (a === 172 && b >= 16 && b <= 31) ||     // 172.16.0.0/12
+    (a === 192 && b === 168) ||              // 192.168.0.0/16
+    (a === 192 && b === 0) ||                // 192.0.0.0/24 + 192.0.2.0/24
+    (a === 198 && (b === 18 || b === 19)) || // benchmarking
+    a >= 224                                 // multicast + reserved
+  );
+}
+
+// The eight 16-bit groups of a valid IPv6 address, with "::" expanded
+// and a trailing dotted quad folded into the last two
+function ipv6Words(address: string): number[] {
+  let text = address.toLowerCase();
+  const quad = text.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (quad) {
+    const [a, b, c, d] = quad.slice(1).map(Number);
+    text = text.slice(0, quad.index) + `${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head, tail] = text.split("::");
+  const parse = (part: string | undefined) => (part ? part.split(":").map((w) => parseInt(w, 16)) : []);
+  const before = parse(head);
+  const after = parse(tail);
+  const gap = tail === undefined ? [] : new Array(8 - before.length - after.length).fill(0);
+  return [...before, ...gap, ...after];
+}
+
+// ── Internals ─────────────────────────────────────────────────────────────
+
+function parseHttpUrl(raw: string): URL {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw new SafeFetchError("Invalid URL", "invalid_url");
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new SafeFetchError("Only http and https URLs can be fetched", "invalid_url");
+  }
+  if (url.username || url.password) {
+    throw new SafeFetchError("URLs with credentials cannot be fetched", "invalid_url");
+  }
+  return url;
+}
+
+// dns.lookup wrapper used as the socket's resolver
+function guardedLookup(allowPrivate: boolean): net.LookupFunction {
+  return (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+      if (err) return callback(err, "", 0);
+
+      const list = addresses as dns.LookupAddress[];
+      if (!allowPrivate && list.some((a) => isPrivateAddress(a.address))) {
+        return callback(
+          new SafeFetchError(`Refusing to connect to private address for ${hostname}`, "blocked_host"),
+          "",
+          0
+        );
+      }
+
+      if (options.all) {
+        (callback as unknown as (e: null, a: dns.LookupAddress[]) => void)(null, list);
+      } else {
+        callback(null, list[0].address, list[0].family);
+      }
+    });
+  };
+}
+
+function requestOnce(
+  url: URL,
+  method: "GET" | "HEAD",
+  timeoutMs: number,
+  opts: Required<SafeFetchOptions>
+): Promise<Omit<SafeFetchResponse, "url" | "redirects">> {
+  // IP literals skip DNS entirely, so check them up front
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  const allowPrivate = Array.isArray(opts.allowPrivateHosts)
+    ? opts.allowPrivateHosts.includes(host)
+    : opts.allowPrivateHosts;
+  if (!allowPrivate && net.isIP(host) && isPrivateAddress(host)) {
+    return Promise.reject(new SafeFetchError("Refusing to fetch a private address", "blocked_host"));
+  }
+
+  const client = url.protocol === "https:" ? https : http;
+
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    const finish = (fn: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      fn();
+    };
+
+    const req = client.request(
+      url,
+      {
+        method,
+        lookup: guardedLookup(allowPrivate),
+        headers: {
+          "user-agent": USER_AGENT,
+          accept: opts.accept,
+          "accept-encoding": "gzip, deflate, br",
+        },
+      },
+      (res) => {
+        const status = res.statusCode ?? 0;
+        const headers = res.headers;
+
+        // Redirects and HEAD requests never need the body
+        if (method === "HEAD" || REDIRECT_STATUSES.has(status)) {
+          res.resume();
+          return finish(() => resolve({ status, headers, body: Buffer.alloc(0), truncated: false }));
+        }
+
+        const declared = Number(headers["content-length"]);
+        if (!opts.truncate && Number.isFinite(declared) && declared > opts.maxBytes) {
+          res.destroy();
+          return finish(() => reject(new SafeFetchError("Response is too large", "too_large")));
+        }
+
+        const stream = decode(res, headers["content-encoding"]);
+        const chunks: Buffer[] = [];
+        let size = 0;
+
+        stream.on("data", (chunk: Buffer) => {
+          if (settled) return;
+          size += chunk.length;
+          if (size <= opts.maxBytes) {
+            chunks.push(chunk);
+            return;
+          }
+          res.destroy();
+          if (opts.truncate) {
+            chunks.push(chunk.subarray(0, chunk.length - (size - opts.maxBytes)));
+            finish(() => resolve({ status, headers, body: Buffer.concat(chunks), truncated: true }));
+          } else {
+            finish(() => reject(new SafeFetchError("Response is too large", "too_large")));
+          }
+        });
+        stream.on("end", () =>
+          finish(() => resolve({ status, headers, body: Buffer.concat(chunks), truncated: false }))
+        );
+        stream.on("error", (err) => finish(() => reject(toSafeFetchError(err))));
+      }
+    );
+
+    const timer = setTimeout(() => {
+      req.destroy();
+      finish(() => reject(new SafeFetchError("Request timed out", "timeout")));
+    }, timeoutMs);
+
+    req.on("error", (err) => finish(() => reject(toSafeFetchError(err))));
+    req.end();
+  });
+}
+
+function decode(res: http.IncomingMessage, encoding: string | undefined): Readable {
+  switch (encoding?.toLowerCase()) {
+    case "gzip":
+    case "x-gzip":
+      return res.pipe(zlib.createGunzip());
+    case "deflate":
+      return res.pipe(zlib.createInflate());
+    case "br":
+      return res.pipe(zlib.createBrotliDecompress());
+    default:
+      return res;
+  }
+}
+
+function toSafeFetchError(err: unknown): SafeFetchError {
+  if (err instanceof SafeFetchError) return err;
+  const message = err instanceof Error ? err.message : "Network error";
+  return new SafeFetchError(message, "network");
+}
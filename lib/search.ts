@@ -0,0 +1,41 @@
+/**
+ * lib/search.ts
+ * Helpers for the full-text search route and highlighted results.
+ */
+
+// Markers search_bookmarks() wraps around matched words (see schema.sql)
+export const HIGHLIGHT_START = "\u0002";
+export const HIGHLIGHT_STOP = "\u0003";
+
+export const MAX_QUERY_LENGTH = 200;
+
+// Runs of letters or digits in any script
+const TERM_PATTERN = new RegExp("[\\p{L}\\p{N}]+", "gu");
+
+/**
+ * Turns free text into a prefix tsquery: "supa docs" → "supa:* & docs:*".
+ * Only letters and digits survive, so the result is always safe to hand
+ * to to_tsquery(). Returns null when nothing searchable is left.
+ */
+export function buildPrefixQuery(raw: string): string | null {
+  const terms = raw.slice(0, MAX_QUERY_LENGTH).toLowerCase().match(TERM_PATTERN);
+  if (!terms || terms.length === 0) return null;
+  return Array.from(new Set(terms)).map((t) => `${t}:*`).join(" & ");
+}
+
+// Splits a highlighted string into plain and matched segments
+export function splitHighlight(text: string): { text: string; match: boolean }[] {
+  const segments: { text: string; match: boolean }[] = [];
+  const pattern = new RegExp(`${HIGHLIGHT_START}(.*?)${HIGHLIGHT_STOP}`, "gs");
+  let last = 0;
+
+  for (const m of Array.from(text.matchAll(pattern))) {
+    const index = m.index ?? 0;
+    if (index > last) segments.push({ text: text.slice(last, index), match: false });
+    segments.push({ text: m[1], match: true });
+    last = index + m[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), match: false });
+
+  return segments;
+}
@@ -0,0 +1,74 @@
+/**
+ * lib/shareLinks.ts
+ *
+ * Helpers for public share links. The slug is the only secret, so it is
+ * 16 random bytes (22 base64url characters) — rotating a link just swaps
+ * in a new one.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { SharedBookmark } from "@/lib/types";
+
+export const SHARED_PAGE_LIMIT = 500;
+
+export function generateShareSlug(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return btoa(String.fromCharCode(...Array.from(bytes)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+export interface SharedList {
+  title: string;
+  kind: "tag" | "collection";
+  expiresAt: string | null;
+  bookmarks: SharedBookmark[];
+}
+
+/**
+ * Loads a live share link and its bookmarks through the SECURITY DEFINER
+ * functions in schema.sql, so it works for signed-out visitors. Returns
+ * null for unknown, revoked and expired slugs alike.
+ */
+export async function loadSharedList(supabase: SupabaseClient, slug: string): Promise<SharedList | null> {
+  const { data: links, error } = await supabase.rpc("get_share_link", { share_slug: slug });
+  const link = (links as { title: string; kind: SharedList["kind"]; expires_at: string | null }[] | null)?.[0];
+  if (error || !link) return null;
+
+  const { data: bookmarks, error: bookmarksError } = await supabase.rpc("shared_bookmarks", {
+    share_slug: slug,
+    max_results: SHARED_PAGE_LIMIT,
+  });
+  if (bookmarksError) throw new Error(bookmarksError.message);
+
+  return {
+    title: link.title,
+    kind: link.kind,
+    expiresAt: link.expires_at,
+    bookmarks: (bookmarks ?? []) as SharedBookmark[],
+  };
+}
+
+export function sharePath(slug: string): string {
+  return `/s/${encodeURIComponent(slug)}`;
+}
+
+export function shareFeedPath(slug: string): string {
+  return `${sharePath(slug)}/feed`;
+}
+
+// Most recent change across the list, for feed <updated> / lastBuildDate
+export function latestUpdate(bookmarks: SharedBookmark[]): string {
+  return bookmarks.reduce(
+    (latest, b) => (b.updated_at > latest ? b.updated_at : latest),
+    bookmarks[0]?.updated_at ?? new Date(0).toISOString()
+  );
+}
+
+// End of the chosen calendar day in the viewer's timezone
+export function expiryFromDate(date: string): string | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return null;
+  const end = new Date(`${date}T23:59:59`);
+  return isNaN(end.getTime()) ? null : end.toISOString();
+}
@@ -0,0 +1,23 @@
+/**
+ * lib/supabaseAdmin.ts
+ * Service-role Supabase client for Route Handlers that authenticate
+ * without a session cookie (personal access tokens), and for writes
+ * clients aren't allowed to make themselves (saved copies, /api/archive).
+ *
+ * SERVER ONLY. This client bypasses RLS — every query made with it must
+ * filter on the caller's user_id explicitly, or follow a check that the
+ * caller may make it.
+ */
+
+import { createClient } from "@supabase/supabase-js";
+
+export function createAdminSupabaseClient() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) {
+    throw new Error("SUPABASE_SERVICE_ROLE_KEY is not set");
+  }
+
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
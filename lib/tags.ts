@@ -0,0 +1,149 @@
+/**
+ * lib/tags.ts
+ *
+ * Tag helpers shared by the form, the list and the filter bar.
+ * Folders are just tags with "/" in the name — "work/clients" lives
+ * inside the "work" folder, and filtering by "work" includes it.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { BookmarkTag, Tag } from "@/lib/types";
+
+export const MAX_TAG_LENGTH = 50;
+export const MAX_TAGS_PER_BOOKMARK = 20;
+
+// Lowercases, collapses whitespace and tidies folder separators:
+// "  Work / Clients " → "work/clients"
+export function normaliseTagName(raw: string): string {
+  return raw
+    .toLowerCase()
+    .split("/")
+    .map((segment) => segment.trim().replace(/\s+/g, " "))
+    .filter((segment) => segment.length > 0)
+    .join("/");
+}
+
+// Splits comma-separated input into unique, normalised tag names
+export function parseTagInput(raw: string): string[] {
+  const names = raw
+    .split(",")
+    .map(normaliseTagName)
+    .filter((name) => name.length > 0);
+  return Array.from(new Set(names));
+}
+
+export function validateTags(names: string[]): string | null {
+  if (names.length > MAX_TAGS_PER_BOOKMARK) {
+    return `A bookmark can have at most ${MAX_TAGS_PER_BOOKMARK} tags.`;
+  }
+  const tooLong = names.find((name) => name.length > MAX_TAG_LENGTH);
+  if (tooLong) {
+    return `Tag "${tooLong.slice(0, 20)}…" is longer than ${MAX_TAG_LENGTH} characters.`;
+  }
+  return null;
+}
+
+// True if `tagName` is the selected tag or sits inside it as a folder
+export function tagMatches(tagName: string, selected: string): boolean {
+  return tagName === selected || tagName.startsWith(`${selected}/`);
+}
+
+// Every folder prefix of the given tags: "a/b/c" → "a", "a/b", "a/b/c"
+export function expandFolders(names: string[]): string[] {
+  const all = new Set<string>();
+  for (const name of names) {
+    const segments = name.split("/");
+    for (let i = 1; i <= segments.length; i++) {
+      all.add(segments.slice(0, i).join("/"));
+    }
+  }
+  return Array.from(all).sort();
+}
+
+export function groupTagsByBookmark(
+  tags: Tag[],
+  links: BookmarkTag[]
+): Map<string, Tag[]> {
+  const tagsById = new Map(tags.map((t) => [t.id, t]));
+  const grouped = new Map<string, Tag[]>();
+
+  for (const link of links) {
+    const tag = tagsById.get(link.tag_id);
+    if (!tag) continue;
+    const list = grouped.get(link.bookmark_id) ?? [];
+    list.push(tag);
+    grouped.set(link.bookmark_id, list);
+  }
+
+  grouped.forEach((list) => list.sort((a, b) => a.name.localeCompare(b.name)));
+  return grouped;
+}
+
+/**
+ * Creates any of `names` the user doesn't have yet and returns the Tag
+ * rows for all of them. Selects the user's whole tag list rather than
+ * filtering by name so large imports don't blow the request URL limit.
+ */
+export async function ensureTags(
+  supabase: SupabaseClient,
+  userId: string,
+  names: string[]
+): Promise<{ tags: Tag[]; error: string | null }> {
+  if (names.length === 0) return { tags: [], error: null };
+
+  const { error: upsertError } = await supabase
+    .from("tags")
+    .upsert(
+      names.map((name) => ({ user_id: userId, name })),
+      { onConflict: "user_id,name", ignoreDuplicates: true }
+    );
+  if (upsertError) return { tags: [], error: upsertError.message };
+
+  // Filtered explicitly so this is also safe with the RLS-bypassing admin client
+  const { data, error: selectError } = await supabase.from("tags").select("*").eq("user_id", userId);
+  if (selectError) return { tags: [], error: selectError.message };
+
+  const wanted = new Set(names);
+  return { tags: ((data ?? []) as Tag[]).filter((t) => wanted.has(t.name)), error: null };
+}
+
+/**
+ * Makes `names` the exact tag set of a bookmark: creates missing tags,
+ * links new ones and unlinks the rest. Returns the resulting tags and
+ * links so the caller can update local state without waiting for Realtime.
+ */
+export async function syncBookmarkTags(
+  supabase: SupabaseClient,
+  userId: string,
+  bookmarkId: string,
+  names: string[]
+): Promise<{ tags: Tag[]; links: BookmarkTag[]; error: string | null }> {
+  const { tags, error: tagError } = await ensureTags(supabase, userId, names);
+  if (tagError) return { tags: [], links: [], error: tagError };
+
+  const tagIds = tags.map((t) => t.id);
+
+  // Unlink tags that are no longer wanted
+  let unlink = supabase.from("bookmark_tags").delete().eq("bookmark_id", bookmarkId);
+  if (tagIds.length > 0) unlink = unlink.not("tag_id", "in", `(${tagIds.join(",")})`);
+  const { error: unlinkError } = await unlink;
+  if (unlinkError) return { tags, links: [], error: unlinkError.message };
+
+  if (tagIds.length === 0) return { tags, links: [], error: null };
+
+  const { error: linkError } = await supabase
+    .from("bookmark_tags")
+    .upsert(
+      tagIds.map((tagId) => ({ bookmark_id: bookmarkId, tag_id: tagId, user_id: userId })),
+      { onConflict: "bookmark_id,tag_id", ignoreDuplicates: true }
+    );
+  if (linkError) return { tags, links: [], error: linkError.message };
+
+  const links = tagIds.map((tagId) => ({
+    bookmark_id: bookmarkId,
+    tag_id: tagId,
+    user_id: userId,
+  }));
+
+  return { tags, links, error: null };
+}
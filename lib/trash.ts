@@ -0,0 +1,98 @@
+/**
+ * lib/trash.ts
+ *
+ * Soft delete. Deleting a bookmark moves it to the Trash by setting
+ * deleted_at; every list, count, search and share leaves it out from then
+ * on (supabase/schema.sql, section 15). It can be restored from /trash
+ * until the scheduled purge (/api/cron/purge-trash) deletes it for good,
+ * TRASH_RETENTION_DAYS after it was trashed. Both the dashboard and /trash
+ * follow trash and restore in other tabs over realtime: each is an UPDATE
+ * of deleted_at.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { isDuplicateUrlError } from "@/lib/canonicalUrl";
+import type { Bookmark } from "@/lib/types";
+
+export const TRASH_RETENTION_DAYS = 30;
+// How long the dashboard offers Undo after a delete
+export const UNDO_TIMEOUT_MS = 8000;
+const TRASH_LIST_LIMIT = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A row of the trashed_bookmarks view
+export type TrashedBookmark = Pick<Bookmark, "id" | "user_id" | "collection_id" | "title" | "url" | "created_at"> & {
+  deleted_at: string;
+};
+
+const TRASHED_COLUMNS = "id, user_id, collection_id, title, url, created_at, deleted_at";
+
+export function trashChanges(): Pick<Bookmark, "deleted_at"> {
+  return { deleted_at: new Date().toISOString() };
+}
+
+export const RESTORE_CHANGES: Pick<Bookmark, "deleted_at"> = { deleted_at: null };
+
+export function isTrashed(bookmark: Pick<Bookmark, "deleted_at">): boolean {
+  return bookmark.deleted_at !== null;
+}
+
+/** When the purge job will delete a bookmark trashed at `deletedAt`. */
+export function purgeDate(deletedAt: string): Date {
+  return new Date(Date.parse(deletedAt) + TRASH_RETENTION_DAYS * DAY_MS);
+}
+
+/** Rows trashed before this moment are due to be purged. */
+export function purgeCutoff(now = Date.now()): string {
+  return new Date(now - TRASH_RETENTION_DAYS * DAY_MS).toISOString();
+}
+
+// ── Queries ────────────────────────────────────────────────────────────────
+
+/** Everything in the caller's Trash they can see, most recently trashed first. */
+export async function fetchTrash(
+  supabase: SupabaseClient
+): Promise<{ bookmarks: TrashedBookmark[]; error: string | null }> {
+  const { data, error } = await supabase
+    .from("trashed_bookmarks")
+    .select(TRASHED_COLUMNS)
+    .order("deleted_at", { ascending: false })
+    .limit(TRASH_LIST_LIMIT);
+  if (error) return { bookmarks: [], error: error.message };
+  return { bookmarks: (data ?? []) as TrashedBookmark[], error: null };
+}
+
+/**
+ * Takes a bookmark back out of the Trash and returns the live row. Fails
+ * if the same link has been saved again in the meantime.
+ */
+export async function restoreBookmark(
+  supabase: SupabaseClient,
+  id: string
+): Promise<{ bookmark: Bookmark | null; error: string | null }> {
+  const { data, error } = await supabase
+    .from("bookmarks")
+    .update(RESTORE_CHANGES)
+    .eq("id", id)
+    .not("deleted_at", "is", null)
+    .select()
+    .maybeSingle();
+  if (isDuplicateUrlError(error)) {
+    return { bookmark: null, error: "This link has been saved again since, so the old copy can't be restored." };
+  }
+  if (error) return { bookmark: null, error: error.message };
+  if (!data) return { bookmark: null, error: "It's no longer in the Trash." };
+  return { bookmark: data as Bookmark, error: null };
+}
+
+/** Deletes trashed bookmarks for good. Live rows are never touched. */
+export async function purgeBookmarks(supabase: SupabaseClient, ids: string[]): Promise<string | null> {
+  if (ids.length === 0) return null;
+  const { error } = await supabase
+    .from("bookmarks")
+    .delete()
+    .in("id", ids)
+    .not("deleted_at", "is", null);
+  return error?.message ?? null;
+}
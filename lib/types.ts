@@ -8,10 +8,231 @@ export interface Bookmark {
   user_id: string;
   title: string;
   url: string;
+  description: string | null;
+  notes: string | null;           // the user's own Markdown — see lib/notes.ts
+  highlight_count: number;        // rows in bookmark_highlights, kept by the database
+  image_url: string | null;
+  site_name: string | null;
+  favicon_url: string | null;
+  canonical_url: string | null;
+  collection_id: string | null;   // null = the creator's personal list
+  link_status: LinkStatus | null; // null = never checked
+  link_status_code: number | null;
+  link_final_url: string | null;  // set only when the link redirects elsewhere
+  link_error: string | null;
+  link_checked_at: string | null;
+  archived_at: string | null;     // set once a readable copy is saved
+  reading_status: ReadingStatus;
+  read_at: string | null;
+  visit_count: number;            // opens through /go/<id>
+  last_visited_at: string | null;
+  deleted_at: string | null;      // set while in the Trash (lib/trash.ts)
   created_at: string;
+  updated_at: string;
 }
 
+// Reading list state — "archived" hides an item from the reading list,
+// it is unrelated to archived copies (BookmarkArchive)
+export type ReadingStatus = "unread" | "read" | "archived";
+
+// Readable snapshot of a bookmarked page — see lib/readability.ts
+export interface BookmarkArchive {
+  bookmark_id: string;
+  user_id: string;
+  source_url: string;
+  title: string | null;
+  byline: string | null;
+  site_name: string | null;
+  content_html: string;           // sanitised, safe to render
+  content_text: string;
+  word_count: number;
+  archived_at: string;
+}
+
+// A passage quoted from the bookmarked page, with an optional comment
+export interface BookmarkHighlight {
+  id: string;
+  bookmark_id: string;
+  user_id: string;
+  quote: string;
+  comment: string | null;
+  created_at: string;
+}
+
+// Outcome of the last dead-link check — see lib/linkHealth.ts
+export type LinkStatus = "ok" | "redirected" | "broken" | "unknown";
+
 export interface BookmarkInsert {
   title: string;
   url: string;
+  description?: string | null;
+  image_url?: string | null;
+  site_name?: string | null;
+  favicon_url?: string | null;
+  canonical_url?: string | null;
+  collection_id?: string | null;
+}
+
+export type BookmarkUpdate = Partial<BookmarkInsert>;
+
+export interface Tag {
+  id: string;
+  user_id: string;
+  name: string;
+  created_at: string;
+}
+
+// Join row linking a bookmark to one of its tags
+export interface BookmarkTag {
+  bookmark_id: string;
+  tag_id: string;
+  user_id: string;
+}
+
+// What a tag rule looks at (lib/autoTag.ts)
+export type TagRuleField = "domain" | "url" | "title";
+
+// Row from tag_rules: "<field> matches <pattern> → suggest <tag_name>"
+export interface TagRule {
+  id: string;
+  user_id: string;
+  field: TagRuleField;
+  pattern: string;
+  tag_name: string;
+  created_at: string;
+}
+
+// One suggested tag and why it was suggested, best first
+export interface TagSuggestion {
+  name: string;
+  reason: "rule" | "domain" | "keyword" | "similar";
+  detail: string;              // e.g. "URL contains /docs/" or "Like 4 bookmarks tagged python"
+  score: number;
+}
+
+// Response from GET /api/tags/backfill: untagged bookmarks that have suggestions
+export interface TagBackfillResult {
+  scanned: number;             // untagged bookmarks looked at
+  bookmarks: { id: string; title: string; url: string; suggestions: TagSuggestion[] }[];
+  next: { before: string; id: string } | null;   // cursor for older ones, if any
+}
+
+// One row from the search_bookmarks() RPC, best match first
+export interface SearchResult {
+  id: string;
+  rank: number;
+  title_highlight: string;
+  url_highlight: string;
+}
+
+// Link preview data returned by /api/metadata
+export interface PageMetadata {
+  url: string;                 // final URL after redirects
+  canonicalUrl: string | null;
+  title: string | null;
+  description: string | null;
+  siteName: string | null;
+  imageUrl: string | null;
+  faviconUrl: string | null;
+}
+
+export type ImportFormat = "netscape" | "csv" | "json";
+
+// A row from an import file that was not imported, and why
+export interface ImportIssue {
+  line: number;
+  url: string;
+  status: "invalid" | "duplicate" | "failed";
+  message: string;
+}
+
+// Response from POST /api/import
+export interface ImportReport {
+  format: ImportFormat;
+  total: number;
+  imported: number;
+  issues: ImportIssue[];
+  bookmarks: Bookmark[];
+  tags: Tag[];
+  links: BookmarkTag[];
+}
+
+export type ExportFormat = "html" | "json" | "csv" | "md";
+
+export type CollectionRole = "owner" | "editor" | "viewer";
+
+export interface Collection {
+  id: string;
+  owner_id: string;
+  name: string;
+  created_at: string;
+}
+
+// One collection the signed-in user belongs to, with their role in it
+export interface CollectionMembership {
+  role: CollectionRole;
+  collection: Collection;
+}
+
+export interface CollectionMember {
+  collection_id: string;
+  user_id: string;
+  email: string | null;
+  role: CollectionRole;
+  created_at: string;
+}
+
+// Pending invite, keyed by the invitee's email address
+export interface CollectionInvite {
+  id: string;
+  collection_id: string;
+  email: string;
+  role: Exclude<CollectionRole, "owner">;
+  invited_by: string;
+  created_at: string;
+  collection_name?: string;
+}
+
+// Public read-only link to a tag/folder or a collection (see /s/[slug])
+export interface ShareLink {
+  id: string;
+  user_id: string;
+  slug: string;
+  tag_name: string | null;
+  collection_id: string | null;
+  expires_at: string | null;
+  created_at: string;
+}
+
+// Row from shared_bookmarks() — only what a public page may show
+export interface SharedBookmark {
+  id: string;
+  title: string;
+  url: string;
+  description: string | null;
+  site_name: string | null;
+  favicon_url: string | null;
+  created_at: string;
+  updated_at: string;
+  tags: string[];
+}
+
+// Personal access token scope for /api/v1
+export type ApiTokenScope = "read" | "write";
+
+// Row from api_tokens — the token itself is never stored, only its hash
+export interface ApiToken {
+  id: string;
+  user_id: string;
+  name: string;
+  token_prefix: string;
+  scope: ApiTokenScope;
+  last_used_at: string | null;
+  created_at: string;
+}
+
+// Bookmark as returned by /api/v1, with tag names and highlights inlined
+export interface ApiBookmark extends Omit<Bookmark, "canonical_url" | "collection_id" | "deleted_at"> {
+  tags: string[];
+  highlights: BookmarkHighlight[];
 }
@@ -0,0 +1,68 @@
+/**
+ * lib/validation.ts
+ * Shared bookmark validation — used by the add form and inline editing.
+ */
+
+// Adds https:// if protocol is missing
+export function normaliseUrl(raw: string): string {
+  const trimmed = raw.trim();
+  if (!trimmed.startsWith("http://") && !trimmed.startsWith("https://")) {
+    return `https://${trimmed}`;
+  }
+  return trimmed;
+}
+
+export function validateUrl(url: string): string | null {
+  if (!url.trim()) return "URL is required.";
+
+  try {
+    const parsed = new URL(normaliseUrl(url));
+
+    // Only allow http and https protocols
+    if (!["http:", "https:"].includes(parsed.protocol)) {
+      return "URL must use http:// or https://.";
+    }
+
+    const hostname = parsed.hostname;
+
+    // Must have a dot — rejects plain words like 'hello', 'test', 'random'
+    if (!hostname.includes(".")) {
+      return "Please enter a real URL with a domain (e.g. https://example.com).";
+    }
+
+    // Split into parts: ['google', 'com'] or ['sub', 'google', 'com']
+    const parts = hostname.split(".");
+
+    // Each part must be non-empty
+    if (parts.some((p) => p.length === 0)) {
+      return "Please enter a valid URL (e.g. https://example.com).";
+    }
+
+    // TLD (last part like .com .io .in) must be 2-6 letters only
+    const tld = parts[parts.length - 1];
+    if (!/^[a-zA-Z]{2,6}$/.test(tld)) {
+      return "Please enter a valid URL (e.g. https://example.com).";
+    }
+
+    // Domain name (second to last part) must be at least 1 char
+    const domain = parts[parts.length - 2];
+    if (!domain || domain.length < 1) {
+      return "Please enter a valid URL (e.g. https://example.com).";
+    }
+
+    // Only allow valid hostname characters
+    if (!/^[a-zA-Z0-9.-]+$/.test(hostname)) {
+      return "URL contains invalid characters.";
+    }
+
+  } catch {
+    return "Please enter a valid URL (e.g. https://example.com).";
+  }
+
+  return null; // all good
+}
+
+export function validateBookmark(title: string, url: string): string | null {
+  if (!title.trim()) return "Title is required.";
+  return validateUrl(url);
+}
@@ -0,0 +1,113 @@
+/**
+ * lib/visits.ts
+ *
+ * Click tracking. Links to a bookmark go through /go/<id>, which counts
+ * the visit and redirects (see open_bookmark() in schema.sql), so opens
+ * from the dashboard, share pages and tracked exports are all recorded.
+ * Share pages add the slug, which is what lets signed-out visitors
+ * through. Also loads the /insights report from the insights_* SQL
+ * functions.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export const INSIGHTS_LIST_SIZE = 10;
+export const INSIGHTS_WEEKS = 12;
+
+export function visitPath(bookmarkId: string, shareSlug?: string): string {
+  const path = `/go/${encodeURIComponent(bookmarkId)}`;
+  return shareSlug ? `${path}?s=${encodeURIComponent(shareSlug)}` : path;
+}
+
+// Only web links are followed — a stored URL is never trusted as a scheme
+export function isRedirectableUrl(url: string): boolean {
+  try {
+    return ["http:", "https:"].includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+}
+
+// ── Insights ───────────────────────────────────────────────────────────────
+
+export interface VisitSummary {
+  total: number;
+  opened: number;
+  never_opened: number;
+  visits: number;
+}
+
+export interface VisitedBookmark {
+  id: string;
+  title: string;
+  url: string;
+  visit_count: number;
+  last_visited_at: string | null;
+}
+
+export interface UnopenedBookmark {
+  id: string;
+  title: string;
+  url: string;
+  created_at: string;
+}
+
+export interface DomainUsage {
+  domain: string;
+  bookmarks: number;
+  visits: number;
+}
+
+export interface WeeklySaves {
+  week_start: string;             // YYYY-MM-DD, a Monday
+  saves: number;
+}
+
+export interface Insights {
+  summary: VisitSummary;
+  mostVisited: VisitedBookmark[];
+  neverOpened: UnopenedBookmark[];
+  topDomains: DomainUsage[];
+  savesPerWeek: WeeklySaves[];
+}
+
+/** Runs the insights queries side by side; the first error wins. */
+export async function fetchInsights(
+  supabase: SupabaseClient
+): Promise<{ insights: Insights | null; error: string | null }> {
+  const [summary, mostVisited, neverOpened, topDomains, savesPerWeek] = await Promise.all([
+    supabase.rpc("insights_summary"),
+    supabase.rpc("insights_most_visited", { max_results: INSIGHTS_LIST_SIZE }),
+    supabase.rpc("insights_never_opened", { max_results: INSIGHTS_LIST_SIZE }),
+    supabase.rpc("insights_top_domains", { max_results: INSIGHTS_LIST_SIZE }),
+    supabase.rpc("insights_saves_per_week", { weeks: INSIGHTS_WEEKS }),
+  ]);
+
+  const failed = [summary, mostVisited, neverOpened, topDomains, savesPerWeek].find((r) => r.error);
+  if (failed?.error) return { insights: null, error: failed.error.message };
+
+  // BIGINT columns can arrive as strings
+  const summaryRow = (summary.data as Record<keyof VisitSummary, number | string>[] | null)?.[0];
+  return {
+    insights: {
+      summary: {
+        total: Number(summaryRow?.total ?? 0),
+        opened: Number(summaryRow?.opened ?? 0),
+        never_opened: Number(summaryRow?.never_opened ?? 0),
+        visits: Number(summaryRow?.visits ?? 0),
+      },
+      mostVisited: (mostVisited.data ?? []) as VisitedBookmark[],
+      neverOpened: (neverOpened.data ?? []) as UnopenedBookmark[],
+      topDomains: ((topDomains.data ?? []) as DomainUsage[]).map((d) => ({
+        domain: d.domain,
+        bookmarks: Number(d.bookmarks),
+        visits: Number(d.visits),
+      })),
+      savesPerWeek: ((savesPerWeek.data ?? []) as WeeklySaves[]).map((w) => ({
+        week_start: w.week_start,
+        saves: Number(w.saves),
+      })),
+    },
+    error: null,
+  };
+}
@@ -1,10 +1,15 @@
 /**
  * middleware.ts
- * Refreshes Supabase session cookies and protects routes.
+ * Refreshes Supabase session cookies and protects routes. Signed-out
+ * visitors are sent to the login page with `?next=` so they come back to
+ * the page they asked for (e.g. a bookmarklet's /save?url=…).
  */
 
 import { createServerClient, type CookieOptions } from "@supabase/ssr";
 import { NextResponse, type NextRequest } from "next/server";
+import { safeNextPath } from "@/lib/redirects";
+
+const PROTECTED_PATHS = ["/dashboard", "/settings", "/archive", "/save", "/cli", "/insights", "/trash"];
 
 export async function middleware(request: NextRequest) {
   let supabaseResponse = NextResponse.next({ request });
@@ -34,25 +39,30 @@ export async function middleware(request: NextRequest) {
     data: { user },
   } = await supabase.auth.getUser();
 
-  // Redirect unauthenticated users away from /dashboard
-  if (!user && request.nextUrl.pathname.startsWith("/dashboard")) {
+  // Redirect unauthenticated users away from protected pages
+  const isProtected = PROTECTED_PATHS.some((path) => request.nextUrl.pathname.startsWith(path));
+  if (!user && isProtected) {
     const url = request.nextUrl.clone();
     url.pathname = "/";
+    url.search = "";
+    url.searchParams.set("next", `${request.nextUrl.pathname}${request.nextUrl.search}`);
     return NextResponse.redirect(url);
   }
 
-  // Redirect logged-in users away from home page to dashboard
+  // Redirect logged-in users away from home page — to `next` if the
+  // login page was reached through a protected link
   if (user && request.nextUrl.pathname === "/") {
-    const url = request.nextUrl.clone();
-    url.pathname = "/dashboard";
-    return NextResponse.redirect(url);
+    const target = safeNextPath(request.nextUrl.searchParams.get("next"));
+    return NextResponse.redirect(new URL(target, request.url));
   }
 
   return supabaseResponse;
 }
 
+// Public share pages (/s/...) skip the session refresh — they never read the visitor's session.
+// Neither does the service worker script (/sw.js).
 export const config = {
   matcher: [
-    "/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)",
+    "/((?!_next/static|_next/image|favicon.ico|sw.js|s/|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)",
   ],
 };
\ No newline at end of file
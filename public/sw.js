@@ -0,0 +1,76 @@
+/**
+ * public/sw.js
+ *
+ * Service worker that lets /dashboard open without a connection.
+ * Dashboard pages are fetched from the network first and the last good
+ * copy is kept as a fallback; Next.js build assets are immutable, so they
+ * are served from cache once seen. Everything else — API routes,
+ * Supabase, share pages, archived copies — goes straight to the network.
+ *
+ * The bookmarks themselves come from IndexedDB (lib/offlineDb.ts), so the
+ * cached HTML only needs to boot the app.
+ */
+
+const CACHE_VERSION = "v1";
+const PAGE_CACHE = `pages-${CACHE_VERSION}`;
+const ASSET_CACHE = `assets-${CACHE_VERSION}`;
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+// Drop caches from older versions of this file
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key !== PAGE_CACHE && key !== ASSET_CACHE)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const request = event.request;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === "navigate" && url.pathname === "/dashboard") {
+    event.respondWith(networkFirst(request));
+  } else if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(cacheFirst(request));
+  }
+});
+
+async function networkFirst(request) {
+  const cache = await caches.open(PAGE_CACHE);
+  try {
+    const response = await fetch(request);
+    // Signed-out visits get redirected to the login page — don't keep those
+    if (response.ok && !response.redirected) cache.put(request, response.clone());
+    return response;
+  } catch (err) {
+    // Same view first, then any cached dashboard (e.g. a different ?reading= tab)
+    const cached =
+      (await cache.match(request)) ?? (await cache.match(request, { ignoreSearch: true }));
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(ASSET_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+}
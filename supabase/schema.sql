@@ -12,9 +12,82 @@ CREATE TABLE IF NOT EXISTS public.bookmarks (
   user_id    UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
   title      TEXT NOT NULL CHECK (char_length(title) > 0 AND char_length(title) <= 200),
   url        TEXT NOT NULL CHECK (char_length(url) > 0 AND char_length(url) <= 2000),
-  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Existing projects: add the column if the table predates editing
+ALTER TABLE public.bookmarks
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+-- Link preview metadata, filled from /api/metadata when a bookmark is added
+ALTER TABLE public.bookmarks
+  ADD COLUMN IF NOT EXISTS description TEXT CHECK (char_length(description) <= 1000),
+  ADD COLUMN IF NOT EXISTS image_url   TEXT CHECK (char_length(image_url) <= 2000),
+  ADD COLUMN IF NOT EXISTS site_name   TEXT CHECK (char_length(site_name) <= 200),
+  ADD COLUMN IF NOT EXISTS favicon_url TEXT CHECK (char_length(favicon_url) <= 2000);
+
+-- Duplicate detection: canonical_url is computed by lib/canonicalUrl.ts
+-- on insert/edit (https, no www, no tracking params, sorted query...).
+-- Rows saved before this column existed stay NULL until they are next
+-- edited; the app also compares against those in memory.
+-- Uniqueness is per user for personal bookmarks and per collection for
+-- shared ones, ignoring the Trash — the indexes are created in section 8.
+ALTER TABLE public.bookmarks
+  ADD COLUMN IF NOT EXISTS canonical_url TEXT CHECK (char_length(canonical_url) <= 2000);
+
+-- Reading list. New saves start unread; rows that existed before the
+-- column was added count as read — it is created with that default
+-- and then switched, which also keeps re-running this script harmless.
+ALTER TABLE public.bookmarks
+  ADD COLUMN IF NOT EXISTS reading_status TEXT NOT NULL DEFAULT 'read'
+    CHECK (reading_status IN ('unread', 'read', 'archived')),
+  ADD COLUMN IF NOT EXISTS read_at TIMESTAMPTZ;
+ALTER TABLE public.bookmarks ALTER COLUMN reading_status SET DEFAULT 'unread';
+
+-- Trash: deleting sets deleted_at, and the row is purged for good once
+-- it has been there TRASH_RETENTION_DAYS (lib/trash.ts). Added here so
+-- the functions in later sections can leave trashed rows out; the rest
+-- is in section 15.
+ALTER TABLE public.bookmarks
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+-- Notes and highlights: notes is the user's own Markdown about the
+-- bookmark; highlights are passages quoted from the page, each with an
+-- optional comment. highlight_count is kept up to date by a trigger so
+-- the list can show them without loading them. Added here so full-text
+-- search (section 6) can include them; the rest is in section 17.
+ALTER TABLE public.bookmarks
+  ADD COLUMN IF NOT EXISTS notes           TEXT CHECK (char_length(notes) <= 10000),
+  ADD COLUMN IF NOT EXISTS highlight_count INT NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS public.bookmark_highlights (
+  id          UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  bookmark_id UUID NOT NULL REFERENCES public.bookmarks(id) ON DELETE CASCADE,
+  user_id     UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  quote       TEXT NOT NULL CHECK (char_length(quote) > 0 AND char_length(quote) <= 2000),
+  comment     TEXT CHECK (char_length(comment) <= 500),
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
 
+-- Unread count in the header
+CREATE INDEX IF NOT EXISTS bookmarks_unread_idx
+  ON public.bookmarks(user_id) WHERE reading_status = 'unread';
+
+-- Link health, written by lib/linkHealth.ts from /api/link-check and the
+-- scheduled /api/cron/link-check job. link_checked_at NULL = never checked;
+-- link_final_url is only set when the link redirects somewhere else.
+ALTER TABLE public.bookmarks
+  ADD COLUMN IF NOT EXISTS link_status      TEXT CHECK (link_status IN ('ok', 'redirected', 'broken', 'unknown')),
+  ADD COLUMN IF NOT EXISTS link_status_code INT,
+  ADD COLUMN IF NOT EXISTS link_final_url   TEXT CHECK (char_length(link_final_url) <= 2000),
+  ADD COLUMN IF NOT EXISTS link_error       TEXT CHECK (char_length(link_error) <= 200),
+  ADD COLUMN IF NOT EXISTS link_checked_at  TIMESTAMPTZ;
+
+-- The scheduled check picks the least recently checked rows first
+CREATE INDEX IF NOT EXISTS bookmarks_link_checked_at_idx
+  ON public.bookmarks(link_checked_at ASC NULLS FIRST);
+
 -- Index for fast per-user queries (essential for large datasets)
 CREATE INDEX IF NOT EXISTS bookmarks_user_id_idx ON public.bookmarks(user_id);
 
@@ -56,20 +129,1346 @@ CREATE POLICY "Users can delete their own bookmarks"
   FOR DELETE
   USING (auth.uid() = user_id);
 
--- Note: We intentionally omit an UPDATE policy since this app
--- does not have an edit feature. Add one if needed later.
+-- Allow users to UPDATE only their own bookmarks
+-- (WITH CHECK stops a row being re-assigned to another user_id)
+CREATE POLICY "Users can update their own bookmarks"
+  ON public.bookmarks
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+
+-- ─────────────────────────────────────────────────────────────
+-- 4. Keep updated_at current on every edit
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.set_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$;
+
+-- Only user-visible fields count as edits — a link check writing the
+-- link_* columns must not bump updated_at (it feeds share-link feeds)
+DROP TRIGGER IF EXISTS bookmarks_set_updated_at ON public.bookmarks;
+CREATE TRIGGER bookmarks_set_updated_at
+  BEFORE UPDATE OF title, url, description, notes, image_url, site_name, favicon_url, collection_id
+  ON public.bookmarks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_updated_at();
+
+-- A new URL invalidates the last link check, unless the same update
+-- records a fresh one ("update to redirected URL" does)
+CREATE OR REPLACE FUNCTION public.reset_link_health()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.url IS DISTINCT FROM OLD.url
+     AND NEW.link_checked_at IS NOT DISTINCT FROM OLD.link_checked_at THEN
+    NEW.link_status      = NULL;
+    NEW.link_status_code = NULL;
+    NEW.link_final_url   = NULL;
+    NEW.link_error       = NULL;
+    NEW.link_checked_at  = NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bookmarks_reset_link_health ON public.bookmarks;
+CREATE TRIGGER bookmarks_reset_link_health
+  BEFORE UPDATE OF url ON public.bookmarks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reset_link_health();
+
+
+-- ─────────────────────────────────────────────────────────────
+-- 5. Tags
+--    Folders are tags whose name contains "/" (e.g. "work/clients").
+--    bookmark_tags carries user_id so RLS stays a simple ownership
+--    check, and the insert policy also verifies both sides belong
+--    to the caller.
+-- ─────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.tags (
+  id         UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id    UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name       TEXT NOT NULL CHECK (char_length(name) > 0 AND char_length(name) <= 50),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS public.bookmark_tags (
+  bookmark_id UUID NOT NULL REFERENCES public.bookmarks(id) ON DELETE CASCADE,
+  tag_id      UUID NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+  user_id     UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (bookmark_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS bookmark_tags_tag_id_idx ON public.bookmark_tags(tag_id);
+CREATE INDEX IF NOT EXISTS bookmark_tags_user_id_idx ON public.bookmark_tags(user_id);
+
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bookmark_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own tags"
+  ON public.tags
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own tags"
+  ON public.tags
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own tags"
+  ON public.tags
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own tags"
+  ON public.tags
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own bookmark tags"
+  ON public.bookmark_tags
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can tag their own bookmarks"
+  ON public.bookmark_tags
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.bookmarks b WHERE b.id = bookmark_id AND b.user_id = auth.uid())
+    AND EXISTS (SELECT 1 FROM public.tags t WHERE t.id = tag_id AND t.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can untag their own bookmarks"
+  ON public.bookmark_tags
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- DELETE events only carry the primary key by default; FULL lets the
+-- client see user_id on removed links
+ALTER TABLE public.bookmark_tags REPLICA IDENTITY FULL;
+
+
+-- ─────────────────────────────────────────────────────────────
+-- 6. Full-text search
+--    search_vector weights the title (A) above the URL host/path (B)
+--    and the page description and notes (C). Highlights have their
+--    own vector, also weighted C, and a match in any of a bookmark's
+--    highlights finds the bookmark.
+--    The URL is split on punctuation so "supabase.com/docs/auth"
+--    indexes as "supabase com docs auth".
+--    The column is dropped and re-added so re-running this script
+--    picks up changes to the expression.
+--    search_bookmarks() runs as the caller, so RLS still applies.
+--    Highlights are wrapped in chr(2)…chr(3) rather than HTML so the
+--    client can render them without injecting markup.
+-- ─────────────────────────────────────────────────────────────
+ALTER TABLE public.bookmarks DROP COLUMN IF EXISTS search_vector;
+ALTER TABLE public.bookmarks
+  ADD COLUMN search_vector TSVECTOR
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('simple', regexp_replace(url, '^[a-z]+://(www\.)?|[^a-zA-Z0-9]+', ' ', 'g')), 'B') ||
+    setweight(to_tsvector('english', coalesce(description, '') || ' ' || coalesce(notes, '')), 'C')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS bookmarks_search_vector_idx
+  ON public.bookmarks USING GIN (search_vector);
+
+ALTER TABLE public.bookmark_highlights DROP COLUMN IF EXISTS search_vector;
+ALTER TABLE public.bookmark_highlights
+  ADD COLUMN search_vector TSVECTOR
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', quote || ' ' || coalesce(comment, '')), 'C')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS bookmark_highlights_search_vector_idx
+  ON public.bookmark_highlights USING GIN (search_vector);
+
+CREATE OR REPLACE FUNCTION public.search_bookmarks(search_query TEXT, max_results INT DEFAULT 50)
+RETURNS TABLE (id UUID, rank REAL, title_highlight TEXT, url_highlight TEXT)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    b.id,
+    ts_rank_cd(b.search_vector, q) + coalesce(h.rank, 0) AS rank,
+    ts_headline('english', b.title, q,
+      'HighlightAll=true, StartSel=' || chr(2) || ', StopSel=' || chr(3)),
+    ts_headline('simple', b.url, q,
+      'HighlightAll=true, StartSel=' || chr(2) || ', StopSel=' || chr(3))
+  FROM public.bookmarks b
+  CROSS JOIN to_tsquery('english', search_query) q
+  -- Best matching highlight; NULL when none match
+  LEFT JOIN LATERAL (
+    SELECT max(ts_rank_cd(bh.search_vector, q)) AS rank
+    FROM public.bookmark_highlights bh
+    WHERE bh.bookmark_id = b.id AND bh.search_vector @@ q
+  ) h ON true
+  WHERE (b.search_vector @@ q OR h.rank IS NOT NULL)
+    AND b.deleted_at IS NULL
+  ORDER BY rank DESC, b.created_at DESC
+  LIMIT LEAST(max_results, 200);
+$$;
+
+
+-- ─────────────────────────────────────────────────────────────
+-- 7. Personal access tokens for the /api/v1 REST API
+--    Only the SHA-256 hash of a token is stored; the token itself
+--    is shown once when it's created. Users can list and revoke
+--    their own tokens but never update them. Requests that present
+--    a token are checked server-side with the service-role key.
+-- ─────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.api_tokens (
+  id           UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id      UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name         TEXT NOT NULL CHECK (char_length(name) > 0 AND char_length(name) <= 100),
+  token_hash   TEXT NOT NULL UNIQUE CHECK (token_hash ~ '^[0-9a-f]{64}$'),
+  token_prefix TEXT NOT NULL CHECK (char_length(token_prefix) <= 20),
+  scope        TEXT NOT NULL DEFAULT 'read' CHECK (scope IN ('read', 'write')),
+  last_used_at TIMESTAMPTZ,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS api_tokens_user_id_idx ON public.api_tokens(user_id);
+
+ALTER TABLE public.api_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own API tokens"
+  ON public.api_tokens
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own API tokens"
+  ON public.api_tokens
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can revoke their own API tokens"
+  ON public.api_tokens
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+
+-- ─────────────────────────────────────────────────────────────
+-- 8. Shared collections
+--    A bookmark with a collection_id belongs to that collection
+--    instead of to its creator's personal list (user_id still
+--    records who added it). Access goes through membership:
+--      owner  — everything, plus inviting and removing members
+--      editor — add, edit and delete bookmarks
+--      viewer — read only
+--    Invites are keyed by email; the invitee sees them after
+--    signing in with that address and accepts through
+--    accept_collection_invite().
+--    collection_role() is SECURITY DEFINER so policies can look up
+--    membership without recursing into collection_members' own RLS.
+--    The per-user bookmark policies from section 3 are replaced
+--    here because they depend on these tables.
+-- ─────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.collections (
+  id         UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id   UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  name       TEXT NOT NULL CHECK (char_length(name) > 0 AND char_length(name) <= 100),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.collection_members (
+  collection_id UUID NOT NULL REFERENCES public.collections(id) ON DELETE CASCADE,
+  user_id       UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  email         TEXT,
+  role          TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (collection_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS collection_members_user_id_idx ON public.collection_members(user_id);
+
+CREATE TABLE IF NOT EXISTS public.collection_invites (
+  id            UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  collection_id UUID NOT NULL REFERENCES public.collections(id) ON DELETE CASCADE,
+  email         TEXT NOT NULL CHECK (email = lower(email) AND char_length(email) <= 320),
+  role          TEXT NOT NULL CHECK (role IN ('editor', 'viewer')),
+  invited_by    UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (collection_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS collection_invites_email_idx ON public.collection_invites(email);
+
+ALTER TABLE public.bookmarks
+  ADD COLUMN IF NOT EXISTS collection_id UUID REFERENCES public.collections(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS bookmarks_collection_id_idx
+  ON public.bookmarks(collection_id, created_at DESC);
+
+-- Replaces the original (user_id, canonical_url) index, and the first
+-- per-list ones, which also counted trashed rows. A link can be saved
+-- again while an older copy waits in the Trash.
+DROP INDEX IF EXISTS public.bookmarks_user_canonical_url_key;
+DROP INDEX IF EXISTS public.bookmarks_personal_canonical_url_key;
+DROP INDEX IF EXISTS public.bookmarks_collection_canonical_url_key;
+CREATE UNIQUE INDEX IF NOT EXISTS bookmarks_personal_live_canonical_url_key
+  ON public.bookmarks(user_id, canonical_url) WHERE collection_id IS NULL AND deleted_at IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS bookmarks_collection_live_canonical_url_key
+  ON public.bookmarks(collection_id, canonical_url) WHERE collection_id IS NOT NULL AND deleted_at IS NULL;
+
+-- The caller's role in a collection, or NULL if they aren't a member
+CREATE OR REPLACE FUNCTION public.collection_role(target UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM public.collection_members
+  WHERE collection_id = target AND user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_edit_collection(target UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(public.collection_role(target) IN ('owner', 'editor'), false);
+$$;
+
+-- The creator of a collection becomes its owner
+CREATE OR REPLACE FUNCTION public.add_collection_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.collection_members (collection_id, user_id, email, role)
+  VALUES (NEW.id, NEW.owner_id, lower(auth.jwt() ->> 'email'), 'owner');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS collections_add_owner ON public.collections;
+CREATE TRIGGER collections_add_owner
+  AFTER INSERT ON public.collections
+  FOR EACH ROW
+  EXECUTE FUNCTION public.add_collection_owner();
+
+-- Turns a pending invite for the caller's email into a membership
+CREATE OR REPLACE FUNCTION public.accept_collection_invite(invite_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invite public.collection_invites;
+BEGIN
+  SELECT * INTO invite FROM public.collection_invites
+  WHERE id = invite_id AND email = lower(auth.jwt() ->> 'email');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invite not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.collection_members (collection_id, user_id, email, role)
+  VALUES (invite.collection_id, auth.uid(), invite.email, invite.role)
+  ON CONFLICT (collection_id, user_id) DO NOTHING;
+
+  DELETE FROM public.collection_invites WHERE id = invite_id;
+  RETURN invite.collection_id;
+END;
+$$;
+
+ALTER TABLE public.collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.collection_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.collection_invites ENABLE ROW LEVEL SECURITY;
+
+-- Invitees can see the collection name before accepting; owner_id is
+-- checked directly because the owner's membership row is only added
+-- after the INSERT … RETURNING that creates the collection
+CREATE POLICY "Members and invitees can view collections"
+  ON public.collections
+  FOR SELECT
+  USING (
+    owner_id = auth.uid()
+    OR public.collection_role(id) IS NOT NULL
+    OR EXISTS (
+      SELECT 1 FROM public.collection_invites i
+      WHERE i.collection_id = collections.id AND i.email = lower(auth.jwt() ->> 'email')
+    )
+  );
+
+CREATE POLICY "Users can create collections they own"
+  ON public.collections
+  FOR INSERT
+  WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Owners can rename collections"
+  ON public.collections
+  FOR UPDATE
+  USING (public.collection_role(id) = 'owner')
+  WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Owners can delete collections"
+  ON public.collections
+  FOR DELETE
+  USING (public.collection_role(id) = 'owner');
+
+CREATE POLICY "Members can view fellow members"
+  ON public.collection_members
+  FOR SELECT
+  USING (public.collection_role(collection_id) IS NOT NULL);
+
+-- Owners change other members between editor and viewer. Only role can
+-- be updated, so a row can't be pointed at another collection or user.
+CREATE POLICY "Owners can change member roles"
+  ON public.collection_members
+  FOR UPDATE
+  USING (public.collection_role(collection_id) = 'owner' AND role <> 'owner')
+  WITH CHECK (public.collection_role(collection_id) = 'owner' AND role IN ('editor', 'viewer'));
+
+REVOKE UPDATE ON public.collection_members FROM anon, authenticated;
+GRANT UPDATE (role) ON public.collection_members TO authenticated;
+
+-- Owners remove members; members can leave. The owner row stays.
+CREATE POLICY "Owners can remove members and members can leave"
+  ON public.collection_members
+  FOR DELETE
+  USING (
+    role <> 'owner'
+    AND (public.collection_role(collection_id) = 'owner' OR user_id = auth.uid())
+  );
+
+CREATE POLICY "Owners and invitees can view invites"
+  ON public.collection_invites
+  FOR SELECT
+  USING (
+    public.collection_role(collection_id) = 'owner'
+    OR email = lower(auth.jwt() ->> 'email')
+  );
+
+CREATE POLICY "Owners can invite"
+  ON public.collection_invites
+  FOR INSERT
+  WITH CHECK (public.collection_role(collection_id) = 'owner' AND invited_by = auth.uid());
+
+-- Owners cancel invites; invitees decline them
+CREATE POLICY "Owners and invitees can delete invites"
+  ON public.collection_invites
+  FOR DELETE
+  USING (
+    public.collection_role(collection_id) = 'owner'
+    OR email = lower(auth.jwt() ->> 'email')
+  );
+
+-- Bookmarks: personal rows stay owner-only, collection rows follow membership
+DROP POLICY IF EXISTS "Users can view their own bookmarks" ON public.bookmarks;
+DROP POLICY IF EXISTS "Users can insert their own bookmarks" ON public.bookmarks;
+DROP POLICY IF EXISTS "Users can update their own bookmarks" ON public.bookmarks;
+DROP POLICY IF EXISTS "Users can delete their own bookmarks" ON public.bookmarks;
+DROP POLICY IF EXISTS "Users can view personal and shared bookmarks" ON public.bookmarks;
+DROP POLICY IF EXISTS "Users can add bookmarks they can edit" ON public.bookmarks;
+DROP POLICY IF EXISTS "Users can update bookmarks they can edit" ON public.bookmarks;
+DROP POLICY IF EXISTS "Users can delete bookmarks they can edit" ON public.bookmarks;
+
+CREATE POLICY "Users can view personal and shared bookmarks"
+  ON public.bookmarks
+  FOR SELECT
+  USING (
+    (collection_id IS NULL AND auth.uid() = user_id)
+    OR public.collection_role(collection_id) IS NOT NULL
+  );
+
+CREATE POLICY "Users can add bookmarks they can edit"
+  ON public.bookmarks
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (collection_id IS NULL OR public.can_edit_collection(collection_id))
+  );
+
+CREATE POLICY "Users can update bookmarks they can edit"
+  ON public.bookmarks
+  FOR UPDATE
+  USING (
+    (collection_id IS NULL AND auth.uid() = user_id)
+    OR public.can_edit_collection(collection_id)
+  )
+  WITH CHECK (
+    (collection_id IS NULL AND auth.uid() = user_id)
+    OR public.can_edit_collection(collection_id)
+  );
+
+CREATE POLICY "Users can delete bookmarks they can edit"
+  ON public.bookmarks
+  FOR DELETE
+  USING (
+    (collection_id IS NULL AND auth.uid() = user_id)
+    OR public.can_edit_collection(collection_id)
+  );
+
+-- Tags stay per user, but members see every tag used in their
+-- collections and editors can retag any bookmark in them
+DROP POLICY IF EXISTS "Members can view tags used in their collections" ON public.tags;
+CREATE POLICY "Members can view tags used in their collections"
+  ON public.tags
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.bookmark_tags bt
+      JOIN public.bookmarks b ON b.id = bt.bookmark_id
+      WHERE bt.tag_id = tags.id AND b.collection_id IS NOT NULL
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view their own bookmark tags" ON public.bookmark_tags;
+DROP POLICY IF EXISTS "Users can tag their own bookmarks" ON public.bookmark_tags;
+DROP POLICY IF EXISTS "Users can untag their own bookmarks" ON public.bookmark_tags;
+DROP POLICY IF EXISTS "Users can view tags on visible bookmarks" ON public.bookmark_tags;
+DROP POLICY IF EXISTS "Users can tag bookmarks they can edit" ON public.bookmark_tags;
+DROP POLICY IF EXISTS "Users can untag bookmarks they can edit" ON public.bookmark_tags;
+
+-- The bookmarks subqueries run under the bookmarks policies above
+CREATE POLICY "Users can view tags on visible bookmarks"
+  ON public.bookmark_tags
+  FOR SELECT
+  USING (
+    auth.uid() = user_id
+    OR EXISTS (SELECT 1 FROM public.bookmarks b WHERE b.id = bookmark_id)
+  );
+
+CREATE POLICY "Users can tag bookmarks they can edit"
+  ON public.bookmark_tags
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.bookmarks b
+      WHERE b.id = bookmark_id
+        AND ((b.collection_id IS NULL AND b.user_id = auth.uid()) OR public.can_edit_collection(b.collection_id))
+    )
+    AND EXISTS (SELECT 1 FROM public.tags t WHERE t.id = tag_id AND t.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can untag bookmarks they can edit"
+  ON public.bookmark_tags
+  FOR DELETE
+  USING (
+    auth.uid() = user_id
+    OR EXISTS (
+      SELECT 1 FROM public.bookmarks b
+      WHERE b.id = bookmark_id AND public.can_edit_collection(b.collection_id)
+    )
+  );
+
+
+-- ─────────────────────────────────────────────────────────────
+-- 9. Public share links
+--    A share link publishes one tag/folder of the owner's personal
+--    bookmarks, or a whole collection (owner only), read-only at
+--    /s/<slug>. The slug is 16 random bytes, so knowing it is the
+--    only access check. Rotating replaces the slug; deleting the row
+--    revokes the link; expires_at hides it after that time.
+--    Visitors aren't signed in, so the page reads through these
+--    SECURITY DEFINER functions instead of table policies. Tag links
+--    only reveal tags inside the shared tag/folder.
+-- ─────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.share_links (
+  id            UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id       UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  slug          TEXT NOT NULL UNIQUE CHECK (slug ~ '^[A-Za-z0-9_-]{22,64}$'),
+  tag_name      TEXT CHECK (char_length(tag_name) > 0 AND char_length(tag_name) <= 50),
+  collection_id UUID REFERENCES public.collections(id) ON DELETE CASCADE,
+  expires_at    TIMESTAMPTZ,
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK ((tag_name IS NULL) <> (collection_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS share_links_user_id_idx ON public.share_links(user_id);
+
+ALTER TABLE public.share_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own share links"
+  ON public.share_links
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can share their tags and owned collections"
+  ON public.share_links
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (collection_id IS NULL OR public.collection_role(collection_id) = 'owner')
+  );
+
+-- Rotating the slug or changing the expiry
+CREATE POLICY "Users can update their own share links"
+  ON public.share_links
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (collection_id IS NULL OR public.collection_role(collection_id) = 'owner')
+  );
+
+CREATE POLICY "Users can revoke their own share links"
+  ON public.share_links
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Title of a live share link; no row if it's unknown, revoked or expired
+CREATE OR REPLACE FUNCTION public.get_share_link(share_slug TEXT)
+RETURNS TABLE (title TEXT, kind TEXT, expires_at TIMESTAMPTZ)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    coalesce(c.name, l.tag_name),
+    CASE WHEN l.collection_id IS NULL THEN 'tag' ELSE 'collection' END,
+    l.expires_at
+  FROM public.share_links l
+  LEFT JOIN public.collections c ON c.id = l.collection_id
+  WHERE l.slug = share_slug
+    AND (l.expires_at IS NULL OR l.expires_at > NOW());
+$$;
+
+CREATE OR REPLACE FUNCTION public.shared_bookmarks(share_slug TEXT, max_results INT DEFAULT 500)
+RETURNS TABLE (
+  id UUID, title TEXT, url TEXT, description TEXT, site_name TEXT, favicon_url TEXT,
+  created_at TIMESTAMPTZ, updated_at TIMESTAMPTZ, tags TEXT[]
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH link AS (
+    SELECT * FROM public.share_links
+    WHERE slug = share_slug AND (expires_at IS NULL OR expires_at > NOW())
+  )
+  SELECT
+    b.id, b.title, b.url, b.description, b.site_name, b.favicon_url, b.created_at, b.updated_at,
+    coalesce((
+      SELECT array_agg(DISTINCT t.name ORDER BY t.name)
+      FROM public.bookmark_tags bt
+      JOIN public.tags t ON t.id = bt.tag_id
+      WHERE bt.bookmark_id = b.id
+        AND (l.collection_id IS NOT NULL OR t.name = l.tag_name OR starts_with(t.name, l.tag_name || '/'))
+    ), '{}')
+  FROM link l
+  JOIN public.bookmarks b ON b.deleted_at IS NULL AND (
+    (l.collection_id IS NOT NULL AND b.collection_id = l.collection_id)
+    OR (
+      l.tag_name IS NOT NULL
+      AND b.collection_id IS NULL
+      AND b.user_id = l.user_id
+      AND EXISTS (
+        SELECT 1 FROM public.bookmark_tags bt
+        JOIN public.tags t ON t.id = bt.tag_id
+        WHERE bt.bookmark_id = b.id
+          AND (t.name = l.tag_name OR starts_with(t.name, l.tag_name || '/'))
+      )
+    )
+  )
+  ORDER BY b.created_at DESC
+  LIMIT LEAST(max_results, 1000);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_share_link(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.shared_bookmarks(TEXT, INT) TO anon, authenticated;
+
+
+-- ─────────────────────────────────────────────────────────────
+-- 10. Archived copies of saved pages
+--    /api/archive fetches the page server-side, extracts the main
+--    article content (lib/readability.ts) and stores it here as
+--    sanitised HTML plus plain text, one snapshot per bookmark.
+--    Anyone who can see the bookmark can read its copy; anyone who
+--    can edit the bookmark can (re)archive it through /api/archive,
+--    which writes with the service-role key after checking. The copy
+--    is rendered as stored, so there are no insert or update policies:
+--    a client writing content_html directly could plant script.
+--    bookmarks.archived_at lets the list show "Saved copy" without
+--    loading the content.
+-- ─────────────────────────────────────────────────────────────
+ALTER TABLE public.bookmarks
+  ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS public.bookmark_archives (
+  bookmark_id  UUID PRIMARY KEY REFERENCES public.bookmarks(id) ON DELETE CASCADE,
+  user_id      UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  source_url   TEXT NOT NULL CHECK (char_length(source_url) <= 2000),
+  title        TEXT CHECK (char_length(title) <= 200),
+  byline       TEXT CHECK (char_length(byline) <= 200),
+  site_name    TEXT CHECK (char_length(site_name) <= 200),
+  content_html TEXT NOT NULL CHECK (char_length(content_html) <= 500000),
+  content_text TEXT NOT NULL CHECK (char_length(content_text) <= 200000),
+  word_count   INT NOT NULL DEFAULT 0,
+  archived_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.bookmark_archives ENABLE ROW LEVEL SECURITY;
+
+-- Bookmark RLS applies inside these subqueries, so visibility and edit
+-- rights follow the bookmark (personal or collection)
+CREATE POLICY "Users can view archives of visible bookmarks"
+  ON public.bookmark_archives
+  FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.bookmarks b WHERE b.id = bookmark_id));
+
+-- Earlier versions let clients write archives; drop those policies
+DROP POLICY IF EXISTS "Users can archive bookmarks they can edit" ON public.bookmark_archives;
+DROP POLICY IF EXISTS "Users can re-archive bookmarks they can edit" ON public.bookmark_archives;
+
+CREATE POLICY "Users can delete archives of bookmarks they can edit"
+  ON public.bookmark_archives
+  FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.bookmarks b
+      WHERE b.id = bookmark_id
+        AND ((b.collection_id IS NULL AND b.user_id = auth.uid()) OR public.can_edit_collection(b.collection_id))
+    )
+  );
+
+
+-- ─────────────────────────────────────────────────────────────
+-- 11. Command-line login
+--    `bookmarks login` generates an API token on the user's machine
+--    and registers only its hash here with a short user code. The
+--    user opens /cli?code=…, signs in and approves; that creates the
+--    api_tokens row (write scope) for them, and the CLI's polling
+--    sees the request approved and starts using its token.
+--    Requests expire after 10 minutes. The table has no policies:
+--    everything goes through the functions below.
+-- ─────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.cli_logins (
+  token_hash   TEXT PRIMARY KEY CHECK (token_hash ~ '^[0-9a-f]{64}$'),
+  token_prefix TEXT NOT NULL CHECK (char_length(token_prefix) <= 20),
+  user_code    TEXT NOT NULL UNIQUE CHECK (user_code ~ '^[A-Z]{4}-[A-Z]{4}$'),
+  client_name  TEXT NOT NULL CHECK (char_length(client_name) > 0 AND char_length(client_name) <= 100),
+  approved_at  TIMESTAMPTZ,
+  expires_at   TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '10 minutes',
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.cli_logins ENABLE ROW LEVEL SECURITY;
+
+-- Starts a login; returns the code the user confirms in the browser.
+-- Letters only, without I and O, so it's easy to read back.
+CREATE OR REPLACE FUNCTION public.start_cli_login(token_hash TEXT, token_prefix TEXT, client_name TEXT)
+RETURNS TABLE (user_code TEXT, expires_at TIMESTAMPTZ)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  alphabet CONSTANT TEXT := 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+  random_bytes BYTEA;
+  code TEXT;
+BEGIN
+  DELETE FROM public.cli_logins l WHERE l.expires_at < NOW() - INTERVAL '1 day';
+
+  LOOP
+    -- gen_random_uuid() draws from a secure source; 8 bytes of it pick the letters
+    random_bytes := decode(replace(gen_random_uuid()::text, '-', ''), 'hex');
+    code := '';
+    FOR i IN 0..7 LOOP
+      code := code || substr(alphabet, get_byte(random_bytes, i) % length(alphabet) + 1, 1);
+      IF i = 3 THEN code := code || '-'; END IF;
+    END LOOP;
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.cli_logins l WHERE l.user_code = code);
+  END LOOP;
+
+  RETURN QUERY
+  INSERT INTO public.cli_logins AS l (token_hash, token_prefix, user_code, client_name)
+  VALUES (start_cli_login.token_hash, start_cli_login.token_prefix, code, start_cli_login.client_name)
+  RETURNING l.user_code, l.expires_at;
+END;
+$$;
+
+-- Approves a pending login for the caller; returns the client's name
+CREATE OR REPLACE FUNCTION public.approve_cli_login(code TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  login public.cli_logins;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO login FROM public.cli_logins
+  WHERE user_code = upper(trim(code)) AND approved_at IS NULL AND expires_at > NOW()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Login code not found or expired' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.api_tokens (user_id, name, token_hash, token_prefix, scope)
+  VALUES (auth.uid(), login.client_name, login.token_hash, login.token_prefix, 'write');
+
+  UPDATE public.cli_logins SET approved_at = NOW() WHERE token_hash = login.token_hash;
+  RETURN login.client_name;
+END;
+$$;
+
+-- What the CLI polls: 'pending', 'approved' or 'expired'. An approved
+-- request is removed once reported — the token row is all that's left.
+CREATE OR REPLACE FUNCTION public.cli_login_status(token_hash TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  login public.cli_logins;
+BEGIN
+  SELECT * INTO login FROM public.cli_logins l WHERE l.token_hash = cli_login_status.token_hash;
+
+  IF NOT FOUND THEN
+    RETURN 'expired';
+  ELSIF login.approved_at IS NOT NULL THEN
+    DELETE FROM public.cli_logins l WHERE l.token_hash = login.token_hash;
+    RETURN 'approved';
+  ELSIF login.expires_at <= NOW() THEN
+    RETURN 'expired';
+  END IF;
+  RETURN 'pending';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.start_cli_login(TEXT, TEXT, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.cli_login_status(TEXT) TO anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.approve_cli_login(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.approve_cli_login(TEXT) TO authenticated;
+
+
+-- ─────────────────────────────────────────────────────────────
+-- 12. Paginated dashboard lists
+--    The dashboard loads bookmarks a page at a time, newest first,
+--    with a (created_at, id) cursor (lib/bookmarkPages.ts). These
+--    indexes serve those queries directly; id is the tie-break.
+--    bookmark_counts() gives the whole view's totals for the tabs,
+--    header badge and link health bar, which can no longer count
+--    the rows in the browser. It runs as the caller, so RLS applies.
+-- ─────────────────────────────────────────────────────────────
+CREATE INDEX IF NOT EXISTS bookmarks_personal_page_idx
+  ON public.bookmarks(user_id, created_at DESC, id DESC)
+  WHERE collection_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS bookmarks_collection_page_idx
+  ON public.bookmarks(collection_id, created_at DESC, id DESC)
+  WHERE collection_id IS NOT NULL;
+
+-- NULL target_collection = the caller's personal list
+CREATE OR REPLACE FUNCTION public.bookmark_counts(target_collection UUID DEFAULT NULL)
+RETURNS TABLE (
+  total BIGINT, unread BIGINT, read BIGINT, archived BIGINT,
+  broken BIGINT, redirected BIGINT, unchecked BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    count(*),
+    count(*) FILTER (WHERE reading_status = 'unread'),
+    count(*) FILTER (WHERE reading_status = 'read'),
+    count(*) FILTER (WHERE reading_status = 'archived'),
+    count(*) FILTER (WHERE link_status = 'broken'),
+    count(*) FILTER (WHERE link_status = 'redirected'),
+    count(*) FILTER (WHERE link_checked_at IS NULL)
+  FROM public.bookmarks
+  WHERE deleted_at IS NULL
+    AND CASE
+      WHEN target_collection IS NULL THEN collection_id IS NULL AND user_id = auth.uid()
+      ELSE collection_id = target_collection
+    END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.bookmark_counts(UUID) TO authenticated;
+
+
+-- ─────────────────────────────────────────────────────────────
+-- 13. Sorting, filtering and saved list views
+--    The dashboard can sort by date, title, domain or visits and
+--    filter by domain and date range (lib/listView.ts). Sort keys
+--    are generated columns so pages can be fetched with a keyset
+--    cursor on (key, id). They use the "C" collation and fold ASCII
+--    letters only, so the browser can compute the same key for a
+--    realtime row and put it in the same place the server would.
+--    Like search_vector, both are dropped and re-added so
+--    re-running this script picks up changes to the expression.
+--    visit_count is kept by open_bookmark() in section 14.
+--    user_preferences keeps each user's last sort, layout and
+--    filters for when /dashboard is opened without any.
+-- ─────────────────────────────────────────────────────────────
+ALTER TABLE public.bookmarks DROP COLUMN IF EXISTS domain;
+ALTER TABLE public.bookmarks
+  ADD COLUMN domain TEXT COLLATE "C" NOT NULL
+  GENERATED ALWAYS AS (
+    coalesce(substring(lower(url COLLATE "C") FROM '^[a-z]+://(?:[^/@]*@)?(?:www\.)?([^/:?#]+)'), '')
+  ) STORED;
+
+ALTER TABLE public.bookmarks DROP COLUMN IF EXISTS sort_title;
+ALTER TABLE public.bookmarks
+  ADD COLUMN sort_title TEXT COLLATE "C" NOT NULL
+  GENERATED ALWAYS AS (lower(title COLLATE "C")) STORED;
+
+ALTER TABLE public.bookmarks
+  ADD COLUMN IF NOT EXISTS visit_count INT NOT NULL DEFAULT 0 CHECK (visit_count >= 0);
+
+-- Domain filter; the other sorts read the view's rows, which the page
+-- indexes in section 12 already narrow down
+CREATE INDEX IF NOT EXISTS bookmarks_domain_idx ON public.bookmarks(user_id, domain);
+
+CREATE TABLE IF NOT EXISTS public.user_preferences (
+  user_id        UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  dashboard_view JSONB NOT NULL DEFAULT '{}'::jsonb
+    CHECK (jsonb_typeof(dashboard_view) = 'object' AND pg_column_size(dashboard_view) <= 2000),
+  updated_at     TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.user_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own preferences" ON public.user_preferences;
+DROP POLICY IF EXISTS "Users can save their own preferences" ON public.user_preferences;
+DROP POLICY IF EXISTS "Users can update their own preferences" ON public.user_preferences;
+
+CREATE POLICY "Users can view their own preferences"
+  ON public.user_preferences
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can save their own preferences"
+  ON public.user_preferences
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own preferences"
+  ON public.user_preferences
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+
+-- ─────────────────────────────────────────────────────────────
+-- 14. Link visits and insights
+--    Links on the dashboard, the share pages and tracked exports
+--    point at /go/<id>, which calls open_bookmark() and redirects to
+--    the URL it returns. It counts the visit and stamps
+--    last_visited_at for anyone who can see the bookmark: its owner,
+--    collection members, or visitors holding a live share link that
+--    includes it. Those visitors aren't signed in and viewers can't
+--    update rows, so it runs as its owner and checks access itself.
+--    The insights_* functions feed /insights. They cover the caller's
+--    personal list, leaving out the Trash, and run as the caller, so
+--    RLS applies.
+-- ─────────────────────────────────────────────────────────────
+ALTER TABLE public.bookmarks
+  ADD COLUMN IF NOT EXISTS last_visited_at TIMESTAMPTZ;
+
+-- Replaced by open_bookmark()
+DROP FUNCTION IF EXISTS public.record_bookmark_visit(UUID);
+
+-- NULL if the bookmark doesn't exist, is in the Trash or the caller can't open it
+CREATE OR REPLACE FUNCTION public.open_bookmark(target UUID, share_slug TEXT DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.bookmarks b
+  SET visit_count = b.visit_count + 1,
+      last_visited_at = NOW()
+  WHERE b.id = target
+    AND b.deleted_at IS NULL
+    AND (
+      (b.collection_id IS NULL AND b.user_id = auth.uid())
+      OR public.collection_role(b.collection_id) IS NOT NULL
+      OR (
+        share_slug IS NOT NULL
+        AND EXISTS (SELECT 1 FROM public.shared_bookmarks(share_slug, 1000) s WHERE s.id = b.id)
+      )
+    )
+  RETURNING b.url;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.open_bookmark(UUID, TEXT) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.insights_summary()
+RETURNS TABLE (total BIGINT, opened BIGINT, never_opened BIGINT, visits BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    count(*),
+    count(*) FILTER (WHERE visit_count > 0),
+    count(*) FILTER (WHERE visit_count = 0),
+    coalesce(sum(visit_count), 0)
+  FROM public.bookmarks
+  WHERE collection_id IS NULL AND user_id = auth.uid() AND deleted_at IS NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION public.insights_most_visited(max_results INT DEFAULT 10)
+RETURNS TABLE (id UUID, title TEXT, url TEXT, visit_count INT, last_visited_at TIMESTAMPTZ)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT b.id, b.title, b.url, b.visit_count, b.last_visited_at
+  FROM public.bookmarks b
+  WHERE b.collection_id IS NULL AND b.user_id = auth.uid() AND b.deleted_at IS NULL AND b.visit_count > 0
+  ORDER BY b.visit_count DESC, b.last_visited_at DESC NULLS LAST
+  LIMIT LEAST(max_results, 100);
+$$;
+
+-- Oldest first: the saves that have waited longest
+CREATE OR REPLACE FUNCTION public.insights_never_opened(max_results INT DEFAULT 10)
+RETURNS TABLE (id UUID, title TEXT, url TEXT, created_at TIMESTAMPTZ)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT b.id, b.title, b.url, b.created_at
+  FROM public.bookmarks b
+  WHERE b.collection_id IS NULL AND b.user_id = auth.uid() AND b.deleted_at IS NULL AND b.visit_count = 0
+  ORDER BY b.created_at ASC
+  LIMIT LEAST(max_results, 100);
+$$;
+
+CREATE OR REPLACE FUNCTION public.insights_top_domains(max_results INT DEFAULT 10)
+RETURNS TABLE (domain TEXT, bookmarks BIGINT, visits BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT b.domain, count(*), sum(b.visit_count)
+  FROM public.bookmarks b
+  WHERE b.collection_id IS NULL AND b.user_id = auth.uid() AND b.deleted_at IS NULL AND b.domain <> ''
+  GROUP BY b.domain
+  ORDER BY sum(b.visit_count) DESC, count(*) DESC, b.domain
+  LIMIT LEAST(max_results, 100);
+$$;
+
+-- One row per week (weeks start on Monday, UTC), including empty ones
+CREATE OR REPLACE FUNCTION public.insights_saves_per_week(weeks INT DEFAULT 12)
+RETURNS TABLE (week_start DATE, saves BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH series AS (
+    SELECT generate_series(
+      date_trunc('week', NOW() AT TIME ZONE 'UTC') - make_interval(weeks => LEAST(weeks, 104) - 1),
+      date_trunc('week', NOW() AT TIME ZONE 'UTC'),
+      INTERVAL '1 week'
+    ) AS week
+  )
+  SELECT s.week::date, count(b.id)
+  FROM series s
+  LEFT JOIN public.bookmarks b
+    ON b.collection_id IS NULL
+    AND b.user_id = auth.uid()
+    AND b.deleted_at IS NULL
+    AND date_trunc('week', b.created_at AT TIME ZONE 'UTC') = s.week
+  GROUP BY s.week
+  ORDER BY s.week;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.insights_summary() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.insights_most_visited(INT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.insights_never_opened(INT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.insights_top_domains(INT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.insights_saves_per_week(INT) TO authenticated;
+
+
+-- ─────────────────────────────────────────────────────────────
+-- 15. Trash
+--    Deleting a bookmark sets deleted_at (added in section 1) rather
+--    than removing the row, so it can be restored from /trash. Trashed
+--    rows stay visible under the same RLS policies: realtime needs
+--    that to tell other tabs a row was trashed or restored. Everything
+--    that lists bookmarks leaves them out instead — the functions above
+--    and the app's queries filter on deleted_at IS NULL.
+--    trashed_bookmarks is what /trash reads. It runs as the caller
+--    (security_invoker), so RLS still decides which rows come back.
+--    Rows trashed longer than the retention period are deleted for good
+--    by the scheduled /api/cron/purge-trash job.
+-- ─────────────────────────────────────────────────────────────
+-- /trash lists the most recently trashed first
+CREATE INDEX IF NOT EXISTS bookmarks_trash_idx
+  ON public.bookmarks(user_id, deleted_at DESC)
+  WHERE deleted_at IS NOT NULL;
+
+CREATE OR REPLACE VIEW public.trashed_bookmarks
+WITH (security_invoker = true)
+AS
+  SELECT id, user_id, collection_id, title, url, created_at, deleted_at
+  FROM public.bookmarks
+  WHERE deleted_at IS NOT NULL;
+
+GRANT SELECT ON public.trashed_bookmarks TO authenticated;
+
+
+-- ─────────────────────────────────────────────────────────────
+-- 16. Bulk actions
+--    The dashboard's batch trash, restore, tag, untag and move
+--    (lib/bulk.ts) each run as a single statement over the selected
+--    ids. They run as the caller, so RLS still decides what may be
+--    changed; rows it hides, or that are already in the requested
+--    state, are simply left out of the result, which is what the
+--    dashboard reports as skipped. Each returns the rows it changed
+--    so the browser can update its state without waiting for realtime.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.trash_bookmarks(ids UUID[])
+RETURNS SETOF UUID
+LANGUAGE sql
+VOLATILE
+SET search_path = public
+AS $$
+  UPDATE public.bookmarks
+  SET deleted_at = NOW()
+  WHERE id = ANY(ids) AND deleted_at IS NULL
+  RETURNING id;
+$$;
+
+-- Skips any whose link has been saved again in the same list since
+CREATE OR REPLACE FUNCTION public.restore_bookmarks(ids UUID[])
+RETURNS SETOF public.bookmarks
+LANGUAGE sql
+VOLATILE
+SET search_path = public
+AS $$
+  UPDATE public.bookmarks b
+  SET deleted_at = NULL
+  WHERE b.id = ANY(ids)
+    AND b.deleted_at IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM public.bookmarks live
+      WHERE live.deleted_at IS NULL
+        AND live.canonical_url = b.canonical_url
+        AND live.collection_id IS NOT DISTINCT FROM b.collection_id
+        AND (b.collection_id IS NOT NULL OR live.user_id = b.user_id)
+    )
+  RETURNING b.*;
+$$;
+
+-- Tags are the caller's own (created by the app first); only bookmarks
+-- the caller can edit are linked, matching the bookmark_tags insert
+-- policy so one read-only row can't fail the whole batch
+CREATE OR REPLACE FUNCTION public.tag_bookmarks(ids UUID[], tag_ids UUID[])
+RETURNS SETOF public.bookmark_tags
+LANGUAGE sql
+VOLATILE
+SET search_path = public
+AS $$
+  INSERT INTO public.bookmark_tags (bookmark_id, tag_id, user_id)
+  SELECT b.id, t.id, auth.uid()
+  FROM public.bookmarks b
+  CROSS JOIN public.tags t
+  WHERE b.id = ANY(ids)
+    AND b.deleted_at IS NULL
+    AND ((b.collection_id IS NULL AND b.user_id = auth.uid()) OR public.can_edit_collection(b.collection_id))
+    AND t.id = ANY(tag_ids)
+    AND t.user_id = auth.uid()
+  ON CONFLICT (bookmark_id, tag_id) DO NOTHING
+  RETURNING *;
+$$;
+
+CREATE OR REPLACE FUNCTION public.untag_bookmarks(ids UUID[], tag_ids UUID[])
+RETURNS SETOF public.bookmark_tags
+LANGUAGE sql
+VOLATILE
+SET search_path = public
+AS $$
+  DELETE FROM public.bookmark_tags
+  WHERE bookmark_id = ANY(ids) AND tag_id = ANY(tag_ids)
+  RETURNING *;
+$$;
+
+-- NULL target_collection = the caller's personal list, which takes
+-- ownership of rows moved out of a collection. A bookmark whose link is
+-- already in the target stays where it is.
+CREATE OR REPLACE FUNCTION public.move_bookmarks(ids UUID[], target_collection UUID DEFAULT NULL)
+RETURNS SETOF UUID
+LANGUAGE sql
+VOLATILE
+SET search_path = public
+AS $$
+  UPDATE public.bookmarks b
+  SET collection_id = target_collection,
+      user_id = CASE WHEN target_collection IS NULL THEN auth.uid() ELSE b.user_id END
+  WHERE b.id = ANY(ids)
+    AND b.deleted_at IS NULL
+    AND b.collection_id IS DISTINCT FROM target_collection
+    AND NOT EXISTS (
+      SELECT 1 FROM public.bookmarks other
+      WHERE other.deleted_at IS NULL
+        AND other.canonical_url = b.canonical_url
+        AND CASE
+          WHEN target_collection IS NULL THEN other.collection_id IS NULL AND other.user_id = auth.uid()
+          ELSE other.collection_id = target_collection
+        END
+    )
+  RETURNING b.id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.trash_bookmarks(UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.restore_bookmarks(UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.tag_bookmarks(UUID[], UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.untag_bookmarks(UUID[], UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.move_bookmarks(UUID[], UUID) TO authenticated;
+
+
+-- ─────────────────────────────────────────────────────────────
+-- 17. Notes and highlights
+--    The notes column, the bookmark_highlights table and their search
+--    vectors are created in sections 1 and 6. Notes are edited like the
+--    bookmark's other fields; the app renders them as Markdown without
+--    ever passing them through as HTML (lib/markdown.ts).
+--    Highlights follow the bookmark like archived copies do: anyone who
+--    can see the bookmark can read them, anyone who can edit it can add
+--    or remove them. They aren't edited in place — a highlight is a
+--    quote taken at a point in time.
+--    highlight_count is maintained by a trigger rather than the app, so
+--    it stays right whichever client adds or removes a highlight. Only
+--    people who can edit the bookmark get that far, so it runs as the
+--    caller.
+-- ─────────────────────────────────────────────────────────────
+CREATE INDEX IF NOT EXISTS bookmark_highlights_bookmark_id_idx
+  ON public.bookmark_highlights(bookmark_id, created_at);
+
+ALTER TABLE public.bookmark_highlights ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view highlights of visible bookmarks"
+  ON public.bookmark_highlights
+  FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.bookmarks b WHERE b.id = bookmark_id));
+
+CREATE POLICY "Users can highlight bookmarks they can edit"
+  ON public.bookmark_highlights
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.bookmarks b
+      WHERE b.id = bookmark_id
+        AND b.deleted_at IS NULL
+        AND ((b.collection_id IS NULL AND b.user_id = auth.uid()) OR public.can_edit_collection(b.collection_id))
+    )
+  );
+
+CREATE POLICY "Users can delete highlights of bookmarks they can edit"
+  ON public.bookmark_highlights
+  FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.bookmarks b
+      WHERE b.id = bookmark_id
+        AND ((b.collection_id IS NULL AND b.user_id = auth.uid()) OR public.can_edit_collection(b.collection_id))
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.count_bookmark_highlights()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  target UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    target := OLD.bookmark_id;
+  ELSE
+    target := NEW.bookmark_id;
+  END IF;
+
+  UPDATE public.bookmarks
+  SET highlight_count = (SELECT count(*) FROM public.bookmark_highlights WHERE bookmark_id = target)
+  WHERE id = target;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bookmark_highlights_count ON public.bookmark_highlights;
+CREATE TRIGGER bookmark_highlights_count
+  AFTER INSERT OR DELETE ON public.bookmark_highlights
+  FOR EACH ROW
+  EXECUTE FUNCTION public.count_bookmark_highlights();
+
+
+-- ─────────────────────────────────────────────────────────────
+-- 18. Tag rules for suggestions
+--    Each user's own "domain is / URL contains / title contains →
+--    tag" rules, managed from Settings. lib/autoTag.ts applies them
+--    alongside its built-in domain rules when suggesting tags; the
+--    rules never tag anything by themselves. Patterns are stored
+--    lowercased, and tag_name follows the tags table's limit.
+-- ─────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.tag_rules (
+  id         UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id    UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  field      TEXT NOT NULL CHECK (field IN ('domain', 'url', 'title')),
+  pattern    TEXT NOT NULL CHECK (char_length(pattern) > 0 AND char_length(pattern) <= 200 AND pattern = lower(pattern)),
+  tag_name   TEXT NOT NULL CHECK (char_length(tag_name) > 0 AND char_length(tag_name) <= 50),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, field, pattern, tag_name)
+);
+
+ALTER TABLE public.tag_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own tag rules"
+  ON public.tag_rules
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own tag rules"
+  ON public.tag_rules
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own tag rules"
+  ON public.tag_rules
+  FOR DELETE
+  USING (auth.uid() = user_id);
 
 
 -- ─────────────────────────────────────────────────────────────
--- 4. Enable Realtime for the bookmarks table
+-- 19. Enable Realtime for the bookmarks and tag tables
 --    Required for Supabase Realtime subscriptions to work.
+--    INSERT, UPDATE and DELETE events are all delivered.
 -- ─────────────────────────────────────────────────────────────
 -- Run this in the SQL Editor to add bookmarks to the realtime publication:
 ALTER PUBLICATION supabase_realtime ADD TABLE public.bookmarks;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.tags;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.bookmark_tags;
 
 
 -- ─────────────────────────────────────────────────────────────
--- 5. (Optional) Verify setup — run these SELECT statements to check
+-- 20. (Optional) Verify setup — run these SELECT statements to check
 -- ─────────────────────────────────────────────────────────────
 
 -- Check the table exists: